@@ -1,18 +1,64 @@
+export { AbortSignalLike } from "./src/Cancellation";
+export { CircuitState } from "./src/CircuitBreaker";
 export {
+    AbortError,
+    BadRequestError,
+    CapacityExceededError,
+    CircuitOpenError,
+    DeadlineExceededError,
+    FailedAttempt,
+    InvalidSessionError,
     isBadRequestException,
     isInvalidParameterException,
     isInvalidSessionException,
     isOccConflictException,
     isResourceNotFoundException,
     isResourcePreconditionNotMetException,
-    isTransactionExpiredException
+    isThrottlingException,
+    isTransactionExpiredException,
+    NestedTransactionError,
+    OccConflictError,
+    QldbDriverError,
+    QldbErrorContext,
+    SessionPoolEmptyError,
+    ThrottlingError,
+    TransactionClosedError,
+    TransactionExpiredError
 } from "./src/errors/Errors";
+export { DriverEventListener, DriverEvents } from "./src/DriverEvents";
+export { Logger, LogFields, LogLevel } from "./src/LogUtil";
 export { QldbDriver } from "./src/QldbDriver";
+export {
+    AdaptiveConcurrencyOptions,
+    BeginTransactionOptions,
+    CircuitBreakerOptions,
+    CloseOptions,
+    CloseSummary,
+    ExecuteLambdaOptions,
+    NestedTransactionMode,
+    QldbDriverHooks,
+    QldbDriverOptions,
+    RetryBudgetOptions
+} from "./src/QldbDriverOptions";
+export { IonToJsOptions, ionToJs, ionToJsMapper } from "./src/mapping/IonToJsMapper";
+export { MappingOptions, ResultMapper } from "./src/mapping/ResultMapper";
+export { MetricLabels, MetricsSink } from "./src/metrics/MetricsSink";
+export { PrometheusMetricsSink } from "./src/metrics/PrometheusMetricsSink";
 export { Result } from "./src/Result";
+export { InMemoryQldbTransport, InMemoryQldbTransportOptions } from "./src/simulator/InMemoryQldbTransport";
 export { Transaction } from "./src/Transaction";
 export { TransactionExecutor } from "./src/TransactionExecutor";
+export { TransactionHandle } from "./src/TransactionHandle";
 export { RetryConfig } from "./src/retry/RetryConfig";
+export { QldbTransport } from "./src/transport/QldbTransport";
+export { RecordingTransport } from "./src/transport/RecordingTransport";
+export { ReplayTransport } from "./src/transport/ReplayTransport";
+export { SdkV2Transport } from "./src/transport/SdkV2Transport";
+export { QldbSessionClientV3, SdkV3Transport } from "./src/transport/SdkV3Transport";
+export { RecordedError, TransportExchange, TransportFixture } from "./src/transport/TransportFixture";
 export { IOUsage } from "./src/stats/IOUsage";
+export { PoolStats } from "./src/stats/PoolStats";
 export { TimingInformation } from "./src/stats/TimingInformation";
 export { BackoffFunction } from "./src/retry/BackoffFunction";
-export { defaultRetryConfig } from "./src/retry/DefaultRetryConfig"
+export { RetryPredicate } from "./src/retry/RetryPredicate";
+export { defaultRetryConfig, defaultRetryPredicate } from "./src/retry/DefaultRetryConfig"
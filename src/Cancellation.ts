@@ -0,0 +1,50 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+import { AbortError } from "./errors/Errors";
+
+/**
+ * The subset of the standard `AbortSignal` used by the driver. The `signal` of an `AbortController`, available globally
+ * from Node.js 15, or from the `abort-controller` package, satisfies this interface.
+ */
+export interface AbortSignalLike {
+    readonly aborted: boolean;
+    readonly reason?: any;
+    addEventListener(type: "abort", listener: () => void): void;
+    removeEventListener(type: "abort", listener: () => void): void;
+}
+
+/**
+ * Throw an {@linkcode AbortError} if the given signal has been aborted.
+ * @param signal The signal to check. No-op if null.
+ * @throws {@linkcode AbortError} if the signal has been aborted.
+ */
+export function throwIfAborted(signal: AbortSignalLike): void {
+    if (signal != null && signal.aborted) {
+        throw new AbortError(signal.reason);
+    }
+}
+
+/**
+ * Call a listener once when the given signal is aborted.
+ * @param signal The signal to listen to. No-op if null.
+ * @param listener The listener to call.
+ * @returns A function which removes the listener. It must be called once the listener is no longer needed.
+ */
+export function onAbort(signal: AbortSignalLike, listener: () => void): () => void {
+    if (signal == null) {
+        return () => {};
+    }
+    signal.addEventListener("abort", listener);
+    return () => signal.removeEventListener("abort", listener);
+}
@@ -0,0 +1,181 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+import { CircuitOpenError } from "./errors/Errors";
+import { CircuitBreakerOptions } from "./QldbDriverOptions";
+
+/**
+ * The state of the circuit breaker of a {@linkcode QldbDriver}:
+ *
+ * - "closed" lets transactions through, while tracking the rate at which they fail.
+ * - "open" rejects transactions with {@linkcode CircuitOpenError}.
+ * - "half-open" lets a limited number of probing transactions through, closing the circuit once one succeeds and
+ *   opening it again once one fails.
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * A circuit breaker which trips once the rate of failed requests to QLDB within a sliding window of the latest outcomes
+ * exceeds a threshold. A circuit breaker created without options is disabled, and always closed. This class is used
+ * internally by the driver and is not meant to be used directly by developers.
+ */
+export class CircuitBreaker {
+    private _isEnabled: boolean;
+    private _failureRateThreshold: number;
+    private _minimumOutcomes: number;
+    private _windowSize: number;
+    private _openDurationMillis: number;
+    private _halfOpenMaxProbes: number;
+    private _onStateChange: (previousState: CircuitState, state: CircuitState) => void;
+    private _state: CircuitState;
+    private _outcomes: boolean[];
+    private _openedTime: number;
+    private _probeCount: number;
+
+    /**
+     * Creates a CircuitBreaker.
+     * @param options The options of the circuit breaker, or null to disable it.
+     * @param onStateChange The function called whenever the state of the circuit changes.
+     */
+    constructor(
+        options: CircuitBreakerOptions = null,
+        onStateChange: (previousState: CircuitState, state: CircuitState) => void = () => {}
+    ) {
+        this._isEnabled = options != null;
+        options = (options == null) ? {} : options;
+        this._failureRateThreshold = (options.failureRateThreshold == null) ? 0.5 : options.failureRateThreshold;
+        this._windowSize = (options.windowSize == null) ? 20 : options.windowSize;
+        this._minimumOutcomes = (options.minimumOutcomes == null) ? 10 : options.minimumOutcomes;
+        this._openDurationMillis = (options.openDurationMillis == null) ? 30000 : options.openDurationMillis;
+        this._halfOpenMaxProbes = (options.halfOpenMaxProbes == null) ? 1 : options.halfOpenMaxProbes;
+        this._onStateChange = onStateChange;
+        this._state = "closed";
+        this._outcomes = [];
+        this._openedTime = 0;
+        this._probeCount = 0;
+    }
+
+    /**
+     * @returns The current state of the circuit. An open circuit becomes half-open once the open duration has passed.
+     */
+    getState(): CircuitState {
+        if (this._state === "open" && Date.now() - this._openedTime >= this._openDurationMillis) {
+            this._transition("half-open");
+        }
+        return this._state;
+    }
+
+    /**
+     * Admit a transaction, unless the circuit is open, or half-open with all probes in flight.
+     * @returns True if the transaction was admitted as a probe of the half-open circuit, in which case
+     *          {@linkcode releaseProbe} must be called once it completes. False otherwise.
+     * @throws {@linkcode CircuitOpenError} when the transaction is not admitted.
+     */
+    admit(): boolean {
+        const state: CircuitState = this.getState();
+        if (state === "closed") {
+            return false;
+        }
+        if (state === "half-open" && this._probeCount < this._halfOpenMaxProbes) {
+            this._probeCount++;
+            return true;
+        }
+        throw new CircuitOpenError(this._getRemainingOpenMillis());
+    }
+
+    /**
+     * Release a probe admitted by {@linkcode admit}, so that another probe can be admitted if its outcome left the
+     * circuit half-open.
+     */
+    releaseProbe(): void {
+        if (this._state === "half-open" && this._probeCount > 0) {
+            this._probeCount--;
+        }
+    }
+
+    /**
+     * Stop a transaction from being retried while the circuit is open.
+     * @param cause The error the transaction failed with.
+     * @throws {@linkcode CircuitOpenError} when the circuit is open.
+     */
+    throwIfOpen(cause?: Error): void {
+        if (this.getState() === "open") {
+            throw new CircuitOpenError(this._getRemainingOpenMillis(), cause);
+        }
+    }
+
+    /**
+     * Record a successful request, closing a half-open circuit.
+     */
+    recordSuccess(): void {
+        if (!this._isEnabled) {
+            return;
+        }
+        if (this._state === "half-open") {
+            this._transition("closed");
+        } else if (this._state === "closed") {
+            this._recordOutcome(false);
+        }
+    }
+
+    /**
+     * Record a failed request, opening a half-open circuit, or a closed one if the failure rate exceeds the threshold.
+     */
+    recordFailure(): void {
+        if (!this._isEnabled) {
+            return;
+        }
+        if (this._state === "half-open") {
+            this._transition("open");
+        } else if (this._state === "closed") {
+            this._recordOutcome(true);
+            const failureCount: number = this._outcomes.filter((isFailure: boolean) => isFailure).length;
+            if (this._outcomes.length >= this._minimumOutcomes &&
+                failureCount / this._outcomes.length >= this._failureRateThreshold) {
+                this._transition("open");
+            }
+        }
+    }
+
+    /**
+     * Add an outcome to the sliding window, dropping the oldest outcome once the window is full.
+     * @param isFailure Whether the request failed.
+     */
+    private _recordOutcome(isFailure: boolean): void {
+        this._outcomes.push(isFailure);
+        if (this._outcomes.length > this._windowSize) {
+            this._outcomes.shift();
+        }
+    }
+
+    /**
+     * @returns The time, in milliseconds, until an open circuit becomes half-open, or 0 if it is not open.
+     */
+    private _getRemainingOpenMillis(): number {
+        if (this._state !== "open") {
+            return 0;
+        }
+        return Math.max(this._openDurationMillis - (Date.now() - this._openedTime), 0);
+    }
+
+    private _transition(state: CircuitState): void {
+        const previousState: CircuitState = this._state;
+        this._state = state;
+        this._outcomes = [];
+        this._probeCount = 0;
+        if (state === "open") {
+            this._openedTime = Date.now();
+        }
+        this._onStateChange(previousState, state);
+    }
+}
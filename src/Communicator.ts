@@ -11,58 +11,85 @@
  * and limitations under the License.
  */
 
-import { QLDBSession } from "aws-sdk";
 import {
     AbortTransactionResult,
     CommitDigest,
     CommitTransactionResult,
     ExecuteStatementResult,
     FetchPageResult,
+    IOUsage,
     PageToken,
     SendCommandRequest,
     SendCommandResult,
     StartTransactionResult,
+    TimingInformation,
     ValueHolder
 } from "aws-sdk/clients/qldbsession";
 import { inspect } from "util";
 
-import { debug, warn } from "./LogUtil";
+import { toQldbDriverError } from "./errors/Errors";
+import { ContextLogger, hashSessionToken, LogLevel } from "./LogUtil";
+import { fingerprintStatement, traceAsync, TraceSpan } from "./tracing/Tracing";
+import { QldbTransport } from "./transport/QldbTransport";
+
+/**
+ * The statistics carried by the result of a command, where QLDB returns them.
+ */
+interface CommandStatistics {
+    ConsumedIOs?: IOUsage;
+    TimingInformation?: TimingInformation;
+}
 
 /**
  * A class representing an independent session to a QLDB ledger that handles endpoint requests. This class is used in
  * {@linkcode QldbDriver} and {@linkcode QldbSession}. This class is not meant to be used directly by developers.
  */
 export class Communicator {
-    private _qldbClient: QLDBSession;
+    private _transport: QldbTransport;
     private _ledgerName: string;
     private _sessionToken: string;
+    private _logger: ContextLogger;
 
     /**
      * Creates a Communicator.
-     * @param qldbClient The low level service client.
+     * @param transport The transport sending the requests to QLDB.
      * @param ledgerName The QLDB ledger name.
      * @param sessionToken The initial session token representing the session connection.
+     * @param logger The logger to write to.
      */
-    private constructor(qldbClient: QLDBSession, ledgerName: string, sessionToken: string) {
-        this._qldbClient = qldbClient;
+    private constructor(transport: QldbTransport, ledgerName: string, sessionToken: string, logger: ContextLogger) {
+        this._transport = transport;
         this._ledgerName = ledgerName;
         this._sessionToken = sessionToken;
+        this._logger = logger.child({ sessionTokenHash: hashSessionToken(sessionToken) });
     }
 
     /**
      * Static factory method that creates a Communicator object.
-     * @param qldbClient The low level client that communicates with QLDB.
+     * @param transport The transport sending the requests to QLDB.
      * @param ledgerName The QLDB ledger name.
+     * @param logger The logger to write to. Defaults to the logger set within the AWS SDK.
      * @returns Promise which fulfills with a Communicator.
+     * @throws {@linkcode QldbDriverError} When the session could not be started.
      */
-    static async create(qldbClient: QLDBSession, ledgerName: string): Promise<Communicator> {
+    static async create(
+        transport: QldbTransport,
+        ledgerName: string,
+        logger: ContextLogger = new ContextLogger()
+    ): Promise<Communicator> {
         const request: SendCommandRequest = {
             StartSession: {
                 LedgerName: ledgerName
             }
         };
-        const result: SendCommandResult = await qldbClient.sendCommand(request).promise();
-        return new Communicator(qldbClient, ledgerName, result.StartSession.SessionToken);
+        const result: SendCommandResult = await Communicator._traceCommand(request, ledgerName, async () => {
+            try {
+                return await transport.sendCommand(request);
+            } catch (e) {
+                throw toQldbDriverError(e, { ledgerName: ledgerName });
+            }
+        });
+        return new Communicator(transport, ledgerName, result.StartSession.SessionToken, logger);
     }
 
     /**
@@ -133,7 +160,7 @@ export class Communicator {
             await this._sendCommand(request);
         } catch (e) {
             // We will only log issues ending the session, as QLDB will clean them after a timeout.
-            warn(`Errors ending session: ${e}.`);
+            this._logger.warn(`Errors ending session: ${e}.`);
         }
     }
 
@@ -156,11 +183,11 @@ export class Communicator {
     }
 
     /**
-     * Get the low-level service client that communicates with QLDB.
-     * @returns The low-level service client.
+     * Get the transport sending the requests to QLDB.
+     * @returns The transport.
      */
-    getQldbClient(): QLDBSession {
-        return this._qldbClient;
+    getTransport(): QldbTransport {
+        return this._transport;
     }
 
     /**
@@ -185,13 +212,86 @@ export class Communicator {
     }
 
     /**
-     * Call the sendCommand method of the low level service client.
+     * Send a request to QLDB with the transport.
      * @param request A SendCommandRequest object containing the request information to be sent to QLDB.
      * @returns Promise which fulfills with a SendCommandResult object.
+     * @throws {@linkcode QldbDriverError} Wrapping the error returned by the transport, with the ledger
+     *         name and, where the request has them, the transaction ID and statement.
      */
     private async _sendCommand(request: SendCommandRequest): Promise<SendCommandResult> {
-        const result: SendCommandResult = await this._qldbClient.sendCommand(request).promise();
-        debug(`Received response: ${inspect(result, { depth: 2 })}`);
+        const result: SendCommandResult = await Communicator._traceCommand(request, this._ledgerName, async () => {
+            try {
+                return await this._transport.sendCommand(request);
+            } catch (e) {
+                throw toQldbDriverError(e, {
+                    ledgerName: this._ledgerName,
+                    transactionId: Communicator._getTransactionId(request),
+                    statement: (request.ExecuteStatement != null) ? request.ExecuteStatement.Statement : undefined
+                });
+            }
+        });
+        if (this._logger.isEnabled(LogLevel.DEBUG)) {
+            this._logger.debug(`Received response: ${inspect(result, { depth: 2 })}`);
+        }
         return result;
     }
+
+    /**
+     * Send a command within a span named after the command, carrying the ledger name, transaction ID and statement
+     * fingerprint of the request, and the IOs consumed and server processing time of the result.
+     * @param request The request sent to QLDB.
+     * @param ledgerName The QLDB ledger name.
+     * @param send The function sending the request.
+     * @returns Promise which fulfills with the SendCommandResult returned by the function.
+     */
+    private static _traceCommand(
+        request: SendCommandRequest,
+        ledgerName: string,
+        send: () => Promise<SendCommandResult>
+    ): Promise<SendCommandResult> {
+        const command: keyof SendCommandResult = <keyof SendCommandResult> Object.keys(request)
+            .filter((key: string) => key !== "SessionToken")[0];
+        return traceAsync(`QLDB ${command}`, "client", {
+            "db.system": "qldb",
+            "db.name": ledgerName,
+            "qldb.command": command,
+            "qldb.transaction_id": Communicator._getTransactionId(request),
+            "qldb.statement_fingerprint":
+                (request.ExecuteStatement != null) ? fingerprintStatement(request.ExecuteStatement.Statement) : undefined
+        }, async (span: TraceSpan) => {
+            const result: SendCommandResult = await send();
+            const commandResult: CommandStatistics = (result != null) ? result[command] : null;
+            if (commandResult != null) {
+                if (commandResult.ConsumedIOs != null) {
+                    span.setAttribute("qldb.read_ios", commandResult.ConsumedIOs.ReadIOs);
+                    span.setAttribute("qldb.write_ios", commandResult.ConsumedIOs.WriteIOs);
+                }
+                if (commandResult.TimingInformation != null) {
+                    span.setAttribute(
+                        "qldb.processing_time_millis",
+                        commandResult.TimingInformation.ProcessingTimeMilliseconds
+                    );
+                }
+            }
+            return result;
+        });
+    }
+
+    /**
+     * Get the ID of the transaction a request refers to.
+     * @param request The request sent to QLDB.
+     * @returns The transaction ID, or undefined if the request does not refer to a transaction.
+     */
+    private static _getTransactionId(request: SendCommandRequest): string {
+        if (request.ExecuteStatement != null) {
+            return request.ExecuteStatement.TransactionId;
+        }
+        if (request.FetchPage != null) {
+            return request.FetchPage.TransactionId;
+        }
+        if (request.CommitTransaction != null) {
+            return request.CommitTransaction.TransactionId;
+        }
+        return undefined;
+    }
 }
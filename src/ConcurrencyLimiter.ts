@@ -0,0 +1,104 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+import { AdaptiveConcurrencyOptions } from "./QldbDriverOptions";
+
+/**
+ * An AIMD (additive increase, multiplicative decrease) limit on the number of concurrent transactions of a driver. The
+ * limit starts at its maximum. It is multiplied by the decrease ratio whenever a transaction fails with an OCC conflict
+ * or is throttled, at most once per decrease interval so that a burst of conflicts among transactions already in
+ * flight counts as one, and grows by the increase step once a limit's worth of transactions has committed. A limiter
+ * created without options is disabled, and stays at its maximum. This class is used internally by the driver and is
+ * not meant to be used directly by developers.
+ */
+export class ConcurrencyLimiter {
+    private _isEnabled: boolean;
+    private _minLimit: number;
+    private _maxLimit: number;
+    private _increaseStep: number;
+    private _decreaseRatio: number;
+    private _decreaseIntervalMillis: number;
+    private _onLimitChange: (previousLimit: number, limit: number) => void;
+    private _estimate: number;
+    private _lastDecreaseTime: number;
+
+    /**
+     * Creates a ConcurrencyLimiter.
+     * @param maxLimit The maximum limit, which is also the initial limit.
+     * @param options The options of the limiter, or null to disable it.
+     * @param onLimitChange The function called whenever the limit changes.
+     */
+    constructor(
+        maxLimit: number,
+        options: AdaptiveConcurrencyOptions = null,
+        onLimitChange: (previousLimit: number, limit: number) => void = () => {}
+    ) {
+        this._isEnabled = options != null;
+        options = (options == null) ? {} : options;
+        this._maxLimit = maxLimit;
+        this._minLimit = (options.minLimit == null) ? 1 : options.minLimit;
+        this._increaseStep = (options.increaseStep == null) ? 1 : options.increaseStep;
+        this._decreaseRatio = (options.decreaseRatio == null) ? 0.5 : options.decreaseRatio;
+        this._decreaseIntervalMillis =
+            (options.decreaseIntervalMillis == null) ? 1000 : options.decreaseIntervalMillis;
+        this._onLimitChange = onLimitChange;
+        this._estimate = maxLimit;
+        this._lastDecreaseTime = -Infinity;
+    }
+
+    /**
+     * @returns The number of transactions which may currently be in flight.
+     */
+    getLimit(): number {
+        return Math.floor(this._estimate);
+    }
+
+    /**
+     * Record a committed transaction, growing the limit by a fraction of the increase step.
+     */
+    recordSuccess(): void {
+        if (!this._isEnabled) {
+            return;
+        }
+        this._update(Math.min(this._estimate + this._increaseStep / this.getLimit(), this._maxLimit));
+    }
+
+    /**
+     * Record a transaction which failed with an OCC conflict or was throttled, shrinking the limit unless it was
+     * already shrunk within the decrease interval.
+     */
+    recordCongestion(): void {
+        if (!this._isEnabled) {
+            return;
+        }
+        const now: number = Date.now();
+        if (now - this._lastDecreaseTime < this._decreaseIntervalMillis) {
+            return;
+        }
+        this._lastDecreaseTime = now;
+        this._update(Math.max(Math.floor(this._estimate * this._decreaseRatio), this._minLimit));
+    }
+
+    /**
+     * Set the estimate the limit is derived from, notifying the listener if the limit changes.
+     * @param estimate The new estimate.
+     */
+    private _update(estimate: number): void {
+        const previousLimit: number = this.getLimit();
+        this._estimate = estimate;
+        const limit: number = this.getLimit();
+        if (limit !== previousLimit) {
+            this._onLimitChange(previousLimit, limit);
+        }
+    }
+}
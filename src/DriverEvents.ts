@@ -0,0 +1,148 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+import { CircuitState } from "./CircuitBreaker";
+import { ContextLogger } from "./LogUtil";
+
+/**
+ * The lifecycle events emitted by a {@linkcode QldbDriver}, mapped to the type of the event passed to listeners.
+ */
+export interface DriverEvents {
+    /**
+     * A new session was started.
+     */
+    sessionCreated: {
+        sessionTokenHash: string;
+    };
+
+    /**
+     * A session was discarded because QLDB rejected it with an `InvalidSessionException`.
+     */
+    sessionDiscarded: {
+        sessionTokenHash: string;
+        error: Error;
+    };
+
+    /**
+     * A transaction was started.
+     */
+    transactionStarted: {
+        transactionId: string;
+        attempt: number;
+    };
+
+    /**
+     * A failed transaction is about to be retried after the given delay.
+     */
+    retryScheduled: {
+        transactionId: string;
+        retryAttempt: number;
+        delayMillis: number;
+        error: Error;
+    };
+
+    /**
+     * A transaction was committed and its commit digest verified.
+     */
+    transactionCommitted: {
+        transactionId: string;
+        commitDigest: Uint8Array;
+    };
+
+    /**
+     * A transaction lambda aborted its transaction by calling {@linkcode TransactionExecutor.abort}.
+     */
+    lambdaAborted: {
+        transactionId: string;
+    };
+
+    /**
+     * The state of the circuit breaker changed. See {@linkcode QldbDriverOptions.circuitBreaker}.
+     */
+    circuitStateChanged: {
+        previousState: CircuitState;
+        state: CircuitState;
+    };
+}
+
+/**
+ * A listener of a lifecycle event.
+ */
+export type DriverEventListener<K extends keyof DriverEvents> = (event: DriverEvents[K]) => void;
+
+/**
+ * The listeners of every event of an event map, by event name.
+ */
+type DriverEventListenerMap<E> = { [K in keyof E]?: ((event: E[K]) => void)[] };
+
+/**
+ * A typed emitter of {@linkcode DriverEvents}, shared by a driver, its sessions and their transactions. Listeners are
+ * invoked synchronously, in the order in which they were added. Errors thrown by a listener are logged and otherwise
+ * ignored. The events are typed by the event map `E`, which defaults to {@linkcode DriverEvents}. This class is used
+ * internally by the driver and is not meant to be used directly by developers.
+ */
+export class DriverEventEmitter<E extends DriverEvents = DriverEvents> {
+    private _listeners: DriverEventListenerMap<E>;
+    private _logger: ContextLogger;
+
+    /**
+     * Creates a DriverEventEmitter.
+     * @param logger The logger to write errors thrown by listeners to.
+     */
+    constructor(logger: ContextLogger = new ContextLogger()) {
+        this._listeners = {};
+        this._logger = logger;
+    }
+
+    /**
+     * Add a listener of an event.
+     * @param eventName The name of the event.
+     * @param listener The listener.
+     * @throws TypeError if the listener is not a function.
+     */
+    on<K extends keyof E>(eventName: K, listener: (event: E[K]) => void): void {
+        if (typeof listener !== "function") {
+            throw new TypeError("Value for listener must be a function.");
+        }
+        this._listeners[eventName] = this._getListeners(eventName).concat(listener);
+    }
+
+    /**
+     * Remove a listener of an event. No-op if the listener was not added.
+     * @param eventName The name of the event.
+     * @param listener The listener.
+     */
+    off<K extends keyof E>(eventName: K, listener: (event: E[K]) => void): void {
+        this._listeners[eventName] = this._getListeners(eventName).filter((l: (event: E[K]) => void) => l !== listener);
+    }
+
+    /**
+     * Invoke the listeners of an event.
+     * @param eventName The name of the event.
+     * @param event The event.
+     */
+    emit<K extends keyof E>(eventName: K, event: E[K]): void {
+        this._getListeners(eventName).forEach((listener: (event: E[K]) => void) => {
+            try {
+                listener(event);
+            } catch (e) {
+                this._logger.warn(`Ignored error thrown by a listener of the ${eventName} event: ${e}.`);
+            }
+        });
+    }
+
+    private _getListeners<K extends keyof E>(eventName: K): ((event: E[K]) => void)[] {
+        const listeners: ((event: E[K]) => void)[] = this._listeners[eventName];
+        return (listeners == null) ? [] : listeners;
+    }
+}
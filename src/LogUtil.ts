@@ -12,64 +12,188 @@
  */
 
 import { config } from "aws-sdk";
+import { createHash } from "crypto";
 
 import { version } from "../package.json";
 
 /**
- * Logs a debug level message.
- * @param line The message to be logged.
+ * The severity of a log message. A driver only forwards messages at or above its configured level to its logger.
  */
-export function debug(line: string): void {
-    if (isLoggerSet()) {
-        _prepend(line, "DEBUG");
-    }
+export enum LogLevel {
+    DEBUG = 0,
+    INFO = 1,
+    WARN = 2,
+    ERROR = 3,
+    OFF = 4
 }
 
 /**
- * Logs an error level message.
- * @param line The message to be logged.
+ * Structured context attached to every message the driver logs. Fields which are unknown at the point of logging are
+ * omitted.
  */
-export function error(line: string): void {
-    if (isLoggerSet()) {
-        _prepend(line, "ERROR");
-    }
+export interface LogFields {
+    /**
+     * The name of the ledger the driver is connected to.
+     */
+    ledgerName?: string;
+
+    /**
+     * A short SHA-256 hash of the session token, identifying the session without exposing the token.
+     */
+    sessionTokenHash?: string;
+
+    /**
+     * The ID of the transaction.
+     */
+    transactionId?: string;
+
+    /**
+     * The number of the transaction execution attempt, where 0 is the first attempt.
+     */
+    attempt?: number;
 }
 
 /**
- * Logs an info level message.
- * @param line The message to be logged.
+ * A logger the driver writes structured messages to. The `console` object satisfies this interface, as do most
+ * structured logging libraries.
  */
-export function info(line: string): void {
-    if (isLoggerSet()) {
-        _prepend(line, "INFO");
-    }
+export interface Logger {
+    debug(message: string, fields: LogFields): void;
+    info(message: string, fields: LogFields): void;
+    warn(message: string, fields: LogFields): void;
+    error(message: string, fields: LogFields): void;
 }
 
 /**
- * @returns A boolean indicating whether a logger has been set within the AWS SDK.
+ * A Logger which writes plain string messages to the logger set within the AWS SDK, if one is set. This is the logger
+ * used by a driver when none is configured.
  */
-export function isLoggerSet(): boolean {
-    return config.logger !== null;
-}
+const sdkLogger: Logger = {
+    debug: (message: string) => _prepend(message, "DEBUG"),
+    info: (message: string) => _prepend(message, "INFO"),
+    warn: (message: string) => _prepend(message, "WARN"),
+    error: (message: string) => _prepend(message, "ERROR")
+};
 
 /**
- * Logs a message.
- * @param line The message to be logged.
+ * A wrapper around a {@linkcode Logger} which filters messages below a minimum level and merges a set of context
+ * fields into every message. This class is used internally by the driver and is not meant to be used directly by
+ * developers.
  */
-export function log(line: string): void {
-    if (isLoggerSet()) {
-        _prepend(line, "LOG");
+export class ContextLogger {
+    private _logger: Logger;
+    private _level: LogLevel;
+    private _fields: LogFields;
+
+    /**
+     * Creates a ContextLogger.
+     * @param logger The logger to write to. Defaults to the logger set within the AWS SDK.
+     * @param level The minimum level of messages to write. Defaults to {@linkcode LogLevel.DEBUG}.
+     * @param fields The context fields to attach to every message.
+     */
+    constructor(logger: Logger = sdkLogger, level: LogLevel = LogLevel.DEBUG, fields: LogFields = {}) {
+        this._logger = logger;
+        this._level = level;
+        this._fields = fields;
+    }
+
+    /**
+     * Create a logger writing to the same logger at the same level, with additional context fields.
+     * @param fields The context fields to add. These take precedence over fields of the same name of this logger.
+     * @returns The new ContextLogger.
+     */
+    child(fields: LogFields): ContextLogger {
+        return new ContextLogger(this._logger, this._level, { ...this._fields, ...fields });
+    }
+
+    /**
+     * Get the context fields attached to every message.
+     * @returns The context fields.
+     */
+    getFields(): LogFields {
+        return this._fields;
+    }
+
+    /**
+     * Is a message at the given level written? Useful to avoid building expensive messages which would be dropped.
+     * @param level The log level.
+     * @returns True if messages at the given level are written. False otherwise.
+     */
+    isEnabled(level: LogLevel): boolean {
+        return level !== LogLevel.OFF && level >= this._level;
+    }
+
+    /**
+     * Logs a debug level message.
+     * @param message The message to be logged.
+     * @param fields Additional context fields for this message.
+     */
+    debug(message: string, fields?: LogFields): void {
+        if (this.isEnabled(LogLevel.DEBUG)) {
+            this._logger.debug(message, this._merge(fields));
+        }
+    }
+
+    /**
+     * Logs an info level message.
+     * @param message The message to be logged.
+     * @param fields Additional context fields for this message.
+     */
+    info(message: string, fields?: LogFields): void {
+        if (this.isEnabled(LogLevel.INFO)) {
+            this._logger.info(message, this._merge(fields));
+        }
+    }
+
+    /**
+     * Logs a warning level message.
+     * @param message The message to be logged.
+     * @param fields Additional context fields for this message.
+     */
+    warn(message: string, fields?: LogFields): void {
+        if (this.isEnabled(LogLevel.WARN)) {
+            this._logger.warn(message, this._merge(fields));
+        }
+    }
+
+    /**
+     * Logs an error level message.
+     * @param message The message to be logged.
+     * @param fields Additional context fields for this message.
+     */
+    error(message: string, fields?: LogFields): void {
+        if (this.isEnabled(LogLevel.ERROR)) {
+            this._logger.error(message, this._merge(fields));
+        }
+    }
+
+    /**
+     * Merge the given fields into the context fields of this logger.
+     * @param fields The fields to merge.
+     * @returns The merged fields.
+     */
+    private _merge(fields: LogFields): LogFields {
+        return (fields == null) ? { ...this._fields } : { ...this._fields, ...fields };
     }
 }
 
 /**
- * Logs a warning level message.
- * @param line The message to be logged.
+ * Hash a session token so that it can be logged without exposing the token.
+ * @param sessionToken The session token.
+ * @returns The first 16 hexadecimal characters of the SHA-256 hash of the session token.
  */
-export function warn(line: string): void {
-    if (isLoggerSet()) {
-        _prepend(line, "WARN");
+export function hashSessionToken(sessionToken: string): string {
+    if (sessionToken == null) {
+        return undefined;
     }
+    return createHash("sha256").update(sessionToken).digest("hex").substring(0, 16);
+}
+
+/**
+ * @returns A boolean indicating whether a logger has been set within the AWS SDK.
+ */
+export function isLoggerSet(): boolean {
+    return config.logger !== null;
 }
 
 /**
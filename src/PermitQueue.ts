@@ -0,0 +1,184 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+import { AbortSignalLike, onAbort } from "./Cancellation";
+import { AbortError } from "./errors/Errors";
+
+interface Waiter {
+    resolve: (isAcquired: boolean) => void;
+    reject: (e: Error) => void;
+    timer: NodeJS.Timeout;
+    removeAbortListener: () => void;
+}
+
+/**
+ * A counting semaphore which hands out permits to waiting callers in FIFO order. Unlike a plain semaphore, callers can
+ * bound how long they are willing to wait, and all pending waiters can be cancelled at once, e.g. on driver shutdown.
+ * This class is used in {@linkcode QldbDriver} and is not meant to be used directly by developers.
+ */
+export class PermitQueue {
+    private _permits: number;
+    private _permitsToRemove: number;
+    private _waiters: Waiter[];
+
+    /**
+     * Creates a PermitQueue.
+     * @param permits The number of permits initially available.
+     */
+    constructor(permits: number) {
+        this._permits = permits;
+        this._permitsToRemove = 0;
+        this._waiters = [];
+    }
+
+    /**
+     * Acquire a permit, waiting up to `timeoutMillis` for one to be released if none is available. Waiters are served
+     * in the order in which they started waiting.
+     * @param timeoutMillis The maximum time to wait in milliseconds. A value of 0 does not wait at all.
+     * @param signal An optional signal which stops the wait when aborted.
+     * @returns Promise which fulfills with true if a permit was acquired, or false if the timeout elapsed first.
+     *          Rejects with {@linkcode AbortError} if the signal is aborted first.
+     */
+    acquire(timeoutMillis: number, signal?: AbortSignalLike): Promise<boolean> {
+        if (signal != null && signal.aborted) {
+            return Promise.reject(new AbortError(signal.reason));
+        }
+        if (this.tryAcquire()) {
+            return Promise.resolve(true);
+        }
+        if (timeoutMillis <= 0) {
+            return Promise.resolve(false);
+        }
+        return new Promise((resolve, reject) => {
+            const waiter: Waiter = {
+                resolve: resolve,
+                reject: reject,
+                timer: null,
+                removeAbortListener: null
+            };
+            waiter.timer = setTimeout(() => {
+                this._removeWaiter(waiter);
+                resolve(false);
+            }, timeoutMillis);
+            waiter.removeAbortListener = onAbort(signal, () => {
+                this._removeWaiter(waiter);
+                reject(new AbortError(signal.reason));
+            });
+            this._waiters.push(waiter);
+        });
+    }
+
+    /**
+     * Add permits, handing them to waiting callers first. Permits still to be removed by {@linkcode removePermits} are
+     * kept instead.
+     * @param count The number of permits to add.
+     */
+    addPermits(count: number): void {
+        const keptCount: number = Math.min(count, this._permitsToRemove);
+        this._permitsToRemove -= keptCount;
+        for (let i = keptCount; i < count; i++) {
+            this.release();
+        }
+    }
+
+    /**
+     * Remove permits. Available permits are removed at once, and permits held by callers are removed as they are
+     * released, so that callers are never interrupted.
+     * @param count The number of permits to remove.
+     */
+    removePermits(count: number): void {
+        const removedCount: number = Math.min(count, this._permits);
+        this._permits -= removedCount;
+        this._permitsToRemove += count - removedCount;
+    }
+
+    /**
+     * Get the number of permits that can be acquired without waiting.
+     * @returns The number of available permits.
+     */
+    getAvailablePermits(): number {
+        return this._permits;
+    }
+
+    /**
+     * Get the number of callers currently waiting for a permit.
+     * @returns The number of pending waiters.
+     */
+    getPendingWaiterCount(): number {
+        return this._waiters.length;
+    }
+
+    /**
+     * Reject every pending waiter with the given error. Permits held by callers are unaffected.
+     * @param e The error to reject the waiters with.
+     */
+    rejectAll(e: Error): void {
+        const waiters: Waiter[] = this._waiters;
+        this._waiters = [];
+        waiters.forEach((waiter: Waiter) => {
+            this._clearWaiter(waiter);
+            waiter.reject(e);
+        });
+    }
+
+    /**
+     * Release a permit. If a caller is waiting, the permit is handed directly to the longest waiting caller, unless the
+     * permit is removed instead.
+     */
+    release(): void {
+        if (this._permitsToRemove > 0) {
+            this._permitsToRemove--;
+            return;
+        }
+        const waiter: Waiter = this._waiters.shift();
+        if (waiter == undefined) {
+            this._permits++;
+            return;
+        }
+        this._clearWaiter(waiter);
+        waiter.resolve(true);
+    }
+
+    /**
+     * Acquire a permit only if one is available without waiting.
+     * @returns True if a permit was acquired. False otherwise.
+     */
+    tryAcquire(): boolean {
+        if (this._permits > 0) {
+            this._permits--;
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Stop the timer and the abort listener of a waiter which is no longer waiting.
+     * @param waiter The waiter.
+     */
+    private _clearWaiter(waiter: Waiter): void {
+        clearTimeout(waiter.timer);
+        waiter.removeAbortListener();
+    }
+
+    /**
+     * Remove a waiter from the queue, if it is still present, and clear it.
+     * @param waiter The waiter to remove.
+     */
+    private _removeWaiter(waiter: Waiter): void {
+        const index: number = this._waiters.indexOf(waiter);
+        if (index !== -1) {
+            this._waiters.splice(index, 1);
+        }
+        this._clearWaiter(waiter);
+    }
+}
@@ -11,27 +11,59 @@
  * and limitations under the License.
  */
 
-import { QLDBSession } from "aws-sdk";
+import { AWSError, HTTPOptions, QLDBSession } from "aws-sdk";
 import { ClientConfiguration } from "aws-sdk/clients/qldbsession";
 import { globalAgent } from "http";
 import { dom } from "ion-js";
-import Semaphore from "semaphore-async-await";
 
 import { version } from "../package.json";
+import { CircuitBreaker, CircuitState } from "./CircuitBreaker";
 import { Communicator } from "./Communicator";
+import { ConcurrencyLimiter } from "./ConcurrencyLimiter";
+import { DriverEventEmitter, DriverEventListener, DriverEvents } from "./DriverEvents";
 import { defaultRetryConfig } from "./retry/DefaultRetryConfig";
 import {
+    AbortError,
     DriverClosedError,
     isInvalidSessionException,
+    isOccConflictException,
+    isRetriableException,
+    isThrottlingException,
     isTransactionExpiredException,
+    LambdaAbortedError,
+    NestedTransactionError,
     SessionPoolEmptyError,
  } from "./errors/Errors";
-import { debug } from "./LogUtil";
+import { ContextLogger, hashSessionToken, LogFields } from "./LogUtil";
+import { DriverMetrics } from "./metrics/DriverMetrics";
+import { PermitQueue } from "./PermitQueue";
+import {
+    BeginTransactionOptions,
+    CloseOptions,
+    CloseSummary,
+    ExecuteLambdaOptions,
+    NestedTransactionMode,
+    QldbDriverHooks,
+    QldbDriverOptions,
+    validateBeginTransactionOptions,
+    validateCloseOptions,
+    validateDriverOptions,
+    validateExecuteLambdaOptions
+} from "./QldbDriverOptions";
 import { QldbSession } from "./QldbSession";
 import { Result } from "./Result";
+import { ResultStream } from "./ResultStream";
+import { RetryBudget } from "./retry/RetryBudget";
 import { RetryConfig } from "./retry/RetryConfig";
+import { PoolCounters, PoolStats } from "./stats/PoolStats";
+import { traceAsync, TraceSpan } from "./tracing/Tracing";
+import { QldbTransport } from "./transport/QldbTransport";
+import { SdkV2Transport } from "./transport/SdkV2Transport";
+import { Transaction } from "./Transaction";
 import { TransactionExecutor } from "./TransactionExecutor";
 import { TransactionExecutionContext } from "./TransactionExecutionContext";
+import { TransactionHandle } from "./TransactionHandle";
+import { findTransactionScope, runInTransactionScope, TransactionScope } from "./TransactionScope";
 
 /**
   * This is the entry point for all interactions with Amazon QLDB.
@@ -41,71 +73,111 @@ import { TransactionExecutionContext } from "./TransactionExecutionContext";
   * ```
   * let qldbDriver: QldbDriver = new QldbDriver(your-ledger-name);
   * ```
-  * You can pass more parameters to the constructor of the driver which allow you to control certain limits
-  * to improve the performance. Check the {@link QldbDriver.constructor} to see all the available parameters.
+  * You can pass an options object to the constructor of the driver which allows you to control certain limits
+  * to improve the performance. Check {@link QldbDriverOptions} to see all the available options.
   *
   * A single instance of the QldbDriver is attached to only one ledger. All transactions will be executed against
   * the ledger specified.
   *
   * The driver exposes {@link QldbDriver.executeLambda}  method which should be used to execute the transactions.
   * Check the {@link QldbDriver.executeLambda} method for more details on how to execute the Transaction.
+  * Transactions which cannot be executed within a single function can be begun with {@link QldbDriver.beginTransaction}.
  */
 export class QldbDriver {
     private _maxConcurrentTransactions: number;
-    private _timeoutMillis: number;
+    private _acquisitionTimeoutMillis: number;
+    private _deadlineMillis: number;
+    private _minIdleSessions: number;
+    private _sessionIdleTimeoutMillis: number;
+    private _maxSessionAgeMillis: number;
+    private _maxTransactionsPerSession: number;
+    private _evictionTimer: NodeJS.Timeout;
+    private _closePromise: Promise<CloseSummary>;
+    private _closingSessionEndings: Promise<void>[];
+    private _onDrained: () => void;
+    private _counters: PoolCounters;
+    private _events: DriverEventEmitter;
+    private _metrics: DriverMetrics;
+    private _nestedTransactionMode: NestedTransactionMode;
+    private _circuitBreaker: CircuitBreaker;
+    private _retryBudget: RetryBudget;
+    private _concurrencyLimiter: ConcurrencyLimiter;
     private _availablePermits: number;
+    private _inFlightCount: number;
+    private _pendingSessionCount: number;
     private _sessionPool: QldbSession[];
-    private _semaphore: Semaphore;
+    private _permitQueue: PermitQueue;
     protected _qldbClient: QLDBSession;
+    protected _transport: QldbTransport;
     protected _ledgerName: string;
     protected _isClosed: boolean;
     protected _retryConfig: RetryConfig;
+    protected _logger: ContextLogger;
+    protected _hooks: QldbDriverHooks;
 
     /**
      * Creates a QldbDriver instance that can be used to execute transactions against Amazon QLDB. A single instance of the QldbDriver
      * is always attached to one ledger, as specified in the ledgerName parameter.
      *
+     * ```
+     * const qldbDriver: QldbDriver = new QldbDriver("your-ledger-name", {
+     *     qldbClientOptions: { region: "us-east-1" },
+     *     maxConcurrentTransactions: 10,
+     *     acquisitionTimeoutMillis: 1000,
+     *     minIdleSessions: 2
+     * });
+     * ```
+     *
      * @param ledgerName The name of the ledger you want to connect to. This is a mandatory parameter.
-     * @param qldbClientOptions The object containing options for configuring the low level client.
-     *                          See {@link https://docs.aws.amazon.com/AWSJavaScriptSDK/latest/AWS/QLDBSession.html#constructor-details|Low Level Client Constructor}.
-     * @param maxConcurrentTransactions The driver internally uses a pool of sessions to execute the transactions.
-     *                                  The maxConcurrentTransactions parameter specifies the number of sessions that the driver can hold in the pool.
-     *                                  The default is set to maximum number of sockets specified in the globalAgent.
-     *                                  See {@link https://docs.aws.amazon.com/qldb/latest/developerguide/driver.best-practices.html#driver.best-practices.configuring} for more details.
-     * @param retryConfig Config to specify max number of retries, base and custom backoff strategy for retries. Will be overridden if a different retryConfig
-     *                    is passed to {@linkcode executeLambda}.
+     * @param options The options for configuring the driver. See {@linkcode QldbDriverOptions} for the available options
+     *                and their defaults.
      *
-     * @throws RangeError if `maxConcurrentTransactions` is less than 0.
+     * @throws TypeError if `ledgerName` is empty or an option is of the wrong type.
+     * @throws RangeError if a numeric option is less than 0, if `maxConcurrentTransactions` exceeds the maximum
+     *                    number of sockets of the client's agent, if `minIdleSessions` or the `minLimit` of
+     *                    `adaptiveConcurrency` exceeds `maxConcurrentTransactions`, or if `adaptiveConcurrency` is set
+     *                    while `maxConcurrentTransactions` is unbounded.
      */
-    constructor(
-        ledgerName: string,
-        qldbClientOptions: ClientConfiguration = {},
-        maxConcurrentTransactions: number = 0,
-        retryConfig: RetryConfig = defaultRetryConfig
-    ) {
-        qldbClientOptions.customUserAgent = `QLDB Driver for Node.js v${version}`;
-        qldbClientOptions.maxRetries = 0;
-
-        this._qldbClient = new QLDBSession(qldbClientOptions);
-        this._ledgerName = ledgerName;
-        this._isClosed = false;
-        this._retryConfig = retryConfig;
+    constructor(ledgerName: string, options: QldbDriverOptions = {}) {
+        validateDriverOptions(ledgerName, options);
+        const qldbClientOptions: ClientConfiguration = {
+            ...options.qldbClientOptions,
+            customUserAgent: QldbDriver._buildUserAgent(options.userAgentSuffix),
+            maxRetries: 0
+        };
 
-        if (maxConcurrentTransactions < 0) {
-            throw new RangeError("Value for maxConcurrentTransactions cannot be negative.");
+        if (options.transport != null) {
+            this._qldbClient = null;
+            this._transport = options.transport;
+        } else {
+            this._qldbClient = (options.qldbClient != null) ? options.qldbClient : new QLDBSession(qldbClientOptions);
+            this._transport = new SdkV2Transport(this._qldbClient);
         }
+        this._ledgerName = ledgerName;
+        this._isClosed = false;
+        this._retryConfig = (options.retryConfig == null) ? defaultRetryConfig : options.retryConfig;
+        this._acquisitionTimeoutMillis = (options.acquisitionTimeoutMillis == null) ? 0 : options.acquisitionTimeoutMillis;
+        this._deadlineMillis = (options.deadlineMillis == null) ? 0 : options.deadlineMillis;
+        this._minIdleSessions = (options.minIdleSessions == null) ? 0 : options.minIdleSessions;
+        this._sessionIdleTimeoutMillis = (options.sessionIdleTimeoutMillis == null) ? 0 : options.sessionIdleTimeoutMillis;
+        this._maxSessionAgeMillis = (options.maxSessionAgeMillis == null) ? 0 : options.maxSessionAgeMillis;
+        this._maxTransactionsPerSession =
+            (options.maxTransactionsPerSession == null) ? 0 : options.maxTransactionsPerSession;
+        this._logger = new ContextLogger(options.logger, options.logLevel, { ledgerName: ledgerName });
+        this._hooks = (options.hooks == null) ? {} : options.hooks;
 
         let maxSockets: number;
-        if (qldbClientOptions.httpOptions && qldbClientOptions.httpOptions.agent) {
-            maxSockets = qldbClientOptions.httpOptions.agent.maxSockets;
+        const httpOptions: HTTPOptions = (this._qldbClient != null) ? this._qldbClient.config.httpOptions : null;
+        if (httpOptions && httpOptions.agent) {
+            maxSockets = httpOptions.agent.maxSockets;
         } else {
             maxSockets = globalAgent.maxSockets;
         }
 
-        if (0 === maxConcurrentTransactions) {
+        if (options.maxConcurrentTransactions == null || 0 === options.maxConcurrentTransactions) {
             this._maxConcurrentTransactions = maxSockets;
         } else {
-            this._maxConcurrentTransactions = maxConcurrentTransactions;
+            this._maxConcurrentTransactions = options.maxConcurrentTransactions;
         }
         if (this._maxConcurrentTransactions > maxSockets) {
             throw new RangeError(
@@ -114,9 +186,71 @@ export class QldbDriver {
             );
         }
 
+        if (this._minIdleSessions > this._maxConcurrentTransactions) {
+            throw new RangeError(
+                `The minimum number of idle sessions given, ${this._minIdleSessions}, exceeds the session pool limit,
+                 ${this._maxConcurrentTransactions}. Please lower the minimum and retry.`
+            );
+        }
+
+        if (options.adaptiveConcurrency != null) {
+            const minLimit: number = options.adaptiveConcurrency.minLimit;
+            if (!isFinite(this._maxConcurrentTransactions)) {
+                throw new RangeError(
+                    "Adaptive concurrency requires a finite session pool limit. Please set maxConcurrentTransactions, " +
+                    "or the maxSockets of the client's agent, and retry."
+                );
+            }
+            if (minLimit != null && minLimit > this._maxConcurrentTransactions) {
+                throw new RangeError(
+                    `The minimum concurrency limit given, ${minLimit}, exceeds the session pool limit,
+                 ${this._maxConcurrentTransactions}. Please lower the minimum and retry.`
+                );
+            }
+        }
+
         this._availablePermits = this._maxConcurrentTransactions;
+        this._inFlightCount = 0;
+        this._pendingSessionCount = 0;
         this._sessionPool = [];
-        this._semaphore = new Semaphore(this._maxConcurrentTransactions);
+        this._permitQueue = new PermitQueue(this._maxConcurrentTransactions);
+        this._evictionTimer = null;
+        this._closePromise = null;
+        this._closingSessionEndings = [];
+        this._onDrained = null;
+        this._counters = new PoolCounters();
+        this._events = new DriverEventEmitter(this._logger);
+        this._metrics = new DriverMetrics(options.metricsSink, ledgerName, this._logger);
+        this._nestedTransactionMode =
+            (options.nestedTransactionMode == null) ? "reject" : options.nestedTransactionMode;
+        this._circuitBreaker = new CircuitBreaker(options.circuitBreaker, (previousState: CircuitState, state: CircuitState) => {
+            if (state === "open") {
+                this._logger.warn(`Circuit breaker opened after sustained failures; was ${previousState}.`);
+            } else {
+                this._logger.info(`Circuit breaker is now ${state}; was ${previousState}.`);
+            }
+            this._events.emit("circuitStateChanged", { previousState: previousState, state: state });
+        });
+        this._retryBudget = new RetryBudget(options.retryBudget);
+        this._concurrencyLimiter = new ConcurrencyLimiter(
+            this._maxConcurrentTransactions,
+            options.adaptiveConcurrency,
+            (previousLimit: number, limit: number) => {
+                this._logger.info(`Concurrency limit is now ${limit}; was ${previousLimit}.`);
+                if (limit < previousLimit) {
+                    this._permitQueue.removePermits(previousLimit - limit);
+                } else {
+                    this._permitQueue.addPermits(limit - previousLimit);
+                }
+            }
+        );
+        if (this._sessionIdleTimeoutMillis > 0 || this._maxSessionAgeMillis > 0) {
+            const evictionIntervalMillis: number =
+                (options.evictionIntervalMillis == null) ? 60000 : options.evictionIntervalMillis;
+            this._evictionTimer = setInterval(() => this._evictStaleSessions(), evictionIntervalMillis);
+            this._evictionTimer.unref();
+        }
+        this._topUpSessionPool();
     }
 
 
@@ -150,36 +284,117 @@ export class QldbDriver {
      * @param retryConfig Config to specify max number of retries, base and custom backoff strategy for retries. This config
      *                    overrides the retry config set at driver level for a particular lambda execution.
      *                    Note that all the values of the driver level retry config will be overridden by the new config passed here.
+     * @param options Options for this call, overriding the options of the driver. See {@linkcode ExecuteLambdaOptions}.
      * @throws {@linkcode DriverClosedError} When a transaction is attempted on a closed driver instance. {@linkcode close}
      * @throws {@linkcode ClientException} When the commit digest from commit transaction result does not match.
-     * @throws {@linkcode SessionPoolEmptyError} When maxConcurrentTransactions limit is reached and there is no session available in the pool.
-     * @throws {@linkcode InvalidSessionException} When a session expires either due to a long running transaction or session being idle for long time.
-     * @throws {@linkcode BadRequestException} When Amazon QLDB is not able to execute a query or transaction.
+     * @throws {@linkcode SessionPoolEmptyError} When maxConcurrentTransactions limit is reached and no session becomes available in the pool
+     *                                          within the configured timeout.
+     * @throws {@linkcode DeadlineExceededError} When the transaction did not complete within the configured deadline. The error lists the
+     *                                          failed attempts made until then.
+     * @throws {@linkcode AbortError} When the signal passed in the options is aborted before the transaction completes.
+     * @throws {@linkcode NestedTransactionError} When called from within a transaction lambda of this driver, unless the
+     *                                           `nestedTransactionMode` option of the driver is "join".
+     * @throws {@linkcode CircuitOpenError} When the circuit breaker of the driver is open, or opens while the transaction is
+     *                                     being retried.
+     * @throws {@linkcode InvalidSessionError} When a session expires either due to a long running transaction or session being idle for long time.
+     *                                        A {@linkcode TransactionExpiredError} is thrown if the transaction itself expired.
+     * @throws {@linkcode BadRequestError} When Amazon QLDB is not able to execute a query or transaction.
+     * @throws {@linkcode QldbDriverError} When any other error is returned by Amazon QLDB. Every QldbDriverError carries the ledger name,
+     *                                    transaction ID, statement and attempt number where known, and the original error as `cause`.
      */
     async executeLambda(
         transactionLambda: (transactionExecutor: TransactionExecutor) => any,
-        retryConfig?: RetryConfig
+        retryConfig?: RetryConfig,
+        options: ExecuteLambdaOptions = {}
     ): Promise<any> {
-        let session: QldbSession = null;
+        validateExecuteLambdaOptions(options);
+        const outerScope: TransactionScope = findTransactionScope(this);
+        if (outerScope != null) {
+            return this._executeNestedLambda(transactionLambda, outerScope);
+        }
+        const isProbe: boolean = this._circuitBreaker.admit();
+        this._retryBudget.deposit();
         retryConfig = (retryConfig == null) ? this._retryConfig : retryConfig;
-        const transactionExecutionContext: TransactionExecutionContext = new TransactionExecutionContext();
+        const deadlineMillis: number = (options.deadlineMillis == null) ? this._deadlineMillis : options.deadlineMillis;
+        const transactionExecutionContext: TransactionExecutionContext =
+            new TransactionExecutionContext(deadlineMillis, options.signal);
+        return traceAsync("QLDB executeLambda", "internal", {
+            "db.system": "qldb",
+            "db.name": this._ledgerName
+        }, async (span: TraceSpan) => {
+            const attempts: () => number = () => transactionExecutionContext.getExecutionAttempt() + 1;
+            let result: any;
+            const scopedLambda = (transactionExecutor: TransactionExecutor) =>
+                runInTransactionScope(this, transactionExecutor, () => transactionLambda(transactionExecutor));
+            try {
+                result = await this._executeLambda(scopedLambda, retryConfig, transactionExecutionContext);
+            } catch (e) {
+                span.setAttribute("qldb.attempts", attempts());
+                this._metrics.recordTransaction(transactionExecutionContext.getElapsedMillis(), attempts(), false);
+                throw e;
+            } finally {
+                if (isProbe) {
+                    this._circuitBreaker.releaseProbe();
+                }
+            }
+            span.setAttribute("qldb.attempts", attempts());
+            this._metrics.recordTransaction(transactionExecutionContext.getElapsedMillis(), attempts(), true);
+            return result;
+        });
+    }
+
+    /**
+     * Execute a transaction lambda passed to {@linkcode executeLambda} from within a transaction lambda of this driver,
+     * according to the `nestedTransactionMode` option.
+     * @param transactionLambda The inner lambda.
+     * @param outerScope The scope of the outer lambda.
+     * @returns Promise which fulfills with the value returned by the inner lambda.
+     * @throws {@linkcode NestedTransactionError} When the nested call is rejected.
+     */
+    private async _executeNestedLambda(
+        transactionLambda: (transactionExecutor: TransactionExecutor) => any,
+        outerScope: TransactionScope
+    ): Promise<any> {
+        if (this._nestedTransactionMode !== "join") {
+            throw new NestedTransactionError();
+        }
+        this._logger.debug("Joining the nested transaction lambda to the outer transaction.");
+        let returnedValue: any = await transactionLambda(outerScope.executor);
+        if (returnedValue instanceof ResultStream) {
+            returnedValue = await Result.bufferResultStream(returnedValue);
+        }
+        return returnedValue;
+    }
+
+    private async _executeLambda(
+        transactionLambda: (transactionExecutor: TransactionExecutor) => any,
+        retryConfig: RetryConfig,
+        transactionExecutionContext: TransactionExecutionContext
+    ): Promise<any> {
+        let session: QldbSession = null;
         let transactionExecutionAttempt: number = 0;
         while(true) {
             try  {
                 transactionExecutionAttempt += 1;
-                session = await this.getSession();
+                session = null;
+                session = await this.getSession(transactionExecutionContext);
                 return await session.executeLambda(transactionLambda, retryConfig, transactionExecutionContext);
             } catch(err) {
                 /* This is a guard condition to prevent the driver from entering an infinite loop
                 if all the sessions start resulting in InvalidSessionException
                 */
                 if (transactionExecutionAttempt >= this._maxConcurrentTransactions + 3) {
+                    this._logSurfacedError(err, transactionExecutionContext);
                     throw err;
                 }
                 //If it is ISE but not because of transaction expiry, then pick new session and retry the transaction
                 if (isInvalidSessionException(err) && !isTransactionExpiredException(err) ) {
+                    this._logger.warn(`Retrying the transaction with a new session after the session was invalidated: ${err}.`, {
+                        attempt: transactionExecutionContext.getExecutionAttempt()
+                    });
                     continue;
                 } else {
+                    this._logSurfacedError(err, transactionExecutionContext);
                     throw err;
                 }
             } finally {
@@ -190,6 +405,190 @@ export class QldbDriver {
         }
     }
 
+    /**
+     * Begin a transaction on a session of the pool, for workflows which cannot run a transaction within a single
+     * function passed to {@linkcode executeLambda}, e.g. ones spanning several requests of an interactive tool:
+     *
+     * ```
+     * const txn: TransactionHandle = await qldbDriver.beginTransaction();
+     * await txn.execute("INSERT INTO Person ?", person);
+     * await txn.commit();
+     * ```
+     *
+     * The session stays pinned to the transaction, counting towards `maxConcurrentTransactions`, until the transaction
+     * is committed or aborted. A transaction which is neither is aborted after `autoAbortMillis`, before QLDB expires
+     * it. Unlike {@linkcode executeLambda}, the transaction is not retried, e.g. after an OCC conflict.
+     *
+     * @param options Options for the transaction. See {@linkcode BeginTransactionOptions}.
+     * @returns Promise which fulfills with the started transaction.
+     * @throws {@linkcode DriverClosedError} When called on a closed driver instance.
+     * @throws {@linkcode SessionPoolEmptyError} When maxConcurrentTransactions limit is reached and no session becomes available in the pool
+     *                                          within the configured timeout.
+     * @throws {@linkcode StartTransactionError} When QLDB rejects starting the transaction.
+     * @throws {@linkcode CircuitOpenError} When the circuit breaker of the driver is open.
+     * @throws TypeError if an option is of the wrong type.
+     * @throws RangeError if `autoAbortMillis` is not between 1 and 30000.
+     */
+    async beginTransaction(options: BeginTransactionOptions = {}): Promise<TransactionHandle> {
+        validateBeginTransactionOptions(options);
+        const autoAbortMillis: number = (options.autoAbortMillis == null) ? 25000 : options.autoAbortMillis;
+        const isProbe: boolean = this._circuitBreaker.admit();
+        const releaseProbe = (): void => {
+            if (isProbe) {
+                this._circuitBreaker.releaseProbe();
+            }
+        };
+        let session: QldbSession;
+        try {
+            session = await this.getSession();
+        } catch (e) {
+            releaseProbe();
+            throw e;
+        }
+        let transaction: Transaction;
+        try {
+            transaction = await session.startTransaction();
+        } catch (e) {
+            this._releasePinnedSession(session, e);
+            releaseProbe();
+            throw e;
+        }
+        this._events.emit("transactionStarted", { transactionId: transaction.getTransactionId(), attempt: 0 });
+        const startTime: number = Date.now();
+        const onClose = (isCommitted: boolean, error: AWSError): void => {
+            if (isCommitted) {
+                this._counters.committedTransactionCount++;
+                this._circuitBreaker.recordSuccess();
+                this._concurrencyLimiter.recordSuccess();
+            } else {
+                this._counters.abortedTransactionCount++;
+            }
+            this._metrics.recordTransaction(Date.now() - startTime, 1, isCommitted);
+            this._releasePinnedSession(session, error);
+            releaseProbe();
+        };
+        return new TransactionHandle(transaction, autoAbortMillis, this._logger, onClose);
+    }
+
+    /**
+     * Start sessions and add them to the pool ahead of time, so that the first transactions do not wait for a session
+     * to be started. The sessions are started concurrently. The number of sessions started is limited so that the
+     * number of sessions in the pool and in use never exceeds `maxConcurrentTransactions`.
+     *
+     * ```
+     * await qldbDriver.warmUp(5);
+     * ```
+     *
+     * @param count The number of sessions to start. Defaults to the `minIdleSessions` option of the driver.
+     * @returns Promise which fulfills with the number of sessions added to the pool.
+     * @throws {@linkcode DriverClosedError} When called on a closed driver instance.
+     * @throws TypeError if `count` is not an integer.
+     * @throws RangeError if `count` is negative.
+     * @throws The first error returned while starting a session. Sessions which were started successfully are still
+     *         added to the pool.
+     */
+    async warmUp(count: number = this._minIdleSessions): Promise<number> {
+        this._throwIfClosed();
+        if (typeof count !== "number" || !Number.isInteger(count)) {
+            throw new TypeError("Value for count must be an integer.");
+        }
+        if (count < 0) {
+            throw new RangeError("Value for count cannot be negative.");
+        }
+        const sessionCount: number = Math.min(
+            count,
+            this._availablePermits - this._sessionPool.length - this._pendingSessionCount
+        );
+        if (sessionCount <= 0) {
+            return 0;
+        }
+        this._logger.debug(`Warming up the session pool with ${sessionCount} new sessions.`);
+        this._pendingSessionCount += sessionCount;
+        const creations: Promise<Error>[] = [];
+        for (let i = 0; i < sessionCount; i++) {
+            creations.push(this._createSession().then((session: QldbSession) => {
+                this._pendingSessionCount--;
+                this._addIdleSession(session);
+                return null;
+            }, (e: Error) => {
+                this._pendingSessionCount--;
+                return e;
+            }));
+        }
+        const errors: Error[] = (await Promise.all(creations)).filter((e: Error) => e != null);
+        if (errors.length > 0) {
+            throw errors[0];
+        }
+        return sessionCount;
+    }
+
+    /**
+     * Add a listener of a lifecycle event of the driver, its sessions or their transactions. See
+     * {@linkcode DriverEvents} for the available events. Listeners are invoked synchronously and must not block.
+     * Errors thrown by a listener are logged and otherwise ignored.
+     *
+     * ```
+     * qldbDriver.on("transactionCommitted", (event) => {
+     *     auditLog.write(event.transactionId, toBase64(event.commitDigest));
+     * });
+     * ```
+     *
+     * @param eventName The name of the event.
+     * @param listener The listener, invoked with the event.
+     * @throws TypeError if the listener is not a function.
+     */
+    on<K extends keyof DriverEvents>(eventName: K, listener: DriverEventListener<K>): void {
+        this._events.on(eventName, listener);
+    }
+
+    /**
+     * Remove a listener added with {@linkcode on}. No-op if the listener was not added.
+     * @param eventName The name of the event.
+     * @param listener The listener.
+     */
+    off<K extends keyof DriverEvents>(eventName: K, listener: DriverEventListener<K>): void {
+        this._events.off(eventName, listener);
+    }
+
+    /**
+     * @returns The state of the circuit breaker of the driver, which is always "closed" unless the `circuitBreaker`
+     *          option is set.
+     */
+    getCircuitState(): CircuitState {
+        return this._circuitBreaker.getState();
+    }
+
+    /**
+     * Get a snapshot of the session pool, including counters covering the lifetime of the driver. The snapshot is
+     * not updated afterwards.
+     *
+     * ```
+     * const stats: PoolStats = qldbDriver.getPoolStats();
+     * console.log(`${stats.inUseSessionCount} of ${stats.maxConcurrentTransactions} sessions in use.`);
+     * ```
+     *
+     * @returns The snapshot of the session pool.
+     */
+    getPoolStats(): PoolStats {
+        return {
+            idleSessionCount: this._sessionPool.length,
+            inUseSessionCount: this._inFlightCount,
+            startingSessionCount: this._pendingSessionCount,
+            maxConcurrentTransactions: this._maxConcurrentTransactions,
+            concurrencyLimit: this._concurrencyLimiter.getLimit(),
+            pendingWaiterCount: this._permitQueue.getPendingWaiterCount(),
+            createdSessionCount: this._counters.createdSessionCount,
+            invalidatedSessionCount: this._counters.invalidatedSessionCount,
+            committedTransactionCount: this._counters.committedTransactionCount,
+            occRetryCount: this._counters.occRetryCount,
+            abortedTransactionCount: this._counters.abortedTransactionCount,
+            retryBudgetExhaustedCount: this._counters.retryBudgetExhaustedCount,
+            acquisitionCount: this._counters.acquisitionCount,
+            totalAcquisitionMillis: this._counters.totalAcquisitionMillis,
+            maxAcquisitionMillis: this._counters.maxAcquisitionMillis
+        };
+    }
+
     /**
      * A helper method to get all the table names in a ledger.
      * @returns Promise which fulfills with an array of table names.
@@ -207,61 +606,298 @@ export class QldbDriver {
 
     /**
      * This is a driver shutdown method which closes all the sessions and marks the driver as closed.
-     * Once the driver is closed, no transactions can be executed on that driver instance.
+     * Once the driver is closed, no transactions can be executed on that driver instance. Transactions still waiting
+     * for a session are rejected with {@linkcode DriverClosedError}. Transactions in flight are given up to
+     * `drainTimeoutMs` to complete, and their sessions are ended as they complete.
+     *
+     * ```
+     * process.on("SIGTERM", async () => {
+     *     const summary: CloseSummary = await qldbDriver.close({ drainTimeoutMs: 5000 });
+     *     console.log(`Abandoned ${summary.abandonedTransactionCount} transactions.`);
+     * });
+     * ```
+     *
+     * Calling this method again returns the same promise as the first call.
      *
      * Note: There is no corresponding `open` method and the only option is to instantiate another driver.
+     *
+     * @param options Options for the shutdown. See {@linkcode CloseOptions}.
+     * @returns Promise which fulfills with a summary of the shutdown once the transactions in flight have completed or
+     *          the drain timeout has passed, and the sessions have been ended.
+     * @throws TypeError if an option is of the wrong type.
+     * @throws RangeError if `drainTimeoutMs` is negative.
      */
-    close(): void {
-        this._sessionPool.forEach(session => {
-            session.endSession();
-        });
+    close(options: CloseOptions = {}): Promise<CloseSummary> {
+        validateCloseOptions(options);
+        if (this._closePromise == null) {
+            this._closePromise = this._drainAndClose((options.drainTimeoutMs == null) ? 0 : options.drainTimeoutMs);
+        }
+        return this._closePromise;
+    }
+
+    private async _drainAndClose(drainTimeoutMs: number): Promise<CloseSummary> {
+        const sessionEndings: Promise<void>[] = this._sessionPool.map((session: QldbSession) => session.endSession());
+        this._sessionPool = [];
         this._isClosed = true;
+        clearInterval(this._evictionTimer);
+        this._permitQueue.rejectAll(new DriverClosedError());
+
+        const inFlightCount: number = this._inFlightCount;
+        if (inFlightCount > 0 && drainTimeoutMs > 0) {
+            this._logger.info(`Waiting up to ${drainTimeoutMs} ms for ${inFlightCount} transactions in flight to complete.`);
+            await new Promise<void>((resolve) => {
+                const timer: NodeJS.Timeout = setTimeout(() => {
+                    this._onDrained = null;
+                    resolve();
+                }, drainTimeoutMs);
+                this._onDrained = () => {
+                    clearTimeout(timer);
+                    this._onDrained = null;
+                    resolve();
+                };
+            });
+        }
+        const abandonedCount: number = this._inFlightCount;
+        if (abandonedCount > 0) {
+            this._logger.warn(`Closing the driver with ${abandonedCount} transactions still in flight.`);
+        }
+
+        sessionEndings.push(...this._closingSessionEndings);
+        this._closingSessionEndings = [];
+        await Promise.all(sessionEndings);
+        return {
+            drainedTransactionCount: Math.max(inFlightCount - abandonedCount, 0),
+            abandonedTransactionCount: abandonedCount,
+            endedSessionCount: sessionEndings.length
+        };
     }
 
-    private async getSession(): Promise<QldbSession> {
+    private async getSession(
+        executionContext: TransactionExecutionContext = new TransactionExecutionContext()
+    ): Promise<QldbSession> {
         this._throwIfClosed();
-        debug(
+        this._logger.debug(
             `Getting session. Current free session count: ${this._sessionPool.length}. ` +
             `Currently available permit count: ${this._availablePermits}.`
         );
-        const isPermitAcquired: boolean = this._semaphore.tryAcquire();
+        const remainingMillis: number = executionContext.getRemainingMillis();
+        if (remainingMillis <= 0) {
+            throw executionContext.createDeadlineExceededError();
+        }
+        const startTime: number = Date.now();
+        const timeoutMillis: number = Math.min(this._acquisitionTimeoutMillis, remainingMillis);
+        const isPermitAcquired: boolean = await this._permitQueue.acquire(timeoutMillis, executionContext.getSignal());
         if (isPermitAcquired) {
             this._availablePermits--;
+            this._inFlightCount++;
             try {
+                this._throwIfClosed();
                 let session: QldbSession = this._sessionPool.pop();
+                while (session != undefined && this._isSessionStale(session)) {
+                    this._endStaleSession(session);
+                    session = this._sessionPool.pop();
+                }
                 if (session == undefined) {
-                    debug("Creating new pooled session.");
+                    this._logger.debug("Creating new pooled session.");
                     session = <QldbSession> (await this._createSession());
                 }
+                this._counters.recordAcquisition(Date.now() - startTime);
+                this._metrics.recordSessionWait(Date.now() - startTime);
                 return session;
             } catch (e) {
-                this._semaphore.release();
-                this._availablePermits++;
+                this._releasePermit();
                 throw e;
             }
         }
-        throw new SessionPoolEmptyError(this._timeoutMillis)
+        if (timeoutMillis < this._acquisitionTimeoutMillis) {
+            throw executionContext.createDeadlineExceededError();
+        }
+        throw new SessionPoolEmptyError(Date.now() - startTime);
+    }
+
+    /**
+     * Log an error which is about to be surfaced to the caller of {@linkcode executeLambda}. Aborts and cancellations
+     * requested by the caller are expected and therefore only logged at debug level.
+     * @param e The error.
+     * @param executionContext The execution context of the failed transaction.
+     */
+    private _logSurfacedError(e: Error, executionContext: TransactionExecutionContext): void {
+        const fields: LogFields = { attempt: executionContext.getExecutionAttempt() };
+        if (e instanceof LambdaAbortedError) {
+            this._logger.debug("Transaction lambda aborted by the caller.", fields);
+        } else if (e instanceof AbortError) {
+            this._logger.debug("Transaction cancelled by the caller's AbortSignal.", fields);
+        } else {
+            this._logger.error(`Transaction failed and will not be retried: ${e}.`, fields);
+        }
     }
 
     private _returnSessionToPool = (session: QldbSession): void => {
-        if (session.isSessionOpen()) {
+        const isSessionReusable: boolean = session.isSessionOpen() && !this._isSessionStale(session);
+        if (this._isClosed) {
+            if (session.isSessionOpen()) {
+                this._closingSessionEndings.push(session.endSession());
+            }
+        } else if (isSessionReusable) {
             this._sessionPool.push(session);
+        } else if (session.isSessionOpen()) {
+            this._endStaleSession(session);
+        }
+        this._releasePermit();
+        this._logger.debug(`Session returned to pool; size is now ${this._sessionPool.length}.`);
+        if (!isSessionReusable) {
+            this._topUpSessionPool();
         }
-        this._semaphore.release();
-        this._availablePermits++;
-        debug(`Session returned to pool; size is now ${this._sessionPool.length}.`);
     };
 
+    /**
+     * Return the session of a transaction begun with {@linkcode beginTransaction} to the pool once the transaction is
+     * closed. The session is not reused if it was invalidated.
+     * @param session The session.
+     * @param error The error which closed the transaction, or null.
+     */
+    private _releasePinnedSession(session: QldbSession, error: AWSError): void {
+        if (error != null && isInvalidSessionException(error)) {
+            session.closeSession();
+            this._counters.invalidatedSessionCount++;
+            this._events.emit("sessionDiscarded", {
+                sessionTokenHash: hashSessionToken(session.getSessionToken()),
+                error: error
+            });
+        } else if (error != null && isOccConflictException(error)) {
+            this._metrics.recordOccConflict();
+            this._concurrencyLimiter.recordCongestion();
+        } else if (error != null && isThrottlingException(error)) {
+            this._concurrencyLimiter.recordCongestion();
+        }
+        if (error != null && !isOccConflictException(error) && isRetriableException(error)) {
+            this._circuitBreaker.recordFailure();
+        }
+        session.markUsed();
+        this._returnSessionToPool(session);
+    }
+
+    /**
+     * Release the permit of a transaction which no longer holds a session, and notify a closing driver once no
+     * transactions are left in flight.
+     */
+    private _releasePermit(): void {
+        this._permitQueue.release();
+        this._availablePermits++;
+        this._inFlightCount--;
+        if (this._onDrained != null && this._inFlightCount <= 0) {
+            this._onDrained();
+        }
+    }
+
+    /**
+     * Has a session been idle for too long, been open for too long, or executed too many transactions, according to
+     * the options of the driver?
+     * @param session The session.
+     * @returns True if the session should be ended instead of being reused. False otherwise.
+     */
+    private _isSessionStale(session: QldbSession): boolean {
+        const now: number = Date.now();
+        return (this._sessionIdleTimeoutMillis > 0 && now - session.getLastUsedTime() >= this._sessionIdleTimeoutMillis) ||
+            (this._maxSessionAgeMillis > 0 && now - session.getCreationTime() >= this._maxSessionAgeMillis) ||
+            (this._maxTransactionsPerSession > 0 && session.getTransactionCount() >= this._maxTransactionsPerSession);
+    }
+
+    /**
+     * End a stale session. The session must not be in the pool.
+     * @param session The stale session.
+     */
+    private _endStaleSession(session: QldbSession): void {
+        this._logger.debug("Ending stale session.", {
+            sessionTokenHash: hashSessionToken(session.getSessionToken())
+        });
+        session.endSession();
+    }
+
+    /**
+     * End the stale sessions in the pool, then start new sessions if the pool fell below `minIdleSessions`.
+     */
+    private _evictStaleSessions(): void {
+        if (this._isClosed) {
+            return;
+        }
+        const staleSessions: QldbSession[] = this._sessionPool.filter((session: QldbSession) => this._isSessionStale(session));
+        if (staleSessions.length === 0) {
+            return;
+        }
+        this._sessionPool = this._sessionPool.filter((session: QldbSession) => staleSessions.indexOf(session) === -1);
+        staleSessions.forEach((session: QldbSession) => this._endStaleSession(session));
+        this._logger.debug(`Evicted ${staleSessions.length} stale sessions; pool size is now ${this._sessionPool.length}.`);
+        this._topUpSessionPool();
+    }
+
+    /**
+     * Add a session started by {@linkcode warmUp} to the pool, or end it if the driver was closed in the meantime.
+     * @param session The started session.
+     */
+    private _addIdleSession(session: QldbSession): void {
+        if (this._isClosed) {
+            this._closingSessionEndings.push(session.endSession());
+            return;
+        }
+        this._sessionPool.push(session);
+    }
+
+    /**
+     * Start sessions in the background until the pool holds `minIdleSessions` idle sessions, counting the sessions
+     * which are already being started. Errors are logged and otherwise ignored.
+     */
+    private _topUpSessionPool(): void {
+        const missingSessionCount: number =
+            this._minIdleSessions - this._sessionPool.length - this._pendingSessionCount;
+        if (this._isClosed || missingSessionCount <= 0) {
+            return;
+        }
+        this.warmUp(missingSessionCount).catch((e: Error) => {
+            this._logger.warn(`Failed to top up the session pool: ${e}.`);
+        });
+    }
+
     private _throwIfClosed(): void {
         if (this._isClosed) {
             throw new DriverClosedError();
         }
     }
 
+    /**
+     * Build the user agent sent with every request.
+     * @param userAgentSuffix An optional string to append to the driver's user agent.
+     * @returns The user agent.
+     */
+    private static _buildUserAgent(userAgentSuffix: string): string {
+        const userAgent: string = `QLDB Driver for Node.js v${version}`;
+        return (userAgentSuffix == null || userAgentSuffix.length === 0) ? userAgent : `${userAgent} ${userAgentSuffix}`;
+    }
+
     private async _createSession(): Promise<QldbSession> {
         this._throwIfClosed();
-        debug("Creating a new session.");
-        const communicator: Communicator = await Communicator.create(this._qldbClient, this._ledgerName);
-        return new QldbSession(communicator);
+        this._logger.debug("Creating a new session.");
+        let communicator: Communicator;
+        try {
+            communicator = await Communicator.create(this._transport, this._ledgerName, this._logger);
+        } catch (e) {
+            this._circuitBreaker.recordFailure();
+            throw e;
+        }
+        const sessionTokenHash: string = hashSessionToken(communicator.getSessionToken());
+        const sessionLogger: ContextLogger = this._logger.child({ sessionTokenHash: sessionTokenHash });
+        this._counters.createdSessionCount++;
+        this._events.emit("sessionCreated", { sessionTokenHash: sessionTokenHash });
+        return new QldbSession(
+            communicator,
+            sessionLogger,
+            this._hooks,
+            this._counters,
+            this._events,
+            this._metrics,
+            this._circuitBreaker,
+            this._retryBudget,
+            this._concurrencyLimiter
+        );
     }
 }
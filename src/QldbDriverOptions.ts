@@ -0,0 +1,604 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+import { QLDBSession } from "aws-sdk";
+import { ClientConfiguration } from "aws-sdk/clients/qldbsession";
+
+import { AbortSignalLike } from "./Cancellation";
+import { Logger, LogLevel } from "./LogUtil";
+import { MetricsSink } from "./metrics/MetricsSink";
+import { RetryConfig } from "./retry/RetryConfig";
+import { QldbTransport } from "./transport/QldbTransport";
+
+/**
+ * Callbacks invoked by the driver at specific points of a transaction's lifecycle. Errors thrown by a hook are logged
+ * and otherwise ignored.
+ */
+export interface QldbDriverHooks {
+    /**
+     * Invoked when a transaction has failed with a retriable error and is about to be retried.
+     * @param retryAttempt The number of the retry attempt about to be made, starting at 1.
+     * @param error The error that caused the retry.
+     * @param transactionId The ID of the failed transaction, or null if the transaction could not be started.
+     */
+    onRetry?: (retryAttempt: number, error: Error, transactionId: string) => void;
+}
+
+/**
+ * Options for configuring a {@linkcode QldbDriver}. All options are optional.
+ */
+export interface QldbDriverOptions {
+    /**
+     * The object containing options for configuring the low level client. The object is copied and never modified by
+     * the driver. Note that the driver always disables the client's own retries and sets its own user agent.
+     * See {@link https://docs.aws.amazon.com/AWSJavaScriptSDK/latest/AWS/QLDBSession.html#constructor-details|Low Level Client Constructor}.
+     */
+    qldbClientOptions?: ClientConfiguration;
+
+    /**
+     * A prebuilt low level client to send the requests of the driver with, instead of one built from
+     * `qldbClientOptions`, e.g. to share a configured client with the rest of the application. The driver retries
+     * failed requests itself, so the `maxRetries` of the client should be 0. The user agent of the client is not
+     * modified. Cannot be combined with `qldbClientOptions` or `transport`.
+     */
+    qldbClient?: QLDBSession;
+
+    /**
+     * The transport to send the requests of the driver with, e.g. an {@linkcode SdkV3Transport} wrapping a client of
+     * the AWS SDK for JavaScript v3, or any other implementation of {@linkcode QldbTransport}. As the driver cannot
+     * tell the number of sockets of the transport, `maxConcurrentTransactions` defaults to the maximum number of
+     * sockets of the globalAgent. Cannot be combined with `qldbClientOptions` or `qldbClient`.
+     */
+    transport?: QldbTransport;
+
+    /**
+     * The driver internally uses a pool of sessions to execute the transactions. This option specifies the number of
+     * sessions that the driver can hold in the pool. The default is set to maximum number of sockets specified in the
+     * agent of the client, or the globalAgent if none is set.
+     * See {@link https://docs.aws.amazon.com/qldb/latest/developerguide/driver.best-practices.html#driver.best-practices.configuring} for more details.
+     */
+    maxConcurrentTransactions?: number;
+
+    /**
+     * The maximum time, in milliseconds, a transaction waits for a session to become available when all
+     * `maxConcurrentTransactions` sessions are in use. Waiting transactions are served in the order in which they
+     * arrived. The default of 0 fails immediately with {@linkcode SessionPoolEmptyError}.
+     */
+    acquisitionTimeoutMillis?: number;
+
+    /**
+     * The number of idle sessions the driver keeps in the pool. The driver creates these sessions in the background
+     * when it is instantiated, and replaces sessions discarded after an `InvalidSessionException`, so that transactions
+     * rarely wait for a session to be started. Cannot exceed `maxConcurrentTransactions`. The default of 0 creates
+     * sessions only when a transaction needs one.
+     */
+    minIdleSessions?: number;
+
+    /**
+     * The time, in milliseconds, after which a session which has not been used is ended instead of being reused.
+     * Should be lower than the idle timeout of QLDB, so that sessions are ended before QLDB expires them and the next
+     * transaction fails with an `InvalidSessionException`. The default of 0 never ends idle sessions.
+     */
+    sessionIdleTimeoutMillis?: number;
+
+    /**
+     * The time, in milliseconds, after which a session is ended instead of being reused, however recently it was used.
+     * The default of 0 never ends sessions because of their age.
+     */
+    maxSessionAgeMillis?: number;
+
+    /**
+     * The number of transactions, including retried transactions, after which a session is ended instead of being
+     * reused. The default of 0 never ends sessions because of the number of transactions.
+     */
+    maxTransactionsPerSession?: number;
+
+    /**
+     * The interval, in milliseconds, at which the driver ends the sessions in the pool which have exceeded
+     * `sessionIdleTimeoutMillis` or `maxSessionAgeMillis`, and starts new sessions in their place if the pool falls
+     * below `minIdleSessions`. Stale sessions are also never handed to a transaction in between. Only used if either
+     * option is set. Defaults to 60000.
+     */
+    evictionIntervalMillis?: number;
+
+    /**
+     * The maximum time, in milliseconds, a call to {@linkcode QldbDriver.executeLambda} may take across all of its
+     * attempts, including waiting for a session and backing off between retries. Once it passes, the driver stops
+     * retrying, aborts the open transaction and rejects with {@linkcode DeadlineExceededError}. Can be overridden per
+     * call with {@linkcode ExecuteLambdaOptions}. The default of 0 means there is no deadline.
+     */
+    deadlineMillis?: number;
+
+    /**
+     * Config to specify max number of retries, base and custom backoff strategy for retries. Will be overridden if a
+     * different retryConfig is passed to {@linkcode QldbDriver.executeLambda}. Defaults to {@linkcode defaultRetryConfig}.
+     */
+    retryConfig?: RetryConfig;
+
+    /**
+     * A string appended to the user agent the driver sends with every request, e.g. to identify the calling
+     * application. As the driver only sets the user agent of the clients it builds from `qldbClientOptions`, this
+     * cannot be combined with `qldbClient` or `transport`.
+     */
+    userAgentSuffix?: string;
+
+    /**
+     * The logger the driver writes structured messages to, e.g. `console`. Every message is accompanied by
+     * {@linkcode LogFields} identifying the ledger, session, transaction and attempt it relates to. Defaults to writing
+     * plain string messages to the logger set in the global AWS SDK config.
+     */
+    logger?: Logger;
+
+    /**
+     * The minimum level of messages written to the logger. Defaults to {@linkcode LogLevel.DEBUG}.
+     */
+    logLevel?: LogLevel;
+
+    /**
+     * Callbacks invoked by the driver at specific points of a transaction's lifecycle.
+     */
+    hooks?: QldbDriverHooks;
+
+    /**
+     * The sink the driver records metrics of its transactions, session pool and statements to, e.g. a
+     * {@linkcode PrometheusMetricsSink}. See {@linkcode MetricsSink} for the recorded metrics. By default, no metrics
+     * are recorded.
+     */
+    metricsSink?: MetricsSink;
+
+    /**
+     * How calls to {@linkcode QldbDriver.executeLambda} made from within a transaction lambda of this driver are
+     * handled. See {@linkcode NestedTransactionMode}. Defaults to "reject". Nested calls are detected with the
+     * `AsyncLocalStorage` of Node.js 12.17 and later, and are not detected on earlier versions.
+     */
+    nestedTransactionMode?: NestedTransactionMode;
+
+    /**
+     * Enables a circuit breaker which, once too many requests to QLDB fail, rejects transactions with
+     * {@linkcode CircuitOpenError} instead of retrying them, until probing transactions succeed again. Changes of its
+     * state are emitted as `circuitStateChanged` events. See {@linkcode CircuitBreakerOptions}. Disabled by default.
+     */
+    circuitBreaker?: CircuitBreakerOptions;
+
+    /**
+     * Enables a retry budget shared by all transactions of the driver, on top of the retry limit of each transaction.
+     * A transaction which would be retried while the budget is exhausted fails with its error instead, and is counted in
+     * the `retryBudgetExhaustedCount` of {@linkcode QldbDriver.getPoolStats}. See {@linkcode RetryBudgetOptions}.
+     * Disabled by default.
+     */
+    retryBudget?: RetryBudgetOptions;
+
+    /**
+     * Enables adaptive concurrency, which lowers the number of transactions the driver runs concurrently while
+     * transactions fail with OCC conflicts or are throttled, e.g. while many transactions contend for the same
+     * documents, and raises it back towards `maxConcurrentTransactions` while they commit. Transactions beyond the
+     * current limit wait for a session as if the pool was exhausted. The current limit is reported as the
+     * `concurrencyLimit` of {@linkcode QldbDriver.getPoolStats}. See {@linkcode AdaptiveConcurrencyOptions}. Disabled by
+     * default.
+     */
+    adaptiveConcurrency?: AdaptiveConcurrencyOptions;
+}
+
+/**
+ * Options of the circuit breaker of a {@linkcode QldbDriver}, which stops transactions from piling up while QLDB or the
+ * network is degraded. Failed attempts count towards the failure rate if they failed with a retriable error, as do
+ * failures to start a session. All options are optional.
+ */
+export interface CircuitBreakerOptions {
+    /**
+     * The rate of failed requests, between 0 exclusive and 1 inclusive, at which the circuit opens. Defaults to 0.5.
+     */
+    failureRateThreshold?: number;
+
+    /**
+     * The number of latest outcomes of requests the failure rate is computed over. Defaults to 20.
+     */
+    windowSize?: number;
+
+    /**
+     * The number of outcomes required before the circuit can open. Defaults to 10.
+     */
+    minimumOutcomes?: number;
+
+    /**
+     * The time, in milliseconds, the circuit stays open, rejecting transactions with {@linkcode CircuitOpenError}, before
+     * it becomes half-open. Defaults to 30000.
+     */
+    openDurationMillis?: number;
+
+    /**
+     * The number of transactions let through at a time to probe QLDB while the circuit is half-open. Defaults to 1.
+     */
+    halfOpenMaxProbes?: number;
+}
+
+/**
+ * Options of the retry budget of a {@linkcode QldbDriver}, which limits the retries of all of its transactions to a
+ * share of the transactions executed, so that a burst of failures does not multiply the load on QLDB. All options are
+ * optional.
+ */
+export interface RetryBudgetOptions {
+    /**
+     * The number of retries earned by every transaction executed, e.g. 0.1 to allow one retry for every ten
+     * transactions. Must be greater than 0. Defaults to 0.1.
+     */
+    retryRatio?: number;
+
+    /**
+     * The maximum number of retries which can be saved up, and which may be made before any transaction is executed.
+     * Defaults to 10.
+     */
+    maxTokens?: number;
+}
+
+/**
+ * Options of the adaptive concurrency limit of a {@linkcode QldbDriver}. The limit is halved, by default, when a
+ * transaction fails with an OCC conflict or is throttled, and grows by one, by default, once a limit's worth of
+ * transactions has committed. All options are optional.
+ */
+export interface AdaptiveConcurrencyOptions {
+    /**
+     * The lowest the limit can fall to. Must not exceed `maxConcurrentTransactions`. Defaults to 1.
+     */
+    minLimit?: number;
+
+    /**
+     * The number of transactions the limit grows by once a limit's worth of transactions has committed. Must be greater
+     * than 0. Defaults to 1.
+     */
+    increaseStep?: number;
+
+    /**
+     * The factor, between 0 and 1 exclusive, the limit is multiplied by when a transaction fails with an OCC conflict or
+     * is throttled. Defaults to 0.5.
+     */
+    decreaseRatio?: number;
+
+    /**
+     * The minimum time, in milliseconds, between two decreases of the limit, so that transactions already in flight
+     * when the limit was lowered do not lower it again. Defaults to 1000.
+     */
+    decreaseIntervalMillis?: number;
+}
+
+/**
+ * How {@linkcode QldbDriver.executeLambda} handles being called from within a transaction lambda of the same driver:
+ *
+ * - "reject" rejects the inner call with {@linkcode NestedTransactionError}.
+ * - "join" runs the inner lambda within the outer transaction, so that its statements are committed, or retried,
+ *   together with those of the outer lambda. The retry config and options passed to the inner call are ignored.
+ */
+export type NestedTransactionMode = "reject" | "join";
+
+/**
+ * Options for a single call to {@linkcode QldbDriver.executeLambda}. All options are optional and override the options
+ * of the driver.
+ */
+export interface ExecuteLambdaOptions {
+    /**
+     * The maximum time, in milliseconds, the call may take across all of its attempts. See
+     * {@linkcode QldbDriverOptions.deadlineMillis}. A value of 0 means the call has no deadline.
+     */
+    deadlineMillis?: number;
+
+    /**
+     * A signal which cancels the call when aborted, e.g. the `signal` of an `AbortController`. The driver stops
+     * waiting for a session or backing off, aborts the open transaction and rejects with {@linkcode AbortError}. Result
+     * streams returned by the transaction are destroyed with the same error.
+     */
+    signal?: AbortSignalLike;
+}
+
+/**
+ * The time, in milliseconds, after which QLDB expires a transaction which has not been committed.
+ */
+export const transactionExpiryMillis: number = 30000;
+
+/**
+ * Options for {@linkcode QldbDriver.beginTransaction}. All options are optional.
+ */
+export interface BeginTransactionOptions {
+    /**
+     * The time, in milliseconds, after which the transaction is aborted and its session returned to the pool if it has
+     * been neither committed nor aborted. Must be positive and at most the 30 second expiry of QLDB transactions.
+     * Defaults to 25000.
+     */
+    autoAbortMillis?: number;
+}
+
+/**
+ * Options for {@linkcode QldbDriver.close}. All options are optional.
+ */
+export interface CloseOptions {
+    /**
+     * The maximum time, in milliseconds, to wait for transactions in flight to complete before the driver is closed.
+     * Sessions of transactions which complete later are ended as they complete. The default of 0 does not wait.
+     */
+    drainTimeoutMs?: number;
+}
+
+/**
+ * A summary of the shutdown of a {@linkcode QldbDriver}, returned by {@linkcode QldbDriver.close}.
+ */
+export interface CloseSummary {
+    /**
+     * The number of transactions in flight when the driver was closed which completed within the drain timeout.
+     */
+    drainedTransactionCount: number;
+
+    /**
+     * The number of transactions still in flight when the drain timeout passed.
+     */
+    abandonedTransactionCount: number;
+
+    /**
+     * The number of sessions ended, including the sessions of drained transactions.
+     */
+    endedSessionCount: number;
+}
+
+/**
+ * Validate the options passed to a {@linkcode QldbDriver}.
+ * @param ledgerName The name of the ledger the driver connects to.
+ * @param options The options to validate.
+ * @throws TypeError if an option is of the wrong type.
+ * @throws RangeError if a numeric option is out of range.
+ */
+export function validateDriverOptions(ledgerName: string, options: QldbDriverOptions): void {
+    if (typeof ledgerName !== "string" || ledgerName.length === 0) {
+        throw new TypeError("Value for ledgerName must be a non-empty string.");
+    }
+    if (options == null || typeof options !== "object") {
+        throw new TypeError("Value for options must be an object.");
+    }
+    if (options.qldbClientOptions != null && typeof options.qldbClientOptions !== "object") {
+        throw new TypeError("Value for qldbClientOptions must be an object.");
+    }
+    if (options.qldbClient != null && (typeof options.qldbClient !== "object" ||
+        typeof options.qldbClient.sendCommand !== "function")) {
+        throw new TypeError("Value for qldbClient must be a QLDBSession client.");
+    }
+    if (options.transport != null && (typeof options.transport !== "object" ||
+        typeof options.transport.sendCommand !== "function")) {
+        throw new TypeError("Value for transport must have a sendCommand function.");
+    }
+    const clientOptionNames: (keyof QldbDriverOptions)[] = ["qldbClientOptions", "qldbClient", "transport"];
+    const givenNames: (keyof QldbDriverOptions)[] = clientOptionNames
+        .filter((name: keyof QldbDriverOptions) => options[name] != null);
+    if (givenNames.length > 1) {
+        throw new TypeError(`Values for ${givenNames.join(" and ")} cannot be combined. Please set only one.`);
+    }
+    if (options.userAgentSuffix != null && (options.qldbClient != null || options.transport != null)) {
+        throw new TypeError(
+            "Value for userAgentSuffix cannot be combined with qldbClient or transport. Please set the user agent " +
+            "of the client instead."
+        );
+    }
+    _validateNonNegativeInteger("maxConcurrentTransactions", options.maxConcurrentTransactions);
+    _validateNonNegativeInteger("acquisitionTimeoutMillis", options.acquisitionTimeoutMillis);
+    _validateNonNegativeInteger("deadlineMillis", options.deadlineMillis);
+    _validateNonNegativeInteger("minIdleSessions", options.minIdleSessions);
+    _validateNonNegativeInteger("sessionIdleTimeoutMillis", options.sessionIdleTimeoutMillis);
+    _validateNonNegativeInteger("maxSessionAgeMillis", options.maxSessionAgeMillis);
+    _validateNonNegativeInteger("maxTransactionsPerSession", options.maxTransactionsPerSession);
+    _validateNonNegativeInteger("evictionIntervalMillis", options.evictionIntervalMillis);
+    if (options.evictionIntervalMillis === 0) {
+        throw new RangeError("Value for evictionIntervalMillis must be greater than 0.");
+    }
+    if (options.retryConfig != null && !(options.retryConfig instanceof RetryConfig)) {
+        throw new TypeError("Value for retryConfig must be an instance of RetryConfig.");
+    }
+    if (options.userAgentSuffix != null && typeof options.userAgentSuffix !== "string") {
+        throw new TypeError("Value for userAgentSuffix must be a string.");
+    }
+    if (options.logger != null) {
+        _validateMethods("logger", options.logger, ["debug", "info", "warn", "error"]);
+    }
+    if (options.logLevel != null && (typeof options.logLevel !== "number" || LogLevel[options.logLevel] == undefined)) {
+        throw new RangeError("Value for logLevel must be one of the LogLevel values.");
+    }
+    if (options.hooks != null) {
+        if (typeof options.hooks !== "object") {
+            throw new TypeError("Value for hooks must be an object.");
+        }
+        (<(keyof QldbDriverHooks)[]> Object.keys(options.hooks)).forEach((hookName: keyof QldbDriverHooks) => {
+            const hook: unknown = options.hooks[hookName];
+            if (hook != null && typeof hook !== "function") {
+                throw new TypeError(`Value for hook ${hookName} must be a function.`);
+            }
+        });
+    }
+    if (options.nestedTransactionMode != null &&
+        options.nestedTransactionMode !== "reject" && options.nestedTransactionMode !== "join") {
+        throw new RangeError("Value for nestedTransactionMode must be \"reject\" or \"join\".");
+    }
+    if (options.circuitBreaker != null) {
+        _validateCircuitBreakerOptions(options.circuitBreaker);
+    }
+    if (options.retryBudget != null) {
+        _validateRetryBudgetOptions(options.retryBudget);
+    }
+    if (options.adaptiveConcurrency != null) {
+        _validateAdaptiveConcurrencyOptions(options.adaptiveConcurrency);
+    }
+    if (options.metricsSink != null) {
+        _validateMethods("metricsSink", options.metricsSink, ["incrementCounter", "recordHistogram"]);
+    }
+}
+
+/**
+ * Validate the options passed to {@linkcode QldbDriver.executeLambda}.
+ * @param options The options to validate.
+ * @throws TypeError if an option is of the wrong type.
+ * @throws RangeError if a numeric option is out of range.
+ */
+export function validateExecuteLambdaOptions(options: ExecuteLambdaOptions): void {
+    if (options == null || typeof options !== "object") {
+        throw new TypeError("Value for options must be an object.");
+    }
+    _validateNonNegativeInteger("deadlineMillis", options.deadlineMillis);
+    if (options.signal != null && (typeof options.signal.aborted !== "boolean" ||
+        typeof options.signal.addEventListener !== "function" ||
+        typeof options.signal.removeEventListener !== "function")) {
+        throw new TypeError("Value for signal must be an AbortSignal.");
+    }
+}
+
+/**
+ * Validate the options passed to {@linkcode QldbDriver.beginTransaction}.
+ * @param options The options to validate.
+ * @throws TypeError if an option is of the wrong type.
+ * @throws RangeError if a numeric option is out of range.
+ */
+export function validateBeginTransactionOptions(options: BeginTransactionOptions): void {
+    if (options == null || typeof options !== "object") {
+        throw new TypeError("Value for options must be an object.");
+    }
+    _validateNonNegativeInteger("autoAbortMillis", options.autoAbortMillis);
+    if (options.autoAbortMillis === 0 || options.autoAbortMillis > transactionExpiryMillis) {
+        throw new RangeError(`Value for autoAbortMillis must be between 1 and ${transactionExpiryMillis}.`);
+    }
+}
+
+/**
+ * Validate the options passed to {@linkcode QldbDriver.close}.
+ * @param options The options to validate.
+ * @throws TypeError if an option is of the wrong type.
+ * @throws RangeError if a numeric option is out of range.
+ */
+export function validateCloseOptions(options: CloseOptions): void {
+    if (options == null || typeof options !== "object") {
+        throw new TypeError("Value for options must be an object.");
+    }
+    _validateNonNegativeInteger("drainTimeoutMs", options.drainTimeoutMs);
+}
+
+/**
+ * Validate the options of the circuit breaker of a driver.
+ * @param options The options to validate.
+ * @throws TypeError if an option is of the wrong type.
+ * @throws RangeError if a numeric option is out of range.
+ */
+function _validateCircuitBreakerOptions(options: CircuitBreakerOptions): void {
+    if (typeof options !== "object") {
+        throw new TypeError("Value for circuitBreaker must be an object.");
+    }
+    if (options.failureRateThreshold != null) {
+        if (typeof options.failureRateThreshold !== "number") {
+            throw new TypeError("Value for failureRateThreshold must be a number.");
+        }
+        if (!(options.failureRateThreshold > 0 && options.failureRateThreshold <= 1)) {
+            throw new RangeError("Value for failureRateThreshold must be greater than 0 and at most 1.");
+        }
+    }
+    _validatePositiveInteger(options, "windowSize");
+    _validatePositiveInteger(options, "minimumOutcomes");
+    _validatePositiveInteger(options, "openDurationMillis");
+    _validatePositiveInteger(options, "halfOpenMaxProbes");
+}
+
+/**
+ * Validate the options of the retry budget of a driver.
+ * @param options The options to validate.
+ * @throws TypeError if an option is of the wrong type.
+ * @throws RangeError if a numeric option is out of range.
+ */
+function _validateRetryBudgetOptions(options: RetryBudgetOptions): void {
+    if (typeof options !== "object") {
+        throw new TypeError("Value for retryBudget must be an object.");
+    }
+    if (options.retryRatio != null) {
+        if (typeof options.retryRatio !== "number") {
+            throw new TypeError("Value for retryRatio must be a number.");
+        }
+        if (!(options.retryRatio > 0 && isFinite(options.retryRatio))) {
+            throw new RangeError("Value for retryRatio must be a finite number greater than 0.");
+        }
+    }
+    _validateNonNegativeInteger("maxTokens", options.maxTokens);
+    if (options.maxTokens === 0) {
+        throw new RangeError("Value for maxTokens must be greater than 0.");
+    }
+}
+
+/**
+ * Validate the options of the adaptive concurrency limit of a driver.
+ * @param options The options to validate.
+ * @throws TypeError if an option is of the wrong type.
+ * @throws RangeError if a numeric option is out of range.
+ */
+function _validateAdaptiveConcurrencyOptions(options: AdaptiveConcurrencyOptions): void {
+    if (typeof options !== "object") {
+        throw new TypeError("Value for adaptiveConcurrency must be an object.");
+    }
+    _validatePositiveInteger(options, "minLimit");
+    _validatePositiveInteger(options, "increaseStep");
+    if (options.decreaseRatio != null) {
+        if (typeof options.decreaseRatio !== "number") {
+            throw new TypeError("Value for decreaseRatio must be a number.");
+        }
+        if (!(options.decreaseRatio > 0 && options.decreaseRatio < 1)) {
+            throw new RangeError("Value for decreaseRatio must be greater than 0 and less than 1.");
+        }
+    }
+    _validateNonNegativeInteger("decreaseIntervalMillis", options.decreaseIntervalMillis);
+}
+
+/**
+ * Validate that an optional numeric option is a non-negative integer.
+ * @param name The name of the option.
+ * @param value The value of the option.
+ * @throws TypeError if the value is not an integer.
+ * @throws RangeError if the value is negative.
+ */
+function _validateNonNegativeInteger(name: string, value: unknown): void {
+    if (value == null) {
+        return;
+    }
+    if (typeof value !== "number" || !Number.isInteger(value)) {
+        throw new TypeError(`Value for ${name} must be an integer.`);
+    }
+    if (value < 0) {
+        throw new RangeError(`Value for ${name} cannot be negative.`);
+    }
+}
+
+/**
+ * Validate that an optional numeric option is a positive integer.
+ * @param options The options holding the option.
+ * @param name The name of the option.
+ * @throws TypeError if the value is not an integer.
+ * @throws RangeError if the value is not positive.
+ */
+function _validatePositiveInteger<T>(options: T, name: keyof T & string): void {
+    const value: unknown = options[name];
+    _validateNonNegativeInteger(name, value);
+    if (value === 0) {
+        throw new RangeError(`Value for ${name} must be greater than 0.`);
+    }
+}
+
+/**
+ * Validate that an option implementing an interface has all the methods of the interface.
+ * @param name The name of the option.
+ * @param value The value of the option.
+ * @param methodNames The names of the methods of the interface.
+ * @throws TypeError if a method is missing.
+ */
+function _validateMethods<T>(name: string, value: T, methodNames: (keyof T & string)[]): void {
+    methodNames.forEach((methodName: keyof T & string) => {
+        if (typeof value[methodName] !== "function") {
+            throw new TypeError(`Value for ${name} must have a ${methodName} function.`);
+        }
+    });
+}
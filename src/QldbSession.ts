@@ -12,20 +12,36 @@
  */
 
 import { StartTransactionResult } from "aws-sdk/clients/qldbsession";
+
 import { Communicator } from "./Communicator";
+import { DriverEventEmitter } from "./DriverEvents";
 import { BackoffFunction } from "./retry/BackoffFunction";
+import { AbortSignalLike, onAbort, throwIfAborted } from "./Cancellation";
+import { CircuitBreaker } from "./CircuitBreaker";
+import { ConcurrencyLimiter } from "./ConcurrencyLimiter";
 import {
+    AbortError,
+    DeadlineExceededError,
     isBadRequestException,
     isInvalidSessionException,
     isOccConflictException,
     isRetriableException,
+    isThrottlingException,
     LambdaAbortedError,
+    QldbDriverError,
     StartTransactionError,
+    toQldbDriverError,
+    TransactionClosedError,
 } from "./errors/Errors";
-import { warn } from "./LogUtil";
+import { ContextLogger, hashSessionToken } from "./LogUtil";
+import { DriverMetrics } from "./metrics/DriverMetrics";
+import { QldbDriverHooks } from "./QldbDriverOptions";
 import { Result } from "./Result";
 import { ResultStream } from "./ResultStream";
+import { RetryBudget } from "./retry/RetryBudget";
 import { RetryConfig } from "./retry/RetryConfig";
+import { PoolCounters } from "./stats/PoolStats";
+import { traceAsync, TraceSpan } from "./tracing/Tracing";
 import { Transaction } from "./Transaction";
 import { TransactionExecutor } from "./TransactionExecutor";
 import { TransactionExecutionContext } from "./TransactionExecutionContext";
@@ -33,18 +49,50 @@ import { TransactionExecutionContext } from "./TransactionExecutionContext";
 export class QldbSession {
     private _communicator: Communicator;
     private _isClosed: boolean;
+    private _logger: ContextLogger;
+    private _hooks: QldbDriverHooks;
+    private _creationTime: number;
+    private _lastUsedTime: number;
+    private _transactionCount: number;
+    private _counters: PoolCounters;
+    private _events: DriverEventEmitter;
+    private _metrics: DriverMetrics;
+    private _circuitBreaker: CircuitBreaker;
+    private _retryBudget: RetryBudget;
+    private _concurrencyLimiter: ConcurrencyLimiter;
 
-    constructor(communicator: Communicator) {
+    constructor(
+        communicator: Communicator,
+        logger: ContextLogger = new ContextLogger(),
+        hooks: QldbDriverHooks = {},
+        counters: PoolCounters = new PoolCounters(),
+        events: DriverEventEmitter = new DriverEventEmitter(logger),
+        metrics: DriverMetrics = new DriverMetrics(),
+        circuitBreaker: CircuitBreaker = new CircuitBreaker(),
+        retryBudget: RetryBudget = new RetryBudget(),
+        concurrencyLimiter: ConcurrencyLimiter = new ConcurrencyLimiter(Infinity)
+    ) {
         this._communicator = communicator;
         this._isClosed = false;
+        this._logger = logger;
+        this._hooks = hooks;
+        this._counters = counters;
+        this._events = events;
+        this._metrics = metrics;
+        this._circuitBreaker = circuitBreaker;
+        this._retryBudget = retryBudget;
+        this._concurrencyLimiter = concurrencyLimiter;
+        this._creationTime = Date.now();
+        this._lastUsedTime = this._creationTime;
+        this._transactionCount = 0;
     }
 
-    endSession(): void {
+    async endSession(): Promise<void> {
         if (this._isClosed) {
             return;
         }
         this._isClosed = true;
-        this._communicator.endSession();
+        await this._communicator.endSession();
     }
 
     closeSession(): void {
@@ -56,59 +104,61 @@ export class QldbSession {
         retryConfig: RetryConfig,
         executionContext: TransactionExecutionContext,
     ): Promise<any> {
-        let transaction: Transaction;
-        while (true) {
-            transaction = null;
-            try {
-                transaction = await this.startTransaction();
-                const transactionExecutor = new TransactionExecutor(transaction);
-                let returnedValue: any = await transactionLambda(transactionExecutor);
-                if (returnedValue instanceof ResultStream) {
-                    returnedValue = await Result.bufferResultStream(returnedValue);
-                }
-                await transaction.commit();
-                return returnedValue;
-            } catch (e) {
-                executionContext.setLastException(e);
-                if (isInvalidSessionException(e)) {
-                    this.closeSession();
-                    throw e;
-                }
+        try {
+            return await this._executeWithRetries(transactionLambda, retryConfig, executionContext);
+        } finally {
+            this._lastUsedTime = Date.now();
+        }
+    }
 
-                if (!isOccConflictException(e)) {
-                    this._noThrowAbort(transaction);
-                }
+    getSessionToken(): string {
+        return this._communicator.getSessionToken();
+    }
 
-                if (executionContext.getExecutionAttempt() >= retryConfig.getRetryLimit()) {
-                    throw e;
-                }
+    /**
+     * @returns The time, in milliseconds since the epoch, at which the session was started.
+     */
+    getCreationTime(): number {
+        return this._creationTime;
+    }
 
-                if (e instanceof StartTransactionError || isRetriableException(e) || isOccConflictException(e)) {
-                    warn(`OCC conflict or retriable exception occurred: ${e}.`);
-                } else {
-                    throw e;
-                }
-            }
-            executionContext.incrementExecutionAttempt();
-            await this._retrySleep(executionContext, retryConfig, transaction);
-        }
+    /**
+     * @returns The time, in milliseconds since the epoch, at which the session last finished executing a transaction,
+     *          or was started if it has not executed one yet.
+     */
+    getLastUsedTime(): number {
+        return this._lastUsedTime;
     }
 
+    /**
+     * @returns The number of transactions started on the session, including retried transactions.
+     */
+    getTransactionCount(): number {
+        return this._transactionCount;
+    }
 
-    getSessionToken(): string {
-        return this._communicator.getSessionToken();
+    /**
+     * Record that the session has just finished executing a transaction begun outside of {@linkcode executeLambda}.
+     */
+    markUsed(): void {
+        this._lastUsedTime = Date.now();
     }
 
     isSessionOpen(): Boolean {
         return !this._isClosed;
     }
 
-    async startTransaction(): Promise<Transaction> {
+    async startTransaction(signal?: AbortSignalLike): Promise<Transaction> {
         try {
             const startTransactionResult: StartTransactionResult = await this._communicator.startTransaction();
+            this._transactionCount++;
             const transaction: Transaction = new Transaction(
                 this._communicator,
-                startTransactionResult.TransactionId
+                startTransactionResult.TransactionId,
+                this._logger,
+                signal,
+                this._events,
+                this._metrics
             );
             return transaction;
         } catch (e) {
@@ -119,16 +169,191 @@ export class QldbSession {
         }
     }
 
+    private async _executeWithRetries(
+        transactionLambda: (transactionExecutor: TransactionExecutor) => any,
+        retryConfig: RetryConfig,
+        executionContext: TransactionExecutionContext,
+    ): Promise<any> {
+        let transaction: Transaction;
+        while (true) {
+            transaction = null;
+            let isInterrupted: boolean = false;
+            const interrupt = (): void => {
+                if (isInterrupted) {
+                    return;
+                }
+                isInterrupted = true;
+                this._abortAndEndSession(transaction);
+            };
+            try {
+                return await this._runInterruptibly(() => traceAsync("QLDB attempt", "internal", {
+                    "db.system": "qldb",
+                    "db.name": this._logger.getFields().ledgerName,
+                    "qldb.attempt": executionContext.getExecutionAttempt()
+                }, async (span: TraceSpan) => {
+                    transaction = await this.startTransaction(executionContext.getSignal());
+                    if (isInterrupted) {
+                        throw new TransactionClosedError();
+                    }
+                    span.setAttribute("qldb.transaction_id", transaction.getTransactionId());
+                    this._events.emit("transactionStarted", {
+                        transactionId: transaction.getTransactionId(),
+                        attempt: executionContext.getExecutionAttempt()
+                    });
+                    const transactionExecutor = new TransactionExecutor(transaction);
+                    let returnedValue: any = await transactionLambda(transactionExecutor);
+                    if (returnedValue instanceof ResultStream) {
+                        returnedValue = await Result.bufferResultStream(returnedValue);
+                    }
+                    await transaction.commit();
+                    this._counters.committedTransactionCount++;
+                    this._circuitBreaker.recordSuccess();
+                    this._concurrencyLimiter.recordSuccess();
+                    return returnedValue;
+                }), executionContext, interrupt);
+            } catch (e) {
+                if (e instanceof DeadlineExceededError || e instanceof AbortError) {
+                    if (!isInterrupted) {
+                        this._abortAndEndSession(transaction);
+                    }
+                    throw e;
+                }
+                if (e instanceof QldbDriverError) {
+                    toQldbDriverError(e, { attempt: executionContext.getExecutionAttempt() });
+                }
+                executionContext.setLastException(e);
+                if (isOccConflictException(e)) {
+                    this._metrics.recordOccConflict();
+                }
+                if (isOccConflictException(e) || isThrottlingException(e)) {
+                    this._concurrencyLimiter.recordCongestion();
+                }
+                if (isInvalidSessionException(e)) {
+                    this.closeSession();
+                    this._counters.invalidatedSessionCount++;
+                    this._events.emit("sessionDiscarded", {
+                        sessionTokenHash: hashSessionToken(this.getSessionToken()),
+                        error: e
+                    });
+                    throw e;
+                }
+                if (e instanceof LambdaAbortedError) {
+                    this._events.emit("lambdaAborted", {
+                        transactionId: (transaction != null) ? transaction.getTransactionId() : null
+                    });
+                }
+
+                if (!isOccConflictException(e)) {
+                    this._noThrowAbort(transaction);
+                }
+
+                const transactionId: string = (transaction != null) ? transaction.getTransactionId() : null;
+                const isRetried: boolean = executionContext.getExecutionAttempt() < retryConfig.getRetryLimit() &&
+                    retryConfig.shouldRetry(e, executionContext.getExecutionAttempt() + 1, transactionId);
+                if (!isOccConflictException(e) && isRetriableException(e)) {
+                    this._circuitBreaker.recordFailure();
+                }
+
+                if (isRetried) {
+                    this._circuitBreaker.throwIfOpen(e);
+                    if (!this._retryBudget.tryWithdraw()) {
+                        this._counters.retryBudgetExhaustedCount++;
+                        this._logger.warn(`Not retrying as the retry budget of the driver is exhausted: ${e}.`, {
+                            transactionId: (transactionId != null) ? transactionId : undefined,
+                            attempt: executionContext.getExecutionAttempt()
+                        });
+                        throw e;
+                    }
+                    if (isOccConflictException(e)) {
+                        this._counters.occRetryCount++;
+                    }
+                    this._logger.warn(`OCC conflict or retriable exception occurred: ${e}.`, {
+                        transactionId: (transactionId != null) ? transactionId : undefined,
+                        attempt: executionContext.getExecutionAttempt()
+                    });
+                } else {
+                    throw e;
+                }
+            }
+            executionContext.incrementExecutionAttempt();
+            await this._retrySleep(executionContext, retryConfig, transaction);
+        }
+    }
+
     private async _noThrowAbort(transaction: Transaction): Promise<void> {
+        this._counters.abortedTransactionCount++;
         try {
             if (null == transaction) {
-                this._communicator.abortTransaction();
+                await this._communicator.abortTransaction();
             } else {
                 await transaction.abort();
             }
         } catch (e) {
-            warn(`Ignored error while aborting transaction during execution: ${e}.`);
+            this._logger.warn(`Ignored error while aborting transaction during execution: ${e}.`);
+        }
+    }
+
+    /**
+     * Run an attempt at executing the transaction, rejecting with {@linkcode DeadlineExceededError} if the deadline of
+     * the execution passes first, or with {@linkcode AbortError} if its signal is aborted first. The attempt is not
+     * started if either has already happened. As the attempt keeps running once interrupted, `onInterrupt` is called
+     * first, to close its transaction before the attempt can execute further statements or commit.
+     * @param attempt The function running the attempt.
+     * @param executionContext The execution context holding the deadline and the signal.
+     * @param onInterrupt The function called when the deadline passes or the signal is aborted during the attempt.
+     * @returns Promise which fulfills with the result of the attempt.
+     */
+    private _runInterruptibly<T>(
+        attempt: () => Promise<T>,
+        executionContext: TransactionExecutionContext,
+        onInterrupt: () => void
+    ): Promise<T> {
+        const remainingMillis: number = executionContext.getRemainingMillis();
+        const signal: AbortSignalLike = executionContext.getSignal();
+        if (remainingMillis === Infinity && signal == null) {
+            return attempt();
+        }
+        try {
+            throwIfAborted(signal);
+        } catch (e) {
+            return Promise.reject(e);
+        }
+        if (remainingMillis <= 0) {
+            return Promise.reject(executionContext.createDeadlineExceededError());
         }
+        let timer: NodeJS.Timeout;
+        let removeAbortListener: () => void;
+        const interruption: Promise<T> = new Promise((resolve, reject) => {
+            if (remainingMillis !== Infinity) {
+                timer = setTimeout(() => {
+                    onInterrupt();
+                    reject(executionContext.createDeadlineExceededError());
+                }, remainingMillis);
+            }
+            removeAbortListener = onAbort(signal, () => {
+                onInterrupt();
+                reject(new AbortError(signal.reason));
+            });
+        });
+        return Promise.race([attempt(), interruption]).then((result: T) => {
+            clearTimeout(timer);
+            removeAbortListener();
+            return result;
+        }, (e: Error) => {
+            clearTimeout(timer);
+            removeAbortListener();
+            throw e;
+        });
+    }
+
+    /**
+     * Abort a transaction which was interrupted by the deadline or the signal, then end the session. Its statements may still be in
+     * flight, so the session is closed right away to keep it from being reused.
+     * @param transaction The interrupted transaction, or null if it was not started yet.
+     */
+    private _abortAndEndSession(transaction: Transaction): void {
+        this._isClosed = true;
+        this._noThrowAbort(transaction).then(() => this._communicator.endSession());
     }
 
     private _retrySleep(executionContext: TransactionExecutionContext, retryConfig: RetryConfig, transaction: Transaction) {
@@ -138,10 +363,53 @@ export class QldbSession {
         if (backoffDelay == null || backoffDelay < 0) {
             backoffDelay = 0;
         }
-        return this._sleep(backoffDelay);
+        if (backoffDelay >= executionContext.getRemainingMillis()) {
+            throw executionContext.createDeadlineExceededError();
+        }
+        this._invokeRetryHook(executionContext, transactionId);
+        this._events.emit("retryScheduled", {
+            transactionId: transactionId,
+            retryAttempt: executionContext.getExecutionAttempt(),
+            delayMillis: backoffDelay,
+            error: executionContext.getLastException()
+        });
+        return traceAsync("QLDB backoff", "internal", {
+            "qldb.transaction_id": (transactionId != null) ? transactionId : undefined,
+            "qldb.retry_attempt": executionContext.getExecutionAttempt(),
+            "qldb.backoff_millis": backoffDelay
+        }, () => this._sleep(backoffDelay, executionContext.getSignal()));
     }
 
-    private _sleep(sleepTime: number) {
-        return new Promise(resolve => setTimeout(resolve, sleepTime));
+    private _invokeRetryHook(executionContext: TransactionExecutionContext, transactionId: string): void {
+        if (this._hooks.onRetry == null) {
+            return;
+        }
+        try {
+            this._hooks.onRetry(executionContext.getExecutionAttempt(), executionContext.getLastException(), transactionId);
+        } catch (e) {
+            this._logger.warn(`Ignored error thrown by the onRetry hook: ${e}.`, {
+                transactionId: transactionId,
+                attempt: executionContext.getExecutionAttempt()
+            });
+        }
+    }
+
+    private _sleep(sleepTime: number, signal?: AbortSignalLike): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (signal != null && signal.aborted) {
+                reject(new AbortError(signal.reason));
+                return;
+            }
+            let removeAbortListener: () => void = null;
+            const timer: NodeJS.Timeout = setTimeout(() => {
+                removeAbortListener();
+                resolve();
+            }, sleepTime);
+            removeAbortListener = onAbort(signal, () => {
+                clearTimeout(timer);
+                removeAbortListener();
+                reject(new AbortError(signal.reason));
+            });
+        });
     }
 }
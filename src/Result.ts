@@ -20,27 +20,30 @@ import {
 } from "aws-sdk/clients/qldbsession";
 import { dom } from "ion-js";
 
+import { AbortSignalLike, throwIfAborted } from "./Cancellation";
 import { Communicator } from "./Communicator";
 import { ClientException } from "./errors/Errors"
+import { DriverMetrics } from "./metrics/DriverMetrics";
 import { ResultStream } from "./ResultStream";
 import { IOUsage } from "./stats/IOUsage";
 import { TimingInformation } from "./stats/TimingInformation";
 
 /**
- * A class representing a fully buffered set of results returned from QLDB.
+ * A class representing a fully buffered set of results returned from QLDB. The rows are Ion values, unless the result
+ * was mapped to typed rows with {@linkcode Result.map}.
  */
-export class Result {
-    private _resultList: dom.Value[];
+export class Result<T = dom.Value> {
+    private _resultList: T[];
     private _ioUsage: IOUsage;
     private _timingInformation: TimingInformation;
 
     /**
      * Creates a Result.
-     * @param resultList A list of Ion values containing the statement execution's result returned from QLDB.
+     * @param resultList A list of rows containing the statement execution's result returned from QLDB.
      * @param ioUsage Contains the number of consumed IO requests for the executed statement.
      * @param timingInformation Holds server side processing time for the executed statement.
      */
-    private constructor(resultList: dom.Value[], ioUsage: IOUsage, timingInformation: TimingInformation) {
+    private constructor(resultList: T[], ioUsage: IOUsage, timingInformation: TimingInformation) {
         this._resultList = resultList;
         this._ioUsage = ioUsage;
         this._timingInformation = timingInformation;
@@ -51,14 +54,19 @@ export class Result {
      * @param txnId The ID of the transaction the statement was executed in.
      * @param executeResult The returned result from the statement execution.
      * @param communicator The Communicator used for the statement execution.
+     * @param signal An optional signal which stops fetching pages when aborted.
+     * @param metrics The recorder of the metrics of the statement, recorded once all pages are fetched.
      * @returns Promise which fulfills with a Result.
+     * @throws {@linkcode AbortError} when the signal is aborted before all pages are fetched.
      */
     static async create(
         txnId: string,
         executeResult: ExecuteStatementResult,
-        communicator: Communicator
+        communicator: Communicator,
+        signal?: AbortSignalLike,
+        metrics: DriverMetrics = new DriverMetrics()
     ): Promise<Result> {
-        const result: Result = await Result._fetchResultPages(txnId, executeResult, communicator);
+        const result: Result = await Result._fetchResultPages(txnId, executeResult, communicator, signal, metrics);
         return result;
     }
 
@@ -74,12 +82,22 @@ export class Result {
 
     /**
      * Returns the list of results of the statement execution returned from QLDB.
-     * @returns A list of Ion values which wrap the Ion values returned from the QLDB statement execution.
+     * @returns A list of Ion values which wrap the Ion values returned from the QLDB statement execution, or the
+     *          typed rows they were mapped to.
      */
-    getResultList(): dom.Value[] {
+    getResultList(): T[] {
         return this._resultList.slice();
     }
 
+    /**
+     * Map every row of this result, e.g. from Ion values to plain JavaScript objects with {@linkcode ionToJsMapper}.
+     * @param mapper The function converting a row.
+     * @returns A new Result holding the mapped rows and the same IO usage and timing information.
+     */
+    map<U>(mapper: (row: T) => U): Result<U> {
+        return new Result(this._resultList.map((row: T) => mapper(row)), this._ioUsage, this._timingInformation);
+    }
+
     /**
      * Returns the number of read IO request for the executed statement.
      * @returns IOUsage, containing number of read IOs.
@@ -121,15 +139,20 @@ export class Result {
      * @param txnId The ID of the transaction the statement was executed in.
      * @param executeResult The returned result from the statement execution.
      * @param communicator The Communicator used for the statement execution.
+     * @param signal An optional signal which stops fetching pages when aborted.
+     * @param metrics The recorder of the metrics of the statement.
      * @returns Promise which fulfills with a Result, containing a list of Ion values, representing all the returned
      * values of the result set, number of IOs for the request, and the time spent processing the request.
      */
     private static async _fetchResultPages(
         txnId: string,
         executeResult: ExecuteStatementResult,
-        communicator: Communicator
+        communicator: Communicator,
+        signal: AbortSignalLike,
+        metrics: DriverMetrics
     ): Promise<Result> {
         let currentPage: Page = executeResult.FirstPage;
+        let pageCount: number = 1;
         let readIO: number = executeResult.ConsumedIOs != null ? executeResult.ConsumedIOs.ReadIOs : null;
         let processingTime: number =
             executeResult.TimingInformation != null ? executeResult.TimingInformation.ProcessingTimeMilliseconds : null;
@@ -139,9 +162,11 @@ export class Result {
             pageValuesArray.push(currentPage.Values);
         }
         while (currentPage.NextPageToken) {
+            throwIfAborted(signal);
             const fetchPageResult: FetchPageResult =
                 await communicator.fetchPage(txnId, currentPage.NextPageToken);
             currentPage = fetchPageResult.Page;
+            pageCount++;
             if (currentPage.Values && currentPage.Values.length > 0) {
                 pageValuesArray.push(currentPage.Values);
             }
@@ -154,6 +179,7 @@ export class Result {
                 processingTime += fetchPageResult.TimingInformation.ProcessingTimeMilliseconds;
             }
         }
+        metrics.recordStatement(readIO, processingTime, pageCount);
         const ionValues: dom.Value[] = [];
         pageValuesArray.forEach((valueHolders: ValueHolder[]) => {
             valueHolders.forEach((valueHolder: ValueHolder) => {
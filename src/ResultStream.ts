@@ -19,7 +19,10 @@ import {
 import { dom } from "ion-js";
 import { Readable } from "stream";
 
+import { AbortSignalLike, onAbort, throwIfAborted } from "./Cancellation";
 import { Communicator } from "./Communicator";
+import { AbortError } from "./errors/Errors";
+import { DriverMetrics } from "./metrics/DriverMetrics";
 import { Result } from "./Result";
 import { IOUsage } from "./stats/IOUsage";
 import { TimingInformation } from "./stats/TimingInformation";
@@ -38,14 +41,25 @@ export class ResultStream extends Readable {
     private _isPushingData: boolean;
     private _readIOs: number;
     private _processingTime: number;
+    private _signal: AbortSignalLike;
+    private _removeAbortListener: () => void;
+    private _pageCount: number;
 
     /**
      * Create a ResultStream.
      * @param txnId The ID of the transaction the statement was executed in.
      * @param executeResult The returned result from the statement execution.
      * @param communicator The Communicator used for the statement execution.
+     * @param signal An optional signal which destroys the stream with an {@linkcode AbortError} when aborted.
+     * @param metrics The recorder of the metrics of the statement, recorded once the stream ends.
      */
-    constructor(txnId: string, executeResult: ExecuteStatementResult, communicator: Communicator) {
+    constructor(
+        txnId: string,
+        executeResult: ExecuteStatementResult,
+        communicator: Communicator,
+        signal?: AbortSignalLike,
+        metrics: DriverMetrics = new DriverMetrics()
+    ) {
         super({ objectMode: true });
         this._communicator = communicator;
         this._cachedPage = executeResult.FirstPage;
@@ -56,6 +70,20 @@ export class ResultStream extends Readable {
         this._readIOs = executeResult.ConsumedIOs == null ? null : executeResult.ConsumedIOs.ReadIOs;
         this._processingTime =
             executeResult.TimingInformation == null ? null : executeResult.TimingInformation.ProcessingTimeMilliseconds;
+        this._signal = signal;
+        this._removeAbortListener = onAbort(signal, () => this.destroy(new AbortError(signal.reason)));
+        this._pageCount = 1;
+        this.once("end", () => {
+            this._removeAbortListener();
+            metrics.recordStatement(this._readIOs, this._processingTime, this._pageCount);
+        });
+    }
+
+    /**
+     * Stop listening to the signal, once the transaction the statement was executed in is committed or aborted.
+     */
+    detachSignal(): void {
+        this._removeAbortListener();
     }
 
     /**
@@ -91,6 +119,17 @@ export class ResultStream extends Readable {
         this._pushPageValues();
     }
 
+    /**
+     * Implementation of the `readable._destroy` method for the Node Streams Readable Interface. Stops listening to the
+     * signal.
+     * @param error The error the stream is destroyed with, if any.
+     * @param callback The callback to call once the stream is destroyed.
+     */
+    _destroy(error: Error, callback: (error?: Error) => void): void {
+        this._removeAbortListener();
+        callback(error);
+    }
+
     /**
      * Pushes the values for the Node Streams Readable Interface. This method fetches the next page if is required and
      * handles converting the values returned from QLDB into an Ion value.
@@ -103,9 +142,11 @@ export class ResultStream extends Readable {
                 this._shouldPushCachedPage = false;
             } else if (this._cachedPage.NextPageToken) {
                 try {
+                    throwIfAborted(this._signal);
                     const fetchPageResult: FetchPageResult =
                         await this._communicator.fetchPage(this._txnId, this._cachedPage.NextPageToken);
                     this._cachedPage = fetchPageResult.Page;
+                    this._pageCount++;
 
                     if (fetchPageResult.ConsumedIOs != null) {
                         this._readIOs += fetchPageResult.ConsumedIOs.ReadIOs;
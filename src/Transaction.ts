@@ -16,9 +16,13 @@ import { dumpBinary, toBase64 } from "ion-js";
 import { Lock } from "semaphore-async-await";
 import { Readable } from "stream";
 
+import { AbortSignalLike, throwIfAborted } from "./Cancellation";
 import { Communicator } from "./Communicator";
+import { DriverEventEmitter } from "./DriverEvents";
 import { ClientException, isOccConflictException, TransactionClosedError } from "./errors/Errors";
-import { warn } from "./LogUtil";
+import { ContextLogger } from "./LogUtil";
+import { DriverMetrics } from "./metrics/DriverMetrics";
+import { MappingOptions } from "./mapping/ResultMapper";
 import { QldbHash } from "./QldbHash";
 import { Result } from "./Result";
 import { ResultStream } from "./ResultStream";
@@ -48,18 +52,40 @@ export class Transaction implements TransactionExecutable {
     private _isClosed: boolean;
     private _txnHash: QldbHash;
     private _hashLock: Lock;
+    private _logger: ContextLogger;
+    private _signal: AbortSignalLike;
+    private _events: DriverEventEmitter;
+    private _metrics: DriverMetrics;
+    private _resultStreams: ResultStream[];
 
     /**
      * Create a Transaction.
      * @param communicator The Communicator object representing a communication channel with QLDB.
      * @param txnId The ID of the transaction.
+     * @param logger The logger to write to. Defaults to the logger set within the AWS SDK.
+     * @param signal An optional signal which, once aborted, makes further statements, page fetches and the commit of
+     *               this transaction reject with {@linkcode AbortError}.
+     * @param events The emitter of lifecycle events, emitting `transactionCommitted` once the transaction commits.
+     * @param metrics The recorder of the metrics of the statements executed in this transaction.
      */
-    constructor(communicator: Communicator, txnId: string) {
+    constructor(
+        communicator: Communicator,
+        txnId: string,
+        logger: ContextLogger = new ContextLogger(),
+        signal?: AbortSignalLike,
+        events: DriverEventEmitter = new DriverEventEmitter(logger),
+        metrics: DriverMetrics = new DriverMetrics()
+    ) {
         this._communicator = communicator;
         this._txnId = txnId;
         this._isClosed = false;
         this._txnHash = QldbHash.toQldbHash(txnId);
         this._hashLock = new Lock();
+        this._logger = logger.child({ transactionId: txnId });
+        this._signal = signal;
+        this._events = events;
+        this._metrics = metrics;
+        this._resultStreams = [];
     }
 
     /**
@@ -79,11 +105,13 @@ export class Transaction implements TransactionExecutable {
      * @returns Promise which fulfills with void.
      * @throws {@linkcode TransactionClosedError} when this transaction is closed.
      * @throws {@linkcode ClientException} when the commit digest from commit transaction result does not match.
+     * @throws {@linkcode AbortError} when the signal of this transaction has been aborted.
      */
     async commit(): Promise<void> {
         if (this._isClosed) {
             throw new TransactionClosedError();
         }
+        throwIfAborted(this._signal);
         try {
             await this._hashLock.acquire();
             const commitTxnResult: CommitTransactionResult = await this._communicator.commit(
@@ -97,6 +125,10 @@ export class Transaction implements TransactionExecutable {
                 );
             }
             this._isClosed = true;
+            this._events.emit("transactionCommitted", {
+                transactionId: this._txnId,
+                commitDigest: <Uint8Array>(commitTxnResult.CommitDigest)
+            });
         } catch (e) {
             if (isOccConflictException(e)) {
                 throw e;
@@ -104,7 +136,7 @@ export class Transaction implements TransactionExecutable {
             try {
                 await this._communicator.abortTransaction();
             } catch (e2) {
-                warn(`Ignored error aborting transaction after a failed commit: ${e2}.`);
+                this._logger.warn(`Ignored error aborting transaction after a failed commit: ${e2}.`);
             }
             throw e;
         } finally {
@@ -127,7 +159,30 @@ export class Transaction implements TransactionExecutable {
      */
     async execute(statement: string, ...parameters: any[]): Promise<Result> {
         const result: ExecuteStatementResult = await this._sendExecute(statement, parameters);
-        return Result.create(this._txnId, result, this._communicator);
+        return Result.create(this._txnId, result, this._communicator, this._signal, this._metrics);
+    }
+
+    /**
+     * Execute the specified statement in the current transaction, mapping every returned Ion value to a typed row.
+     * This method returns a promise which eventually returns all the mapped results loaded into memory.
+     *
+     * @param statement A statement to execute against QLDB as a string.
+     * @param parameters A list of arguments, where each argument corresponds to a placeholder (?) in the PartiQL query.
+     *                   The argument could be any native JavaScript type or an Ion DOM type.
+     * @param options The options holding the mapper, e.g. one created by {@linkcode ionToJsMapper}.
+     * @returns Promise which fulfills with all mapped results loaded into memory
+     * @throws TypeError when `parameters` is not an array or the mapper is not a function.
+     * @throws [Error](https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Error) when the passed argument value cannot be converted into Ion
+     */
+    async executeAndMap<T>(statement: string, parameters: any[], options: MappingOptions<T>): Promise<Result<T>> {
+        if (!Array.isArray(parameters)) {
+            throw new TypeError("Value for parameters must be an array.");
+        }
+        if (options == null || typeof options.mapper !== "function") {
+            throw new TypeError("Value for mapper must be a function.");
+        }
+        const result: Result = await this.execute(statement, ...parameters);
+        return result.map(options.mapper);
     }
 
     /**
@@ -145,7 +200,10 @@ export class Transaction implements TransactionExecutable {
      */
     async executeAndStreamResults(statement: string, ...parameters: any[]): Promise<Readable> {
         const result: ExecuteStatementResult = await this._sendExecute(statement, parameters);
-        return new ResultStream(this._txnId, result, this._communicator);
+        const resultStream: ResultStream =
+            new ResultStream(this._txnId, result, this._communicator, this._signal, this._metrics);
+        this._resultStreams.push(resultStream);
+        return resultStream;
     }
 
     /**
@@ -157,10 +215,12 @@ export class Transaction implements TransactionExecutable {
     }
 
     /**
-     * Mark the transaction as closed.
+     * Mark the transaction as closed, and stop its result streams from listening to the signal.
      */
     private _internalClose(): void {
         this._isClosed = true;
+        this._resultStreams.forEach((resultStream: ResultStream) => resultStream.detachSignal());
+        this._resultStreams = [];
     }
 
     /**
@@ -170,11 +230,13 @@ export class Transaction implements TransactionExecutable {
      *                   filling in parameters of the statement.
      * @returns Promise which fulfills with a ExecuteStatementResult object.
      * @throws {@linkcode TransactionClosedError} when transaction is closed.
+     * @throws {@linkcode AbortError} when the signal of this transaction has been aborted.
      */
     private async _sendExecute(statement: string, parameters: any[]): Promise<ExecuteStatementResult> {
         if (this._isClosed) {
             throw new TransactionClosedError();
         }
+        throwIfAborted(this._signal);
 
         try {
             await this._hashLock.acquire();
@@ -13,6 +13,7 @@
 
 import { Readable } from "stream";
 
+import { MappingOptions } from "./mapping/ResultMapper";
 import { Result } from "./Result";
 
 /**
@@ -28,6 +29,16 @@ export interface TransactionExecutable {
      */
     execute(statement: string, ...parameters: any[]): Promise<Result>;
 
+    /**
+     * Execute the specified statement in the current transaction, mapping every returned Ion value to a typed row.
+     * @param statement A statement to execute against QLDB as a string.
+     * @param parameters A list of Ion values or JavaScript native types that are convertible to Ion for filling in
+     *                   parameters of the statement.
+     * @param options The options holding the mapper.
+     * @returns Promise which fulfills with a fully-buffered Result of typed rows.
+     */
+    executeAndMap<T>(statement: string, parameters: any[], options: MappingOptions<T>): Promise<Result<T>>;
+
     /**
      * Execute the specified statement in the current transaction.
      * @param statement A statement to execute against QLDB as a string.
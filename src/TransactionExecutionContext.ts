@@ -11,12 +11,29 @@
  * and limitations under the License.
  */
 
+import { AbortSignalLike } from "./Cancellation";
+import { DeadlineExceededError, FailedAttempt } from "./errors/Errors";
+
 export class TransactionExecutionContext {
     private _transactionExecutionAttempt: number;
     private _lastException: Error;
+    private _failedAttempts: FailedAttempt[];
+    private _startTime: number;
+    private _deadlineMillis: number;
+    private _signal: AbortSignalLike;
 
-    constructor() {
+    /**
+     * Creates a TransactionExecutionContext.
+     * @param deadlineMillis The time, in milliseconds, the execution may take across all of its attempts. A value of
+     *                       0 or undefined means the execution has no deadline.
+     * @param signal An optional signal which cancels the execution when aborted.
+     */
+    constructor(deadlineMillis?: number, signal?: AbortSignalLike) {
         this._transactionExecutionAttempt = 0;
+        this._failedAttempts = [];
+        this._startTime = Date.now();
+        this._deadlineMillis = (deadlineMillis == null || deadlineMillis === 0) ? undefined : deadlineMillis;
+        this._signal = signal;
     }
 
     incrementExecutionAttempt(): void {
@@ -29,9 +46,50 @@ export class TransactionExecutionContext {
 
     setLastException(ex: Error ): void {
         this._lastException = ex;
+        this._failedAttempts.push({
+            attempt: this._transactionExecutionAttempt,
+            error: ex,
+            elapsedMillis: this.getElapsedMillis()
+        });
     }
 
     getLastException(): Error {
         return this._lastException;
     }
+
+    /**
+     * Get the failed attempts of this execution, in the order in which they failed.
+     * @returns The failed attempts.
+     */
+    getFailedAttempts(): FailedAttempt[] {
+        return this._failedAttempts;
+    }
+
+    getSignal(): AbortSignalLike {
+        return this._signal;
+    }
+
+    getElapsedMillis(): number {
+        return Date.now() - this._startTime;
+    }
+
+    /**
+     * Get the time left until the deadline of this execution.
+     * @returns The remaining time in milliseconds, which is 0 once the deadline has passed, or Infinity if the
+     *          execution has no deadline.
+     */
+    getRemainingMillis(): number {
+        if (this._deadlineMillis == null) {
+            return Infinity;
+        }
+        return Math.max(0, this._deadlineMillis - this.getElapsedMillis());
+    }
+
+    /**
+     * Create the error an execution is rejected with once its deadline has passed.
+     * @returns A DeadlineExceededError including the failed attempts of this execution.
+     */
+    createDeadlineExceededError(): DeadlineExceededError {
+        return new DeadlineExceededError(this._deadlineMillis, this.getElapsedMillis(), [...this._failedAttempts]);
+    }
 }
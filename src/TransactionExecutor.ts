@@ -14,6 +14,7 @@
 import { Readable } from "stream";
 
 import { LambdaAbortedError } from "./errors/Errors";
+import { MappingOptions } from "./mapping/ResultMapper";
 import { Result } from "./Result";
 import { Transaction } from "./Transaction";
 import { TransactionExecutable } from "./TransactionExecutable";
@@ -60,6 +61,29 @@ export class TransactionExecutor implements TransactionExecutable {
         return await this._transaction.execute(statement, ...parameters);
     }
 
+    /**
+     * Execute the specified statement in the current transaction, mapping every returned Ion value to a typed row.
+     * This method returns a promise which eventually returns all the mapped results loaded into memory.
+     *
+     * ```
+     * const result: Result<Vehicle> = await txn.executeAndMap("SELECT * FROM Vehicle WHERE VIN = ?", [vin], {
+     *     mapper: ionToJsMapper<Vehicle>()
+     * });
+     * const vehicles: Vehicle[] = result.getResultList();
+     * ```
+     *
+     * @param statement The statement to execute.
+     * @param parameters A list of arguments, where each argument corresponds to a placeholder (?) in the PartiQL query.
+     *                   The argument could be any native JavaScript type or an Ion DOM type.
+     * @param options The options holding the mapper, e.g. one created by {@linkcode ionToJsMapper}.
+     * @returns Promise which fulfills with all mapped results loaded into memory
+     * @throws TypeError when `parameters` is not an array or the mapper is not a function.
+     * @throws [Error](https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Error) when the passed argument value cannot be converted into Ion
+     */
+    async executeAndMap<T>(statement: string, parameters: any[], options: MappingOptions<T>): Promise<Result<T>> {
+        return await this._transaction.executeAndMap(statement, parameters, options);
+    }
+
     /**
      * Execute the specified statement in the current transaction. This method returns a promise
      * which fulfills with Readable interface, which allows you to stream one record at time
@@ -0,0 +1,213 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+import { AWSError } from "aws-sdk";
+import { Readable } from "stream";
+
+import { isInvalidSessionException, TransactionClosedError } from "./errors/Errors";
+import { ContextLogger } from "./LogUtil";
+import { MappingOptions } from "./mapping/ResultMapper";
+import { Result } from "./Result";
+import { Transaction } from "./Transaction";
+import { TransactionExecutable } from "./TransactionExecutable";
+
+/**
+ * A transaction started with {@linkcode QldbDriver.beginTransaction}, pinned to a session of the driver until it is
+ * committed or aborted:
+ *
+ * ```
+ * const txn: TransactionHandle = await qldbDriver.beginTransaction();
+ * try {
+ *     await txn.execute("UPDATE Person SET Age = 42 WHERE Name = ?", "Alice");
+ *     await txn.commit();
+ * } catch (e) {
+ *     await txn.abort();
+ *     throw e;
+ * }
+ * ```
+ *
+ * Unlike {@linkcode QldbDriver.executeLambda}, nothing is retried: if the commit fails with an OCC conflict, a new
+ * transaction must be begun and its statements executed again. A transaction which is neither committed nor aborted
+ * within the `autoAbortMillis` passed to {@linkcode QldbDriver.beginTransaction} is aborted, after which its methods
+ * reject with {@linkcode TransactionClosedError}.
+ */
+export class TransactionHandle implements TransactionExecutable {
+    private _transaction: Transaction;
+    private _logger: ContextLogger;
+    private _onClose: (isCommitted: boolean, error: AWSError) => void;
+    private _autoAbortTimer: NodeJS.Timeout;
+    private _isClosed: boolean;
+
+    /**
+     * Creates a TransactionHandle. This constructor is used internally by the driver and is not meant to be used
+     * directly by developers.
+     * @param transaction The started transaction.
+     * @param autoAbortMillis The time, in milliseconds, after which the transaction is aborted.
+     * @param logger The logger to write to.
+     * @param onClose The function called once the transaction is committed or aborted, or its session is invalidated,
+     *                with whether it was committed and the error which closed it, if any.
+     */
+    constructor(
+        transaction: Transaction,
+        autoAbortMillis: number,
+        logger: ContextLogger,
+        onClose: (isCommitted: boolean, error: AWSError) => void
+    ) {
+        this._transaction = transaction;
+        this._logger = logger.child({ transactionId: transaction.getTransactionId() });
+        this._onClose = onClose;
+        this._isClosed = false;
+        this._autoAbortTimer = setTimeout(() => this._autoAbort(autoAbortMillis), autoAbortMillis);
+        this._autoAbortTimer.unref();
+    }
+
+    /**
+     * Abort the transaction and return its session to the pool. No-op if already committed or aborted.
+     * @returns Promise which fulfills with void.
+     */
+    async abort(): Promise<void> {
+        if (this._isClosed) {
+            return;
+        }
+        this._markClosed();
+        try {
+            await this._transaction.abort();
+        } catch (e) {
+            this._onClose(false, e);
+            throw e;
+        }
+        this._onClose(false, null);
+    }
+
+    /**
+     * Commit the transaction and return its session to the pool, whether the commit succeeds or not.
+     * @returns Promise which fulfills with void.
+     * @throws {@linkcode TransactionClosedError} when the transaction was already committed or aborted.
+     * @throws {@linkcode OccConflictError} when the transaction could not be committed because of an OCC conflict.
+     * @throws {@linkcode ClientException} when the commit digest from commit transaction result does not match.
+     */
+    async commit(): Promise<void> {
+        if (this._isClosed) {
+            throw new TransactionClosedError();
+        }
+        this._markClosed();
+        try {
+            await this._transaction.commit();
+        } catch (e) {
+            this._onClose(false, e);
+            throw e;
+        }
+        this._onClose(true, null);
+    }
+
+    /**
+     * Execute the specified statement in the transaction. This method returns a promise which eventually returns all
+     * the results loaded into memory. The statement is not committed until {@linkcode commit} is called.
+     *
+     * @param statement The statement to execute.
+     * @param parameters Variable number of arguments, where each argument corresponds to a placeholder (?) in the
+     *                   PartiQL query. The argument could be any native JavaScript type or an Ion DOM type.
+     * @returns Promise which fulfills with all results loaded into memory
+     * @throws {@linkcode TransactionClosedError} when the transaction was already committed or aborted.
+     */
+    async execute(statement: string, ...parameters: any[]): Promise<Result> {
+        return this._runStatement(() => this._transaction.execute(statement, ...parameters));
+    }
+
+    /**
+     * Execute the specified statement in the transaction, mapping every returned Ion value to a typed row.
+     *
+     * @param statement The statement to execute.
+     * @param parameters A list of arguments, where each argument corresponds to a placeholder (?) in the PartiQL query.
+     * @param options The options holding the mapper, e.g. one created by {@linkcode ionToJsMapper}.
+     * @returns Promise which fulfills with all mapped results loaded into memory
+     * @throws {@linkcode TransactionClosedError} when the transaction was already committed or aborted.
+     * @throws TypeError when `parameters` is not an array or the mapper is not a function.
+     */
+    async executeAndMap<T>(statement: string, parameters: any[], options: MappingOptions<T>): Promise<Result<T>> {
+        return this._runStatement(() => this._transaction.executeAndMap(statement, parameters, options));
+    }
+
+    /**
+     * Execute the specified statement in the transaction. This method returns a promise which fulfills with a Readable
+     * Stream, which allows you to stream one record at time. The stream must be consumed before the transaction is
+     * committed.
+     *
+     * @param statement The statement to execute.
+     * @param parameters Variable number of arguments, where each argument corresponds to a placeholder (?) in the
+     *                   PartiQL query. The argument could be any native JavaScript type or an Ion DOM type.
+     * @returns Promise which fulfills with a Readable Stream
+     * @throws {@linkcode TransactionClosedError} when the transaction was already committed or aborted.
+     */
+    async executeAndStreamResults(statement: string, ...parameters: any[]): Promise<Readable> {
+        return this._runStatement(() => this._transaction.executeAndStreamResults(statement, ...parameters));
+    }
+
+    /**
+     * Retrieve the transaction ID associated with this transaction.
+     * @returns The transaction ID.
+     */
+    getTransactionId(): string {
+        return this._transaction.getTransactionId();
+    }
+
+    /**
+     * @returns True if the transaction was committed or aborted. False otherwise.
+     */
+    isClosed(): boolean {
+        return this._isClosed;
+    }
+
+    /**
+     * Abort the transaction once it has been open for too long, so that its session is not held beyond the expiry of
+     * the transaction.
+     * @param autoAbortMillis The time, in milliseconds, the transaction was open for.
+     */
+    private _autoAbort(autoAbortMillis: number): void {
+        this._logger.warn(`Aborting transaction which was neither committed nor aborted within ${autoAbortMillis} ms.`);
+        this.abort().catch((e: Error) => {
+            this._logger.warn(`Ignored error while aborting transaction: ${e}.`);
+        });
+    }
+
+    /**
+     * Run a statement, closing the transaction if it fails because the session was invalidated, as the transaction
+     * cannot be committed anymore.
+     * @param statement The function executing the statement.
+     * @returns Promise which fulfills with the result of the statement.
+     * @throws {@linkcode TransactionClosedError} when the transaction was already committed or aborted.
+     */
+    private async _runStatement<T>(statement: () => Promise<T>): Promise<T> {
+        if (this._isClosed) {
+            throw new TransactionClosedError();
+        }
+        try {
+            return await statement();
+        } catch (e) {
+            if (isInvalidSessionException(e) && !this._isClosed) {
+                this._markClosed();
+                this._onClose(false, e);
+            }
+            throw e;
+        }
+    }
+
+    /**
+     * Mark the transaction as closed, so that it is neither committed nor aborted again, and stop the auto-abort timer.
+     * The session is released by calling `_onClose` once the transaction has been closed in QLDB.
+     */
+    private _markClosed(): void {
+        this._isClosed = true;
+        clearTimeout(this._autoAbortTimer);
+    }
+}
@@ -0,0 +1,98 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+import { TransactionExecutor } from "./TransactionExecutor";
+
+/**
+ * A transaction lambda which is running, tracked across the asynchronous calls it makes. This interface is used
+ * internally by the driver and is not meant to be used directly by developers.
+ */
+export interface TransactionScope {
+    /**
+     * The driver executing the lambda.
+     */
+    owner: object;
+
+    /**
+     * The executor passed to the lambda.
+     */
+    executor: TransactionExecutor;
+
+    /**
+     * The scope of the lambda within which this lambda was started, or null.
+     */
+    parent: TransactionScope;
+}
+
+/**
+ * The `AsyncLocalStorage` holding the current scope, or null if the version of Node.js does not provide one, in which
+ * case scopes are not tracked.
+ */
+const scopeStorage: any = _createScopeStorage();
+
+/**
+ * Run a transaction lambda within a new scope, which is the current scope of all asynchronous calls it makes.
+ * @param owner The driver executing the lambda.
+ * @param executor The executor passed to the lambda.
+ * @param lambda The function running the lambda.
+ * @returns The value returned by the function.
+ */
+export function runInTransactionScope<T>(owner: object, executor: TransactionExecutor, lambda: () => T): T {
+    if (scopeStorage == null) {
+        return lambda();
+    }
+    const scope: TransactionScope = {
+        owner: owner,
+        executor: executor,
+        parent: _getCurrentScope()
+    };
+    return scopeStorage.run(scope, lambda);
+}
+
+/**
+ * Find the scope of a transaction lambda of the given driver which the caller is running within, either directly or
+ * through the lambda of another driver.
+ * @param owner The driver.
+ * @returns The innermost scope of the driver, or null if the caller is not running within a lambda of the driver.
+ */
+export function findTransactionScope(owner: object): TransactionScope {
+    let scope: TransactionScope = _getCurrentScope();
+    while (scope != null && scope.owner !== owner) {
+        scope = scope.parent;
+    }
+    return scope;
+}
+
+/**
+ * @returns The scope of the transaction lambda the caller is running within, or null.
+ */
+function _getCurrentScope(): TransactionScope {
+    if (scopeStorage == null) {
+        return null;
+    }
+    const scope: TransactionScope = scopeStorage.getStore();
+    return (scope == undefined) ? null : scope;
+}
+
+/**
+ * Create the storage of the current scope, if the version of Node.js provides `AsyncLocalStorage`.
+ * @returns The storage, or null.
+ */
+function _createScopeStorage(): any {
+    try {
+        const asyncHooks: any = require("async_hooks");
+        return (typeof asyncHooks.AsyncLocalStorage === "function") ? new asyncHooks.AsyncLocalStorage() : null;
+    } catch (e) {
+        return null;
+    }
+}
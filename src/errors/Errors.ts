@@ -13,17 +13,79 @@
 
 import { AWSError } from "aws-sdk";
 
-import { error } from "../LogUtil";
-
 const transactionExpiredPattern = RegExp("Transaction .* has expired");
 
+/**
+ * HTTP status codes of transient service side failures.
+ */
+const retriableStatusCodes: ReadonlySet<number> = new Set([500, 502, 503, 504]);
+
+/**
+ * Error codes returned by QLDB when requests are throttled.
+ */
+const throttlingErrorCodes: ReadonlySet<string> = new Set([
+    "CapacityExceededException",
+    "RateExceededException",
+    "LimitExceededException",
+    "ThrottlingException"
+]);
+
+/**
+ * Error codes of transient failures, which succeed when the transaction is retried after backing off.
+ */
+const retriableErrorCodes: ReadonlySet<string> = new Set([
+    // Returned by QLDB when the ledger or account is over its limits.
+    "CapacityExceededException",
+    "RateExceededException",
+    "LimitExceededException",
+    "ThrottlingException",
+    // Set by the AWS SDK when a request times out, or when it fails to reach the service.
+    "TimeoutError",
+    "NetworkingError",
+    // Set by Node.js on socket errors which were not wrapped by the AWS SDK.
+    "ECONNRESET",
+    "ETIMEDOUT",
+    "EPIPE",
+    // Kept for backwards compatibility.
+    "NoHttpResponseException",
+    "SocketTimeoutException"
+]);
+
+export class AbortError extends Error {
+    public cause: any;
+
+    constructor(cause?: any) {
+        const message: string = "The operation was aborted by the caller's AbortSignal.";
+        super(message);
+        Object.setPrototypeOf(this, AbortError.prototype)
+        this.message = message;
+        this.name = "AbortError";
+        this.cause = cause;
+    }
+}
+
+export class CircuitOpenError extends Error {
+    public remainingOpenMillis: number;
+    public cause: Error;
+
+    constructor(remainingOpenMillis: number, cause?: Error) {
+        const message: string = "The circuit breaker of the driver is open after sustained failures of QLDB. Failing " +
+            `fast for another ${remainingOpenMillis} ms before probing QLDB again.`;
+        super(message);
+        Object.setPrototypeOf(this, CircuitOpenError.prototype)
+        this.message = message;
+        this.name = "CircuitOpenError";
+        this.remainingOpenMillis = remainingOpenMillis;
+        this.cause = cause;
+    }
+}
+
 export class ClientException extends Error {
     constructor(message: string) {
         super(message);
         Object.setPrototypeOf(this, ClientException.prototype)
         this.message = message;
         this.name = "ClientException";
-        error(message);
     }
 }
 
@@ -34,7 +96,6 @@ export class DriverClosedError extends Error {
         Object.setPrototypeOf(this, DriverClosedError.prototype)
         this.message = message;
         this.name = "DriverClosedError";
-        error(message);
     }
 }
 
@@ -45,7 +106,19 @@ export class LambdaAbortedError extends Error {
         Object.setPrototypeOf(this, LambdaAbortedError.prototype)
         this.message = message;
         this.name = "LambdaAbortedError";
-        error(message);
+    }
+}
+
+export class NestedTransactionError extends Error {
+    constructor() {
+        const message: string =
+            "executeLambda was called from within a transaction lambda of the same driver, which would start a second, " +
+            "independent transaction and could exhaust the session pool. Please execute the statements with the " +
+            "TransactionExecutor of the outer lambda, or set the nestedTransactionMode option of the driver to \"join\".";
+        super(message);
+        Object.setPrototypeOf(this, NestedTransactionError.prototype)
+        this.message = message;
+        this.name = "NestedTransactionError";
     }
 }
 
@@ -56,19 +129,20 @@ export class SessionClosedError extends Error {
         Object.setPrototypeOf(this, SessionClosedError.prototype)
         this.message = message;
         this.name = "SessionClosedError";
-        error(message);
     }
 }
 
 export class SessionPoolEmptyError extends Error {
-    constructor(timeout: number) {
+    public waitTimeMillis: number;
+    constructor(waitTimeMillis: number) {
         const message: string =
-            "Session pool is empty. Please close existing sessions first before retrying.";
+            `Session pool is empty after waiting ${waitTimeMillis} ms for a session to become available. Please ` +
+            "close existing sessions first, or increase the timeout, before retrying.";
         super(message);
         Object.setPrototypeOf(this, SessionPoolEmptyError.prototype)
         this.message = message;
         this.name = "SessionPoolEmptyError";
-        error(message);
+        this.waitTimeMillis = waitTimeMillis;
     }
 }
 
@@ -80,7 +154,6 @@ export class TransactionClosedError extends Error {
         Object.setPrototypeOf(this, TransactionClosedError.prototype)
         this.message = message;
         this.name = "TransactionClosedError";
-        error(message);
     }
 }
 
@@ -96,9 +169,170 @@ export class StartTransactionError extends Error {
         this.message = message;
         this.name = "StartTransactionError";
         this.cause = e;
-        error(message);
     }
 }
+
+/**
+ * A failed attempt at executing a transaction.
+ */
+export interface FailedAttempt {
+    /**
+     * The number of the attempt, where 0 is the first attempt.
+     */
+    attempt: number;
+
+    /**
+     * The error the attempt failed with.
+     */
+    error: Error;
+
+    /**
+     * The time, in milliseconds, from the start of the execution until the attempt failed.
+     */
+    elapsedMillis: number;
+}
+
+export class DeadlineExceededError extends Error {
+    public deadlineMillis: number;
+    public elapsedMillis: number;
+    public attempts: FailedAttempt[];
+
+    constructor(deadlineMillis: number, elapsedMillis: number, attempts: FailedAttempt[]) {
+        const message: string = `Transaction did not complete within the deadline of ${deadlineMillis} ms. ` +
+            `${attempts.length} failed attempt(s) were made in ${elapsedMillis} ms.`;
+        super(message);
+        Object.setPrototypeOf(this, DeadlineExceededError.prototype)
+        this.message = message;
+        this.name = "DeadlineExceededError";
+        this.deadlineMillis = deadlineMillis;
+        this.elapsedMillis = elapsedMillis;
+        this.attempts = attempts;
+    }
+}
+
+/**
+ * Context describing where in the driver an error occurred. Fields which are unknown are left undefined.
+ */
+export interface QldbErrorContext {
+    ledgerName?: string;
+    transactionId?: string;
+    statement?: string;
+    attempt?: number;
+}
+
+/**
+ * Base class for errors returned by Amazon QLDB, or raised while communicating with it. The `code` and `statusCode` of
+ * the original error are preserved, so the `is*Exception` helpers keep working on these errors.
+ */
+export class QldbDriverError extends Error {
+    public code: string;
+    public statusCode: number;
+    public cause: Error;
+    public ledgerName: string;
+    public transactionId: string;
+    public statement: string;
+    public attempt: number;
+
+    constructor(cause: Error, context: QldbErrorContext = {}) {
+        super(cause.message);
+        Object.setPrototypeOf(this, QldbDriverError.prototype)
+        this.message = cause.message;
+        this.name = "QldbDriverError";
+        this.code = (<AWSError> cause).code;
+        this.statusCode = (<AWSError> cause).statusCode;
+        this.cause = cause;
+        this.ledgerName = context.ledgerName;
+        this.transactionId = context.transactionId;
+        this.statement = context.statement;
+        this.attempt = context.attempt;
+    }
+}
+
+export class OccConflictError extends QldbDriverError {
+    constructor(cause: Error, context?: QldbErrorContext) {
+        super(cause, context);
+        Object.setPrototypeOf(this, OccConflictError.prototype)
+        this.name = "OccConflictError";
+    }
+}
+
+export class InvalidSessionError extends QldbDriverError {
+    constructor(cause: Error, context?: QldbErrorContext) {
+        super(cause, context);
+        Object.setPrototypeOf(this, InvalidSessionError.prototype)
+        this.name = "InvalidSessionError";
+    }
+}
+
+export class TransactionExpiredError extends InvalidSessionError {
+    constructor(cause: Error, context?: QldbErrorContext) {
+        super(cause, context);
+        Object.setPrototypeOf(this, TransactionExpiredError.prototype)
+        this.name = "TransactionExpiredError";
+    }
+}
+
+export class BadRequestError extends QldbDriverError {
+    constructor(cause: Error, context?: QldbErrorContext) {
+        super(cause, context);
+        Object.setPrototypeOf(this, BadRequestError.prototype)
+        this.name = "BadRequestError";
+    }
+}
+
+export class CapacityExceededError extends QldbDriverError {
+    constructor(cause: Error, context?: QldbErrorContext) {
+        super(cause, context);
+        Object.setPrototypeOf(this, CapacityExceededError.prototype)
+        this.name = "CapacityExceededError";
+    }
+}
+
+export class ThrottlingError extends QldbDriverError {
+    constructor(cause: Error, context?: QldbErrorContext) {
+        super(cause, context);
+        Object.setPrototypeOf(this, ThrottlingError.prototype)
+        this.name = "ThrottlingError";
+    }
+}
+
+/**
+ * Wrap an error raised while communicating with QLDB in the matching subclass of {@linkcode QldbDriverError}. If the
+ * error is already a QldbDriverError, the context fields it is missing are filled in instead.
+ * @param e The error to wrap.
+ * @param context Where in the driver the error occurred.
+ * @returns The wrapped error.
+ */
+export function toQldbDriverError(e: Error, context: QldbErrorContext): QldbDriverError {
+    if (e instanceof QldbDriverError) {
+        e.ledgerName = (e.ledgerName === undefined) ? context.ledgerName : e.ledgerName;
+        e.transactionId = (e.transactionId === undefined) ? context.transactionId : e.transactionId;
+        e.statement = (e.statement === undefined) ? context.statement : e.statement;
+        e.attempt = (e.attempt === undefined) ? context.attempt : e.attempt;
+        return e;
+    }
+    const awsError: AWSError = <AWSError> e;
+    if (isTransactionExpiredException(awsError)) {
+        return new TransactionExpiredError(e, context);
+    }
+    switch (awsError.code) {
+        case "OccConflictException":
+            return new OccConflictError(e, context);
+        case "InvalidSessionException":
+            return new InvalidSessionError(e, context);
+        case "BadRequestException":
+            return new BadRequestError(e, context);
+        case "CapacityExceededException":
+            return new CapacityExceededError(e, context);
+        case "RateExceededException":
+        case "LimitExceededException":
+        case "ThrottlingException":
+            return new ThrottlingError(e, context);
+        default:
+            return new QldbDriverError(e, context);
+    }
+}
+
 /**
  * Is the exception an InvalidParameterException?
  * @param e The client error caught.
@@ -136,6 +370,15 @@ export function isOccConflictException(e: AWSError): boolean {
     return e.code === "OccConflictException";
 }
 
+/**
+ * Is the exception a throttling exception, returned when the ledger or account is over its limits?
+ * @param e The client error caught.
+ * @returns True if the exception is a throttling exception. False otherwise.
+ */
+export function isThrottlingException(e: AWSError): boolean {
+    return throttlingErrorCodes.has(e.code);
+}
+
 /**
  * Is the exception a ResourceNotFoundException?
  * @param e The client error to check to see if it is a ResourceNotFoundException.
@@ -164,13 +407,19 @@ export function isBadRequestException(e: AWSError): boolean {
 }
 
 /**
- * Is the exception a retriable exception?
+ * Is the exception a retriable exception? An exception is retriable if its status code indicates a transient service
+ * side failure, or if its error code is a throttling, timeout or network error code, or one of the given additional
+ * error codes.
  * @param e The client error caught.
+ * @param additionalErrorCodes Further error codes to treat as retriable.
  * @returns True if the exception is a retriable exception. False otherwise.
  */
-export function isRetriableException(e: AWSError): boolean {
-    return (e.statusCode === 500) ||
-           (e.statusCode === 503) ||
-           (e.code === "NoHttpResponseException") ||
-           (e.code === "SocketTimeoutException");
+export function isRetriableException(e: AWSError, additionalErrorCodes: string[] = []): boolean {
+    if (e instanceof QldbDriverError) {
+        return isRetriableException(<AWSError> e.cause, additionalErrorCodes);
+    }
+    return retriableStatusCodes.has(e.statusCode) ||
+           retriableErrorCodes.has(e.code) ||
+           (additionalErrorCodes.indexOf(e.code) !== -1) ||
+           (e.originalError != null && isRetriableException(<AWSError> e.originalError, additionalErrorCodes));
 }
@@ -40,7 +40,7 @@ describe("SessionManagement", function() {
         await testUtils.runCreateLedger();
 
         // Create table
-        const driver: QldbDriver = new QldbDriver(constants.LEDGER_NAME, config);
+        const driver: QldbDriver = new QldbDriver(constants.LEDGER_NAME, { qldbClientOptions: config });
         const statement: string = `CREATE TABLE ${constants.TABLE_NAME}`;
         const count: number = await driver.executeLambda(async (txn: TransactionExecutor): Promise<number> => {
             const result: Result = await txn.execute(statement);
@@ -56,7 +56,7 @@ describe("SessionManagement", function() {
     });
 
     it("Throws exception when connecting to a non-existent ledger", async () => {
-        const driver: QldbDriver = new QldbDriver("NonExistentLedger", config);
+        const driver: QldbDriver = new QldbDriver("NonExistentLedger", { qldbClientOptions: config });
         let error: AWSError;
         try {
             error = await chai.expect(driver.executeLambda(async (txn: TransactionExecutor) => {
@@ -65,27 +65,31 @@ describe("SessionManagement", function() {
 
         } finally {
             chai.assert.equal(error.code, "BadRequestException");
-            driver.close();
+            await driver.close();
         }
     });
 
     it("Can get a session when the pool has no sessions and hasn't hit the pool limit", async () => {
         // Start a pooled driver with default pool limit so it doesn't have sessions in the pool
         // and has not hit the limit
-        const driver: QldbDriver = new QldbDriver(constants.LEDGER_NAME, config);
+        const driver: QldbDriver = new QldbDriver(constants.LEDGER_NAME, { qldbClientOptions: config });
         try {
             // Execute a statement to implicitly create a session and return it to the pool
             await driver.executeLambda(async (txn: TransactionExecutor) => {
                 await txn.execute(`SELECT name FROM ${constants.TABLE_NAME} WHERE name='Bob'`);
             });
         } finally {
-            driver.close();
+            await driver.close();
         }
     });
 
     it("Throws exception when all the sessions are busy and pool limit is reached", async () => {
         // Set maxConcurrentTransactions to 1
-        const driver: QldbDriver = new  QldbDriver(constants.LEDGER_NAME, config, 1, defaultRetryConfig);
+        const driver: QldbDriver = new QldbDriver(constants.LEDGER_NAME, {
+            qldbClientOptions: config,
+            maxConcurrentTransactions: 1,
+            retryConfig: defaultRetryConfig
+        });
         try {
             // Execute and do not wait for the promise to resolve, exhausting the pool
             driver.executeLambda(async (txn: TransactionExecutor) => {
@@ -101,13 +105,13 @@ describe("SessionManagement", function() {
                 throw e;
             }
         } finally {
-            driver.close();
+            await driver.close();
         }
     });
 
     it("Throws exception when the driver has been closed", async () => {
-        const driver: QldbDriver = new QldbDriver(constants.LEDGER_NAME, config);
-        driver.close();
+        const driver: QldbDriver = new QldbDriver(constants.LEDGER_NAME, { qldbClientOptions: config });
+        await driver.close();
         try {
             await driver.executeLambda(async (txn: TransactionExecutor) => {
                 await txn.execute(`SELECT name FROM ${constants.TABLE_NAME} WHERE name='Bob'`);
@@ -120,7 +124,7 @@ describe("SessionManagement", function() {
     });
 
     it("Throws exception when transaction expires due to timeout", async() => {
-        const driver: QldbDriver = new QldbDriver(constants.LEDGER_NAME, config);
+        const driver: QldbDriver = new QldbDriver(constants.LEDGER_NAME, { qldbClientOptions: config });
         let error;
         try {
             error = await chai.expect(driver.executeLambda(async (txn: TransactionExecutor) => {
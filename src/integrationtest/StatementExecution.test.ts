@@ -39,7 +39,7 @@ describe("StatementExecution", function() {
         await testUtils.runForceDeleteLedger();
         await testUtils.runCreateLedger();
 
-        driver = new QldbDriver(constants.LEDGER_NAME, testUtils.createClientConfiguration());
+        driver = new QldbDriver(constants.LEDGER_NAME, { qldbClientOptions: testUtils.createClientConfiguration() });
 
         // Create table
         const statement: string = `CREATE TABLE ${constants.TABLE_NAME}`;
@@ -52,8 +52,8 @@ describe("StatementExecution", function() {
     });
 
     after(async () => {
+        await driver.close();
         await testUtils.runDeleteLedger();
-        driver.close();
     });
 
     this.afterEach(async () => {
@@ -288,7 +288,11 @@ describe("StatementExecution", function() {
         
         // Create a driver that does not retry OCC errors
         const retryConfig: RetryConfig = new RetryConfig(0);
-        const noRetryDriver: QldbDriver = new QldbDriver(constants.LEDGER_NAME, testUtils.createClientConfiguration(), 3, retryConfig);
+        const noRetryDriver: QldbDriver = new QldbDriver(constants.LEDGER_NAME, {
+            qldbClientOptions: testUtils.createClientConfiguration(),
+            maxConcurrentTransactions: 3,
+            retryConfig: retryConfig
+        });
         async function updateField(driver: QldbDriver): Promise<void> {
             await driver.executeLambda(async (txn: TransactionExecutor) => {
                 let currentValue: number;
@@ -0,0 +1,207 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+import { dom, IonTypes, toBase64 } from "ion-js";
+
+import { ResultMapper } from "./ResultMapper";
+
+/**
+ * Options controlling how {@linkcode ionToJs} converts Ion values which have no lossless plain JavaScript equivalent.
+ */
+export interface IonToJsOptions {
+    /**
+     * How decimals are converted:
+     * - `"number"` converts to a number, which may lose precision. This is the default.
+     * - `"string"` converts to the text representation of the decimal, e.g. `"12.50"`.
+     * - `"decimal"` keeps the Ion `Decimal`.
+     */
+    decimals?: "number" | "string" | "decimal";
+
+    /**
+     * How timestamps are converted:
+     * - `"date"` converts to a `Date`, which is limited to millisecond precision and drops the offset. This is the
+     *   default.
+     * - `"string"` converts to the Ion text representation of the timestamp, e.g. `"2020-01-01T00:00:00.000000Z"`.
+     * - `"timestamp"` keeps the Ion `Timestamp`.
+     */
+    timestamps?: "date" | "string" | "timestamp";
+
+    /**
+     * How blobs and clobs are converted:
+     * - `"uint8array"` converts to a `Uint8Array`. This is the default.
+     * - `"buffer"` converts to a `Buffer`.
+     * - `"base64"` converts to a base64 encoded string.
+     */
+    blobs?: "uint8array" | "buffer" | "base64";
+
+    /**
+     * How integers outside of the range of safe integers are converted. Safe integers are always converted to numbers.
+     * - `"string"` converts to the decimal text representation of the integer. This is the default.
+     * - `"number"` converts to a number, which loses precision.
+     * - `"bigint"` converts to a native `bigint`, which requires Node.js 10.4 or later.
+     */
+    bigIntegers?: "string" | "number" | "bigint";
+}
+
+/**
+ * The native `BigInt` function of Node.js 10.4 and later, which the ES2015 library types of the driver do not declare.
+ */
+declare const BigInt: (text: string) => unknown;
+
+const optionChoices: { [K in keyof IonToJsOptions]-?: string[] } = {
+    decimals: ["number", "string", "decimal"],
+    timestamps: ["date", "string", "timestamp"],
+    blobs: ["uint8array", "buffer", "base64"],
+    bigIntegers: ["string", "number", "bigint"]
+};
+
+/**
+ * Convert an Ion value into a plain JavaScript value. Structs become objects, lists and s-expressions become arrays,
+ * and Ion nulls of any type become `null`. Annotations are dropped. If a struct has repeated field names, the last
+ * field wins.
+ * @param value The Ion value to convert.
+ * @param options Options controlling the conversion of values which have no lossless JavaScript equivalent.
+ * @returns The JavaScript value.
+ * @throws RangeError if an option has an unknown value, or if `"bigint"` is requested but not supported.
+ */
+export function ionToJs(value: dom.Value, options: IonToJsOptions = {}): any {
+    _validateOptions(options);
+    return _convert(value, options);
+}
+
+/**
+ * Create a {@linkcode ResultMapper} which converts each Ion value into a plain JavaScript value using
+ * {@linkcode ionToJs}. The type parameter describes the expected shape of the rows and is not checked at runtime.
+ *
+ * ```
+ * const result: Result<Vehicle> = await txn.executeAndMap("SELECT * FROM Vehicle WHERE VIN = ?", [vin], {
+ *     mapper: ionToJsMapper<Vehicle>({ decimals: "string" })
+ * });
+ * ```
+ *
+ * @param options Options controlling the conversion of values which have no lossless JavaScript equivalent.
+ * @returns The mapper.
+ * @throws RangeError if an option has an unknown value, or if `"bigint"` is requested but not supported.
+ */
+export function ionToJsMapper<T = any>(options: IonToJsOptions = {}): ResultMapper<T> {
+    _validateOptions(options);
+    return (value: dom.Value) => <T> _convert(value, options);
+}
+
+/**
+ * Validate the options passed to {@linkcode ionToJs}.
+ * @param options The options to validate.
+ * @throws RangeError if an option has an unknown value, or if `"bigint"` is requested but not supported.
+ */
+function _validateOptions(options: IonToJsOptions): void {
+    (<(keyof IonToJsOptions)[]> Object.keys(optionChoices)).forEach((option: keyof IonToJsOptions) => {
+        const choice: string = options[option];
+        if (choice != null && optionChoices[option].indexOf(choice) === -1) {
+            throw new RangeError(`Value for ${option} must be one of: ${optionChoices[option].join(", ")}.`);
+        }
+    });
+    if (options.bigIntegers === "bigint" && typeof BigInt !== "function") {
+        throw new RangeError("Value for bigIntegers cannot be bigint, as BigInt is not supported by this version of Node.js.");
+    }
+}
+
+/**
+ * Convert an Ion value into a plain JavaScript value, assuming validated options.
+ * @param value The Ion value to convert.
+ * @param options The conversion options.
+ * @returns The JavaScript value.
+ */
+function _convert(value: dom.Value, options: IonToJsOptions): any {
+    if (value == null || value.isNull()) {
+        return null;
+    }
+    switch (value.getType()) {
+        case IonTypes.BOOL:
+            return value.booleanValue();
+        case IonTypes.INT:
+            return _convertInteger(value, options);
+        case IonTypes.FLOAT:
+            return value.numberValue();
+        case IonTypes.DECIMAL:
+            if (options.decimals === "string") {
+                return value.decimalValue().toString();
+            }
+            return (options.decimals === "decimal") ? value.decimalValue() : value.numberValue();
+        case IonTypes.TIMESTAMP:
+            if (options.timestamps === "string") {
+                return value.timestampValue().toString();
+            }
+            return (options.timestamps === "timestamp") ? value.timestampValue() : value.dateValue();
+        case IonTypes.STRING:
+        case IonTypes.SYMBOL:
+            return value.stringValue();
+        case IonTypes.BLOB:
+        case IonTypes.CLOB:
+            return _convertLob(value.uInt8ArrayValue(), options);
+        case IonTypes.LIST:
+        case IonTypes.SEXP:
+            return value.elements().map((element: dom.Value) => _convert(element, options));
+        case IonTypes.STRUCT:
+            return _convertStruct(value, options);
+        default:
+            throw new RangeError(`Unsupported Ion type: ${value.getType().name}.`);
+    }
+}
+
+/**
+ * Convert an Ion integer into a number if it is a safe integer, or as configured otherwise.
+ * @param value The Ion integer.
+ * @param options The conversion options.
+ * @returns The JavaScript value.
+ */
+function _convertInteger(value: dom.Value, options: IonToJsOptions): any {
+    const numberValue: number = value.numberValue();
+    if (Number.isSafeInteger(numberValue) || options.bigIntegers === "number") {
+        return numberValue;
+    }
+    const text: string = value.bigIntValue().toString();
+    return (options.bigIntegers === "bigint") ? BigInt(text) : text;
+}
+
+/**
+ * Convert an Ion struct into an object. If the struct has repeated field names, the last field wins. Fields are
+ * defined rather than assigned, so that a field named `__proto__` does not replace the prototype of the object.
+ * @param value The Ion struct.
+ * @param options The conversion options.
+ * @returns The object.
+ */
+function _convertStruct(value: dom.Value, options: IonToJsOptions): { [fieldName: string]: any } {
+    const struct: { [fieldName: string]: any } = {};
+    value.fields().forEach(([fieldName, fieldValue]: [string, dom.Value]) => {
+        Object.defineProperty(struct, fieldName, {
+            value: _convert(fieldValue, options),
+            enumerable: true,
+            writable: true,
+            configurable: true
+        });
+    });
+    return struct;
+}
+
+/**
+ * Convert the bytes of a blob or clob as configured.
+ * @param bytes The bytes.
+ * @param options The conversion options.
+ * @returns The JavaScript value.
+ */
+function _convertLob(bytes: Uint8Array, options: IonToJsOptions): any {
+    if (options.blobs === "buffer") {
+        return Buffer.from(bytes);
+    }
+    return (options.blobs === "base64") ? toBase64(bytes) : bytes;
+}
@@ -0,0 +1,27 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+import { dom } from "ion-js";
+
+export type ResultMapper<T> = (value: dom.Value) => T;
+
+/**
+ * Options for executing a statement whose results are mapped to typed rows.
+ */
+export interface MappingOptions<T> {
+    /**
+     * The function converting each Ion value returned by the statement into a row, e.g. one created by
+     * {@linkcode ionToJsMapper}.
+     */
+    mapper: ResultMapper<T>;
+}
@@ -0,0 +1,104 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+import { ContextLogger } from "../LogUtil";
+import { MetricLabels, MetricsSink } from "./MetricsSink";
+
+/**
+ * Records the metrics of a driver, its sessions and their statements to a {@linkcode MetricsSink}, labelled with the
+ * name of the ledger. Does nothing if no sink is configured. This class is used internally by the driver and is not
+ * meant to be used directly by developers.
+ */
+export class DriverMetrics {
+    private _sink: MetricsSink;
+    private _labels: MetricLabels;
+    private _logger: ContextLogger;
+
+    /**
+     * Creates a DriverMetrics.
+     * @param sink The sink to record the metrics to, or null to not record metrics.
+     * @param ledgerName The name of the ledger the metrics are labelled with.
+     * @param logger The logger to write errors thrown by the sink to.
+     */
+    constructor(sink: MetricsSink = null, ledgerName: string = null, logger: ContextLogger = new ContextLogger()) {
+        this._sink = sink;
+        this._labels = (ledgerName == null) ? {} : { ledger: ledgerName };
+        this._logger = logger;
+    }
+
+    /**
+     * Record a transaction executed by {@linkcode QldbDriver.executeLambda}.
+     * @param durationMillis The duration of the transaction, including all attempts.
+     * @param attempts The number of attempts made.
+     * @param isCommitted Whether the transaction was committed.
+     */
+    recordTransaction(durationMillis: number, attempts: number, isCommitted: boolean): void {
+        const labels: MetricLabels = { ...this._labels, outcome: isCommitted ? "committed" : "failed" };
+        this._incrementCounter("qldb_transactions_total", 1, labels);
+        this._recordHistogram("qldb_transaction_duration_millis", durationMillis, labels);
+        this._recordHistogram("qldb_transaction_attempts", attempts, this._labels);
+    }
+
+    /**
+     * Record an OCC conflict.
+     */
+    recordOccConflict(): void {
+        this._incrementCounter("qldb_occ_conflicts_total", 1, this._labels);
+    }
+
+    /**
+     * Record the time spent acquiring a session from the pool.
+     * @param waitMillis The time, in milliseconds.
+     */
+    recordSessionWait(waitMillis: number): void {
+        this._recordHistogram("qldb_session_wait_millis", waitMillis, this._labels);
+    }
+
+    /**
+     * Record a statement once all pages of its results have been fetched.
+     * @param readIOs The read IOs consumed, or null if unknown.
+     * @param processingTimeMillis The server processing time, or null if unknown.
+     * @param pageCount The number of pages of results.
+     */
+    recordStatement(readIOs: number, processingTimeMillis: number, pageCount: number): void {
+        if (readIOs != null) {
+            this._recordHistogram("qldb_statement_read_ios", readIOs, this._labels);
+        }
+        if (processingTimeMillis != null) {
+            this._recordHistogram("qldb_statement_processing_time_millis", processingTimeMillis, this._labels);
+        }
+        this._recordHistogram("qldb_statement_pages", pageCount, this._labels);
+    }
+
+    private _incrementCounter(name: string, value: number, labels: MetricLabels): void {
+        if (this._sink == null) {
+            return;
+        }
+        try {
+            this._sink.incrementCounter(name, value, labels);
+        } catch (e) {
+            this._logger.warn(`Ignored error thrown by the metrics sink: ${e}.`);
+        }
+    }
+
+    private _recordHistogram(name: string, value: number, labels: MetricLabels): void {
+        if (this._sink == null) {
+            return;
+        }
+        try {
+            this._sink.recordHistogram(name, value, labels);
+        } catch (e) {
+            this._logger.warn(`Ignored error thrown by the metrics sink: ${e}.`);
+        }
+    }
+}
@@ -0,0 +1,55 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+/**
+ * The labels of a metric value, e.g. the name of the ledger.
+ */
+export interface MetricLabels {
+    [name: string]: string;
+}
+
+/**
+ * A destination for the metrics recorded by a {@linkcode QldbDriver}, e.g. {@linkcode PrometheusMetricsSink} or an
+ * adapter to a metrics library. The driver records the following metrics, all labelled with the `ledger`:
+ *
+ * - `qldb_transactions_total`: Counter of transactions, labelled with the `outcome`, either `committed` or `failed`.
+ * - `qldb_transaction_duration_millis`: Histogram of the duration of transactions, including all attempts, labelled
+ *   with the `outcome`.
+ * - `qldb_transaction_attempts`: Histogram of the number of attempts per transaction.
+ * - `qldb_occ_conflicts_total`: Counter of OCC conflicts. Divided by `qldb_transactions_total`, this is the OCC
+ *   conflict rate.
+ * - `qldb_session_wait_millis`: Histogram of the time spent acquiring a session from the pool.
+ * - `qldb_statement_read_ios`: Histogram of the read IOs consumed per statement.
+ * - `qldb_statement_pages`: Histogram of the pages of results fetched per statement.
+ * - `qldb_statement_processing_time_millis`: Histogram of the server processing time per statement.
+ *
+ * Methods are called synchronously on the hot path and must not block. Errors thrown by a sink are logged and
+ * otherwise ignored.
+ */
+export interface MetricsSink {
+    /**
+     * Increment a counter.
+     * @param name The name of the counter.
+     * @param value The amount to increment the counter by.
+     * @param labels The labels of the value.
+     */
+    incrementCounter(name: string, value: number, labels: MetricLabels): void;
+
+    /**
+     * Record a value of a histogram.
+     * @param name The name of the histogram.
+     * @param value The value.
+     * @param labels The labels of the value.
+     */
+    recordHistogram(name: string, value: number, labels: MetricLabels): void;
+}
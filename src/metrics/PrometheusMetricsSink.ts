@@ -0,0 +1,160 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+import { MetricLabels, MetricsSink } from "./MetricsSink";
+
+/**
+ * The default upper bounds of the buckets of histograms, suitable for durations in milliseconds as well as counts.
+ */
+const defaultBuckets: number[] = [1, 2, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+interface Counter {
+    labels: MetricLabels;
+    value: number;
+}
+
+interface Histogram {
+    labels: MetricLabels;
+    bucketCounts: number[];
+    sum: number;
+    count: number;
+}
+
+/**
+ * A {@linkcode MetricsSink} which aggregates metrics in memory and renders them in the Prometheus text exposition
+ * format, e.g. to be served on a `/metrics` endpoint:
+ *
+ * ```
+ * const metricsSink: PrometheusMetricsSink = new PrometheusMetricsSink();
+ * const qldbDriver: QldbDriver = new QldbDriver("your-ledger-name", { metricsSink: metricsSink });
+ * http.createServer((request, response) => response.end(metricsSink.render())).listen(9464);
+ * ```
+ */
+export class PrometheusMetricsSink implements MetricsSink {
+    private _buckets: number[];
+    private _counters: Map<string, Map<string, Counter>>;
+    private _histograms: Map<string, Map<string, Histogram>>;
+
+    /**
+     * Creates a PrometheusMetricsSink.
+     * @param buckets The upper bounds of the buckets of histograms, in increasing order. A bucket of infinity is always
+     *                added.
+     * @throws RangeError if the buckets are not finite numbers in strictly increasing order.
+     */
+    constructor(buckets: number[] = defaultBuckets) {
+        if (!Array.isArray(buckets) || buckets.some((bucket: number, i: number) =>
+            typeof bucket !== "number" || !isFinite(bucket) || (i > 0 && bucket <= buckets[i - 1]))) {
+            throw new RangeError("Value for buckets must be finite numbers in strictly increasing order.");
+        }
+        this._buckets = buckets.slice();
+        this._counters = new Map();
+        this._histograms = new Map();
+    }
+
+    incrementCounter(name: string, value: number, labels: MetricLabels): void {
+        const counter: Counter = PrometheusMetricsSink._getSeries(this._counters, name, labels, () => ({
+            labels: { ...labels },
+            value: 0
+        }));
+        counter.value += value;
+    }
+
+    recordHistogram(name: string, value: number, labels: MetricLabels): void {
+        const histogram: Histogram = PrometheusMetricsSink._getSeries(this._histograms, name, labels, () => ({
+            labels: { ...labels },
+            bucketCounts: this._buckets.map(() => 0),
+            sum: 0,
+            count: 0
+        }));
+        this._buckets.forEach((bucket: number, i: number) => {
+            if (value <= bucket) {
+                histogram.bucketCounts[i]++;
+            }
+        });
+        histogram.sum += value;
+        histogram.count++;
+    }
+
+    /**
+     * Render the metrics recorded so far in the Prometheus text exposition format.
+     * @returns The metrics.
+     */
+    render(): string {
+        const lines: string[] = [];
+        this._counters.forEach((series: Map<string, Counter>, name: string) => {
+            lines.push(`# TYPE ${name} counter`);
+            series.forEach((counter: Counter) => {
+                lines.push(`${name}${PrometheusMetricsSink._renderLabels(counter.labels)} ${counter.value}`);
+            });
+        });
+        this._histograms.forEach((series: Map<string, Histogram>, name: string) => {
+            lines.push(`# TYPE ${name} histogram`);
+            series.forEach((histogram: Histogram) => {
+                this._buckets.forEach((bucket: number, i: number) => {
+                    const labels: MetricLabels = { ...histogram.labels, le: String(bucket) };
+                    lines.push(`${name}_bucket${PrometheusMetricsSink._renderLabels(labels)} ${histogram.bucketCounts[i]}`);
+                });
+                const infinityLabels: MetricLabels = { ...histogram.labels, le: "+Inf" };
+                lines.push(`${name}_bucket${PrometheusMetricsSink._renderLabels(infinityLabels)} ${histogram.count}`);
+                lines.push(`${name}_sum${PrometheusMetricsSink._renderLabels(histogram.labels)} ${histogram.sum}`);
+                lines.push(`${name}_count${PrometheusMetricsSink._renderLabels(histogram.labels)} ${histogram.count}`);
+            });
+        });
+        return (lines.length === 0) ? "" : `${lines.join("\n")}\n`;
+    }
+
+    /**
+     * Get the series of a metric with the given labels, creating it if it does not exist yet.
+     * @param metrics The series of every metric, by name and rendered labels.
+     * @param name The name of the metric.
+     * @param labels The labels of the series.
+     * @param create The function creating the series.
+     * @returns The series.
+     */
+    private static _getSeries<T>(
+        metrics: Map<string, Map<string, T>>,
+        name: string,
+        labels: MetricLabels,
+        create: () => T
+    ): T {
+        let series: Map<string, T> = metrics.get(name);
+        if (series == undefined) {
+            series = new Map();
+            metrics.set(name, series);
+        }
+        const key: string = PrometheusMetricsSink._renderLabels(labels);
+        let value: T = series.get(key);
+        if (value == undefined) {
+            value = create();
+            series.set(key, value);
+        }
+        return value;
+    }
+
+    /**
+     * Render labels in the Prometheus text exposition format, sorted by name.
+     * @param labels The labels.
+     * @returns The rendered labels, or an empty string if there are none.
+     */
+    private static _renderLabels(labels: MetricLabels): string {
+        const names: string[] = Object.keys(labels).sort();
+        if (names.length === 0) {
+            return "";
+        }
+        const renderedLabels: string[] = names.map((name: string) => {
+            const value: string = String(labels[name]).replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, "\\\"");
+            return `${name}="${value}"`;
+        });
+        return `{${renderedLabels.join(",")}}`;
+    }
+}
@@ -11,8 +11,12 @@
  * and limitations under the License.
  */
 
+import { AWSError } from "aws-sdk";
+
+import { isOccConflictException, isRetriableException, StartTransactionError } from "../errors/Errors";
 import { BackoffFunction } from "./BackoffFunction";
 import { RetryConfig } from "./RetryConfig";
+import { RetryPredicate } from "./RetryPredicate";
 
 const SLEEP_CAP_MS: number = 5000;
 const SLEEP_BASE_MS: number = 10;
@@ -33,4 +37,18 @@ export const defaultBackoffFunction: BackoffFunction = (retryAttempt: number, er
     return delayTime;
 }
 
+/**
+ * A default retry predicate which retries OCC conflicts, failures to start a transaction, and the transient errors
+ * classified as retriable by {@linkcode isRetriableException}.
+ *
+ * @param error The error that occurred while executing the transaction
+ * @param retryAttempt The number of the retry attempt which would be made, starting at 1
+ * @param transactionId The transaction Id for which the execution was attempted
+ */
+export const defaultRetryPredicate: RetryPredicate = (error: Error, retryAttempt: number, transactionId: string) => {
+    return (error instanceof StartTransactionError) ||
+           isOccConflictException(<AWSError> error) ||
+           isRetriableException(<AWSError> error);
+}
+
 export const defaultRetryConfig: RetryConfig = new RetryConfig(4, defaultBackoffFunction);
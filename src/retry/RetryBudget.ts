@@ -0,0 +1,62 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+import { RetryBudgetOptions } from "../QldbDriverOptions";
+
+/**
+ * A token bucket limiting the retries of all transactions of a driver. Every transaction executed deposits a fraction
+ * of a token, up to the capacity of the bucket, and every retry withdraws a whole token. The bucket starts full, so
+ * that transactions can be retried while traffic is low. A budget created without options is unlimited. This class is
+ * used internally by the driver and is not meant to be used directly by developers.
+ */
+export class RetryBudget {
+    private _isEnabled: boolean;
+    private _retryRatio: number;
+    private _maxTokens: number;
+    private _tokens: number;
+
+    /**
+     * Creates a RetryBudget.
+     * @param options The options of the budget, or null for an unlimited budget.
+     */
+    constructor(options: RetryBudgetOptions = null) {
+        this._isEnabled = options != null;
+        options = (options == null) ? {} : options;
+        this._retryRatio = (options.retryRatio == null) ? 0.1 : options.retryRatio;
+        this._maxTokens = (options.maxTokens == null) ? 10 : options.maxTokens;
+        this._tokens = this._maxTokens;
+    }
+
+    /**
+     * Deposit the share of a retry earned by the first attempt of a transaction.
+     */
+    deposit(): void {
+        this._tokens = Math.min(this._tokens + this._retryRatio, this._maxTokens);
+    }
+
+    /**
+     * Withdraw a token for a retry, if one is available.
+     * @returns True if the retry may be made. False if the budget is exhausted.
+     */
+    tryWithdraw(): boolean {
+        if (!this._isEnabled) {
+            return true;
+        }
+        // Tolerate the rounding errors accumulated by adding up fractional deposits.
+        if (this._tokens < 1 - 1e-9) {
+            return false;
+        }
+        this._tokens--;
+        return true;
+    }
+}
@@ -11,12 +11,18 @@
  * and limitations under the License.
  */
 
+import { AWSError } from "aws-sdk";
+
+import { isRetriableException } from "../errors/Errors";
 import { BackoffFunction } from "./BackoffFunction";
-import { defaultBackoffFunction } from "./DefaultRetryConfig";
+import { defaultBackoffFunction, defaultRetryPredicate } from "./DefaultRetryConfig";
+import { RetryPredicate } from "./RetryPredicate";
 
 export class RetryConfig {
     private _retryLimit: number;
     private _backoffFunction: BackoffFunction; 
+    private _retriableErrorCodes: string[];
+    private _retryPredicate: RetryPredicate;
 
     /** 
     * Retry and Backoff config for Qldb Driver. 
@@ -29,14 +35,39 @@ export class RetryConfig {
     *                        of time to delay in milliseconds. If the result is a non-zero negative value the backoff will
     *                        be considered to be zero. If no backoff function is provided then {@linkcode defaultBackoffFunction} will be used.
     *
+    * @param retriableErrorCodes Error codes to retry in addition to the throttling, timeout, network and service side
+    *                            errors which are always retried, e.g. codes set by a proxy in front of QLDB.
+    *                            See {@linkcode isRetriableException}.
+    *
+    * @param shouldRetry A custom function that accepts an error, the number of the retry attempt which would be made,
+    *                    and the transaction id, and returns whether the transaction should be retried. It replaces the
+    *                    default decision, including `retriableErrorCodes`, and can call {@linkcode defaultRetryPredicate}
+    *                    to extend it, e.g. to retry an application error or to never retry OCC conflicts. It is not
+    *                    consulted once the retry limit is reached, nor for an InvalidSessionException, which is always
+    *                    retried on a new session.
+    *
     * @throws RangeError if `retryLimit` is less than 0.
+    * @throws TypeError if `retriableErrorCodes` is not an array of strings, or `shouldRetry` is not a function.
     */
-    constructor(retryLimit: number = 4, backoffFunction: BackoffFunction = defaultBackoffFunction) {
+    constructor(
+        retryLimit: number = 4,
+        backoffFunction: BackoffFunction = defaultBackoffFunction,
+        retriableErrorCodes: string[] = [],
+        shouldRetry?: RetryPredicate
+    ) {
         if (retryLimit < 0) {
             throw new RangeError("Value for retryLimit cannot be negative.");
         }
+        if (!Array.isArray(retriableErrorCodes) || retriableErrorCodes.some((code: string) => typeof code !== "string")) {
+            throw new TypeError("Value for retriableErrorCodes must be an array of strings.");
+        }
+        if (shouldRetry != null && typeof shouldRetry !== "function") {
+            throw new TypeError("Value for shouldRetry must be a function.");
+        }
         this._retryLimit = retryLimit;
         this._backoffFunction = backoffFunction;
+        this._retriableErrorCodes = [...retriableErrorCodes];
+        this._retryPredicate = shouldRetry;
     }
 
     getRetryLimit(): number {
@@ -47,4 +78,24 @@ export class RetryConfig {
         return this._backoffFunction;
     } 
 
+    getRetriableErrorCodes(): string[] {
+        return this._retriableErrorCodes;
+    }
+
+    /**
+     * Should a transaction which failed with the given error be retried?
+     * @param error The error that occurred while executing the transaction.
+     * @param retryAttempt The number of the retry attempt which would be made, starting at 1.
+     * @param transactionId The ID of the failed transaction, or null if the transaction could not be started.
+     * @returns The result of the custom `shouldRetry` function if one was given. Otherwise, whether the error is
+     *          retried by {@linkcode defaultRetryPredicate} or has one of the configured retriable error codes.
+     */
+    shouldRetry(error: Error, retryAttempt: number, transactionId: string): boolean {
+        if (this._retryPredicate != null) {
+            return this._retryPredicate(error, retryAttempt, transactionId);
+        }
+        return defaultRetryPredicate(error, retryAttempt, transactionId) ||
+               isRetriableException(<AWSError> error, this._retriableErrorCodes);
+    }
+
 }
@@ -0,0 +1,919 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+import { randomBytes } from "crypto";
+import { Decimal, dom, dumpBinary, dumpText, IonType, IonTypes } from "ion-js";
+
+import { QldbHash } from "../QldbHash";
+import {
+    Expression,
+    parseStatement,
+    PathExpression,
+    Projection,
+    SelectStatement,
+    Statement,
+    TableSource,
+    UpdateOperation
+} from "./Partiql";
+import { badRequest, createServiceError } from "./ServiceError";
+
+/**
+ * The values returned by a statement and the IOs it consumed.
+ */
+export interface StatementResult {
+    values: dom.Value[];
+    readIOs: number;
+    writeIOs: number;
+}
+
+interface DocumentRevision {
+    id: string;
+    version: number;
+    data: dom.Value;
+    txId: string;
+    txTime: Date;
+    sequenceNo: number;
+    hash: Uint8Array;
+}
+
+interface LedgerIndex {
+    field: string;
+    indexId: string;
+}
+
+interface LedgerTable {
+    name: string;
+    tableId: string;
+    indexes: LedgerIndex[];
+    documents: Map<string, DocumentRevision>;
+}
+
+/**
+ * A change to a document by a committed transaction. A null `before` stands for an inserted document, and a null
+ * `after` for a deleted one.
+ */
+interface DocumentWrite {
+    table: string;
+    documentId: string;
+    before: dom.Value;
+    after: dom.Value;
+}
+
+interface CommitRecord {
+    sequence: number;
+    writes: DocumentWrite[];
+    createdTables: string[];
+}
+
+/**
+ * A lookup of the documents of a table by the value of an indexed field, or by document ID for a null field.
+ */
+interface IndexRead {
+    table: string;
+    field: string;
+    value: dom.Value;
+}
+
+interface Row {
+    documentId: string;
+    value: dom.Value;
+}
+
+interface Scope {
+    source: TableSource;
+    row: Row;
+    parameters: dom.Value[];
+}
+
+const USER_TABLES: string = "information_schema.user_tables";
+const COMMITTED_VIEW_PREFIX: string = "_ql_committed_";
+const ID_ALPHABET: string = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+
+/**
+ * Create a random identifier, shaped like the IDs QLDB gives to documents, tables and transactions.
+ * @returns The identifier.
+ */
+export function createIdentifier(): string {
+    return Array.from(randomBytes(22), (byte: number) => ID_ALPHABET[byte % ID_ALPHABET.length]).join("");
+}
+
+/**
+ * The tables and documents of a simulated ledger. Transactions read the latest committed documents and buffer their
+ * writes until they commit. Committing validates the documents, index lookups and table scans of the transaction
+ * against the transactions committed since it started, failing with an OccConflictException if any of them changed.
+ * This class is used internally by the {@linkcode InMemoryQldbTransport} and is not meant to be used directly by
+ * developers.
+ */
+export class InMemoryLedger {
+    private _name: string;
+    private _strandId: string;
+    private _tables: Map<string, LedgerTable>;
+    private _commitLog: CommitRecord[];
+    private _sequence: number;
+    private _activeTransactions: Set<LedgerTransaction>;
+
+    /**
+     * Creates an InMemoryLedger.
+     * @param name The name of the ledger.
+     */
+    constructor(name: string) {
+        this._name = name;
+        this._strandId = createIdentifier();
+        this._tables = new Map();
+        this._commitLog = [];
+        this._sequence = 0;
+        this._activeTransactions = new Set();
+    }
+
+    getName(): string {
+        return this._name;
+    }
+
+    /**
+     * Start a transaction.
+     * @returns The transaction.
+     */
+    begin(): LedgerTransaction {
+        const transaction: LedgerTransaction = new LedgerTransaction(this, createIdentifier(), this._sequence);
+        this._activeTransactions.add(transaction);
+        return transaction;
+    }
+
+    /**
+     * Discard a transaction and its writes.
+     * @param transaction The transaction.
+     */
+    abort(transaction: LedgerTransaction): void {
+        this._activeTransactions.delete(transaction);
+        this._pruneCommitLog();
+    }
+
+    /**
+     * Commit a transaction, applying its writes.
+     * @param transaction The transaction.
+     * @throws OccConflictException when anything the transaction read or wrote was changed by a transaction committed
+     *         since it started. The transaction is discarded.
+     */
+    commit(transaction: LedgerTransaction): void {
+        this._activeTransactions.delete(transaction);
+        try {
+            for (const record of this._commitLog) {
+                if (record.sequence > transaction.startSequence && transaction.conflictsWith(record)) {
+                    throw createServiceError(
+                        "OccConflictException",
+                        "Optimistic concurrency control (OCC) failure encountered while committing the transaction"
+                    );
+                }
+            }
+            this._apply(transaction);
+        } finally {
+            this._pruneCommitLog();
+        }
+    }
+
+    /**
+     * @param name The name of the table.
+     * @returns The committed table, or undefined if there is none.
+     */
+    getTable(name: string): LedgerTable {
+        return this._tables.get(name);
+    }
+
+    /**
+     * @returns The committed tables.
+     */
+    getTables(): LedgerTable[] {
+        return Array.from(this._tables.values());
+    }
+
+    /**
+     * @returns The ID of the strand of the ledger, shared by the metadata of all its documents.
+     */
+    getStrandId(): string {
+        return this._strandId;
+    }
+
+    private _apply(transaction: LedgerTransaction): void {
+        const sequence: number = ++this._sequence;
+        const txTime: Date = new Date();
+        const record: CommitRecord = { sequence: sequence, writes: [], createdTables: [] };
+        transaction.createdTables.forEach((table: LedgerTable) => {
+            this._tables.set(table.name, table);
+            record.createdTables.push(table.name);
+        });
+        transaction.createdIndexes.forEach((indexes: LedgerIndex[], tableName: string) => {
+            const table: LedgerTable = this._tables.get(tableName);
+            indexes.forEach((index: LedgerIndex) => table.indexes.push(index));
+        });
+        transaction.writes.forEach((documents: Map<string, dom.Value>, tableName: string) => {
+            const table: LedgerTable = this._tables.get(tableName);
+            documents.forEach((data: dom.Value, documentId: string) => {
+                const previous: DocumentRevision = table.documents.get(documentId);
+                record.writes.push({
+                    table: tableName,
+                    documentId: documentId,
+                    before: (previous == undefined) ? null : previous.data,
+                    after: data
+                });
+                if (data == null) {
+                    table.documents.delete(documentId);
+                    return;
+                }
+                table.documents.set(documentId, {
+                    id: documentId,
+                    version: (previous == undefined) ? 0 : previous.version + 1,
+                    data: data,
+                    txId: transaction.id,
+                    txTime: txTime,
+                    sequenceNo: sequence,
+                    hash: QldbHash.toQldbHash(dumpBinary(data)).getQldbHash()
+                });
+            });
+        });
+        this._commitLog.push(record);
+    }
+
+    /**
+     * Drop the commits which no active transaction started before, as no commit can conflict with them any more.
+     */
+    private _pruneCommitLog(): void {
+        let oldestStart: number = this._sequence;
+        this._activeTransactions.forEach((transaction: LedgerTransaction) => {
+            oldestStart = Math.min(oldestStart, transaction.startSequence);
+        });
+        this._commitLog = this._commitLog.filter((record: CommitRecord) => record.sequence > oldestStart);
+    }
+}
+
+/**
+ * A transaction of an {@linkcode InMemoryLedger}, buffering its writes and recording what it read. This class is used
+ * internally by the {@linkcode InMemoryQldbTransport} and is not meant to be used directly by developers.
+ */
+export class LedgerTransaction {
+    readonly id: string;
+    readonly startSequence: number;
+    readonly createdTables: Map<string, LedgerTable>;
+    readonly createdIndexes: Map<string, LedgerIndex[]>;
+    readonly writes: Map<string, Map<string, dom.Value>>;
+    private _ledger: InMemoryLedger;
+    private _readDocuments: Set<string>;
+    private _scannedTables: Set<string>;
+    private _indexReads: IndexRead[];
+
+    /**
+     * Creates a LedgerTransaction.
+     * @param ledger The ledger.
+     * @param id The ID of the transaction.
+     * @param startSequence The sequence number of the latest commit of the ledger when the transaction started.
+     */
+    constructor(ledger: InMemoryLedger, id: string, startSequence: number) {
+        this.id = id;
+        this.startSequence = startSequence;
+        this._ledger = ledger;
+        this.createdTables = new Map();
+        this.createdIndexes = new Map();
+        this.writes = new Map();
+        this._readDocuments = new Set();
+        this._scannedTables = new Set();
+        this._indexReads = [];
+    }
+
+    /**
+     * Execute a statement.
+     * @param statement The PartiQL statement.
+     * @param parameters The values of the `?` placeholders of the statement.
+     * @returns The result of the statement.
+     * @throws BadRequestException when the statement is not valid or cannot be executed.
+     */
+    execute(statement: string, parameters: dom.Value[]): StatementResult {
+        const parsed: Statement = parseStatement(statement);
+        switch (parsed.kind) {
+            case "createTable":
+                return this._createTable(parsed.table);
+            case "createIndex":
+                return this._createIndex(parsed.table, parsed.field);
+            case "insert":
+                return this._insert(parsed.table, parsed.value, parameters);
+            case "select":
+                return this._select(parsed, parameters);
+            case "update":
+                return this._update(parsed.source, parsed.operations, parsed.where, parameters);
+            case "delete":
+                return this._delete(parsed.source, parsed.where, parameters);
+        }
+    }
+
+    /**
+     * @param record A transaction committed since this transaction started.
+     * @returns True if the committed transaction changed anything this transaction read or wrote.
+     */
+    conflictsWith(record: CommitRecord): boolean {
+        if (record.createdTables.some((name: string) => this.createdTables.has(name))) {
+            return true;
+        }
+        return record.writes.some((write: DocumentWrite) => {
+            const writes: Map<string, dom.Value> = this.writes.get(write.table);
+            if (this._scannedTables.has(write.table) ||
+                this._readDocuments.has(_documentKey(write.table, write.documentId)) ||
+                (writes != undefined && writes.has(write.documentId))) {
+                return true;
+            }
+            return this._indexReads.some((read: IndexRead) => {
+                if (read.table !== write.table) {
+                    return false;
+                }
+                if (read.field == null) {
+                    return read.value.stringValue() === write.documentId;
+                }
+                return [write.before, write.after].some((data: dom.Value) => {
+                    return data != null && _isEqual(data.get(read.field), read.value) === true;
+                });
+            });
+        });
+    }
+
+    private _createTable(name: string): StatementResult {
+        if (this._findTable(name) != undefined) {
+            throw badRequest(`Semantic Error: table '${name}' already exists.`);
+        }
+        const table: LedgerTable = { name: name, tableId: createIdentifier(), indexes: [], documents: new Map() };
+        this.createdTables.set(name, table);
+        return { values: [dom.Value.from({ tableId: table.tableId })], readIOs: 0, writeIOs: 1 };
+    }
+
+    private _createIndex(tableName: string, field: string): StatementResult {
+        const table: LedgerTable = this._getTable(tableName);
+        if (this._getIndexedFields(tableName).indexOf(field) !== -1) {
+            throw badRequest(`Semantic Error: an index on '${field}' already exists on table '${tableName}'.`);
+        }
+        const indexes: LedgerIndex[] = this.createdIndexes.has(tableName) ? this.createdIndexes.get(tableName) : [];
+        indexes.push({ field: field, indexId: createIdentifier() });
+        this.createdIndexes.set(tableName, indexes);
+        return { values: [dom.Value.from({ tableId: table.tableId })], readIOs: 0, writeIOs: 1 };
+    }
+
+    private _insert(tableName: string, valueExpression: Expression, parameters: dom.Value[]): StatementResult {
+        this._getTable(tableName);
+        const value: dom.Value = _evaluate(valueExpression, { source: null, row: null, parameters: parameters });
+        let documents: dom.Value[] = [value];
+        if (value != null && (value.getType() === IonTypes.LIST || value.getType() === IonTypes.SEXP)) {
+            documents = value.elements();
+        }
+        const values: dom.Value[] = documents.map((document: dom.Value) => {
+            if (document == null || document.getType() !== IonTypes.STRUCT || document.isNull()) {
+                throw badRequest("Semantic Error: only structs can be inserted as documents.");
+            }
+            const documentId: string = createIdentifier();
+            this._write(tableName, documentId, document);
+            return dom.Value.from({ documentId: documentId });
+        });
+        return { values: values, readIOs: 0, writeIOs: values.length };
+    }
+
+    private _select(statement: SelectStatement, parameters: dom.Value[]): StatementResult {
+        const rows: Row[] = this._query(statement.source, statement.where, parameters);
+        const projection: Projection = statement.projection;
+        const scope = (row: Row): Scope => ({ source: statement.source, row: row, parameters: parameters });
+        let values: dom.Value[];
+        if (projection.kind === "star") {
+            values = rows.map((row: Row) => row.value);
+        } else if (projection.kind === "value") {
+            values = rows.map((row: Row) => _evaluate(projection.expression, scope(row)));
+        } else if (projection.items.some((item) => item.expression.kind === "count")) {
+            const fields: [string, dom.Value][] = projection.items.map((item): [string, dom.Value] => {
+                if (item.expression.kind !== "count") {
+                    throw badRequest("Semantic Error: COUNT cannot be combined with other projections.");
+                }
+                const argument: Expression = item.expression.argument;
+                const count: number = rows.filter((row: Row) => {
+                    return argument == null || !_isAbsent(_evaluate(argument, scope(row)));
+                }).length;
+                return [item.name, new dom.Integer(count)];
+            });
+            values = [new dom.Struct(fields)];
+        } else {
+            values = rows.map((row: Row) => {
+                const fields: [string, dom.Value][] = [];
+                projection.items.forEach((item) => {
+                    const value: dom.Value = _evaluate(item.expression, scope(row));
+                    if (value != null) {
+                        fields.push([item.name, value]);
+                    }
+                });
+                return new dom.Struct(fields);
+            });
+        }
+        return { values: values.filter((value: dom.Value) => value != null), readIOs: rows.length, writeIOs: 0 };
+    }
+
+    private _update(
+        source: TableSource,
+        operations: UpdateOperation[],
+        where: Expression,
+        parameters: dom.Value[]
+    ): StatementResult {
+        const rows: Row[] = this._query(source, where, parameters, true);
+        const values: dom.Value[] = rows.map((row: Row) => {
+            const scope: Scope = { source: source, row: row, parameters: parameters };
+            let document: dom.Value = row.value;
+            operations.forEach((operation: UpdateOperation) => {
+                const value: dom.Value = (operation.value == null) ? null : _evaluate(operation.value, scope);
+                document = _setPath(document, _getUpdatedFields(operation.path, source), value);
+            });
+            this._write(source.table, row.documentId, document);
+            return dom.Value.from({ documentId: row.documentId });
+        });
+        return { values: values, readIOs: rows.length, writeIOs: values.length };
+    }
+
+    private _delete(source: TableSource, where: Expression, parameters: dom.Value[]): StatementResult {
+        const rows: Row[] = this._query(source, where, parameters, true);
+        const values: dom.Value[] = rows.map((row: Row) => {
+            this._write(source.table, row.documentId, null);
+            return dom.Value.from({ documentId: row.documentId });
+        });
+        return { values: values, readIOs: rows.length, writeIOs: values.length };
+    }
+
+    /**
+     * Find the rows of a source matching a condition, recording what was read.
+     * @param source The source.
+     * @param where The condition, or null to match every row.
+     * @param parameters The values of the placeholders of the statement.
+     * @param isWrite Whether the rows are to be updated or deleted, which only documents of user tables can be.
+     * @returns The matching rows.
+     */
+    private _query(source: TableSource, where: Expression, parameters: dom.Value[], isWrite: boolean = false): Row[] {
+        let tableName: string = source.table;
+        let rows: Row[];
+        if (!isWrite && source.table.toLowerCase() === USER_TABLES) {
+            rows = this._getUserTableRows();
+            tableName = null;
+        } else if (!isWrite && source.table.startsWith(COMMITTED_VIEW_PREFIX)) {
+            tableName = source.table.substring(COMMITTED_VIEW_PREFIX.length);
+            rows = this._getCommittedRows(tableName);
+        } else {
+            rows = this._getDocumentRows(tableName);
+        }
+        const matches: Row[] = rows.filter((row: Row) => {
+            return where == null || _isTrue(_evaluate(where, { source: source, row: row, parameters: parameters }));
+        });
+        if (tableName != null) {
+            const indexRead: IndexRead = this._findIndexRead(tableName, source, where, parameters);
+            if (indexRead == null) {
+                this._scannedTables.add(tableName);
+            } else {
+                this._indexReads.push(indexRead);
+            }
+            matches.forEach((row: Row) => this._readDocuments.add(_documentKey(tableName, row.documentId)));
+        }
+        return matches;
+    }
+
+    /**
+     * Find an equality on the document ID or an indexed field among the conjuncts of a condition, which lets QLDB look
+     * up the matching documents instead of scanning the table.
+     */
+    private _findIndexRead(
+        tableName: string,
+        source: TableSource,
+        where: Expression,
+        parameters: dom.Value[]
+    ): IndexRead {
+        const indexedFields: string[] = this._getIndexedFields(tableName);
+        const conjuncts: Expression[] = _getConjuncts(where);
+        for (const conjunct of conjuncts) {
+            if (conjunct.kind !== "binary" || conjunct.operator !== "=") {
+                continue;
+            }
+            for (const [path, other] of [[conjunct.left, conjunct.right], [conjunct.right, conjunct.left]]) {
+                if (path.kind !== "path" || (other.kind !== "literal" && other.kind !== "parameter")) {
+                    continue;
+                }
+                const field: string = _getLookupField(path, source);
+                if (field === undefined || (field != null && indexedFields.indexOf(field) === -1)) {
+                    continue;
+                }
+                const value: dom.Value = _evaluate(other, { source: source, row: null, parameters: parameters });
+                if (value != null) {
+                    return { table: tableName, field: field, value: value };
+                }
+            }
+        }
+        return null;
+    }
+
+    private _getDocumentRows(tableName: string): Row[] {
+        const table: LedgerTable = this._getTable(tableName);
+        const documents: Map<string, dom.Value> = new Map();
+        table.documents.forEach((revision: DocumentRevision, id: string) => documents.set(id, revision.data));
+        const writes: Map<string, dom.Value> = this.writes.get(tableName);
+        if (writes != undefined) {
+            writes.forEach((data: dom.Value, id: string) => documents.set(id, data));
+        }
+        const rows: Row[] = [];
+        documents.forEach((data: dom.Value, id: string) => {
+            if (data != null) {
+                rows.push({ documentId: id, value: data });
+            }
+        });
+        return rows;
+    }
+
+    private _getCommittedRows(tableName: string): Row[] {
+        const table: LedgerTable = this._ledger.getTable(tableName);
+        if (table == undefined) {
+            throw _noSuchTable(COMMITTED_VIEW_PREFIX + tableName);
+        }
+        return Array.from(table.documents.values(), (revision: DocumentRevision) => ({
+            documentId: revision.id,
+            value: new dom.Struct([
+                ["blockAddress", dom.Value.from({
+                    strandId: this._ledger.getStrandId(),
+                    sequenceNo: revision.sequenceNo
+                })],
+                ["hash", new dom.Blob(revision.hash)],
+                ["data", revision.data],
+                ["metadata", dom.Value.from({
+                    id: revision.id,
+                    version: revision.version,
+                    txTime: revision.txTime,
+                    txId: revision.txId
+                })]
+            ])
+        }));
+    }
+
+    private _getUserTableRows(): Row[] {
+        const tables: LedgerTable[] = this._ledger.getTables().concat(Array.from(this.createdTables.values()));
+        return tables.map((table: LedgerTable) => ({
+            documentId: table.tableId,
+            value: dom.Value.from({
+                name: table.name,
+                tableId: table.tableId,
+                indexes: this._getIndexes(table.name).map((index: LedgerIndex) => ({
+                    expr: `[${index.field}]`,
+                    indexId: index.indexId,
+                    status: "ONLINE"
+                })),
+                status: "ACTIVE"
+            })
+        }));
+    }
+
+    private _write(tableName: string, documentId: string, data: dom.Value): void {
+        if (!this.writes.has(tableName)) {
+            this.writes.set(tableName, new Map());
+        }
+        this.writes.get(tableName).set(documentId, data);
+    }
+
+    private _findTable(name: string): LedgerTable {
+        const table: LedgerTable = this._ledger.getTable(name);
+        return (table == undefined) ? this.createdTables.get(name) : table;
+    }
+
+    private _getTable(name: string): LedgerTable {
+        const table: LedgerTable = this._findTable(name);
+        if (table == undefined) {
+            throw _noSuchTable(name);
+        }
+        return table;
+    }
+
+    private _getIndexes(tableName: string): LedgerIndex[] {
+        const table: LedgerTable = this._getTable(tableName);
+        const created: LedgerIndex[] = this.createdIndexes.get(tableName);
+        return (created == undefined) ? table.indexes : table.indexes.concat(created);
+    }
+
+    private _getIndexedFields(tableName: string): string[] {
+        return this._getIndexes(tableName).map((index: LedgerIndex) => index.field);
+    }
+}
+
+function _documentKey(tableName: string, documentId: string): string {
+    return `${tableName}/${documentId}`;
+}
+
+function _noSuchTable(name: string): Error {
+    return badRequest(`Semantic Error: No such variable named '${name}'.`);
+}
+
+function _getConjuncts(expression: Expression): Expression[] {
+    if (expression == null) {
+        return [];
+    }
+    if (expression.kind === "binary" && expression.operator === "AND") {
+        return _getConjuncts(expression.left).concat(_getConjuncts(expression.right));
+    }
+    return [expression];
+}
+
+/**
+ * @returns The top-level field a path refers to, null if it refers to the ID of the document, or undefined otherwise.
+ */
+function _getLookupField(path: PathExpression, source: TableSource): string {
+    if (path.root === source.byAlias) {
+        return (path.steps.length === 0) ? null : undefined;
+    }
+    if (_isSourceVariable(path.root, source)) {
+        return (path.steps.length === 1 && typeof path.steps[0] === "string") ? <string> path.steps[0] : undefined;
+    }
+    return (path.steps.length === 0) ? path.root : undefined;
+}
+
+function _isSourceVariable(name: string, source: TableSource): boolean {
+    return (source.alias == null) ? name === source.table : name === source.alias;
+}
+
+/**
+ * @returns The fields along the path of a SET or REMOVE operation, starting at the top level of the document.
+ */
+function _getUpdatedFields(path: PathExpression, source: TableSource): string[] {
+    const steps: (string | number)[] = _isSourceVariable(path.root, source) ? path.steps : [path.root, ...path.steps];
+    if (steps.length === 0 || steps.some((step: string | number) => typeof step !== "string")) {
+        throw badRequest("Semantic Error: only fields of documents can be updated.");
+    }
+    return <string[]> steps;
+}
+
+/**
+ * @returns A copy of a struct with the field at a path set to a value, or removed for a null value.
+ */
+function _setPath(value: dom.Value, fields: string[], newValue: dom.Value): dom.Value {
+    if (fields.length === 0) {
+        return newValue;
+    }
+    if (_isAbsent(value)) {
+        if (newValue == null) {
+            return value;
+        }
+        value = new dom.Struct([]);
+    } else if (value.getType() !== IonTypes.STRUCT) {
+        throw badRequest(`Semantic Error: cannot update field '${fields[0]}' of a non-struct value.`);
+    }
+    const existing: [string, dom.Value][] = value.fields();
+    const updatedFields: [string, dom.Value][] = [];
+    let isFound: boolean = false;
+    existing.forEach(([name, fieldValue]: [string, dom.Value]) => {
+        if (name !== fields[0]) {
+            updatedFields.push([name, fieldValue]);
+        } else if (!isFound) {
+            isFound = true;
+            const updated: dom.Value = _setPath(fieldValue, fields.slice(1), newValue);
+            if (updated != null) {
+                updatedFields.push([name, updated]);
+            }
+        }
+    });
+    if (!isFound && newValue != null) {
+        updatedFields.push([fields[0], _setPath(null, fields.slice(1), newValue)]);
+    }
+    return new dom.Struct(updatedFields, value.getAnnotations());
+}
+
+/**
+ * Evaluate an expression. MISSING evaluates to null, and unknown truth values to an Ion null.
+ */
+function _evaluate(expression: Expression, scope: Scope): dom.Value {
+    switch (expression.kind) {
+        case "literal":
+            return expression.value;
+        case "parameter":
+            if (expression.index >= scope.parameters.length) {
+                throw badRequest(`Semantic Error: no value was passed for parameter ${expression.index + 1}.`);
+            }
+            return scope.parameters[expression.index];
+        case "path":
+            return _evaluatePath(expression, scope);
+        case "struct": {
+            const fields: [string, dom.Value][] = [];
+            expression.fields.forEach(([name, fieldExpression]: [string, Expression]) => {
+                const value: dom.Value = _evaluate(fieldExpression, scope);
+                if (value != null) {
+                    fields.push([name, value]);
+                }
+            });
+            return new dom.Struct(fields);
+        }
+        case "list":
+            return new dom.List(expression.elements
+                .map((element: Expression) => _evaluate(element, scope))
+                .filter((value: dom.Value) => value != null));
+        case "binary":
+            return _evaluateBinary(expression.operator, expression.left, expression.right, scope);
+        case "not": {
+            const operand: dom.Value = _evaluate(expression.operand, scope);
+            return _isBoolean(operand) ? new dom.Boolean(!operand.booleanValue()) : new dom.Null();
+        }
+        case "is": {
+            const operand: dom.Value = _evaluate(expression.operand, scope);
+            const result: boolean = (expression.test === "MISSING") ? operand == null : _isAbsent(operand);
+            return new dom.Boolean(result !== expression.isNegated);
+        }
+        case "in": {
+            const operand: dom.Value = _evaluate(expression.operand, scope);
+            const collection: dom.Value = _evaluate(expression.collection, scope);
+            if (_isAbsent(collection) || [IonTypes.LIST, IonTypes.SEXP].indexOf(collection.getType()) === -1) {
+                return new dom.Null();
+            }
+            const results: boolean[] = collection.elements().map((element: dom.Value) => _isEqual(operand, element));
+            if (results.indexOf(true) !== -1) {
+                return new dom.Boolean(!expression.isNegated);
+            }
+            return (results.indexOf(null) !== -1) ? new dom.Null() : new dom.Boolean(expression.isNegated);
+        }
+        case "like": {
+            const operand: dom.Value = _evaluate(expression.operand, scope);
+            const pattern: dom.Value = _evaluate(expression.pattern, scope);
+            if (!_isText(operand) || !_isText(pattern)) {
+                return new dom.Null();
+            }
+            const regex: RegExp = new RegExp("^" + pattern.stringValue().split("").map((char: string) => {
+                if (char === "%" || char === "_") {
+                    return (char === "%") ? "[\\s\\S]*" : "[\\s\\S]";
+                }
+                return char.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+            }).join("") + "$");
+            return new dom.Boolean(regex.test(operand.stringValue()) !== expression.isNegated);
+        }
+        case "count":
+            throw badRequest("Semantic Error: COUNT is only supported as a projection of SELECT.");
+    }
+}
+
+function _evaluatePath(path: PathExpression, scope: Scope): dom.Value {
+    if (scope.row == null) {
+        throw badRequest(`Semantic Error: No such variable named '${path.root}'.`);
+    }
+    let value: dom.Value;
+    let steps: (string | number)[] = path.steps;
+    if (path.root === scope.source.byAlias) {
+        value = new dom.String(scope.row.documentId);
+    } else if (_isSourceVariable(path.root, scope.source)) {
+        value = scope.row.value;
+    } else {
+        value = scope.row.value;
+        steps = [path.root, ...path.steps];
+    }
+    for (const step of steps) {
+        if (_isAbsent(value)) {
+            return null;
+        }
+        if (typeof step === "string") {
+            value = (value.getType() === IonTypes.STRUCT) ? value.get(step) : null;
+        } else {
+            const isSequence: boolean = value.getType() === IonTypes.LIST || value.getType() === IonTypes.SEXP;
+            value = isSequence ? value.get(step) : null;
+        }
+        if (value === undefined) {
+            value = null;
+        }
+    }
+    return value;
+}
+
+function _evaluateBinary(
+    operator: string,
+    leftExpression: Expression,
+    rightExpression: Expression,
+    scope: Scope
+): dom.Value {
+    const left: dom.Value = _evaluate(leftExpression, scope);
+    const right: dom.Value = _evaluate(rightExpression, scope);
+    switch (operator) {
+        case "AND":
+            if (_isFalse(left) || _isFalse(right)) {
+                return new dom.Boolean(false);
+            }
+            return (_isTrue(left) && _isTrue(right)) ? new dom.Boolean(true) : new dom.Null();
+        case "OR":
+            if (_isTrue(left) || _isTrue(right)) {
+                return new dom.Boolean(true);
+            }
+            return (_isFalse(left) && _isFalse(right)) ? new dom.Boolean(false) : new dom.Null();
+        case "=":
+        case "!=": {
+            const isEqual: boolean = _isEqual(left, right);
+            return (isEqual == null) ? new dom.Null() : new dom.Boolean(isEqual === (operator === "="));
+        }
+        case "<":
+        case "<=":
+        case ">":
+        case ">=": {
+            const comparison: number = _compare(left, right);
+            if (isNaN(comparison)) {
+                return new dom.Null();
+            }
+            const isTrue: boolean = (operator === "<") ? comparison < 0 : (operator === "<=") ? comparison <= 0 :
+                (operator === ">") ? comparison > 0 : comparison >= 0;
+            return new dom.Boolean(isTrue);
+        }
+        case "||":
+            if (!_isText(left) || !_isText(right)) {
+                return new dom.Null();
+            }
+            return new dom.String(left.stringValue() + right.stringValue());
+        default:
+            return _evaluateArithmetic(operator, left, right);
+    }
+}
+
+function _evaluateArithmetic(operator: string, left: dom.Value, right: dom.Value): dom.Value {
+    if (!_isNumeric(left) || !_isNumeric(right)) {
+        return new dom.Null();
+    }
+    const a: number = left.numberValue();
+    const b: number = right.numberValue();
+    let result: number = (operator === "+") ? a + b : (operator === "-") ? a - b : (operator === "*") ? a * b : a / b;
+    const types: IonType[] = [left.getType(), right.getType()];
+    if (types[0] === IonTypes.INT && types[1] === IonTypes.INT) {
+        if (operator === "/" && b === 0) {
+            throw badRequest("Evaluation Error: division by zero.");
+        }
+        return new dom.Integer(Math.trunc(result));
+    }
+    if (types.indexOf(IonTypes.FLOAT) !== -1) {
+        return new dom.Float(result);
+    }
+    if (!isFinite(result)) {
+        throw badRequest("Evaluation Error: division by zero.");
+    }
+    result = Number(result.toPrecision(15));
+    return new dom.Decimal(Decimal.parse(String(result)));
+}
+
+function _isAbsent(value: dom.Value): boolean {
+    return value == null || value.isNull();
+}
+
+function _isBoolean(value: dom.Value): boolean {
+    return !_isAbsent(value) && value.getType() === IonTypes.BOOL;
+}
+
+function _isTrue(value: dom.Value): boolean {
+    return _isBoolean(value) && value.booleanValue();
+}
+
+function _isFalse(value: dom.Value): boolean {
+    return _isBoolean(value) && !value.booleanValue();
+}
+
+function _isNumeric(value: dom.Value): boolean {
+    return !_isAbsent(value) && [IonTypes.INT, IonTypes.FLOAT, IonTypes.DECIMAL].indexOf(value.getType()) !== -1;
+}
+
+function _isText(value: dom.Value): boolean {
+    return !_isAbsent(value) && (value.getType() === IonTypes.STRING || value.getType() === IonTypes.SYMBOL);
+}
+
+/**
+ * @returns Whether two values are equal, or null if either is null or MISSING.
+ */
+function _isEqual(left: dom.Value, right: dom.Value): boolean {
+    if (_isAbsent(left) || _isAbsent(right)) {
+        return null;
+    }
+    const comparison: number = _compare(left, right);
+    if (!isNaN(comparison)) {
+        return comparison === 0;
+    }
+    return left.getType() === right.getType() && dumpText(left) === dumpText(right);
+}
+
+/**
+ * @returns A negative number if the left value is lower, a positive number if it is greater, 0 if both are equal,
+ *          or NaN if they cannot be ordered.
+ */
+function _compare(left: dom.Value, right: dom.Value): number {
+    if (_isAbsent(left) || _isAbsent(right)) {
+        return NaN;
+    }
+    if (_isNumeric(left) && _isNumeric(right)) {
+        if (left.getType() === IonTypes.DECIMAL && right.getType() === IonTypes.DECIMAL) {
+            return left.decimalValue().compareTo(right.decimalValue());
+        }
+        return left.numberValue() - right.numberValue();
+    }
+    if (_isText(left) && _isText(right)) {
+        return (left.stringValue() < right.stringValue()) ? -1 : (left.stringValue() > right.stringValue()) ? 1 : 0;
+    }
+    if (left.getType() === IonTypes.BOOL && right.getType() === IonTypes.BOOL) {
+        return Number(left.booleanValue()) - Number(right.booleanValue());
+    }
+    if (left.getType() === IonTypes.TIMESTAMP && right.getType() === IonTypes.TIMESTAMP) {
+        return left.timestampValue().compareTo(right.timestampValue());
+    }
+    return NaN;
+}
@@ -0,0 +1,277 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+import {
+    CommitDigest,
+    CommitTransactionRequest,
+    CommitTransactionResult,
+    ExecuteStatementRequest,
+    ExecuteStatementResult,
+    FetchPageRequest,
+    FetchPageResult,
+    Page,
+    SendCommandRequest,
+    SendCommandResult,
+    TimingInformation,
+    ValueHolder
+} from "aws-sdk/clients/qldbsession";
+import { randomBytes } from "crypto";
+import { dom, dumpBinary, load } from "ion-js";
+
+import { QldbHash } from "../QldbHash";
+import { QldbTransport } from "../transport/QldbTransport";
+import { InMemoryLedger, LedgerTransaction, StatementResult } from "./InMemoryLedger";
+import { badRequest, createServiceError } from "./ServiceError";
+
+/**
+ * The options of an {@linkcode InMemoryQldbTransport}.
+ */
+export interface InMemoryQldbTransportOptions {
+    /**
+     * The maximum number of values returned in a page of results. Defaults to 200.
+     */
+    pageSize?: number;
+
+    /**
+     * The names of the ledgers sessions can be started on. By default, a ledger is created the first time a session is
+     * started on it.
+     */
+    ledgerNames?: string[];
+}
+
+interface SimulatedSession {
+    ledger: InMemoryLedger;
+    transaction: LedgerTransaction;
+    transactionHash: QldbHash;
+    pages: Map<string, dom.Value[]>;
+}
+
+/**
+ * A {@linkcode QldbTransport} simulating QLDB in memory, for tests and local development without an AWS account:
+ *
+ * ```
+ * const qldbDriver: QldbDriver = new QldbDriver("testLedger", { transport: new InMemoryQldbTransport() });
+ * ```
+ *
+ * The simulator implements the session protocol of QLDB, including pagination of results and the validation of commit
+ * digests, and a subset of PartiQL: `CREATE TABLE`, `CREATE INDEX`, `INSERT`, `SELECT` with `WHERE`, `UPDATE` and
+ * `DELETE`, over user tables, `information_schema.user_tables` and the committed views `_ql_committed_<table>`.
+ * Transactions are validated optimistically as QLDB validates them, so a transaction fails to commit with an
+ * `OccConflictException` once a document it read, a table it scanned or an index lookup it made is changed by a
+ * transaction committed since it started.
+ *
+ * The state of the ledgers is held by the transport and lost with it. Neither journal blocks nor revision history are
+ * simulated.
+ */
+export class InMemoryQldbTransport implements QldbTransport {
+    private _pageSize: number;
+    private _ledgerNames: string[];
+    private _ledgers: Map<string, InMemoryLedger>;
+    private _sessions: Map<string, SimulatedSession>;
+
+    /**
+     * Creates an InMemoryQldbTransport.
+     * @param options The options of the simulator.
+     * @throws RangeError if the page size is not a positive integer.
+     */
+    constructor(options: InMemoryQldbTransportOptions = {}) {
+        const pageSize: number = (options.pageSize == null) ? 200 : options.pageSize;
+        if (!Number.isInteger(pageSize) || pageSize <= 0) {
+            throw new RangeError("Value for pageSize must be a positive integer.");
+        }
+        this._pageSize = pageSize;
+        this._ledgerNames = (options.ledgerNames == null) ? null : options.ledgerNames.slice();
+        this._ledgers = new Map();
+        this._sessions = new Map();
+    }
+
+    /**
+     * Execute a command against the simulated ledgers.
+     * @param request The command.
+     * @returns Promise which fulfills with the result of the command.
+     */
+    async sendCommand(request: SendCommandRequest): Promise<SendCommandResult> {
+        const startTime: number = Date.now();
+        const result: SendCommandResult = this._execute(request);
+        const timingInformation: TimingInformation = { ProcessingTimeMilliseconds: Date.now() - startTime };
+        (<(keyof SendCommandResult)[]> Object.keys(result)).forEach((command: keyof SendCommandResult) => {
+            result[command].TimingInformation = timingInformation;
+        });
+        return result;
+    }
+
+    private _execute(request: SendCommandRequest): SendCommandResult {
+        if (request.StartSession != null) {
+            return this._startSession(request.StartSession.LedgerName);
+        }
+        const session: SimulatedSession = this._sessions.get(request.SessionToken);
+        if (session == undefined) {
+            throw createServiceError("InvalidSessionException", "Session token is not valid or has expired.");
+        }
+        if (request.StartTransaction != null) {
+            if (session.transaction != null) {
+                throw badRequest("A transaction is already open on this session.");
+            }
+            session.transaction = session.ledger.begin();
+            session.transactionHash = QldbHash.toQldbHash(session.transaction.id);
+            return { StartTransaction: { TransactionId: session.transaction.id } };
+        }
+        if (request.ExecuteStatement != null) {
+            return { ExecuteStatement: this._executeStatement(session, request.ExecuteStatement) };
+        }
+        if (request.FetchPage != null) {
+            return { FetchPage: this._fetchPage(session, request.FetchPage) };
+        }
+        if (request.CommitTransaction != null) {
+            return { CommitTransaction: this._commitTransaction(session, request.CommitTransaction) };
+        }
+        if (request.AbortTransaction != null) {
+            this._abortTransaction(session);
+            return { AbortTransaction: {} };
+        }
+        if (request.EndSession != null) {
+            this._abortTransaction(session);
+            this._sessions.delete(request.SessionToken);
+            return { EndSession: {} };
+        }
+        throw badRequest("The request does not contain a command.");
+    }
+
+    private _startSession(ledgerName: string): SendCommandResult {
+        let ledger: InMemoryLedger = this._ledgers.get(ledgerName);
+        if (ledger == undefined) {
+            if (this._ledgerNames != null && this._ledgerNames.indexOf(ledgerName) === -1) {
+                throw badRequest(`Ledger ${ledgerName} does not exist.`);
+            }
+            ledger = new InMemoryLedger(ledgerName);
+            this._ledgers.set(ledgerName, ledger);
+        }
+        const sessionToken: string = randomBytes(32).toString("base64");
+        this._sessions.set(sessionToken, {
+            ledger: ledger,
+            transaction: null,
+            transactionHash: null,
+            pages: new Map()
+        });
+        return { StartSession: { SessionToken: sessionToken } };
+    }
+
+    private _executeStatement(session: SimulatedSession, request: ExecuteStatementRequest): ExecuteStatementResult {
+        const transaction: LedgerTransaction = this._getTransaction(session, request.TransactionId);
+        let statementHash: QldbHash = QldbHash.toQldbHash(request.Statement);
+        const parameters: dom.Value[] = (request.Parameters == null ? [] : request.Parameters).map(
+            (valueHolder: ValueHolder) => {
+                const parameter: dom.Value = _loadValueHolder(valueHolder);
+                statementHash = statementHash.dot(QldbHash.toQldbHash(dumpBinary(parameter)));
+                return parameter;
+            }
+        );
+        session.transactionHash = session.transactionHash.dot(statementHash);
+        const result: StatementResult = transaction.execute(request.Statement, parameters);
+        return {
+            FirstPage: this._createPage(session, result.values),
+            ConsumedIOs: { ReadIOs: result.readIOs, WriteIOs: result.writeIOs }
+        };
+    }
+
+    private _commitTransaction(
+        session: SimulatedSession,
+        request: CommitTransactionRequest
+    ): CommitTransactionResult {
+        const transaction: LedgerTransaction = this._getTransaction(session, request.TransactionId);
+        const digest: Uint8Array = session.transactionHash.getQldbHash();
+        this._closeTransaction(session);
+        if (!Buffer.from(digest).equals(_toBuffer(request.CommitDigest))) {
+            session.ledger.abort(transaction);
+            throw badRequest("The commit digest does not match the digest of the transaction.");
+        }
+        session.ledger.commit(transaction);
+        return {
+            TransactionId: transaction.id,
+            CommitDigest: Buffer.from(digest),
+            ConsumedIOs: { ReadIOs: 0, WriteIOs: 0 }
+        };
+    }
+
+    private _fetchPage(session: SimulatedSession, request: FetchPageRequest): FetchPageResult {
+        this._getTransaction(session, request.TransactionId);
+        const values: dom.Value[] = session.pages.get(request.NextPageToken);
+        if (values == undefined) {
+            throw badRequest("The page token is not valid.");
+        }
+        session.pages.delete(request.NextPageToken);
+        return {
+            Page: this._createPage(session, values),
+            ConsumedIOs: { ReadIOs: 0, WriteIOs: 0 }
+        };
+    }
+
+    /**
+     * Create a page of the first values of a result, keeping the remaining values to be fetched with the token of the
+     * next page.
+     */
+    private _createPage(session: SimulatedSession, values: dom.Value[]): Page {
+        const page: Page = {
+            Values: values.slice(0, this._pageSize).map((value: dom.Value) => ({
+                IonBinary: Buffer.from(dumpBinary(value))
+            }))
+        };
+        if (values.length > this._pageSize) {
+            page.NextPageToken = randomBytes(16).toString("base64");
+            session.pages.set(page.NextPageToken, values.slice(this._pageSize));
+        }
+        return page;
+    }
+
+    private _getTransaction(session: SimulatedSession, transactionId: string): LedgerTransaction {
+        if (session.transaction == null || session.transaction.id !== transactionId) {
+            throw badRequest(`Transaction ${transactionId} is not open on this session.`);
+        }
+        return session.transaction;
+    }
+
+    private _abortTransaction(session: SimulatedSession): void {
+        if (session.transaction != null) {
+            session.ledger.abort(session.transaction);
+            this._closeTransaction(session);
+        }
+    }
+
+    private _closeTransaction(session: SimulatedSession): void {
+        session.transaction = null;
+        session.transactionHash = null;
+        session.pages.clear();
+    }
+}
+
+function _loadValueHolder(valueHolder: ValueHolder): dom.Value {
+    try {
+        if (valueHolder.IonText != null) {
+            return load(valueHolder.IonText);
+        }
+        return load(_toBuffer(<CommitDigest> valueHolder.IonBinary));
+    } catch (e) {
+        throw badRequest(`A parameter is not a valid Ion value: ${e.message}`);
+    }
+}
+
+/**
+ * @param blob A blob of a request, either as bytes or as a base64 encoded string.
+ * @returns The bytes of the blob.
+ */
+function _toBuffer(blob: CommitDigest): Buffer {
+    if (typeof blob === "string") {
+        return Buffer.from(blob, "base64");
+    }
+    return Buffer.from(<Uint8Array> blob);
+}
@@ -0,0 +1,691 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+import { dom, load } from "ion-js";
+
+import { badRequest } from "./ServiceError";
+
+/**
+ * A literal value. MISSING is represented by a null value.
+ */
+export interface LiteralExpression {
+    kind: "literal";
+    value: dom.Value;
+}
+
+/**
+ * A `?` placeholder, numbered from 0 in the order of appearance within the statement.
+ */
+export interface ParameterExpression {
+    kind: "parameter";
+    index: number;
+}
+
+/**
+ * A path starting at a variable, e.g. `p.Address.City`, or at a field of the single document in scope, e.g. `City`.
+ * Steps are field names or list indexes.
+ */
+export interface PathExpression {
+    kind: "path";
+    root: string;
+    steps: (string | number)[];
+}
+
+export interface StructExpression {
+    kind: "struct";
+    fields: [string, Expression][];
+}
+
+export interface ListExpression {
+    kind: "list";
+    elements: Expression[];
+}
+
+export type BinaryOperator = "=" | "!=" | "<" | "<=" | ">" | ">=" | "AND" | "OR" | "+" | "-" | "*" | "/" | "||";
+
+export interface BinaryExpression {
+    kind: "binary";
+    operator: BinaryOperator;
+    left: Expression;
+    right: Expression;
+}
+
+export interface NotExpression {
+    kind: "not";
+    operand: Expression;
+}
+
+export interface IsExpression {
+    kind: "is";
+    operand: Expression;
+    test: "NULL" | "MISSING";
+    isNegated: boolean;
+}
+
+export interface InExpression {
+    kind: "in";
+    operand: Expression;
+    collection: Expression;
+    isNegated: boolean;
+}
+
+export interface LikeExpression {
+    kind: "like";
+    operand: Expression;
+    pattern: Expression;
+    isNegated: boolean;
+}
+
+/**
+ * `COUNT(*)`, with a null argument, or `COUNT(expression)`.
+ */
+export interface CountExpression {
+    kind: "count";
+    argument: Expression;
+}
+
+export type Expression =
+    LiteralExpression |
+    ParameterExpression |
+    PathExpression |
+    StructExpression |
+    ListExpression |
+    BinaryExpression |
+    NotExpression |
+    IsExpression |
+    InExpression |
+    LikeExpression |
+    CountExpression;
+
+/**
+ * The table a statement reads from, with the variable its documents are bound to and the variable their IDs are bound
+ * to by a `BY` clause, if any.
+ */
+export interface TableSource {
+    table: string;
+    alias: string;
+    byAlias: string;
+}
+
+export interface ProjectionItem {
+    expression: Expression;
+    name: string;
+}
+
+export type Projection =
+    { kind: "star" } |
+    { kind: "value"; expression: Expression } |
+    { kind: "items"; items: ProjectionItem[] };
+
+export interface CreateTableStatement {
+    kind: "createTable";
+    table: string;
+}
+
+export interface CreateIndexStatement {
+    kind: "createIndex";
+    table: string;
+    field: string;
+}
+
+export interface InsertStatement {
+    kind: "insert";
+    table: string;
+    value: Expression;
+}
+
+export interface SelectStatement {
+    kind: "select";
+    projection: Projection;
+    source: TableSource;
+    where: Expression;
+}
+
+/**
+ * A `SET path = value` operation of an update, or a `REMOVE path` operation, with a null value.
+ */
+export interface UpdateOperation {
+    path: PathExpression;
+    value: Expression;
+}
+
+export interface UpdateStatement {
+    kind: "update";
+    source: TableSource;
+    operations: UpdateOperation[];
+    where: Expression;
+}
+
+export interface DeleteStatement {
+    kind: "delete";
+    source: TableSource;
+    where: Expression;
+}
+
+export type Statement =
+    CreateTableStatement |
+    CreateIndexStatement |
+    InsertStatement |
+    SelectStatement |
+    UpdateStatement |
+    DeleteStatement;
+
+type TokenType = "identifier" | "quotedIdentifier" | "string" | "number" | "ion" | "punctuation" | "end";
+
+interface Token {
+    type: TokenType;
+    text: string;
+    position: number;
+}
+
+/**
+ * Words which end a table source instead of naming its variable.
+ */
+const clauseKeywords: ReadonlySet<string> = new Set(["AS", "BY", "WHERE", "SET", "REMOVE"]);
+
+/**
+ * Punctuation, longest first so that e.g. `<=` is not read as `<` followed by `=`.
+ */
+const punctuations: string[] = [
+    "<<", ">>", "<=", ">=", "<>", "!=", "||",
+    "(", ")", "[", "]", "{", "}", ",", ".", ":", "?", "*", "=", "<", ">", "+", "-", "/", ";"
+];
+
+/**
+ * Parse a statement of the subset of PartiQL supported by the simulator:
+ *
+ * - `CREATE TABLE t` and `CREATE INDEX ON t (field)`.
+ * - `INSERT INTO t VALUE value`, `INSERT INTO t << value, ... >>` and `INSERT INTO t ?`.
+ * - `SELECT * | VALUE expression | expression [AS name], ... FROM source [WHERE condition]`.
+ * - `UPDATE source SET path = value, ... | REMOVE path [WHERE condition]`.
+ * - `DELETE FROM source [WHERE condition]`.
+ *
+ * A source is a table, `information_schema.user_tables` or the committed view `_ql_committed_t` of a table, optionally
+ * followed by `[AS] variable` and `BY idVariable`.
+ *
+ * @param text The statement.
+ * @returns The parsed statement.
+ * @throws BadRequestException when the statement is not valid or not supported.
+ */
+export function parseStatement(text: string): Statement {
+    return new StatementParser(_tokenize(text)).parse();
+}
+
+/**
+ * Split a statement into tokens.
+ * @param text The statement.
+ * @returns The tokens, ending with an "end" token.
+ * @throws BadRequestException when the statement contains an unexpected character or an unterminated literal.
+ */
+function _tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    let position: number = 0;
+    while (position < text.length) {
+        const char: string = text[position];
+        if (/\s/.test(char)) {
+            position++;
+        } else if (char === "-" && text[position + 1] === "-") {
+            const end: number = text.indexOf("\n", position);
+            position = (end === -1) ? text.length : end;
+        } else if (char === "'" || char === "\"" || char === "`") {
+            const end: number = _findClosingQuote(text, position);
+            const content: string = text.substring(position + 1, end).split(char + char).join(char);
+            const type: TokenType = (char === "'") ? "string" : (char === "\"") ? "quotedIdentifier" : "ion";
+            tokens.push({ type: type, text: (char === "`") ? text.substring(position + 1, end) : content, position });
+            position = end + 1;
+        } else if (/[0-9]/.test(char)) {
+            const match: RegExpMatchArray = /^[0-9]+(\.[0-9]*)?([eE][+-]?[0-9]+)?/.exec(text.substring(position));
+            tokens.push({ type: "number", text: match[0], position: position });
+            position += match[0].length;
+        } else if (/[A-Za-z_$]/.test(char)) {
+            const match: RegExpMatchArray = /^[A-Za-z0-9_$]+/.exec(text.substring(position));
+            tokens.push({ type: "identifier", text: match[0], position: position });
+            position += match[0].length;
+        } else {
+            const punctuation: string = punctuations.filter((p: string) => text.startsWith(p, position))[0];
+            if (punctuation == undefined) {
+                throw badRequest(`Syntax error: unexpected character '${char}' at position ${position}.`);
+            }
+            tokens.push({ type: "punctuation", text: punctuation, position: position });
+            position += punctuation.length;
+        }
+    }
+    tokens.push({ type: "end", text: "", position: text.length });
+    return tokens;
+}
+
+/**
+ * Find the quote closing a quoted literal, skipping doubled quotes, which stand for the quote itself.
+ * @param text The statement.
+ * @param start The position of the opening quote.
+ * @returns The position of the closing quote.
+ * @throws BadRequestException when the literal is not terminated.
+ */
+function _findClosingQuote(text: string, start: number): number {
+    const quote: string = text[start];
+    let position: number = start + 1;
+    while (position < text.length) {
+        if (text[position] === quote) {
+            if (quote !== "`" && text[position + 1] === quote) {
+                position += 2;
+                continue;
+            }
+            return position;
+        }
+        position++;
+    }
+    throw badRequest(`Syntax error: unterminated literal starting at position ${start}.`);
+}
+
+/**
+ * A recursive descent parser of a tokenized statement.
+ */
+class StatementParser {
+    private _tokens: Token[];
+    private _index: number;
+    private _parameterCount: number;
+
+    constructor(tokens: Token[]) {
+        this._tokens = tokens;
+        this._index = 0;
+        this._parameterCount = 0;
+    }
+
+    parse(): Statement {
+        let statement: Statement;
+        if (this._acceptKeyword("CREATE")) {
+            statement = this._parseCreate();
+        } else if (this._acceptKeyword("INSERT")) {
+            statement = this._parseInsert();
+        } else if (this._acceptKeyword("SELECT")) {
+            statement = this._parseSelect();
+        } else if (this._acceptKeyword("UPDATE")) {
+            statement = this._parseUpdate();
+        } else if (this._acceptKeyword("DELETE")) {
+            statement = this._parseDelete();
+        } else {
+            throw this._error("expected CREATE, INSERT, SELECT, UPDATE or DELETE");
+        }
+        this._accept(";");
+        if (this._peek().type !== "end") {
+            throw this._error("expected the end of the statement");
+        }
+        return statement;
+    }
+
+    private _parseCreate(): Statement {
+        if (this._acceptKeyword("TABLE")) {
+            return { kind: "createTable", table: this._parseIdentifier() };
+        }
+        this._expectKeyword("INDEX");
+        this._expectKeyword("ON");
+        const table: string = this._parseIdentifier();
+        this._expect("(");
+        const field: string = this._parseIdentifier();
+        this._expect(")");
+        return { kind: "createIndex", table: table, field: field };
+    }
+
+    private _parseInsert(): InsertStatement {
+        this._expectKeyword("INTO");
+        const table: string = this._parseIdentifier();
+        if (this._acceptKeyword("VALUE")) {
+            return { kind: "insert", table: table, value: this._parseExpression() };
+        }
+        if (this._peek().text !== "<<" && this._peek().text !== "?") {
+            throw this._error("expected VALUE, << or ?");
+        }
+        return { kind: "insert", table: table, value: this._parsePrimary() };
+    }
+
+    private _parseSelect(): SelectStatement {
+        let projection: Projection;
+        if (this._accept("*")) {
+            projection = { kind: "star" };
+        } else if (this._acceptKeyword("VALUE")) {
+            projection = { kind: "value", expression: this._parseExpression() };
+        } else {
+            const items: ProjectionItem[] = [];
+            do {
+                const expression: Expression = this._parseExpression();
+                let name: string;
+                if (this._acceptKeyword("AS")) {
+                    name = this._parseIdentifier();
+                } else if (expression.kind === "path") {
+                    const lastStep: string | number = expression.steps[expression.steps.length - 1];
+                    name = (typeof lastStep === "string") ? lastStep : expression.root;
+                } else {
+                    name = `_${items.length + 1}`;
+                }
+                items.push({ expression: expression, name: name });
+            } while (this._accept(","));
+            projection = { kind: "items", items: items };
+        }
+        this._expectKeyword("FROM");
+        const source: TableSource = this._parseSource();
+        return { kind: "select", projection: projection, source: source, where: this._parseWhere() };
+    }
+
+    private _parseUpdate(): UpdateStatement {
+        const source: TableSource = this._parseSource();
+        const operations: UpdateOperation[] = [];
+        while (true) {
+            if (this._acceptKeyword("SET")) {
+                do {
+                    const path: PathExpression = this._parsePath();
+                    this._expect("=");
+                    operations.push({ path: path, value: this._parseExpression() });
+                } while (this._accept(","));
+            } else if (this._acceptKeyword("REMOVE")) {
+                operations.push({ path: this._parsePath(), value: null });
+            } else {
+                break;
+            }
+        }
+        if (operations.length === 0) {
+            throw this._error("expected SET or REMOVE");
+        }
+        return { kind: "update", source: source, operations: operations, where: this._parseWhere() };
+    }
+
+    private _parseDelete(): DeleteStatement {
+        this._expectKeyword("FROM");
+        const source: TableSource = this._parseSource();
+        return { kind: "delete", source: source, where: this._parseWhere() };
+    }
+
+    private _parseSource(): TableSource {
+        let table: string = this._parseIdentifier();
+        while (this._accept(".")) {
+            table += "." + this._parseIdentifier();
+        }
+        let alias: string = null;
+        if (this._acceptKeyword("AS")) {
+            alias = this._parseIdentifier();
+        } else if (this._peek().type === "quotedIdentifier" ||
+            (this._peek().type === "identifier" && !clauseKeywords.has(this._peek().text.toUpperCase()))) {
+            alias = this._parseIdentifier();
+        }
+        const byAlias: string = this._acceptKeyword("BY") ? this._parseIdentifier() : null;
+        return { table: table, alias: alias, byAlias: byAlias };
+    }
+
+    private _parseWhere(): Expression {
+        return this._acceptKeyword("WHERE") ? this._parseExpression() : null;
+    }
+
+    private _parseExpression(): Expression {
+        let expression: Expression = this._parseAnd();
+        while (this._acceptKeyword("OR")) {
+            expression = { kind: "binary", operator: "OR", left: expression, right: this._parseAnd() };
+        }
+        return expression;
+    }
+
+    private _parseAnd(): Expression {
+        let expression: Expression = this._parseNot();
+        while (this._acceptKeyword("AND")) {
+            expression = { kind: "binary", operator: "AND", left: expression, right: this._parseNot() };
+        }
+        return expression;
+    }
+
+    private _parseNot(): Expression {
+        if (this._acceptKeyword("NOT")) {
+            return { kind: "not", operand: this._parseNot() };
+        }
+        return this._parsePredicate();
+    }
+
+    private _parsePredicate(): Expression {
+        const operand: Expression = this._parseAdditive();
+        const token: Token = this._peek();
+        if (token.type === "punctuation" && ["=", "!=", "<>", "<", "<=", ">", ">="].indexOf(token.text) !== -1) {
+            this._index++;
+            const operator: BinaryOperator = <BinaryOperator> ((token.text === "<>") ? "!=" : token.text);
+            return { kind: "binary", operator: operator, left: operand, right: this._parseAdditive() };
+        }
+        if (this._acceptKeyword("IS")) {
+            const isNegated: boolean = this._acceptKeyword("NOT");
+            const test: "NULL" | "MISSING" = this._acceptKeyword("NULL") ? "NULL" : null;
+            if (test == null) {
+                this._expectKeyword("MISSING");
+            }
+            return { kind: "is", operand: operand, test: (test == null) ? "MISSING" : test, isNegated: isNegated };
+        }
+        const isNegated: boolean = this._acceptKeyword("NOT");
+        if (this._acceptKeyword("IN")) {
+            let collection: Expression;
+            if (this._accept("(")) {
+                collection = { kind: "list", elements: this._parseExpressionList(")") };
+            } else {
+                collection = this._parsePrimary();
+            }
+            return { kind: "in", operand: operand, collection: collection, isNegated: isNegated };
+        }
+        if (this._acceptKeyword("LIKE")) {
+            return { kind: "like", operand: operand, pattern: this._parseAdditive(), isNegated: isNegated };
+        }
+        if (isNegated) {
+            throw this._error("expected IN or LIKE");
+        }
+        return operand;
+    }
+
+    private _parseAdditive(): Expression {
+        let expression: Expression = this._parseMultiplicative();
+        while (["+", "-", "||"].indexOf(this._peek().text) !== -1 && this._peek().type === "punctuation") {
+            const operator: BinaryOperator = <BinaryOperator> this._next().text;
+            expression = { kind: "binary", operator: operator, left: expression, right: this._parseMultiplicative() };
+        }
+        return expression;
+    }
+
+    private _parseMultiplicative(): Expression {
+        let expression: Expression = this._parseUnary();
+        while (["*", "/"].indexOf(this._peek().text) !== -1 && this._peek().type === "punctuation") {
+            const operator: BinaryOperator = <BinaryOperator> this._next().text;
+            expression = { kind: "binary", operator: operator, left: expression, right: this._parseUnary() };
+        }
+        return expression;
+    }
+
+    private _parseUnary(): Expression {
+        if (this._accept("-")) {
+            if (this._peek().type === "number") {
+                return { kind: "literal", value: load("-" + this._next().text) };
+            }
+            const zero: Expression = { kind: "literal", value: new dom.Integer(0) };
+            return { kind: "binary", operator: "-", left: zero, right: this._parseUnary() };
+        }
+        return this._parsePrimary();
+    }
+
+    private _parsePrimary(): Expression {
+        const token: Token = this._peek();
+        switch (token.type) {
+            case "string":
+                this._index++;
+                return { kind: "literal", value: new dom.String(token.text) };
+            case "number":
+                this._index++;
+                return { kind: "literal", value: load(token.text) };
+            case "ion":
+                this._index++;
+                try {
+                    return { kind: "literal", value: load(token.text) };
+                } catch (e) {
+                    throw badRequest(`Syntax error: invalid Ion literal at position ${token.position}: ${e.message}`);
+                }
+            case "quotedIdentifier":
+                return this._parsePath();
+            case "identifier":
+                return this._parseKeywordOrPath(token);
+            case "punctuation":
+                return this._parsePunctuation(token);
+            default:
+                throw this._error("expected an expression");
+        }
+    }
+
+    private _parseKeywordOrPath(token: Token): Expression {
+        switch (token.text.toUpperCase()) {
+            case "TRUE":
+            case "FALSE":
+                this._index++;
+                return { kind: "literal", value: new dom.Boolean(token.text.toUpperCase() === "TRUE") };
+            case "NULL":
+                this._index++;
+                return { kind: "literal", value: new dom.Null() };
+            case "MISSING":
+                this._index++;
+                return { kind: "literal", value: null };
+            case "COUNT":
+                if (this._tokens[this._index + 1].text === "(") {
+                    this._index += 2;
+                    const argument: Expression = this._accept("*") ? null : this._parseExpression();
+                    this._expect(")");
+                    return { kind: "count", argument: argument };
+                }
+                return this._parsePath();
+            default:
+                return this._parsePath();
+        }
+    }
+
+    private _parsePunctuation(token: Token): Expression {
+        switch (token.text) {
+            case "?":
+                this._index++;
+                return { kind: "parameter", index: this._parameterCount++ };
+            case "(": {
+                this._index++;
+                const expression: Expression = this._parseExpression();
+                this._expect(")");
+                return expression;
+            }
+            case "[":
+                this._index++;
+                return { kind: "list", elements: this._parseExpressionList("]") };
+            case "<<":
+                this._index++;
+                return { kind: "list", elements: this._parseExpressionList(">>") };
+            case "{": {
+                this._index++;
+                const fields: [string, Expression][] = [];
+                if (!this._accept("}")) {
+                    do {
+                        const key: Token = this._next();
+                        if (key.type !== "string" && key.type !== "identifier" && key.type !== "quotedIdentifier") {
+                            throw this._error("expected a field name", key);
+                        }
+                        this._expect(":");
+                        fields.push([key.text, this._parseExpression()]);
+                    } while (this._accept(","));
+                    this._expect("}");
+                }
+                return { kind: "struct", fields: fields };
+            }
+            default:
+                throw this._error("expected an expression");
+        }
+    }
+
+    private _parseExpressionList(closing: string): Expression[] {
+        const elements: Expression[] = [];
+        if (this._accept(closing)) {
+            return elements;
+        }
+        do {
+            elements.push(this._parseExpression());
+        } while (this._accept(","));
+        this._expect(closing);
+        return elements;
+    }
+
+    private _parsePath(): PathExpression {
+        const path: PathExpression = { kind: "path", root: this._parseIdentifier(), steps: [] };
+        while (true) {
+            if (this._accept(".")) {
+                path.steps.push(this._parseIdentifier());
+            } else if (this._accept("[")) {
+                const step: Token = this._next();
+                if (step.type === "string") {
+                    path.steps.push(step.text);
+                } else if (step.type === "number" && /^[0-9]+$/.test(step.text)) {
+                    path.steps.push(Number(step.text));
+                } else {
+                    throw this._error("expected a field name or list index", step);
+                }
+                this._expect("]");
+            } else {
+                return path;
+            }
+        }
+    }
+
+    private _parseIdentifier(): string {
+        const token: Token = this._next();
+        if (token.type !== "identifier" && token.type !== "quotedIdentifier") {
+            throw this._error("expected an identifier", token);
+        }
+        return token.text;
+    }
+
+    private _peek(): Token {
+        return this._tokens[this._index];
+    }
+
+    private _next(): Token {
+        const token: Token = this._tokens[this._index];
+        if (token.type !== "end") {
+            this._index++;
+        }
+        return token;
+    }
+
+    private _accept(punctuation: string): boolean {
+        const token: Token = this._peek();
+        if (token.type === "punctuation" && token.text === punctuation) {
+            this._index++;
+            return true;
+        }
+        return false;
+    }
+
+    private _acceptKeyword(keyword: string): boolean {
+        const token: Token = this._peek();
+        if (token.type === "identifier" && token.text.toUpperCase() === keyword) {
+            this._index++;
+            return true;
+        }
+        return false;
+    }
+
+    private _expect(punctuation: string): void {
+        if (!this._accept(punctuation)) {
+            throw this._error(`expected '${punctuation}'`);
+        }
+    }
+
+    private _expectKeyword(keyword: string): void {
+        if (!this._acceptKeyword(keyword)) {
+            throw this._error(`expected ${keyword}`);
+        }
+    }
+
+    private _error(expectation: string, token: Token = this._peek()): Error {
+        const found: string = (token.type === "end") ? "the end of the statement" : `'${token.text}'`;
+        return badRequest(`Syntax error at position ${token.position}: ${expectation}, but found ${found}.`);
+    }
+}
@@ -0,0 +1,40 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+import { AWSError } from "aws-sdk";
+
+/**
+ * Create an error shaped like the errors returned by QLDB through the AWS SDK, so that the driver handles errors of the
+ * simulator as it handles errors of QLDB.
+ * @param code The error code, e.g. "BadRequestException".
+ * @param message The error message.
+ * @returns The error.
+ */
+export function createServiceError(code: string, message: string): AWSError {
+    const error: AWSError = <AWSError> new Error(message);
+    error.name = code;
+    error.code = code;
+    error.statusCode = 400;
+    error.retryable = false;
+    error.time = new Date();
+    return error;
+}
+
+/**
+ * Create a BadRequestException, returned for statements which cannot be executed and misuse of the session protocol.
+ * @param message The error message.
+ * @returns The error.
+ */
+export function badRequest(message: string): AWSError {
+    return createServiceError("BadRequestException", message);
+}
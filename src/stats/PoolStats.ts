@@ -0,0 +1,122 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+/**
+ * A snapshot of the session pool of a {@linkcode QldbDriver}, returned by {@linkcode QldbDriver.getPoolStats}. The
+ * counters cover the lifetime of the driver.
+ */
+export interface PoolStats {
+    /**
+     * The number of sessions in the pool which are not in use.
+     */
+    idleSessionCount: number;
+
+    /**
+     * The number of sessions in use by transactions.
+     */
+    inUseSessionCount: number;
+
+    /**
+     * The number of sessions being started to warm up the pool.
+     */
+    startingSessionCount: number;
+
+    /**
+     * The maximum number of sessions in use at the same time, i.e. the `maxConcurrentTransactions` of the driver.
+     */
+    maxConcurrentTransactions: number;
+
+    /**
+     * The number of transactions which may currently be in flight. Equals `maxConcurrentTransactions` unless the
+     * `adaptiveConcurrency` option of the driver is set, in which case it may be lower.
+     */
+    concurrencyLimit: number;
+
+    /**
+     * The number of transactions waiting for a session to become available.
+     */
+    pendingWaiterCount: number;
+
+    /**
+     * The number of sessions started.
+     */
+    createdSessionCount: number;
+
+    /**
+     * The number of sessions discarded after an `InvalidSessionException`.
+     */
+    invalidatedSessionCount: number;
+
+    /**
+     * The number of transactions committed.
+     */
+    committedTransactionCount: number;
+
+    /**
+     * The number of transactions retried after an OCC conflict.
+     */
+    occRetryCount: number;
+
+    /**
+     * The number of transactions aborted, whether by the caller or after an error.
+     */
+    abortedTransactionCount: number;
+
+    /**
+     * The number of transactions which failed instead of being retried because the retry budget of the driver was
+     * exhausted. See {@linkcode QldbDriverOptions.retryBudget}.
+     */
+    retryBudgetExhaustedCount: number;
+
+    /**
+     * The number of times a transaction acquired a session.
+     */
+    acquisitionCount: number;
+
+    /**
+     * The total time, in milliseconds, transactions spent acquiring a session, including waiting for one to become
+     * available and starting it.
+     */
+    totalAcquisitionMillis: number;
+
+    /**
+     * The longest time, in milliseconds, a transaction spent acquiring a session.
+     */
+    maxAcquisitionMillis: number;
+}
+
+/**
+ * The lifetime counters of a session pool, shared by a driver and its sessions. This class is used internally by the
+ * driver and is not meant to be used directly by developers.
+ */
+export class PoolCounters {
+    createdSessionCount: number = 0;
+    invalidatedSessionCount: number = 0;
+    committedTransactionCount: number = 0;
+    occRetryCount: number = 0;
+    abortedTransactionCount: number = 0;
+    retryBudgetExhaustedCount: number = 0;
+    acquisitionCount: number = 0;
+    totalAcquisitionMillis: number = 0;
+    maxAcquisitionMillis: number = 0;
+
+    /**
+     * Record the time a transaction spent acquiring a session.
+     * @param acquisitionMillis The time, in milliseconds.
+     */
+    recordAcquisition(acquisitionMillis: number): void {
+        this.acquisitionCount++;
+        this.totalAcquisitionMillis += acquisitionMillis;
+        this.maxAcquisitionMillis = Math.max(this.maxAcquisitionMillis, acquisitionMillis);
+    }
+}
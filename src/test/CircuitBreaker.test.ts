@@ -0,0 +1,166 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+// Test environment imports
+import "mocha";
+
+import * as chai from "chai";
+import * as sinon from "sinon";
+
+import { CircuitBreaker } from "../CircuitBreaker";
+import { CircuitOpenError } from "../errors/Errors";
+
+const sandbox = sinon.createSandbox();
+
+let circuitBreaker: CircuitBreaker;
+let onStateChange: sinon.SinonSpy;
+
+describe("CircuitBreaker", () => {
+
+    beforeEach(() => {
+        onStateChange = sandbox.spy();
+        circuitBreaker = new CircuitBreaker({
+            failureRateThreshold: 0.5,
+            windowSize: 4,
+            minimumOutcomes: 4,
+            openDurationMillis: 60000
+        }, onStateChange);
+    });
+
+    afterEach(() => {
+        sandbox.restore();
+    });
+
+    describe("#recordFailure()", () => {
+        it("should open the circuit once the failure rate reaches the threshold", () => {
+            circuitBreaker.recordSuccess();
+            circuitBreaker.recordFailure();
+            circuitBreaker.recordSuccess();
+            chai.assert.equal(circuitBreaker.getState(), "closed");
+
+            circuitBreaker.recordFailure();
+
+            chai.assert.equal(circuitBreaker.getState(), "open");
+            sinon.assert.calledOnce(onStateChange);
+            sinon.assert.calledWith(onStateChange, "closed", "open");
+        });
+
+        it("should not open the circuit before the minimum number of outcomes", () => {
+            circuitBreaker.recordFailure();
+            circuitBreaker.recordFailure();
+            circuitBreaker.recordFailure();
+
+            chai.assert.equal(circuitBreaker.getState(), "closed");
+        });
+
+        it("should only count the outcomes within the window", () => {
+            circuitBreaker.recordFailure();
+            circuitBreaker.recordSuccess();
+            circuitBreaker.recordSuccess();
+            circuitBreaker.recordSuccess();
+            circuitBreaker.recordSuccess();
+            circuitBreaker.recordFailure();
+
+            chai.assert.equal(circuitBreaker.getState(), "closed");
+        });
+
+        it("should do nothing when the circuit breaker is disabled", () => {
+            const disabledCircuitBreaker: CircuitBreaker = new CircuitBreaker(null, onStateChange);
+            for (let i = 0; i < 100; i++) {
+                disabledCircuitBreaker.recordFailure();
+            }
+
+            chai.assert.equal(disabledCircuitBreaker.getState(), "closed");
+            chai.assert.isFalse(disabledCircuitBreaker.admit());
+            sinon.assert.notCalled(onStateChange);
+        });
+    });
+
+    describe("#admit()", () => {
+        it("should admit transactions while the circuit is closed", () => {
+            chai.assert.isFalse(circuitBreaker.admit());
+        });
+
+        it("should throw a CircuitOpenError while the circuit is open", () => {
+            _openCircuit();
+
+            try {
+                circuitBreaker.admit();
+                chai.assert.fail("Expected a CircuitOpenError");
+            } catch (e) {
+                chai.expect(e).to.be.instanceOf(CircuitOpenError);
+                chai.assert.isAbove(e.remainingOpenMillis, 0);
+                chai.assert.isAtMost(e.remainingOpenMillis, 60000);
+            }
+        });
+
+        it("should admit a limited number of probes once the circuit is half-open", () => {
+            _openCircuit();
+            circuitBreaker["_openedTime"] -= 60000;
+
+            chai.assert.isTrue(circuitBreaker.admit());
+            chai.assert.equal(circuitBreaker.getState(), "half-open");
+            chai.expect(() => circuitBreaker.admit()).to.throw(CircuitOpenError);
+            sinon.assert.calledWith(onStateChange, "open", "half-open");
+
+            circuitBreaker.releaseProbe();
+
+            chai.assert.isTrue(circuitBreaker.admit());
+        });
+
+        it("should close the circuit when a probe succeeds", () => {
+            _openCircuit();
+            circuitBreaker["_openedTime"] -= 60000;
+            circuitBreaker.admit();
+
+            circuitBreaker.recordSuccess();
+
+            chai.assert.equal(circuitBreaker.getState(), "closed");
+            sinon.assert.calledWith(onStateChange, "half-open", "closed");
+            chai.assert.isFalse(circuitBreaker.admit());
+        });
+
+        it("should open the circuit again when a probe fails", () => {
+            _openCircuit();
+            circuitBreaker["_openedTime"] -= 60000;
+            circuitBreaker.admit();
+
+            circuitBreaker.recordFailure();
+
+            chai.assert.equal(circuitBreaker.getState(), "open");
+            sinon.assert.calledWith(onStateChange, "half-open", "open");
+        });
+    });
+
+    describe("#throwIfOpen()", () => {
+        it("should throw a CircuitOpenError with the cause while the circuit is open", () => {
+            const cause: Error = new Error("foo");
+            circuitBreaker.throwIfOpen(cause);
+            _openCircuit();
+
+            try {
+                circuitBreaker.throwIfOpen(cause);
+                chai.assert.fail("Expected a CircuitOpenError");
+            } catch (e) {
+                chai.expect(e).to.be.instanceOf(CircuitOpenError);
+                chai.assert.equal(e.cause, cause);
+            }
+        });
+    });
+});
+
+function _openCircuit(): void {
+    for (let i = 0; i < 4; i++) {
+        circuitBreaker.recordFailure();
+    }
+}
@@ -14,6 +14,8 @@
 // Test environment imports
 import "mocha";
 
+import { SpanKind, SpanStatusCode } from "@opentelemetry/api";
+import { ReadableSpan } from "@opentelemetry/sdk-trace-base";
 import { QLDBSession } from "aws-sdk";
 import {
     ClientConfiguration,
@@ -30,7 +32,12 @@ import * as chaiAsPromised from "chai-as-promised";
 import * as sinon from "sinon";
 
 import { Communicator } from "../Communicator";
-import * as LogUtil from "../LogUtil";
+import { OccConflictError, QldbDriverError } from "../errors/Errors";
+import { hashSessionToken } from "../LogUtil";
+import { fingerprintStatement } from "../tracing/Tracing";
+import { QldbTransport } from "../transport/QldbTransport";
+import { SdkV2Transport } from "../transport/SdkV2Transport";
+import { getFinishedSpan, resetTestSpanExporter } from "./TestTracing";
 
 chai.use(chaiAsPromised);
 const sandbox = sinon.createSandbox();
@@ -75,6 +82,7 @@ const testSendCommandResult: SendCommandResult = {
 
 let sendCommandStub: sinon.SinonStub;
 let testQldbLowLevelClient: QLDBSession;
+let testTransport: QldbTransport;
 let communicator: Communicator;
 
 describe("Communicator", () => {
@@ -87,7 +95,8 @@ describe("Communicator", () => {
                 return testSendCommandResult;
             }
         });
-        communicator = await Communicator.create(testQldbLowLevelClient, testLedgerName);
+        testTransport = new SdkV2Transport(testQldbLowLevelClient);
+        communicator = await Communicator.create(testTransport, testLedgerName);
     });
 
     afterEach(() => {
@@ -96,9 +105,10 @@ describe("Communicator", () => {
 
     describe("#create()", () => {
         it("should have all attributes equal to mock values when static factory method called", async () => {
-            chai.assert.equal(communicator["_qldbClient"], testQldbLowLevelClient);
+            chai.assert.equal(communicator["_transport"], testTransport);
             chai.assert.equal(communicator["_ledgerName"], testLedgerName);
             chai.assert.equal(communicator["_sessionToken"], testSessionToken);
+            chai.assert.equal(communicator["_logger"].getFields().sessionTokenHash, hashSessionToken(testSessionToken));
         });
 
         it("should return a rejected promise when error is thrown", async () => {
@@ -107,7 +117,11 @@ describe("Communicator", () => {
                     throw new Error(testMessage);
                 }
             });
-            await chai.expect(Communicator.create(testQldbLowLevelClient, testLedgerName)).to.be.rejected;
+            const error: QldbDriverError = await chai.expect(
+                Communicator.create(testTransport, testLedgerName)
+            ).to.be.rejectedWith(QldbDriverError);
+            chai.assert.equal(error.ledgerName, testLedgerName);
+            chai.assert.equal(error.message, testMessage);
             sinon.assert.calledTwice(sendCommandStub);
         });
     });
@@ -230,6 +244,24 @@ describe("Communicator", () => {
             sinon.assert.calledTwice(sendCommandStub);
             sinon.assert.calledWith(sendCommandStub, testRequest);
         });
+
+        it("should reject with a typed error carrying the statement context when QLDB returns an error", async () => {
+            const testError: Error = new Error(testMessage);
+            (<any> testError).code = "OccConflictException";
+            sendCommandStub.returns({
+                promise: () => {
+                    throw testError;
+                }
+            });
+            const error: QldbDriverError = await chai.expect(
+                communicator.executeStatement(testTransactionId, testStatement, [])
+            ).to.be.rejectedWith(OccConflictError);
+            chai.assert.equal(error.cause, testError);
+            chai.assert.equal(error.ledgerName, testLedgerName);
+            chai.assert.equal(error.transactionId, testTransactionId);
+            chai.assert.equal(error.statement, testStatement);
+            chai.assert.isUndefined(error.attempt);
+        });
     });
 
     describe("#endSession()", () => {
@@ -249,7 +281,7 @@ describe("Communicator", () => {
                     throw new Error(testMessage);
                 }
             });
-            const logSpy = sandbox.spy(LogUtil, "warn");
+            const logSpy = sandbox.spy(communicator["_logger"], "warn");
             await communicator.endSession();
             const testRequest: SendCommandRequest = {
                 EndSession: {},
@@ -296,10 +328,10 @@ describe("Communicator", () => {
     });
 
 
-    describe("#getQldbClient()", () => {
-        it("should return the low level client when called", () => {
-            const lowLevelClient: QLDBSession = communicator.getQldbClient();
-            chai.assert.equal(lowLevelClient, testQldbLowLevelClient);
+    describe("#getTransport()", () => {
+        it("should return the transport when called", () => {
+            const transport: QldbTransport = communicator.getTransport();
+            chai.assert.equal(transport, testTransport);
         });
     });
 
@@ -357,5 +389,47 @@ describe("Communicator", () => {
             const sendCommand = communicator["_sendCommand"];
             await chai.expect(sendCommand(mockSendCommandRequest)).to.be.rejected;
         });
+
+        it("should send the command within a span carrying the request and result details", async () => {
+            resetTestSpanExporter();
+            sendCommandStub.returns({
+                promise: () => {
+                    return {
+                        ExecuteStatement: {
+                            ConsumedIOs: { ReadIOs: 3, WriteIOs: 2 },
+                            TimingInformation: { ProcessingTimeMilliseconds: 7 }
+                        }
+                    };
+                }
+            });
+            await communicator.executeStatement(testTransactionId, testStatement, testParameters);
+
+            const span: ReadableSpan = getFinishedSpan("QLDB ExecuteStatement");
+            chai.assert.equal(span.kind, SpanKind.CLIENT);
+            chai.assert.deepEqual(span.attributes, {
+                "db.system": "qldb",
+                "db.name": testLedgerName,
+                "qldb.command": "ExecuteStatement",
+                "qldb.transaction_id": testTransactionId,
+                "qldb.statement_fingerprint": fingerprintStatement(testStatement),
+                "qldb.read_ios": 3,
+                "qldb.write_ios": 2,
+                "qldb.processing_time_millis": 7
+            });
+        });
+
+        it("should record the error on the span of a failed command", async () => {
+            resetTestSpanExporter();
+            sendCommandStub.returns({
+                promise: () => {
+                    throw new Error(testMessage);
+                }
+            });
+            await chai.expect(Communicator.create(testTransport, testLedgerName)).to.be.rejected;
+
+            const span: ReadableSpan = getFinishedSpan("QLDB StartSession");
+            chai.assert.equal(span.attributes["db.name"], testLedgerName);
+            chai.assert.equal(span.status.code, SpanStatusCode.ERROR);
+        });
     });
 });
@@ -0,0 +1,113 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+// Test environment imports
+import "mocha";
+
+import * as chai from "chai";
+import * as sinon from "sinon";
+
+import { ConcurrencyLimiter } from "../ConcurrencyLimiter";
+
+const sandbox = sinon.createSandbox();
+
+const testMaxLimit: number = 8;
+
+let onLimitChange: sinon.SinonSpy;
+
+describe("ConcurrencyLimiter", () => {
+
+    beforeEach(() => {
+        onLimitChange = sandbox.spy();
+    });
+
+    afterEach(() => {
+        sandbox.restore();
+    });
+
+    describe("#recordCongestion()", () => {
+        it("should multiply the limit by the decrease ratio", () => {
+            const limiter: ConcurrencyLimiter =
+                new ConcurrencyLimiter(testMaxLimit, { decreaseIntervalMillis: 0 }, onLimitChange);
+
+            limiter.recordCongestion();
+
+            chai.assert.equal(limiter.getLimit(), 4);
+            sinon.assert.calledOnce(onLimitChange);
+            sinon.assert.calledWith(onLimitChange, 8, 4);
+        });
+
+        it("should not lower the limit below the minimum", () => {
+            const limiter: ConcurrencyLimiter =
+                new ConcurrencyLimiter(testMaxLimit, { minLimit: 3, decreaseIntervalMillis: 0 }, onLimitChange);
+
+            limiter.recordCongestion();
+            limiter.recordCongestion();
+
+            chai.assert.equal(limiter.getLimit(), 3);
+            sinon.assert.calledTwice(onLimitChange);
+        });
+
+        it("should lower the limit at most once per decrease interval", () => {
+            const clock: sinon.SinonFakeTimers = sandbox.useFakeTimers(Date.now());
+            const limiter: ConcurrencyLimiter =
+                new ConcurrencyLimiter(testMaxLimit, { decreaseIntervalMillis: 1000 }, onLimitChange);
+
+            limiter.recordCongestion();
+            limiter.recordCongestion();
+            chai.assert.equal(limiter.getLimit(), 4);
+
+            clock.tick(1000);
+            limiter.recordCongestion();
+            chai.assert.equal(limiter.getLimit(), 2);
+        });
+
+        it("should not change the limit when disabled", () => {
+            const limiter: ConcurrencyLimiter = new ConcurrencyLimiter(testMaxLimit, null, onLimitChange);
+
+            limiter.recordCongestion();
+
+            chai.assert.equal(limiter.getLimit(), testMaxLimit);
+            sinon.assert.notCalled(onLimitChange);
+        });
+    });
+
+    describe("#recordSuccess()", () => {
+        it("should grow the limit by the increase step once a limit's worth of transactions committed", () => {
+            const limiter: ConcurrencyLimiter =
+                new ConcurrencyLimiter(testMaxLimit, { decreaseIntervalMillis: 0 }, onLimitChange);
+            limiter.recordCongestion();
+            onLimitChange.resetHistory();
+
+            for (let i = 0; i < 3; i++) {
+                limiter.recordSuccess();
+            }
+            chai.assert.equal(limiter.getLimit(), 4);
+
+            limiter.recordSuccess();
+            chai.assert.equal(limiter.getLimit(), 5);
+            sinon.assert.calledOnce(onLimitChange);
+            sinon.assert.calledWith(onLimitChange, 4, 5);
+        });
+
+        it("should not grow the limit beyond the maximum", () => {
+            const limiter: ConcurrencyLimiter =
+                new ConcurrencyLimiter(testMaxLimit, { increaseStep: 100 }, onLimitChange);
+
+            limiter.recordSuccess();
+
+            chai.assert.equal(limiter.getLimit(), testMaxLimit);
+            sinon.assert.notCalled(onLimitChange);
+        });
+    });
+});
@@ -0,0 +1,105 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+// Test environment imports
+import "mocha";
+
+import * as chai from "chai";
+import * as sinon from "sinon";
+
+import { DriverEventEmitter } from "../DriverEvents";
+import { ContextLogger } from "../LogUtil";
+
+const sandbox = sinon.createSandbox();
+
+const testTransactionId: string = "txnId";
+
+let events: DriverEventEmitter;
+let logger: ContextLogger;
+
+describe("DriverEventEmitter", () => {
+
+    beforeEach(() => {
+        logger = new ContextLogger();
+        events = new DriverEventEmitter(logger);
+    });
+
+    afterEach(() => {
+        sandbox.restore();
+    });
+
+    describe("#emit()", () => {
+        it("should invoke the listeners of the event in the order in which they were added", () => {
+            const listener1 = sandbox.spy();
+            const listener2 = sandbox.spy();
+            const otherListener = sandbox.spy();
+            events.on("lambdaAborted", listener1);
+            events.on("lambdaAborted", listener2);
+            events.on("transactionStarted", otherListener);
+
+            events.emit("lambdaAborted", { transactionId: testTransactionId });
+
+            sinon.assert.calledOnce(listener1);
+            sinon.assert.calledWith(listener1, { transactionId: testTransactionId });
+            sinon.assert.callOrder(listener1, listener2);
+            sinon.assert.notCalled(otherListener);
+        });
+
+        it("should log and ignore errors thrown by a listener", () => {
+            const logSpy = sandbox.spy(logger, "warn");
+            const listener = sandbox.spy();
+            events.on("lambdaAborted", () => {
+                throw new Error("foo");
+            });
+            events.on("lambdaAborted", listener);
+
+            events.emit("lambdaAborted", { transactionId: testTransactionId });
+
+            sinon.assert.calledOnce(logSpy);
+            sinon.assert.calledOnce(listener);
+        });
+
+        it("should be a no-op when the event has no listeners", () => {
+            events.emit("lambdaAborted", { transactionId: testTransactionId });
+        });
+    });
+
+    describe("#off()", () => {
+        it("should stop invoking the removed listener", () => {
+            const listener = sandbox.spy();
+            events.on("lambdaAborted", listener);
+            events.off("lambdaAborted", listener);
+
+            events.emit("lambdaAborted", { transactionId: testTransactionId });
+
+            sinon.assert.notCalled(listener);
+        });
+
+        it("should not skip listeners when a listener removes itself while the event is emitted", () => {
+            const listener = sandbox.spy();
+            const selfRemovingListener = () => events.off("lambdaAborted", selfRemovingListener);
+            events.on("lambdaAborted", selfRemovingListener);
+            events.on("lambdaAborted", listener);
+
+            events.emit("lambdaAborted", { transactionId: testTransactionId });
+
+            sinon.assert.calledOnce(listener);
+        });
+    });
+
+    describe("#on()", () => {
+        it("should throw a TypeError when the listener is not a function", () => {
+            chai.assert.throws(() => events.on("lambdaAborted", null), TypeError);
+        });
+    });
+});
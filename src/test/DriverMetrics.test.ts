@@ -0,0 +1,108 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+// Test environment imports
+import "mocha";
+
+import * as chai from "chai";
+import * as sinon from "sinon";
+
+import { ContextLogger } from "../LogUtil";
+import { DriverMetrics } from "../metrics/DriverMetrics";
+import { MetricsSink } from "../metrics/MetricsSink";
+
+const sandbox = sinon.createSandbox();
+
+const testLedgerName: string = "ledgerName";
+
+let logger: ContextLogger;
+let metrics: DriverMetrics;
+let sink: MetricsSink;
+
+describe("DriverMetrics", () => {
+
+    beforeEach(() => {
+        logger = new ContextLogger();
+        sink = {
+            incrementCounter: sandbox.spy(),
+            recordHistogram: sandbox.spy()
+        };
+        metrics = new DriverMetrics(sink, testLedgerName, logger);
+    });
+
+    afterEach(() => {
+        sandbox.restore();
+    });
+
+    describe("#recordTransaction()", () => {
+        it("should record the outcome, duration and attempts of the transaction", () => {
+            metrics.recordTransaction(42, 2, true);
+
+            const labels = { ledger: testLedgerName, outcome: "committed" };
+            sinon.assert.calledWith(<sinon.SinonSpy> sink.incrementCounter, "qldb_transactions_total", 1, labels);
+            sinon.assert.calledWith(<sinon.SinonSpy> sink.recordHistogram, "qldb_transaction_duration_millis", 42, labels);
+            sinon.assert.calledWith(<sinon.SinonSpy> sink.recordHistogram, "qldb_transaction_attempts", 2, {
+                ledger: testLedgerName
+            });
+        });
+
+        it("should label failed transactions", () => {
+            metrics.recordTransaction(42, 1, false);
+
+            sinon.assert.calledWith(<sinon.SinonSpy> sink.incrementCounter, "qldb_transactions_total", 1, {
+                ledger: testLedgerName,
+                outcome: "failed"
+            });
+        });
+    });
+
+    describe("#recordStatement()", () => {
+        it("should record the read IOs, processing time and pages of the statement", () => {
+            metrics.recordStatement(5, 20, 3);
+
+            const labels = { ledger: testLedgerName };
+            sinon.assert.calledWith(<sinon.SinonSpy> sink.recordHistogram, "qldb_statement_read_ios", 5, labels);
+            sinon.assert.calledWith(<sinon.SinonSpy> sink.recordHistogram,
+                "qldb_statement_processing_time_millis", 20, labels);
+            sinon.assert.calledWith(<sinon.SinonSpy> sink.recordHistogram, "qldb_statement_pages", 3, labels);
+        });
+
+        it("should skip the read IOs and processing time when they are unknown", () => {
+            metrics.recordStatement(null, null, 1);
+
+            sinon.assert.calledOnce(<sinon.SinonSpy> sink.recordHistogram);
+            sinon.assert.calledWith(<sinon.SinonSpy> sink.recordHistogram, "qldb_statement_pages", 1);
+        });
+    });
+
+    it("should record nothing when no sink is configured", () => {
+        chai.expect(() => {
+            const noopMetrics: DriverMetrics = new DriverMetrics();
+            noopMetrics.recordTransaction(1, 1, true);
+            noopMetrics.recordOccConflict();
+            noopMetrics.recordSessionWait(1);
+            noopMetrics.recordStatement(1, 1, 1);
+        }).to.not.throw();
+    });
+
+    it("should log and ignore errors thrown by the sink", () => {
+        const logSpy = sandbox.spy(logger, "warn");
+        sink.incrementCounter = () => {
+            throw new Error("sink failure");
+        };
+
+        metrics.recordOccConflict();
+
+        sinon.assert.calledOnce(logSpy);
+    });
+});
@@ -14,14 +14,18 @@
 // Test environment imports
 import "mocha";
 
-import { AWSError } from "aws-sdk";
+import { AWSError, config } from "aws-sdk";
 import * as chai from "chai";
 import * as chaiAsPromised from "chai-as-promised";
 import * as sinon from "sinon";
 
 import {
+    BadRequestError,
+    CapacityExceededError,
+    CircuitOpenError,
     ClientException,
     DriverClosedError,
+    InvalidSessionError,
     isInvalidParameterException,
     isInvalidSessionException,
     isOccConflictException,
@@ -29,101 +33,195 @@ import {
     isResourcePreconditionNotMetException,
     isRetriableException,
     LambdaAbortedError,
+    NestedTransactionError,
+    OccConflictError,
+    QldbDriverError,
     SessionClosedError,
     SessionPoolEmptyError,
     TransactionClosedError,
     StartTransactionError,
     isTransactionExpiredException,
-    isBadRequestException
+    isBadRequestException,
+    isThrottlingException,
+    ThrottlingError,
+    toQldbDriverError,
+    TransactionExpiredError
 } from "../errors/Errors";
-import * as LogUtil from "../LogUtil";
 
 chai.use(chaiAsPromised);
 const sandbox = sinon.createSandbox();
 
 const testMessage: string = "foo";
 const mockError: AWSError = <AWSError><any> sandbox.mock(Error);
+let sdkLoggerSpy: sinon.SinonSpy;
 
 describe("Errors", () => {
 
+    beforeEach(() => {
+        sdkLoggerSpy = sandbox.spy();
+        sandbox.stub(config, "logger").value({ log: sdkLoggerSpy });
+    });
+
     afterEach(() => {
         mockError.code = undefined;
         mockError.statusCode = undefined;
+        mockError.message = undefined;
         sandbox.restore();
     });
 
+    describe("#CircuitOpenError", () => {
+        it("should carry the remaining open time and the cause when new CircuitOpenError created", () => {
+            const cause: Error = new Error("foo");
+            const error = new CircuitOpenError(100, cause);
+            chai.expect(error).to.be.instanceOf(CircuitOpenError);
+            chai.assert.equal(error.name, "CircuitOpenError");
+            chai.assert.equal(error.remainingOpenMillis, 100);
+            chai.assert.equal(error.cause, cause);
+            sinon.assert.notCalled(sdkLoggerSpy);
+        });
+    });
+
     describe("#ClientException", () => {
         it("should be a ClientException when new ClientException created", () => {
-            const logSpy = sandbox.spy(LogUtil, "error");
             const error = new ClientException(testMessage);
             chai.expect(error).to.be.instanceOf(ClientException);
             chai.assert.equal(error.name, "ClientException");
             chai.assert.equal(error.message, testMessage);
-            sinon.assert.calledOnce(logSpy);
+            sinon.assert.notCalled(sdkLoggerSpy);
         });
     });
 
     describe("#DriverClosedError", () => {
         it("should be a DriverClosedError when new DriverClosedError created", () => {
-            const logSpy = sandbox.spy(LogUtil, "error");
             const error = new DriverClosedError();
             chai.expect(error).to.be.instanceOf(DriverClosedError);
             chai.assert.equal(error.name, "DriverClosedError");
-            sinon.assert.calledOnce(logSpy);
+            sinon.assert.notCalled(sdkLoggerSpy);
         });
     });
 
     describe("#LambdaAbortedError", () => {
         it("should be a LambdaAbortedError when new LambdaAbortedError created", () => {
-            const logSpy = sandbox.spy(LogUtil, "error");
             const error = new LambdaAbortedError();
             chai.expect(error).to.be.instanceOf(LambdaAbortedError);
             chai.assert.equal(error.name, "LambdaAbortedError");
-            sinon.assert.calledOnce(logSpy);
+            sinon.assert.notCalled(sdkLoggerSpy);
+        });
+    });
+
+    describe("#NestedTransactionError", () => {
+        it("should be a NestedTransactionError when new NestedTransactionError created", () => {
+            const error = new NestedTransactionError();
+            chai.expect(error).to.be.instanceOf(NestedTransactionError);
+            chai.assert.equal(error.name, "NestedTransactionError");
+            sinon.assert.notCalled(sdkLoggerSpy);
         });
     });
 
     describe("#SessionClosedError", () => {
         it("should be a SessionClosedError when new SessionClosedError created", () => {
-            const logSpy = sandbox.spy(LogUtil, "error");
             const error = new SessionClosedError();
             chai.expect(error).to.be.instanceOf(SessionClosedError);
             chai.assert.equal(error.name, "SessionClosedError");
-            sinon.assert.calledOnce(logSpy);
+            sinon.assert.notCalled(sdkLoggerSpy);
         });
     });
 
     describe("#SessionPoolEmptyError", () => {
         it("should be a SessionPoolEmptyError when new SessionPoolEmptyError created", () => {
-            const logSpy = sandbox.spy(LogUtil, "error");
             const error = new SessionPoolEmptyError(1);
             chai.expect(error).to.be.instanceOf(SessionPoolEmptyError);
             chai.assert.equal(error.name, "SessionPoolEmptyError");
-            sinon.assert.calledOnce(logSpy);
+            chai.assert.equal(error.waitTimeMillis, 1);
+            sinon.assert.notCalled(sdkLoggerSpy);
         });
     });
 
     describe("#TransactionClosedError", () => {
         it("should be a TransactionClosedError when new TransactionClosedError created", () => {
-            const logSpy = sandbox.spy(LogUtil, "error");
             const error = new TransactionClosedError();
             chai.expect(error).to.be.instanceOf(TransactionClosedError);
             chai.assert.equal(error.name, "TransactionClosedError");
-            sinon.assert.calledOnce(logSpy);
+            sinon.assert.notCalled(sdkLoggerSpy);
         });
     });
 
     describe("#StartTransactionError", () => {
         it("should be a StartTransactionError when new StartTransactionError created", () => {
-            const logSpy = sandbox.spy(LogUtil, "error");
             let badRequestException: Error = new Error("Some BadRequest Exception")
             const error = new StartTransactionError(badRequestException);
             chai.expect(error).to.be.instanceOf(StartTransactionError);
             chai.assert.equal(error.name, "StartTransactionError");
-            sinon.assert.calledOnce(logSpy);
+            sinon.assert.notCalled(sdkLoggerSpy);
             chai.assert.equal(error.cause, badRequestException);
         });
     });
+
+    describe("#QldbDriverError", () => {
+        it("should carry the context and the code of the cause when new QldbDriverError created", () => {
+            mockError.code = "SomeException";
+            mockError.statusCode = 400;
+            mockError.message = testMessage;
+            const error = new QldbDriverError(mockError, {
+                ledgerName: "ledger",
+                transactionId: "txnId",
+                statement: "SELECT * FROM foo",
+                attempt: 2
+            });
+            chai.expect(error).to.be.instanceOf(QldbDriverError);
+            chai.assert.equal(error.name, "QldbDriverError");
+            chai.assert.equal(error.message, testMessage);
+            chai.assert.equal(error.code, "SomeException");
+            chai.assert.equal(error.statusCode, 400);
+            chai.assert.equal(error.cause, mockError);
+            chai.assert.equal(error.ledgerName, "ledger");
+            chai.assert.equal(error.transactionId, "txnId");
+            chai.assert.equal(error.statement, "SELECT * FROM foo");
+            chai.assert.equal(error.attempt, 2);
+            sinon.assert.notCalled(sdkLoggerSpy);
+        });
+    });
+
+    describe("#toQldbDriverError()", () => {
+        it("should wrap each error code in the matching subclass", () => {
+            const expectedTypes: [string, Function][] = [
+                ["OccConflictException", OccConflictError],
+                ["InvalidSessionException", InvalidSessionError],
+                ["BadRequestException", BadRequestError],
+                ["CapacityExceededException", CapacityExceededError],
+                ["RateExceededException", ThrottlingError],
+                ["LimitExceededException", ThrottlingError],
+                ["ThrottlingException", ThrottlingError],
+                ["SomeException", QldbDriverError]
+            ];
+            expectedTypes.forEach(([code, errorType]: [string, Function]) => {
+                mockError.code = code;
+                const error: QldbDriverError = toQldbDriverError(mockError, {});
+                chai.expect(error).to.be.instanceOf(errorType);
+                chai.expect(error).to.be.instanceOf(QldbDriverError);
+                chai.assert.equal(error.code, code);
+            });
+        });
+
+        it("should wrap an expired transaction in a TransactionExpiredError", () => {
+            mockError.code = "InvalidSessionException";
+            mockError.message = "Transaction 324weqr2314 has expired";
+            const error: QldbDriverError = toQldbDriverError(mockError, {});
+            chai.expect(error).to.be.instanceOf(TransactionExpiredError);
+            chai.expect(error).to.be.instanceOf(InvalidSessionError);
+            chai.assert.isTrue(isTransactionExpiredException(<AWSError><any> error));
+        });
+
+        it("should only fill in missing context when the error is already a QldbDriverError", () => {
+            mockError.code = "OccConflictException";
+            const error: QldbDriverError = new OccConflictError(mockError, { ledgerName: "ledger" });
+            const result: QldbDriverError = toQldbDriverError(error, { ledgerName: "otherLedger", attempt: 1 });
+            chai.assert.equal(result, error);
+            chai.assert.equal(result.ledgerName, "ledger");
+            chai.assert.equal(result.attempt, 1);
+            chai.assert.isTrue(isOccConflictException(<AWSError><any> result));
+        });
+    });
     describe("#isInvalidParameterException()", () => {
         it("should return true when error is an InvalidParameterException", () => {
             mockError.code = "InvalidParameterException";
@@ -160,6 +258,23 @@ describe("Errors", () => {
         });
     });
 
+    describe("#isThrottlingException()", () => {
+        it("should return true when error is a throttling exception", () => {
+            mockError.code = "RateExceededException";
+            chai.assert.isTrue(isThrottlingException(mockError));
+        });
+
+        it("should return true when error is a ThrottlingError wrapping a throttling exception", () => {
+            mockError.code = "CapacityExceededException";
+            chai.assert.isTrue(isThrottlingException(<AWSError><any> toQldbDriverError(mockError, {})));
+        });
+
+        it("should return false when error is not a throttling exception", () => {
+            mockError.code = "OccConflictException";
+            chai.assert.isFalse(isThrottlingException(mockError));
+        });
+    });
+
     describe("#isResourceNotFoundException()", () => {
         it("should return true when error is a ResourceNotFoundException", () => {
             mockError.code = "ResourceNotFoundException";
@@ -214,6 +329,41 @@ describe("Errors", () => {
             mockError.statusCode = 200;
             chai.assert.isFalse(isRetriableException(mockError));
         });
+
+        it("should return true when error is a throttling, timeout or network error", () => {
+            [
+                "CapacityExceededException",
+                "RateExceededException",
+                "LimitExceededException",
+                "TimeoutError",
+                "NetworkingError",
+                "ECONNRESET",
+                "ETIMEDOUT",
+                "EPIPE"
+            ].forEach((code: string) => {
+                mockError.code = code;
+                mockError.statusCode = 400;
+                chai.assert.isTrue(isRetriableException(mockError), code);
+            });
+        });
+
+        it("should return true when the original error wrapped by the AWS SDK is retriable", () => {
+            mockError.code = "UnknownError";
+            mockError.originalError = <AWSError><any> { code: "ECONNRESET" };
+            chai.assert.isTrue(isRetriableException(mockError));
+            mockError.originalError = undefined;
+        });
+
+        it("should classify a QldbDriverError by its cause", () => {
+            mockError.code = "CapacityExceededException";
+            chai.assert.isTrue(isRetriableException(<AWSError><any> toQldbDriverError(mockError, {})));
+        });
+
+        it("should return true when the error code is one of the additional error codes", () => {
+            mockError.code = "CustomException";
+            chai.assert.isFalse(isRetriableException(mockError));
+            chai.assert.isTrue(isRetriableException(mockError, ["CustomException"]));
+        });
     });
 
     describe("#isTransactionExpiredException", () => {
@@ -0,0 +1,250 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+// Test environment imports
+import "mocha";
+
+import * as chai from "chai";
+import { dom, dumpText, load } from "ion-js";
+
+import { InMemoryLedger, LedgerTransaction, StatementResult } from "../simulator/InMemoryLedger";
+
+let ledger: InMemoryLedger;
+
+function execute(transaction: LedgerTransaction, statement: string, ...parameters: any[]): string[] {
+    const result: StatementResult = transaction.execute(statement, parameters.map((value) => dom.Value.from(value)));
+    return result.values.map((value: dom.Value) => dumpText(value));
+}
+
+function commit(...statements: string[]): void {
+    const transaction: LedgerTransaction = ledger.begin();
+    statements.forEach((statement: string) => transaction.execute(statement, []));
+    ledger.commit(transaction);
+}
+
+function query(statement: string, ...parameters: any[]): string[] {
+    const transaction: LedgerTransaction = ledger.begin();
+    const values: string[] = execute(transaction, statement, ...parameters);
+    ledger.abort(transaction);
+    return values;
+}
+
+function assertConflict(transaction: LedgerTransaction): void {
+    try {
+        ledger.commit(transaction);
+    } catch (e) {
+        chai.assert.equal(e.code, "OccConflictException");
+        return;
+    }
+    chai.assert.fail("The transaction should have conflicted");
+}
+
+function assertBadRequest(statement: string, message: string): void {
+    const transaction: LedgerTransaction = ledger.begin();
+    try {
+        transaction.execute(statement, []);
+    } catch (e) {
+        chai.assert.equal(e.code, "BadRequestException");
+        chai.assert.include(e.message, message);
+        return;
+    } finally {
+        ledger.abort(transaction);
+    }
+    chai.assert.fail(`${statement} should have failed`);
+}
+
+describe("InMemoryLedger", () => {
+
+    beforeEach(() => {
+        ledger = new InMemoryLedger("testLedger");
+        commit(
+            "CREATE TABLE Person",
+            "CREATE INDEX ON Person (GovId)",
+            "INSERT INTO Person << {'GovId': 'A', 'Age': 30, 'Address': {'City': 'Seattle'}}, {'GovId': 'B', 'Age': 40} >>"
+        );
+    });
+
+    describe("#execute()", () => {
+        it("should return the IDs of inserted, updated and deleted documents", () => {
+            const transaction: LedgerTransaction = ledger.begin();
+            const inserted: string[] = execute(transaction, "INSERT INTO Person ?", { GovId: "C" });
+            const updated: string[] = execute(transaction, "UPDATE Person SET Age = 1 WHERE GovId = 'C'");
+            const deleted: string[] = execute(transaction, "DELETE FROM Person WHERE GovId = 'C'");
+
+            chai.assert.lengthOf(inserted, 1);
+            chai.assert.match(inserted[0], /^\{documentId:"[0-9A-Za-z]{22}"\}$/);
+            chai.assert.deepEqual(updated, inserted);
+            chai.assert.deepEqual(deleted, inserted);
+        });
+
+        it("should insert every document of a list", () => {
+            const transaction: LedgerTransaction = ledger.begin();
+            chai.assert.lengthOf(execute(transaction, "INSERT INTO Person ?", [{ GovId: "C" }, { GovId: "D" }]), 2);
+        });
+
+        it("should reject inserting values which are not structs", () => {
+            assertBadRequest("INSERT INTO Person VALUE 1", "only structs can be inserted");
+        });
+
+        it("should show the writes of a transaction to itself only", () => {
+            const transaction: LedgerTransaction = ledger.begin();
+            execute(transaction, "DELETE FROM Person WHERE GovId = 'A'");
+
+            chai.assert.deepEqual(execute(transaction, "SELECT VALUE GovId FROM Person"), ["\"B\""]);
+            chai.assert.deepEqual(query("SELECT VALUE GovId FROM Person"), ["\"A\"", "\"B\""]);
+
+            ledger.commit(transaction);
+            chai.assert.deepEqual(query("SELECT VALUE GovId FROM Person"), ["\"B\""]);
+        });
+
+        it("should filter documents", () => {
+            chai.assert.deepEqual(query("SELECT VALUE p.GovId FROM Person AS p WHERE p.Age > ?", 35), ["\"B\""]);
+            chai.assert.deepEqual(query("SELECT VALUE GovId FROM Person WHERE Address.City = 'Seattle'"), ["\"A\""]);
+            chai.assert.deepEqual(query("SELECT VALUE GovId FROM Person WHERE Address IS MISSING"), ["\"B\""]);
+            chai.assert.deepEqual(query("SELECT VALUE GovId FROM Person WHERE GovId IN ('B', 'C')"), ["\"B\""]);
+            chai.assert.deepEqual(query("SELECT VALUE GovId FROM Person WHERE GovId NOT LIKE 'A%'"), ["\"B\""]);
+            chai.assert.deepEqual(query("SELECT VALUE GovId FROM Person WHERE Age = 30 OR Age = 40"), ["\"A\"", "\"B\""]);
+            chai.assert.deepEqual(query("SELECT VALUE GovId FROM Person WHERE NOT (Address.City = 'Seattle')"), []);
+        });
+
+        it("should compare numbers of different types", () => {
+            chai.assert.deepEqual(query("SELECT VALUE GovId FROM Person WHERE Age = 30.0"), ["\"A\""]);
+            chai.assert.deepEqual(query("SELECT VALUE GovId FROM Person WHERE Age < 3.5e1"), ["\"A\""]);
+        });
+
+        it("should project fields, omitting missing ones", () => {
+            chai.assert.deepEqual(
+                query("SELECT p.GovId, p.Address.City AS city, Age * 2 AS double FROM Person AS p"),
+                ["{GovId:\"A\",city:\"Seattle\",double:60}", "{GovId:\"B\",double:80}"]
+            );
+        });
+
+        it("should count documents", () => {
+            chai.assert.deepEqual(query("SELECT COUNT(*) FROM Person"), ["{_1:2}"]);
+            chai.assert.deepEqual(query("SELECT COUNT(Address) AS n FROM Person"), ["{n:1}"]);
+        });
+
+        it("should bind document IDs with BY", () => {
+            const transaction: LedgerTransaction = ledger.begin();
+            const id: string = load(execute(transaction, "INSERT INTO Person ?", { GovId: "C" })[0]).get("documentId")
+                .stringValue();
+
+            chai.assert.deepEqual(
+                execute(transaction, "SELECT VALUE p.GovId FROM Person AS p BY pid WHERE pid = ?", id),
+                ["\"C\""]
+            );
+        });
+
+        it("should set and remove nested fields", () => {
+            commit("UPDATE Person AS p SET p.Address.Zip = '98101', p.Age = p.Age + 1 REMOVE p.Address.City " +
+                "WHERE p.GovId = 'A'");
+            chai.assert.deepEqual(
+                query("SELECT * FROM Person WHERE GovId = 'A'"),
+                ["{GovId:\"A\",Age:31,Address:{Zip:\"98101\"}}"]
+            );
+        });
+
+        it("should list the user tables and their indexes", () => {
+            const values: string[] = query("SELECT name, indexes[0].expr AS expr FROM information_schema.user_tables " +
+                "WHERE status = 'ACTIVE'");
+            chai.assert.deepEqual(values, ["{name:\"Person\",expr:\"[GovId]\"}"]);
+        });
+
+        it("should show the tables created by a transaction to itself", () => {
+            const transaction: LedgerTransaction = ledger.begin();
+            execute(transaction, "CREATE TABLE Vehicle");
+            execute(transaction, "INSERT INTO Vehicle ?", { VIN: "1" });
+
+            chai.assert.deepEqual(execute(transaction, "SELECT VALUE name FROM information_schema.user_tables"),
+                ["\"Person\"", "\"Vehicle\""]);
+            chai.assert.deepEqual(execute(transaction, "SELECT VALUE VIN FROM Vehicle"), ["\"1\""]);
+        });
+
+        it("should return the committed revisions of documents", () => {
+            commit("UPDATE Person SET Age = 31 WHERE GovId = 'A'");
+
+            const values: dom.Value[] = query("SELECT * FROM _ql_committed_Person WHERE data.GovId = 'A'").map(
+                (text: string) => load(text)
+            );
+            chai.assert.lengthOf(values, 1);
+            chai.assert.equal(values[0].get("data", "Age").numberValue(), 31);
+            chai.assert.equal(values[0].get("metadata", "version").numberValue(), 1);
+            chai.assert.lengthOf(values[0].get("hash").uInt8ArrayValue(), 32);
+            chai.assert.isNotNull(values[0].get("blockAddress", "sequenceNo"));
+        });
+
+        it("should reject statements on tables which do not exist", () => {
+            assertBadRequest("SELECT * FROM Vehicle", "No such variable named 'Vehicle'");
+        });
+
+        it("should reject creating a table or an index twice", () => {
+            assertBadRequest("CREATE TABLE Person", "already exists");
+            assertBadRequest("CREATE INDEX ON Person (GovId)", "already exists");
+        });
+
+        it("should reject statements missing parameters", () => {
+            assertBadRequest("SELECT * FROM Person WHERE GovId = ?", "no value was passed for parameter 1");
+        });
+    });
+
+    describe("#commit()", () => {
+        it("should fail with an OccConflictException when a document read by the transaction was updated", () => {
+            const transaction: LedgerTransaction = ledger.begin();
+            execute(transaction, "SELECT * FROM Person WHERE GovId = 'A'");
+            commit("UPDATE Person SET Age = 31 WHERE GovId = 'A'");
+
+            assertConflict(transaction);
+        });
+
+        it("should fail with an OccConflictException when a scanned table was changed", () => {
+            const transaction: LedgerTransaction = ledger.begin();
+            execute(transaction, "SELECT * FROM Person WHERE Age > 100");
+            commit("INSERT INTO Person VALUE {'GovId': 'C', 'Age': 101}");
+
+            assertConflict(transaction);
+        });
+
+        it("should fail with an OccConflictException when a document matching an index lookup was inserted", () => {
+            const transaction: LedgerTransaction = ledger.begin();
+            execute(transaction, "SELECT * FROM Person WHERE GovId = 'C'");
+            commit("INSERT INTO Person VALUE {'GovId': 'C'}");
+
+            assertConflict(transaction);
+        });
+
+        it("should fail with an OccConflictException when a table created by the transaction was created", () => {
+            const transaction: LedgerTransaction = ledger.begin();
+            execute(transaction, "CREATE TABLE Vehicle");
+            commit("CREATE TABLE Vehicle");
+
+            assertConflict(transaction);
+        });
+
+        it("should commit when only documents outside the index lookups of the transaction changed", () => {
+            const transaction: LedgerTransaction = ledger.begin();
+            execute(transaction, "UPDATE Person SET Age = 41 WHERE GovId = 'B'");
+            commit("UPDATE Person SET Age = 31 WHERE GovId = 'A'", "INSERT INTO Person VALUE {'GovId': 'C'}");
+
+            ledger.commit(transaction);
+            chai.assert.deepEqual(query("SELECT VALUE Age FROM Person WHERE GovId IN ('A', 'B')"), ["31", "41"]);
+        });
+
+        it("should commit after transactions committed before the transaction started", () => {
+            commit("UPDATE Person SET Age = 31 WHERE GovId = 'A'");
+            const transaction: LedgerTransaction = ledger.begin();
+            execute(transaction, "SELECT * FROM Person");
+
+            ledger.commit(transaction);
+        });
+    });
+});
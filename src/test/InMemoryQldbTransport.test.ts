@@ -0,0 +1,258 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+// Test environment imports
+import "mocha";
+
+import { SendCommandResult } from "aws-sdk/clients/qldbsession";
+import * as chai from "chai";
+import * as chaiAsPromised from "chai-as-promised";
+import { dom, dumpBinary, load } from "ion-js";
+
+import { isBadRequestException, isInvalidSessionException, isOccConflictException } from "../errors/Errors";
+import { QldbDriver } from "../QldbDriver";
+import { QldbHash } from "../QldbHash";
+import { Result } from "../Result";
+import { InMemoryQldbTransport } from "../simulator/InMemoryQldbTransport";
+import { TransactionExecutor } from "../TransactionExecutor";
+import { TransactionHandle } from "../TransactionHandle";
+
+chai.use(chaiAsPromised);
+
+const testLedgerName: string = "testLedger";
+
+let transport: InMemoryQldbTransport;
+let driver: QldbDriver;
+
+async function startSession(): Promise<string> {
+    const result: SendCommandResult = await transport.sendCommand({ StartSession: { LedgerName: testLedgerName } });
+    return result.StartSession.SessionToken;
+}
+
+async function startTransaction(sessionToken: string): Promise<string> {
+    const result: SendCommandResult = await transport.sendCommand({
+        SessionToken: sessionToken,
+        StartTransaction: {}
+    });
+    return result.StartTransaction.TransactionId;
+}
+
+function getValues(result: Result): string[] {
+    return result.getResultList().map((value: dom.Value) => value.stringValue());
+}
+
+describe("InMemoryQldbTransport", () => {
+
+    beforeEach(() => {
+        transport = new InMemoryQldbTransport({ pageSize: 2 });
+        driver = new QldbDriver(testLedgerName, { transport: transport });
+    });
+
+    afterEach(() => {
+        driver.close();
+    });
+
+    describe("#constructor()", () => {
+        it("should throw a RangeError when the page size is not a positive integer", () => {
+            chai.expect(() => new InMemoryQldbTransport({ pageSize: 0 })).to.throw(RangeError);
+            chai.expect(() => new InMemoryQldbTransport({ pageSize: 1.5 })).to.throw(RangeError);
+        });
+    });
+
+    describe("with QldbDriver", () => {
+        beforeEach(async () => {
+            await driver.executeLambda(async (txn: TransactionExecutor) => {
+                await txn.execute("CREATE TABLE Person");
+                await txn.execute("CREATE INDEX ON Person (GovId)");
+            });
+            await driver.executeLambda(async (txn: TransactionExecutor) => {
+                await txn.execute("INSERT INTO Person ?", [{ GovId: "A" }, { GovId: "B" }, { GovId: "C" }]);
+            });
+        });
+
+        it("should create tables", async () => {
+            chai.assert.deepEqual(await driver.getTableNames(), ["Person"]);
+        });
+
+        it("should return every page of results", async () => {
+            const result: Result = await driver.executeLambda(async (txn: TransactionExecutor) => {
+                return txn.execute("SELECT VALUE GovId FROM Person");
+            });
+            chai.assert.deepEqual(getValues(result), ["A", "B", "C"]);
+        });
+
+        it("should update and delete documents", async () => {
+            const result: Result = await driver.executeLambda(async (txn: TransactionExecutor) => {
+                await txn.execute("UPDATE Person SET GovId = 'D' WHERE GovId = ?", "A");
+                await txn.execute("DELETE FROM Person WHERE GovId = ?", "B");
+                return txn.execute("SELECT VALUE GovId FROM Person");
+            });
+            chai.assert.deepEqual(getValues(result), ["D", "C"]);
+        });
+
+        it("should report the IOs consumed by statements", async () => {
+            const result: Result = await driver.executeLambda(async (txn: TransactionExecutor) => {
+                return txn.execute("SELECT * FROM Person WHERE GovId = 'A'");
+            });
+            chai.assert.equal(result.getConsumedIOs().getReadIOs(), 1);
+            chai.assert.isAtLeast(result.getTimingInformation().getProcessingTimeMilliseconds(), 0);
+        });
+
+        it("should return the committed revisions of documents", async () => {
+            const result: Result = await driver.executeLambda(async (txn: TransactionExecutor) => {
+                return txn.execute("SELECT VALUE metadata.version FROM _ql_committed_Person WHERE data.GovId = 'A'");
+            });
+            chai.assert.deepEqual(result.getResultList().map((value: dom.Value) => value.numberValue()), [0]);
+        });
+
+        it("should fail the commit of conflicting transactions with an OccConflictError", async () => {
+            const first: TransactionHandle = await driver.beginTransaction();
+            const second: TransactionHandle = await driver.beginTransaction();
+            await first.execute("UPDATE Person SET Age = 1 WHERE GovId = 'A'");
+            await second.execute("UPDATE Person SET Age = 2 WHERE GovId = 'A'");
+            await first.commit();
+
+            const error = await chai.expect(second.commit()).to.be.rejected;
+            chai.assert.isTrue(isOccConflictException(error));
+        });
+
+        it("should retry transactions failing with OCC conflicts", async () => {
+            const otherDriver: QldbDriver = new QldbDriver(testLedgerName, { transport: transport });
+            let attemptCount: number = 0;
+            const result: Result = await driver.executeLambda(async (txn: TransactionExecutor) => {
+                attemptCount++;
+                const ages: Result = await txn.execute("SELECT VALUE Age FROM Person WHERE GovId = 'A'");
+                if (attemptCount === 1) {
+                    await otherDriver.executeLambda(async (otherTxn: TransactionExecutor) => {
+                        await otherTxn.execute("UPDATE Person SET Age = 10 WHERE GovId = 'A'");
+                    });
+                }
+                return ages;
+            });
+            otherDriver.close();
+
+            chai.assert.equal(attemptCount, 2);
+            chai.assert.deepEqual(result.getResultList().map((value: dom.Value) => value.numberValue()), [10]);
+        });
+    });
+
+    describe("#sendCommand()", () => {
+        it("should reject commands of unknown sessions with an InvalidSessionException", async () => {
+            const error = await chai.expect(transport.sendCommand({ SessionToken: "unknown", StartTransaction: {} }))
+                .to.be.rejected;
+            chai.assert.isTrue(isInvalidSessionException(error));
+        });
+
+        it("should reject sessions on unknown ledgers when the ledger names are given", async () => {
+            transport = new InMemoryQldbTransport({ ledgerNames: ["otherLedger"] });
+            const error = await chai.expect(startSession()).to.be.rejected;
+            chai.assert.isTrue(isBadRequestException(error));
+        });
+
+        it("should reject commits with a digest not matching the transaction", async () => {
+            const sessionToken: string = await startSession();
+            const transactionId: string = await startTransaction(sessionToken);
+
+            const error = await chai.expect(transport.sendCommand({
+                SessionToken: sessionToken,
+                CommitTransaction: { TransactionId: transactionId, CommitDigest: new Uint8Array(32) }
+            })).to.be.rejected;
+            chai.assert.isTrue(isBadRequestException(error));
+            chai.assert.include(error.message, "commit digest");
+        });
+
+        it("should commit transactions with a digest matching the transaction", async () => {
+            const sessionToken: string = await startSession();
+            const transactionId: string = await startTransaction(sessionToken);
+            const statement: string = "CREATE TABLE Person";
+            const parameter: Uint8Array = dumpBinary(1);
+            await transport.sendCommand({
+                SessionToken: sessionToken,
+                ExecuteStatement: { TransactionId: transactionId, Statement: statement, Parameters: [{ IonText: "1" }] }
+            });
+            const digest: Uint8Array = QldbHash.toQldbHash(transactionId)
+                .dot(QldbHash.toQldbHash(statement).dot(QldbHash.toQldbHash(parameter)))
+                .getQldbHash();
+
+            const result: SendCommandResult = await transport.sendCommand({
+                SessionToken: sessionToken,
+                CommitTransaction: { TransactionId: transactionId, CommitDigest: digest }
+            });
+            chai.assert.equal(result.CommitTransaction.TransactionId, transactionId);
+            chai.assert.equal(Buffer.from(<Uint8Array> result.CommitTransaction.CommitDigest).toString("base64"),
+                Buffer.from(digest).toString("base64"));
+        });
+
+        it("should reject statements of transactions which are not open", async () => {
+            const sessionToken: string = await startSession();
+            const error = await chai.expect(transport.sendCommand({
+                SessionToken: sessionToken,
+                ExecuteStatement: { TransactionId: "unknown", Statement: "SELECT * FROM Person" }
+            })).to.be.rejected;
+            chai.assert.isTrue(isBadRequestException(error));
+        });
+
+        it("should reject a second transaction on a session", async () => {
+            const sessionToken: string = await startSession();
+            await startTransaction(sessionToken);
+            const error = await chai.expect(startTransaction(sessionToken)).to.be.rejected;
+            chai.assert.isTrue(isBadRequestException(error));
+        });
+
+        it("should return the next page of a result until it is exhausted", async () => {
+            const sessionToken: string = await startSession();
+            const transactionId: string = await startTransaction(sessionToken);
+            const result: SendCommandResult = await transport.sendCommand({
+                SessionToken: sessionToken,
+                ExecuteStatement: {
+                    TransactionId: transactionId,
+                    Statement: "SELECT * FROM information_schema.user_tables"
+                }
+            });
+            chai.assert.deepEqual(result.ExecuteStatement.FirstPage.Values, []);
+            chai.assert.isUndefined(result.ExecuteStatement.FirstPage.NextPageToken);
+
+            const error = await chai.expect(transport.sendCommand({
+                SessionToken: sessionToken,
+                FetchPage: { TransactionId: transactionId, NextPageToken: "unknown" }
+            })).to.be.rejected;
+            chai.assert.isTrue(isBadRequestException(error));
+        });
+
+        it("should abort the open transaction when the session ends", async () => {
+            const sessionToken: string = await startSession();
+            const transactionId: string = await startTransaction(sessionToken);
+            await transport.sendCommand({
+                SessionToken: sessionToken,
+                ExecuteStatement: { TransactionId: transactionId, Statement: "CREATE TABLE Person" }
+            });
+
+            await transport.sendCommand({ SessionToken: sessionToken, EndSession: {} });
+
+            chai.assert.deepEqual(await driver.getTableNames(), []);
+            const error = await chai.expect(startTransaction(sessionToken)).to.be.rejected;
+            chai.assert.isTrue(isInvalidSessionException(error));
+        });
+
+        it("should return values as Ion binary", async () => {
+            const sessionToken: string = await startSession();
+            const transactionId: string = await startTransaction(sessionToken);
+            const result: SendCommandResult = await transport.sendCommand({
+                SessionToken: sessionToken,
+                ExecuteStatement: { TransactionId: transactionId, Statement: "CREATE TABLE Person" }
+            });
+            const value: dom.Value = load(<Uint8Array> result.ExecuteStatement.FirstPage.Values[0].IonBinary);
+            chai.assert.isString(value.get("tableId").stringValue());
+        });
+    });
+});
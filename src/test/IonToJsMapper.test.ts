@@ -0,0 +1,115 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+// Test environment imports
+import "mocha";
+
+import * as chai from "chai";
+import { Decimal, dom, load, Timestamp } from "ion-js";
+
+import { ionToJs, ionToJsMapper } from "../mapping/IonToJsMapper";
+import { ResultMapper } from "../mapping/ResultMapper";
+
+const testStruct: string =
+    "vehicle::{VIN: \"1N4AL11D75C109151\", Year: 2011, Price: 12.50, Sold: true, Tags: [a, \"b\"], Owner: null.struct}";
+const bigInteger: string = "123456789012345678901234567890";
+
+interface Vehicle {
+    VIN: string;
+    Year: number;
+    Price: number;
+    Sold: boolean;
+    Tags: string[];
+    Owner: object;
+}
+
+describe("IonToJsMapper", () => {
+
+    describe("#ionToJs()", () => {
+        it("should convert a struct into a plain object without annotations", () => {
+            chai.assert.deepEqual(ionToJs(load(testStruct)), {
+                VIN: "1N4AL11D75C109151",
+                Year: 2011,
+                Price: 12.5,
+                Sold: true,
+                Tags: ["a", "b"],
+                Owner: null
+            });
+        });
+
+        it("should keep a field named __proto__ as an own property without changing the prototype", () => {
+            const struct: any = ionToJs(load("{'__proto__': {isAdmin: true}, name: \"Alice\"}"));
+
+            chai.assert.equal(Object.getPrototypeOf(struct), Object.prototype);
+            chai.assert.isUndefined(struct.isAdmin);
+            chai.assert.deepEqual(Object.keys(struct), ["__proto__", "name"]);
+            chai.assert.deepEqual(Object.getOwnPropertyDescriptor(struct, "__proto__").value, { isAdmin: true });
+        });
+
+        it("should convert nulls of any type, floats and s-expressions", () => {
+            chai.assert.isNull(ionToJs(load("null")));
+            chai.assert.isNull(ionToJs(load("null.int")));
+            chai.assert.equal(ionToJs(load("5e3")), 5000);
+            chai.assert.deepEqual(ionToJs(load("(1 2 3)")), [1, 2, 3]);
+        });
+
+        it("should convert decimals as configured", () => {
+            const value: dom.Value = load("12.50");
+            chai.assert.equal(ionToJs(value), 12.5);
+            chai.assert.equal(ionToJs(value, { decimals: "string" }), "12.50");
+            chai.assert.instanceOf(ionToJs(value, { decimals: "decimal" }), Decimal);
+        });
+
+        it("should convert timestamps as configured", () => {
+            const value: dom.Value = load("2020-01-02T03:04:05.123456Z");
+            chai.assert.equal((<Date> ionToJs(value)).getTime(), Date.UTC(2020, 0, 2, 3, 4, 5, 123));
+            chai.assert.equal(ionToJs(value, { timestamps: "string" }), "2020-01-02T03:04:05.123456Z");
+            chai.assert.instanceOf(ionToJs(value, { timestamps: "timestamp" }), Timestamp);
+        });
+
+        it("should convert blobs and clobs as configured", () => {
+            const value: dom.Value = load("{{ aGVsbG8= }}");
+            chai.assert.instanceOf(ionToJs(value), Uint8Array);
+            chai.assert.isTrue(Buffer.isBuffer(ionToJs(value, { blobs: "buffer" })));
+            chai.assert.equal(ionToJs(value, { blobs: "base64" }), "aGVsbG8=");
+            chai.assert.equal(Buffer.from(ionToJs(load("{{ \"hello\" }}"))).toString(), "hello");
+        });
+
+        it("should convert integers outside of the safe range as configured", () => {
+            const value: dom.Value = load(bigInteger);
+            chai.assert.equal(ionToJs(value), bigInteger);
+            chai.assert.equal(ionToJs(value, { bigIntegers: "number" }), Number(bigInteger));
+            if (typeof (<any> global).BigInt === "function") {
+                chai.assert.equal(ionToJs(value, { bigIntegers: "bigint" }).toString(), bigInteger);
+            }
+            chai.assert.equal(ionToJs(load("-9007199254740991")), -9007199254740991);
+        });
+
+        it("should throw a RangeError when an option has an unknown value", () => {
+            chai.assert.throws(() => ionToJs(load("1"), { decimals: <any> "float" }), RangeError);
+        });
+    });
+
+    describe("#ionToJsMapper()", () => {
+        it("should create a mapper converting Ion values with the given options", () => {
+            const mapper: ResultMapper<Vehicle> = ionToJsMapper<Vehicle>({ decimals: "string" });
+            const vehicle: Vehicle = mapper(load(testStruct));
+            chai.assert.equal(vehicle.VIN, "1N4AL11D75C109151");
+            chai.assert.equal(<any> vehicle.Price, "12.50");
+        });
+
+        it("should throw a RangeError when created with an unknown option value", () => {
+            chai.assert.throws(() => ionToJsMapper({ blobs: <any> "hex" }), RangeError);
+        });
+    });
+});
@@ -0,0 +1,111 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+// Test environment imports
+import "mocha";
+
+import { config } from "aws-sdk";
+import * as chai from "chai";
+import * as sinon from "sinon";
+
+import { ContextLogger, hashSessionToken, Logger, LogLevel } from "../LogUtil";
+
+const sandbox = sinon.createSandbox();
+
+const testLedgerName: string = "LedgerName";
+const testMessage: string = "foo";
+const testTransactionId: string = "txnId";
+
+let testLogger: Logger;
+
+describe("LogUtil", () => {
+
+    beforeEach(() => {
+        testLogger = {
+            debug: sandbox.spy(),
+            info: sandbox.spy(),
+            warn: sandbox.spy(),
+            error: sandbox.spy()
+        };
+    });
+
+    afterEach(() => {
+        sandbox.restore();
+    });
+
+    describe("ContextLogger", () => {
+        it("should write messages with the context fields when called", () => {
+            const logger: ContextLogger = new ContextLogger(testLogger, LogLevel.DEBUG, { ledgerName: testLedgerName });
+            logger.debug(testMessage);
+            logger.info(testMessage, { attempt: 1 });
+            sinon.assert.calledWith(<sinon.SinonSpy> testLogger.debug, testMessage, { ledgerName: testLedgerName });
+            sinon.assert.calledWith(<sinon.SinonSpy> testLogger.info, testMessage, {
+                ledgerName: testLedgerName,
+                attempt: 1
+            });
+        });
+
+        it("should drop messages below the configured level", () => {
+            const logger: ContextLogger = new ContextLogger(testLogger, LogLevel.WARN);
+            logger.debug(testMessage);
+            logger.info(testMessage);
+            logger.warn(testMessage);
+            logger.error(testMessage);
+            sinon.assert.notCalled(<sinon.SinonSpy> testLogger.debug);
+            sinon.assert.notCalled(<sinon.SinonSpy> testLogger.info);
+            sinon.assert.calledOnce(<sinon.SinonSpy> testLogger.warn);
+            sinon.assert.calledOnce(<sinon.SinonSpy> testLogger.error);
+            chai.assert.isFalse(logger.isEnabled(LogLevel.INFO));
+            chai.assert.isTrue(logger.isEnabled(LogLevel.WARN));
+        });
+
+        it("should drop all messages when the level is OFF", () => {
+            const logger: ContextLogger = new ContextLogger(testLogger, LogLevel.OFF);
+            logger.error(testMessage);
+            sinon.assert.notCalled(<sinon.SinonSpy> testLogger.error);
+            chai.assert.isFalse(logger.isEnabled(LogLevel.OFF));
+        });
+
+        it("should merge fields into a child logger without modifying the parent", () => {
+            const parent: ContextLogger = new ContextLogger(testLogger, LogLevel.INFO, { ledgerName: testLedgerName });
+            const child: ContextLogger = parent.child({ transactionId: testTransactionId });
+            chai.assert.deepEqual(parent.getFields(), { ledgerName: testLedgerName });
+            chai.assert.deepEqual(child.getFields(), { ledgerName: testLedgerName, transactionId: testTransactionId });
+
+            child.debug(testMessage);
+            sinon.assert.notCalled(<sinon.SinonSpy> testLogger.debug);
+        });
+
+        it("should write prefixed messages to the logger set within the AWS SDK by default", () => {
+            const sdkLogger = { log: sandbox.spy() };
+            sandbox.stub(config, "logger").value(sdkLogger);
+            new ContextLogger().warn(testMessage);
+            sinon.assert.calledOnce(sdkLogger.log);
+            chai.assert.match(sdkLogger.log.firstCall.args[0], /^\[WARN\]\[Javascript QLDB Driver, Version: .*\] foo$/);
+        });
+    });
+
+    describe("#hashSessionToken()", () => {
+        it("should return a short hash which does not contain the token", () => {
+            const hash: string = hashSessionToken("sessionToken");
+            chai.assert.lengthOf(hash, 16);
+            chai.assert.notInclude(hash, "sessionToken");
+            chai.assert.equal(hashSessionToken("sessionToken"), hash);
+            chai.assert.notEqual(hashSessionToken("otherSessionToken"), hash);
+        });
+
+        it("should return undefined when the token is missing", () => {
+            chai.assert.isUndefined(hashSessionToken(null));
+        });
+    });
+});
@@ -0,0 +1,168 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+// Test environment imports
+import "mocha";
+
+import * as chai from "chai";
+import { dumpText } from "ion-js";
+
+import {
+    BinaryExpression,
+    Expression,
+    InsertStatement,
+    LiteralExpression,
+    parseStatement,
+    SelectStatement,
+    Statement,
+    UpdateStatement
+} from "../simulator/Partiql";
+
+function parseWhere(where: string): Expression {
+    return (<SelectStatement> parseStatement(`SELECT * FROM t WHERE ${where}`)).where;
+}
+
+function assertBadRequest(statement: string, message: string): void {
+    try {
+        parseStatement(statement);
+    } catch (e) {
+        chai.assert.equal(e.code, "BadRequestException");
+        chai.assert.include(e.message, message);
+        return;
+    }
+    chai.assert.fail(`${statement} should not parse`);
+}
+
+describe("Partiql", () => {
+
+    describe("#parseStatement()", () => {
+        it("should parse CREATE TABLE and CREATE INDEX", () => {
+            chai.assert.deepEqual(parseStatement("CREATE TABLE Person"), { kind: "createTable", table: "Person" });
+            chai.assert.deepEqual(
+                parseStatement("create index on Person (GovId);"),
+                { kind: "createIndex", table: "Person", field: "GovId" }
+            );
+        });
+
+        it("should parse INSERT of a value, a bag and a parameter", () => {
+            const value: InsertStatement = <InsertStatement> parseStatement("INSERT INTO Person VALUE {'Name': 'Bob'}");
+            chai.assert.equal(value.table, "Person");
+            chai.assert.equal(value.value.kind, "struct");
+
+            const bag: InsertStatement = <InsertStatement> parseStatement("INSERT INTO Person << {'a': 1}, {'a': 2} >>");
+            chai.assert.equal(bag.value.kind, "list");
+
+            const parameter: InsertStatement = <InsertStatement> parseStatement("INSERT INTO Person ?");
+            chai.assert.deepEqual(parameter.value, { kind: "parameter", index: 0 });
+        });
+
+        it("should parse the projections of SELECT", () => {
+            chai.assert.deepEqual((<SelectStatement> parseStatement("SELECT * FROM t")).projection, { kind: "star" });
+            chai.assert.deepEqual(
+                (<SelectStatement> parseStatement("SELECT VALUE x.a FROM t AS x")).projection,
+                { kind: "value", expression: { kind: "path", root: "x", steps: ["a"] } }
+            );
+
+            const select: SelectStatement = <SelectStatement> parseStatement(
+                "SELECT x.a, x['b'][0], b.c AS d, 1, COUNT(*) FROM t x"
+            );
+            chai.assert.equal(select.projection.kind, "items");
+            if (select.projection.kind === "items") {
+                chai.assert.deepEqual(select.projection.items.map((item) => item.name), ["a", "x", "d", "_4", "_5"]);
+                chai.assert.deepEqual(select.projection.items[4].expression, { kind: "count", argument: null });
+            }
+        });
+
+        it("should parse the source of a statement", () => {
+            chai.assert.deepEqual(
+                (<SelectStatement> parseStatement("SELECT * FROM information_schema.user_tables")).source,
+                { table: "information_schema.user_tables", alias: null, byAlias: null }
+            );
+            chai.assert.deepEqual(
+                (<SelectStatement> parseStatement("SELECT * FROM Person AS p BY pid WHERE pid = ?")).source,
+                { table: "Person", alias: "p", byAlias: "pid" }
+            );
+            chai.assert.deepEqual(
+                (<SelectStatement> parseStatement("SELECT * FROM \"Person\" p")).source,
+                { table: "Person", alias: "p", byAlias: null }
+            );
+        });
+
+        it("should parse UPDATE with SET and REMOVE", () => {
+            const update: UpdateStatement = <UpdateStatement> parseStatement(
+                "UPDATE Person AS p SET p.Age = p.Age + 1, Name = 'Bob' REMOVE p.Address WHERE p.GovId = ?"
+            );
+            chai.assert.equal(update.source.alias, "p");
+            chai.assert.deepEqual(update.operations.map((operation) => operation.path.steps), [["Age"], [], ["Address"]]);
+            chai.assert.isNull(update.operations[2].value);
+            chai.assert.deepEqual((<BinaryExpression> update.where).right, { kind: "parameter", index: 0 });
+        });
+
+        it("should parse DELETE", () => {
+            chai.assert.deepEqual(parseStatement("DELETE FROM Person"), {
+                kind: "delete",
+                source: { table: "Person", alias: null, byAlias: null },
+                where: null
+            });
+        });
+
+        it("should parse literals", () => {
+            const values: string[] = ["'it''s'", "12", "1.5", "1.5e0", "-3", "`2020-01-01T`", "TRUE", "NULL"].map((text) => {
+                return dumpText((<LiteralExpression> parseWhere(`${text}`)).value);
+            });
+            chai.assert.deepEqual(values, ["\"it's\"", "12", "1.5", "1.5e0", "-3", "2020-01-01T", "true", "null"]);
+            chai.assert.isNull((<LiteralExpression> parseWhere("MISSING")).value);
+        });
+
+        it("should number parameters in the order of appearance", () => {
+            const where: BinaryExpression = <BinaryExpression> parseWhere("a = ? AND b = ?");
+            chai.assert.deepEqual((<BinaryExpression> where.left).right, { kind: "parameter", index: 0 });
+            chai.assert.deepEqual((<BinaryExpression> where.right).right, { kind: "parameter", index: 1 });
+        });
+
+        it("should give AND precedence over OR and comparisons precedence over AND", () => {
+            const where: BinaryExpression = <BinaryExpression> parseWhere("a = 1 OR b < 2 AND NOT c <> 3");
+            chai.assert.equal(where.operator, "OR");
+            const right: BinaryExpression = <BinaryExpression> where.right;
+            chai.assert.equal(right.operator, "AND");
+            chai.assert.equal(right.right.kind, "not");
+        });
+
+        it("should parse IS, IN and LIKE predicates", () => {
+            chai.assert.deepEqual(parseWhere("a IS NOT MISSING"), {
+                kind: "is",
+                operand: { kind: "path", root: "a", steps: [] },
+                test: "MISSING",
+                isNegated: true
+            });
+            chai.assert.equal(parseWhere("a NOT IN (1, 2)").kind, "in");
+            chai.assert.equal(parseWhere("a IN ?").kind, "in");
+            chai.assert.equal(parseWhere("a LIKE 'B%'").kind, "like");
+        });
+
+        it("should ignore comments", () => {
+            const statement: Statement = parseStatement("SELECT * -- all fields\nFROM t");
+            chai.assert.equal(statement.kind, "select");
+        });
+
+        it("should reject statements which are not valid", () => {
+            assertBadRequest("DROP TABLE Person", "expected CREATE, INSERT, SELECT, UPDATE or DELETE");
+            assertBadRequest("SELECT * FROM", "expected an identifier, but found the end of the statement");
+            assertBadRequest("SELECT * FROM t WHERE a = 'b", "unterminated literal");
+            assertBadRequest("SELECT * FROM t WHERE a # 1", "unexpected character '#'");
+            assertBadRequest("SELECT * FROM t extra tokens", "expected the end of the statement");
+            assertBadRequest("UPDATE t WHERE a = 1", "expected SET or REMOVE");
+            assertBadRequest("SELECT * FROM t WHERE a = `{`", "invalid Ion literal");
+        });
+    });
+});
@@ -0,0 +1,201 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+// Test environment imports
+import "mocha";
+
+import * as chai from "chai";
+import * as chaiAsPromised from "chai-as-promised";
+import * as sinon from "sinon";
+
+import { AbortError, DriverClosedError } from "../errors/Errors";
+import { PermitQueue } from "../PermitQueue";
+import { TestAbortController } from "./TestAbortController";
+
+chai.use(chaiAsPromised);
+const sandbox = sinon.createSandbox();
+
+const testPermits: number = 2;
+const testTimeoutMillis: number = 60000;
+
+let permitQueue: PermitQueue;
+
+describe("PermitQueue", () => {
+
+    beforeEach(() => {
+        permitQueue = new PermitQueue(testPermits);
+    });
+
+    afterEach(() => {
+        sandbox.restore();
+    });
+
+    describe("#constructor()", () => {
+        it("should have all attributes equal to mock values when constructor called", () => {
+            chai.assert.equal(permitQueue.getAvailablePermits(), testPermits);
+            chai.assert.equal(permitQueue.getPendingWaiterCount(), 0);
+        });
+    });
+
+    describe("#tryAcquire()", () => {
+        it("should acquire permits until none are available", () => {
+            chai.assert.isTrue(permitQueue.tryAcquire());
+            chai.assert.isTrue(permitQueue.tryAcquire());
+            chai.assert.isFalse(permitQueue.tryAcquire());
+            chai.assert.equal(permitQueue.getAvailablePermits(), 0);
+        });
+    });
+
+    describe("#acquire()", () => {
+        it("should fulfill with true without waiting when a permit is available", async () => {
+            chai.assert.isTrue(await permitQueue.acquire(0));
+            chai.assert.equal(permitQueue.getAvailablePermits(), testPermits - 1);
+            chai.assert.equal(permitQueue.getPendingWaiterCount(), 0);
+        });
+
+        it("should fulfill with false without waiting when no permit is available and timeout is 0", async () => {
+            permitQueue.tryAcquire();
+            permitQueue.tryAcquire();
+            chai.assert.isFalse(await permitQueue.acquire(0));
+            chai.assert.equal(permitQueue.getPendingWaiterCount(), 0);
+        });
+
+        it("should fulfill with false and stop waiting when the timeout elapses", async () => {
+            permitQueue.tryAcquire();
+            permitQueue.tryAcquire();
+            chai.assert.isFalse(await permitQueue.acquire(5));
+            chai.assert.equal(permitQueue.getPendingWaiterCount(), 0);
+
+            permitQueue.release();
+            chai.assert.equal(permitQueue.getAvailablePermits(), 1);
+        });
+
+        it("should hand released permits to waiters in FIFO order", async () => {
+            permitQueue.tryAcquire();
+            permitQueue.tryAcquire();
+            const order: number[] = [];
+            const first: Promise<void> = permitQueue.acquire(testTimeoutMillis).then(() => { order.push(1); });
+            const second: Promise<void> = permitQueue.acquire(testTimeoutMillis).then(() => { order.push(2); });
+            chai.assert.equal(permitQueue.getPendingWaiterCount(), 2);
+
+            permitQueue.release();
+            permitQueue.release();
+            await Promise.all([first, second]);
+
+            chai.assert.deepEqual(order, [1, 2]);
+            chai.assert.equal(permitQueue.getAvailablePermits(), 0);
+            chai.assert.equal(permitQueue.getPendingWaiterCount(), 0);
+        });
+    });
+
+    describe("#acquire() with a signal", () => {
+        it("should reject with an AbortError without waiting when the signal is already aborted", async () => {
+            const abortController: TestAbortController = new TestAbortController();
+            abortController.abort();
+            await chai.expect(permitQueue.acquire(testTimeoutMillis, abortController.signal)).to.be.rejectedWith(AbortError);
+            chai.assert.equal(permitQueue.getAvailablePermits(), testPermits);
+        });
+
+        it("should reject with an AbortError and stop waiting when the signal is aborted", async () => {
+            const abortController: TestAbortController = new TestAbortController();
+            permitQueue.tryAcquire();
+            permitQueue.tryAcquire();
+            const pendingAcquire: Promise<boolean> = permitQueue.acquire(testTimeoutMillis, abortController.signal);
+            chai.assert.equal(abortController.getListenerCount(), 1);
+
+            abortController.abort();
+
+            await chai.expect(pendingAcquire).to.be.rejectedWith(AbortError);
+            chai.assert.equal(permitQueue.getPendingWaiterCount(), 0);
+            chai.assert.equal(abortController.getListenerCount(), 0);
+        });
+
+        it("should stop listening to the signal once a permit is handed over", async () => {
+            const abortController: TestAbortController = new TestAbortController();
+            permitQueue.tryAcquire();
+            permitQueue.tryAcquire();
+            const pendingAcquire: Promise<boolean> = permitQueue.acquire(testTimeoutMillis, abortController.signal);
+
+            permitQueue.release();
+
+            chai.assert.isTrue(await pendingAcquire);
+            chai.assert.equal(abortController.getListenerCount(), 0);
+        });
+    });
+
+    describe("#rejectAll()", () => {
+        it("should reject every pending waiter with the given error", async () => {
+            permitQueue.tryAcquire();
+            permitQueue.tryAcquire();
+            const pendingAcquire: Promise<boolean> = permitQueue.acquire(testTimeoutMillis);
+
+            permitQueue.rejectAll(new DriverClosedError());
+
+            await chai.expect(pendingAcquire).to.be.rejectedWith(DriverClosedError);
+            chai.assert.equal(permitQueue.getPendingWaiterCount(), 0);
+        });
+    });
+
+    describe("#addPermits()", () => {
+        it("should hand added permits to waiters first", async () => {
+            permitQueue.tryAcquire();
+            permitQueue.tryAcquire();
+            const pendingAcquire: Promise<boolean> = permitQueue.acquire(testTimeoutMillis);
+
+            permitQueue.addPermits(2);
+
+            chai.assert.isTrue(await pendingAcquire);
+            chai.assert.equal(permitQueue.getAvailablePermits(), 1);
+        });
+
+        it("should keep permits which are still to be removed instead of adding them", () => {
+            permitQueue.tryAcquire();
+            permitQueue.tryAcquire();
+            permitQueue.removePermits(1);
+
+            permitQueue.addPermits(1);
+            permitQueue.release();
+
+            chai.assert.equal(permitQueue.getAvailablePermits(), 1);
+        });
+    });
+
+    describe("#removePermits()", () => {
+        it("should remove available permits at once", () => {
+            permitQueue.removePermits(1);
+
+            chai.assert.equal(permitQueue.getAvailablePermits(), testPermits - 1);
+        });
+
+        it("should remove held permits as they are released instead of handing them to waiters", async () => {
+            permitQueue.tryAcquire();
+            permitQueue.tryAcquire();
+            const pendingAcquire: Promise<boolean> = permitQueue.acquire(10);
+
+            permitQueue.removePermits(1);
+            permitQueue.release();
+
+            chai.assert.isFalse(await pendingAcquire);
+            permitQueue.release();
+            chai.assert.equal(permitQueue.getAvailablePermits(), 1);
+        });
+    });
+
+    describe("#release()", () => {
+        it("should make a permit available when nobody is waiting", () => {
+            permitQueue.tryAcquire();
+            permitQueue.release();
+            chai.assert.equal(permitQueue.getAvailablePermits(), testPermits);
+        });
+    });
+});
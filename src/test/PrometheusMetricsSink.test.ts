@@ -0,0 +1,91 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+// Test environment imports
+import "mocha";
+
+import * as chai from "chai";
+
+import { PrometheusMetricsSink } from "../metrics/PrometheusMetricsSink";
+
+const testLedgerName: string = "ledgerName";
+
+let metricsSink: PrometheusMetricsSink;
+
+describe("PrometheusMetricsSink", () => {
+
+    beforeEach(() => {
+        metricsSink = new PrometheusMetricsSink([10, 100]);
+    });
+
+    describe("#constructor()", () => {
+        it("should throw a RangeError when the buckets are not in strictly increasing order", () => {
+            chai.expect(() => new PrometheusMetricsSink([10, 10])).to.throw(RangeError);
+            chai.expect(() => new PrometheusMetricsSink([100, 10])).to.throw(RangeError);
+        });
+
+        it("should throw a RangeError when a bucket is not a finite number", () => {
+            chai.expect(() => new PrometheusMetricsSink([1, Infinity])).to.throw(RangeError);
+            chai.expect(() => new PrometheusMetricsSink([1, <any> "2"])).to.throw(RangeError);
+        });
+    });
+
+    describe("#render()", () => {
+        it("should render nothing when no metrics were recorded", () => {
+            chai.assert.equal(metricsSink.render(), "");
+        });
+
+        it("should render counters summed per series", () => {
+            metricsSink.incrementCounter("qldb_transactions_total", 1, { ledger: testLedgerName, outcome: "committed" });
+            metricsSink.incrementCounter("qldb_transactions_total", 2, { outcome: "committed", ledger: testLedgerName });
+            metricsSink.incrementCounter("qldb_transactions_total", 1, { ledger: testLedgerName, outcome: "failed" });
+
+            chai.assert.equal(metricsSink.render(), [
+                "# TYPE qldb_transactions_total counter",
+                `qldb_transactions_total{ledger="${testLedgerName}",outcome="committed"} 3`,
+                `qldb_transactions_total{ledger="${testLedgerName}",outcome="failed"} 1`,
+                ""
+            ].join("\n"));
+        });
+
+        it("should render histograms with cumulative buckets", () => {
+            metricsSink.recordHistogram("qldb_session_wait_millis", 5, {});
+            metricsSink.recordHistogram("qldb_session_wait_millis", 50, {});
+            metricsSink.recordHistogram("qldb_session_wait_millis", 500, {});
+
+            chai.assert.equal(metricsSink.render(), [
+                "# TYPE qldb_session_wait_millis histogram",
+                `qldb_session_wait_millis_bucket{le="10"} 1`,
+                `qldb_session_wait_millis_bucket{le="100"} 2`,
+                `qldb_session_wait_millis_bucket{le="+Inf"} 3`,
+                "qldb_session_wait_millis_sum 555",
+                "qldb_session_wait_millis_count 3",
+                ""
+            ].join("\n"));
+        });
+
+        it("should escape the values of labels", () => {
+            metricsSink.incrementCounter("qldb_occ_conflicts_total", 1, { ledger: "a\"b\\c\nd" });
+
+            chai.assert.include(metricsSink.render(), `qldb_occ_conflicts_total{ledger="a\\"b\\\\c\\nd"} 1`);
+        });
+
+        it("should not be affected by changes to the labels passed in", () => {
+            const labels = { ledger: testLedgerName };
+            metricsSink.incrementCounter("qldb_occ_conflicts_total", 1, labels);
+            labels.ledger = "otherLedger";
+
+            chai.assert.include(metricsSink.render(), `qldb_occ_conflicts_total{ledger="${testLedgerName}"} 1`);
+        });
+    });
+});
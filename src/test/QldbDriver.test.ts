@@ -19,17 +19,36 @@ import { ClientConfiguration, SendCommandResult } from "aws-sdk/clients/qldbsess
 import * as chai from "chai";
 import * as chaiAsPromised from "chai-as-promised";
 import { Agent } from "https";
-import Semaphore from "semaphore-async-await";
 import * as sinon from "sinon";
 
-import { DriverClosedError, SessionPoolEmptyError } from "../errors/Errors";
-import * as LogUtil from "../LogUtil";
+import { Communicator } from "../Communicator";
+import {
+    AbortError,
+    CircuitOpenError,
+    DeadlineExceededError,
+    DriverClosedError,
+    LambdaAbortedError,
+    NestedTransactionError,
+    SessionPoolEmptyError
+} from "../errors/Errors";
+import { Logger, LogLevel } from "../LogUtil";
+import { MetricsSink } from "../metrics/MetricsSink";
+import { PermitQueue } from "../PermitQueue";
 import { QldbDriver } from "../QldbDriver";
+import { CloseSummary } from "../QldbDriverOptions";
 import { QldbSession } from "../QldbSession";
 import { defaultRetryConfig } from "../retry/DefaultRetryConfig";
+import { RetryConfig } from "../retry/RetryConfig";
+import { PoolStats } from "../stats/PoolStats";
 import { Result } from "../Result";
+import { Transaction } from "../Transaction";
 import { TransactionExecutor } from "../TransactionExecutor";
 import { TransactionExecutionContext } from "../TransactionExecutionContext";
+import { TransactionHandle } from "../TransactionHandle";
+import { QldbTransport } from "../transport/QldbTransport";
+import { SdkV2Transport } from "../transport/SdkV2Transport";
+import { TestAbortController } from "./TestAbortController";
+import { getFinishedSpan, resetTestSpanExporter } from "./TestTracing";
 
 chai.use(chaiAsPromised);
 const sandbox = sinon.createSandbox();
@@ -49,7 +68,6 @@ const testSendCommandResult: SendCommandResult = {
 let qldbDriver: QldbDriver;
 let sendCommandStub;
 let testQldbLowLevelClient: QLDBSession;
-let executionContext: TransactionExecutionContext;
 
 const mockAgent: Agent = <Agent><any> sandbox.mock(Agent);
 mockAgent.maxSockets = testMaxSockets;
@@ -65,7 +83,7 @@ const mockQldbSession: QldbSession = <QldbSession><any> sandbox.mock(QldbSession
 mockQldbSession.executeLambda = async () => {
     return mockResult;
 }
-mockQldbSession.endSession = () => {
+mockQldbSession.endSession = async () => {
     return;
 }
 mockQldbSession.getSessionToken = () => {
@@ -86,8 +104,7 @@ describe("QldbDriver", () => {
             }
         });
 
-        qldbDriver = new QldbDriver(testLedgerName, testLowLevelClientOptions);
-        executionContext = new TransactionExecutionContext();
+        qldbDriver = new QldbDriver(testLedgerName, { qldbClientOptions: testLowLevelClientOptions });
     });
 
     afterEach(() => {
@@ -104,40 +121,363 @@ describe("QldbDriver", () => {
             chai.assert.equal(qldbDriver["_maxConcurrentTransactions"], mockAgent.maxSockets);
             chai.assert.equal(qldbDriver["_availablePermits"], mockAgent.maxSockets);
             chai.assert.deepEqual(qldbDriver["_sessionPool"], []);
-            chai.assert.instanceOf(qldbDriver["_semaphore"], Semaphore);
-            chai.assert.equal(qldbDriver["_semaphore"]["permits"], mockAgent.maxSockets);
+            chai.assert.equal(qldbDriver["_acquisitionTimeoutMillis"], 0);
+            chai.assert.instanceOf(qldbDriver["_permitQueue"], PermitQueue);
+            chai.assert.equal(qldbDriver["_permitQueue"].getAvailablePermits(), mockAgent.maxSockets);
             chai.assert.equal(qldbDriver["_retryConfig"], defaultRetryConfig);
             chai.assert.equal(qldbDriver["_retryConfig"]["_retryLimit"], testDefaultRetryLimit);
         });
 
         it("should throw a RangeError when retryLimit less than zero passed in", () => {
             const constructorFunction: () => void = () => {
-                new QldbDriver(testLedgerName, testLowLevelClientOptions, -1);
+                new QldbDriver(testLedgerName, {
+                    qldbClientOptions: testLowLevelClientOptions,
+                    retryConfig: new RetryConfig(-1)
+                });
             };
             chai.assert.throws(constructorFunction, RangeError);
         });
 
+        it("should throw a TypeError when retriableErrorCodes is not an array of strings", () => {
+            const constructorFunction: () => void = () => {
+                new QldbDriver(testLedgerName, {
+                    qldbClientOptions: testLowLevelClientOptions,
+                    retryConfig: new RetryConfig(4, defaultRetryConfig.getBackoffFunction(), <string[]><any> [1])
+                });
+            };
+            chai.assert.throws(constructorFunction, TypeError);
+        });
+
+        it("should throw a TypeError when shouldRetry is not a function", () => {
+            const constructorFunction: () => void = () => {
+                new QldbDriver(testLedgerName, {
+                    qldbClientOptions: testLowLevelClientOptions,
+                    retryConfig: new RetryConfig(4, defaultRetryConfig.getBackoffFunction(), [], <any> true)
+                });
+            };
+            chai.assert.throws(constructorFunction, TypeError);
+        });
+
         it("should throw a RangeError when maxConcurrentTransactions greater than maxSockets", () => {
             const constructorFunction: () => void  = () => {
-                new QldbDriver(testLedgerName, testLowLevelClientOptions, testMaxSockets + 1);
+                new QldbDriver(testLedgerName, {
+                    qldbClientOptions: testLowLevelClientOptions,
+                    maxConcurrentTransactions: testMaxSockets + 1
+                });
             };
             chai.assert.throws(constructorFunction, RangeError);
         });
 
         it("should throw a RangeError when maxConcurrentTransactions less than zero", () => {
             const constructorFunction: () => void = () => {
-                new QldbDriver(testLedgerName, testLowLevelClientOptions, -1);
+                new QldbDriver(testLedgerName, {
+                    qldbClientOptions: testLowLevelClientOptions,
+                    maxConcurrentTransactions: -1
+                });
+            };
+            chai.assert.throws(constructorFunction, RangeError);
+        });
+
+        it("should throw a RangeError when acquisitionTimeoutMillis less than zero", () => {
+            const constructorFunction: () => void = () => {
+                new QldbDriver(testLedgerName, {
+                    qldbClientOptions: testLowLevelClientOptions,
+                    acquisitionTimeoutMillis: -1
+                });
             };
             chai.assert.throws(constructorFunction, RangeError);
         });
+
+        it("should throw a RangeError when deadlineMillis less than zero", () => {
+            const constructorFunction: () => void = () => {
+                new QldbDriver(testLedgerName, {
+                    qldbClientOptions: testLowLevelClientOptions,
+                    deadlineMillis: -1
+                });
+            };
+            chai.assert.throws(constructorFunction, RangeError);
+        });
+
+        it("should throw a RangeError when minIdleSessions exceeds maxConcurrentTransactions", () => {
+            const constructorFunction: () => void = () => {
+                new QldbDriver(testLedgerName, {
+                    qldbClientOptions: testLowLevelClientOptions,
+                    maxConcurrentTransactions: 2,
+                    minIdleSessions: 3
+                });
+            };
+            chai.assert.throws(constructorFunction, RangeError, "minimum number of idle sessions");
+        });
+
+        it("should start minIdleSessions sessions in the background when minIdleSessions is set", async () => {
+            const createSessionStub = sandbox.stub(QldbDriver.prototype as any, "_createSession");
+            createSessionStub.resolves(mockQldbSession);
+            const driver: QldbDriver = new QldbDriver(testLedgerName, {
+                qldbClientOptions: testLowLevelClientOptions,
+                minIdleSessions: 2
+            });
+            chai.assert.equal(driver["_pendingSessionCount"], 2);
+            await new Promise(resolve => setImmediate(resolve));
+
+            sinon.assert.calledTwice(createSessionStub);
+            chai.assert.deepEqual(driver["_sessionPool"], [mockQldbSession, mockQldbSession]);
+            chai.assert.equal(driver["_pendingSessionCount"], 0);
+        });
+
+        it("should throw a RangeError when evictionIntervalMillis is zero", () => {
+            const constructorFunction: () => void = () => {
+                new QldbDriver(testLedgerName, {
+                    qldbClientOptions: testLowLevelClientOptions,
+                    sessionIdleTimeoutMillis: 1000,
+                    evictionIntervalMillis: 0
+                });
+            };
+            chai.assert.throws(constructorFunction, RangeError, "evictionIntervalMillis");
+        });
+
+        it("should only schedule the evictor when sessions can become stale by idling or age", () => {
+            chai.assert.isNull(qldbDriver["_evictionTimer"]);
+            const driver: QldbDriver = new QldbDriver(testLedgerName, {
+                qldbClientOptions: testLowLevelClientOptions,
+                maxSessionAgeMillis: 1000
+            });
+            chai.assert.isNotNull(driver["_evictionTimer"]);
+            driver.close();
+        });
+
+        it("should throw a TypeError when ledgerName is empty", () => {
+            const constructorFunction: () => void = () => {
+                new QldbDriver("", { qldbClientOptions: testLowLevelClientOptions });
+            };
+            chai.assert.throws(constructorFunction, TypeError, "ledgerName");
+        });
+
+        it("should throw a TypeError when maxConcurrentTransactions is not an integer", () => {
+            const constructorFunction: () => void = () => {
+                new QldbDriver(testLedgerName, {
+                    qldbClientOptions: testLowLevelClientOptions,
+                    maxConcurrentTransactions: 1.5
+                });
+            };
+            chai.assert.throws(constructorFunction, TypeError, "maxConcurrentTransactions");
+        });
+
+        it("should throw a TypeError when retryConfig is not a RetryConfig", () => {
+            const constructorFunction: () => void = () => {
+                new QldbDriver(testLedgerName, {
+                    qldbClientOptions: testLowLevelClientOptions,
+                    retryConfig: <RetryConfig><any> { retryLimit: 1 }
+                });
+            };
+            chai.assert.throws(constructorFunction, TypeError, "retryConfig");
+        });
+
+        it("should throw a TypeError when logger cannot log", () => {
+            const constructorFunction: () => void = () => {
+                new QldbDriver(testLedgerName, {
+                    qldbClientOptions: testLowLevelClientOptions,
+                    logger: <Logger><any> { log: () => {} }
+                });
+            };
+            chai.assert.throws(constructorFunction, TypeError, "logger");
+        });
+
+        it("should throw a RangeError when logLevel is not a LogLevel", () => {
+            const constructorFunction: () => void = () => {
+                new QldbDriver(testLedgerName, {
+                    qldbClientOptions: testLowLevelClientOptions,
+                    logLevel: <LogLevel> 10
+                });
+            };
+            chai.assert.throws(constructorFunction, RangeError, "logLevel");
+        });
+
+        it("should throw a TypeError when a hook is not a function", () => {
+            const constructorFunction: () => void = () => {
+                new QldbDriver(testLedgerName, {
+                    qldbClientOptions: testLowLevelClientOptions,
+                    hooks: { onRetry: <any> "onRetry" }
+                });
+            };
+            chai.assert.throws(constructorFunction, TypeError, "onRetry");
+        });
+
+        it("should throw a RangeError when the failureRateThreshold of the circuit breaker is out of range", () => {
+            const constructorFunction: () => void = () => {
+                new QldbDriver(testLedgerName, {
+                    qldbClientOptions: testLowLevelClientOptions,
+                    circuitBreaker: { failureRateThreshold: 1.5 }
+                });
+            };
+            chai.assert.throws(constructorFunction, RangeError, "failureRateThreshold");
+        });
+
+        it("should throw a RangeError when the retryRatio of the retry budget is not positive", () => {
+            const constructorFunction: () => void = () => {
+                new QldbDriver(testLedgerName, {
+                    qldbClientOptions: testLowLevelClientOptions,
+                    retryBudget: { retryRatio: 0 }
+                });
+            };
+            chai.assert.throws(constructorFunction, RangeError, "retryRatio");
+        });
+
+        it("should throw a RangeError when the decreaseRatio of adaptive concurrency is out of range", () => {
+            const constructorFunction: () => void = () => {
+                new QldbDriver(testLedgerName, {
+                    qldbClientOptions: testLowLevelClientOptions,
+                    adaptiveConcurrency: { decreaseRatio: 1 }
+                });
+            };
+            chai.assert.throws(constructorFunction, RangeError, "decreaseRatio");
+        });
+
+        it("should throw a RangeError when the minLimit of adaptive concurrency exceeds maxConcurrentTransactions", () => {
+            const constructorFunction: () => void = () => {
+                new QldbDriver(testLedgerName, {
+                    qldbClientOptions: testLowLevelClientOptions,
+                    maxConcurrentTransactions: 2,
+                    adaptiveConcurrency: { minLimit: 3 }
+                });
+            };
+            chai.assert.throws(constructorFunction, RangeError, "minimum concurrency limit");
+        });
+
+        it("should throw a RangeError when nestedTransactionMode is not a NestedTransactionMode", () => {
+            const constructorFunction: () => void = () => {
+                new QldbDriver(testLedgerName, {
+                    qldbClientOptions: testLowLevelClientOptions,
+                    nestedTransactionMode: <any> "ignore"
+                });
+            };
+            chai.assert.throws(constructorFunction, RangeError, "nestedTransactionMode");
+        });
+
+        it("should throw a TypeError when the metricsSink does not implement MetricsSink", () => {
+            const constructorFunction: () => void = () => {
+                new QldbDriver(testLedgerName, {
+                    qldbClientOptions: testLowLevelClientOptions,
+                    metricsSink: <any> { incrementCounter: () => {} }
+                });
+            };
+            chai.assert.throws(constructorFunction, TypeError, "recordHistogram");
+        });
+
+        it("should not modify the qldbClientOptions passed in", () => {
+            const clientOptions: ClientConfiguration = {
+                region: "fakeRegion",
+                maxRetries: 3,
+                httpOptions: {
+                    agent: mockAgent
+                }
+            };
+            const driver: QldbDriver = new QldbDriver(testLedgerName, { qldbClientOptions: clientOptions });
+
+            chai.assert.equal(clientOptions.maxRetries, 3);
+            chai.assert.isUndefined(clientOptions.customUserAgent);
+            chai.assert.equal(driver["_qldbClient"].config.maxRetries, testMaxRetries);
+            chai.assert.equal(driver["_qldbClient"].config.region, "fakeRegion");
+        });
+
+        it("should send requests with the prebuilt qldbClient passed in", async () => {
+            const driver: QldbDriver = new QldbDriver(testLedgerName, { qldbClient: testQldbLowLevelClient });
+
+            const communicatorCreateSpy = sandbox.spy(Communicator, "create");
+            await driver["_createSession"]();
+
+            chai.assert.equal(driver["_qldbClient"], testQldbLowLevelClient);
+            chai.assert.instanceOf(driver["_transport"], SdkV2Transport);
+            chai.assert.equal((<SdkV2Transport> driver["_transport"]).getClient(), testQldbLowLevelClient);
+            chai.assert.equal(driver["_maxConcurrentTransactions"], testMaxSockets);
+            chai.assert.equal(communicatorCreateSpy.firstCall.args[0], driver["_transport"]);
+            sinon.assert.calledOnce(sendCommandStub);
+        });
+
+        it("should send requests with the transport passed in", async () => {
+            const transport: QldbTransport = {
+                sendCommand: sandbox.stub().resolves(testSendCommandResult)
+            };
+            const driver: QldbDriver = new QldbDriver(testLedgerName, {
+                transport: transport,
+                maxConcurrentTransactions: 2
+            });
+
+            const session: QldbSession = await driver["_createSession"]();
+
+            chai.assert.isNull(driver["_qldbClient"]);
+            chai.assert.equal(session.getSessionToken(), testSendCommandResult.StartSession.SessionToken);
+            sinon.assert.calledWith(<sinon.SinonStub> transport.sendCommand, { StartSession: { LedgerName: testLedgerName } });
+        });
+
+        it("should throw a TypeError when the transport has no sendCommand function", () => {
+            const constructorFunction: () => void = () => {
+                new QldbDriver(testLedgerName, { transport: <any> {} });
+            };
+            chai.assert.throws(constructorFunction, TypeError, "transport");
+        });
+
+        it("should throw a TypeError when qldbClientOptions, qldbClient and transport are combined", () => {
+            const constructorFunction: () => void = () => {
+                new QldbDriver(testLedgerName, {
+                    qldbClientOptions: testLowLevelClientOptions,
+                    qldbClient: testQldbLowLevelClient
+                });
+            };
+            chai.assert.throws(constructorFunction, TypeError, "qldbClientOptions and qldbClient");
+        });
+
+        it("should throw a TypeError when userAgentSuffix is combined with qldbClient or transport", () => {
+            chai.assert.throws(() => new QldbDriver(testLedgerName, {
+                qldbClient: testQldbLowLevelClient,
+                userAgentSuffix: "MyApp/1.0"
+            }), TypeError, "userAgentSuffix");
+            chai.assert.throws(() => new QldbDriver(testLedgerName, {
+                transport: new SdkV2Transport(testQldbLowLevelClient),
+                userAgentSuffix: "MyApp/1.0"
+            }), TypeError, "userAgentSuffix");
+        });
+
+        it("should append the userAgentSuffix to the user agent of the client", () => {
+            const driver: QldbDriver = new QldbDriver(testLedgerName, {
+                qldbClientOptions: testLowLevelClientOptions,
+                userAgentSuffix: "MyApp/1.0"
+            });
+            chai.assert.match(driver["_qldbClient"].config.customUserAgent, /^QLDB Driver for Node\.js v.* MyApp\/1\.0$/);
+        });
+
+        it("should use the logger, logLevel, hooks and retryConfig passed in", () => {
+            const testLogger: Logger = {
+                debug: sandbox.spy(),
+                info: sandbox.spy(),
+                warn: sandbox.spy(),
+                error: sandbox.spy()
+            };
+            const testHooks = { onRetry: () => {} };
+            const testRetryConfig: RetryConfig = new RetryConfig(2);
+            const driver: QldbDriver = new QldbDriver(testLedgerName, {
+                qldbClientOptions: testLowLevelClientOptions,
+                retryConfig: testRetryConfig,
+                logger: testLogger,
+                logLevel: LogLevel.WARN,
+                hooks: testHooks
+            });
+            chai.assert.equal(driver["_retryConfig"], testRetryConfig);
+            chai.assert.equal(driver["_hooks"], testHooks);
+
+            driver["_logger"].info("info");
+            driver["_logger"].warn("warn");
+            sinon.assert.notCalled(<sinon.SinonSpy> testLogger.info);
+            sinon.assert.calledOnce(<sinon.SinonSpy> testLogger.warn);
+            sinon.assert.calledWith(<sinon.SinonSpy> testLogger.warn, "warn", { ledgerName: testLedgerName });
+        });
     });
 
     describe("#close()", () => {
         it("should close qldbDriver and any session present in the pool when called", () => {
             const mockSession1: QldbSession = <QldbSession><any> sandbox.mock(QldbSession);
             const mockSession2: QldbSession = <QldbSession><any> sandbox.mock(QldbSession);
-            mockSession1.endSession = () => {};
-            mockSession2.endSession = () => {};
+            mockSession1.endSession = async () => {};
+            mockSession2.endSession = async () => {};
 
             const close1Spy = sandbox.spy(mockSession1, "endSession");
             const close2Spy = sandbox.spy(mockSession2, "endSession");
@@ -149,13 +489,198 @@ describe("QldbDriver", () => {
             sinon.assert.calledOnce(close2Spy);
             chai.assert.equal(qldbDriver["_isClosed"], true);
         });
+
+        it("should reject transactions waiting for a session with DriverClosedError when called", async () => {
+            const waitingDriver: QldbDriver = new QldbDriver(testLedgerName, {
+                qldbClientOptions: testLowLevelClientOptions,
+                maxConcurrentTransactions: 1,
+                acquisitionTimeoutMillis: 60000
+            });
+            waitingDriver["_permitQueue"].tryAcquire();
+
+            const lambda = (transactionExecutor: TransactionExecutor) => {
+                return true;
+            };
+            const pendingExecution: Promise<any> = waitingDriver.executeLambda(lambda);
+            waitingDriver.close();
+
+            await chai.expect(pendingExecution).to.be.rejectedWith(DriverClosedError);
+            chai.assert.equal(waitingDriver["_permitQueue"].getPendingWaiterCount(), 0);
+        });
+        it("should resolve with a summary of the ended sessions when no transactions are in flight", async () => {
+            qldbDriver["_sessionPool"] = [_createMockSession(Date.now(), 0), _createMockSession(Date.now(), 0)];
+            const summary: CloseSummary = await qldbDriver.close();
+
+            chai.assert.deepEqual(summary, {
+                drainedTransactionCount: 0,
+                abandonedTransactionCount: 0,
+                endedSessionCount: 2
+            });
+            chai.assert.deepEqual(qldbDriver["_sessionPool"], []);
+        });
+
+        it("should wait for transactions in flight and end their sessions when they complete", async () => {
+            const pooledSession: QldbSession = _createMockSession(Date.now(), 0);
+            const borrowedSession: QldbSession = _createMockSession(Date.now(), 0);
+            qldbDriver["_sessionPool"] = [pooledSession, borrowedSession];
+            await qldbDriver["getSession"]();
+
+            const closing: Promise<CloseSummary> = qldbDriver.close({ drainTimeoutMs: 60000 });
+            sinon.assert.calledOnce(<sinon.SinonSpy> pooledSession.endSession);
+            sinon.assert.notCalled(<sinon.SinonSpy> borrowedSession.endSession);
+            qldbDriver["_returnSessionToPool"](borrowedSession);
+
+            chai.assert.deepEqual(await closing, {
+                drainedTransactionCount: 1,
+                abandonedTransactionCount: 0,
+                endedSessionCount: 2
+            });
+            sinon.assert.calledOnce(<sinon.SinonSpy> borrowedSession.endSession);
+            chai.assert.deepEqual(qldbDriver["_sessionPool"], []);
+        });
+
+        it("should wait for transactions in flight when the session pool is unbounded", async () => {
+            mockAgent.maxSockets = Infinity;
+            const unboundedDriver: QldbDriver = new QldbDriver(testLedgerName, {
+                qldbClientOptions: testLowLevelClientOptions
+            });
+            const borrowedSession: QldbSession = _createMockSession(Date.now(), 0);
+            unboundedDriver["_sessionPool"] = [borrowedSession];
+            await unboundedDriver["getSession"]();
+
+            const closing: Promise<CloseSummary> = unboundedDriver.close({ drainTimeoutMs: 60000 });
+            await new Promise((resolve) => setImmediate(resolve));
+            sinon.assert.notCalled(<sinon.SinonSpy> borrowedSession.endSession);
+            unboundedDriver["_returnSessionToPool"](borrowedSession);
+
+            chai.assert.deepEqual(await closing, {
+                drainedTransactionCount: 1,
+                abandonedTransactionCount: 0,
+                endedSessionCount: 1
+            });
+            sinon.assert.calledOnce(<sinon.SinonSpy> borrowedSession.endSession);
+        });
+
+        it("should abandon transactions still in flight when the drain timeout passes", async () => {
+            const borrowedSession: QldbSession = _createMockSession(Date.now(), 0);
+            qldbDriver["_sessionPool"] = [borrowedSession];
+            await qldbDriver["getSession"]();
+
+            const summary: CloseSummary = await qldbDriver.close({ drainTimeoutMs: 10 });
+            chai.assert.deepEqual(summary, {
+                drainedTransactionCount: 0,
+                abandonedTransactionCount: 1,
+                endedSessionCount: 0
+            });
+
+            qldbDriver["_returnSessionToPool"](borrowedSession);
+            sinon.assert.calledOnce(<sinon.SinonSpy> borrowedSession.endSession);
+            chai.assert.deepEqual(qldbDriver["_sessionPool"], []);
+        });
+
+        it("should return the same promise when called again", () => {
+            const closing: Promise<CloseSummary> = qldbDriver.close();
+            chai.assert.equal(qldbDriver.close({ drainTimeoutMs: 1000 }), closing);
+        });
+
+        it("should throw a RangeError when drainTimeoutMs is negative", () => {
+            chai.assert.throws(() => qldbDriver.close({ drainTimeoutMs: -1 }), RangeError, "drainTimeoutMs");
+            chai.assert.equal(qldbDriver["_isClosed"], false);
+        });
     });
 
     describe("#executeLambda()", () => {
+        it("should execute the transaction within a span", async () => {
+            resetTestSpanExporter();
+            qldbDriver["_sessionPool"] = [mockQldbSession];
+
+            await qldbDriver.executeLambda(() => true);
+
+            chai.assert.deepEqual(getFinishedSpan("QLDB executeLambda").attributes, {
+                "db.system": "qldb",
+                "db.name": testLedgerName,
+                "qldb.attempts": 1
+            });
+        });
+
+        it("should reject a call made from within a transaction lambda with a NestedTransactionError", async () => {
+            const session: QldbSession = _createMockSession(Date.now(), 0);
+            session.executeLambda = async (lambda) => lambda(<TransactionExecutor><any> {});
+            qldbDriver["_sessionPool"] = [session];
+
+            await chai.expect(qldbDriver.executeLambda(async () => {
+                return qldbDriver.executeLambda(() => true);
+            })).to.be.rejectedWith(NestedTransactionError);
+            chai.assert.equal(qldbDriver.getPoolStats().acquisitionCount, 1);
+        });
+
+        it("should run a nested lambda with the executor of the outer lambda in join mode", async () => {
+            const joiningDriver: QldbDriver = new QldbDriver(testLedgerName, {
+                qldbClientOptions: testLowLevelClientOptions,
+                nestedTransactionMode: "join"
+            });
+            const outerExecutor: TransactionExecutor = <TransactionExecutor><any> {};
+            const session: QldbSession = _createMockSession(Date.now(), 0);
+            session.executeLambda = async (lambda) => lambda(outerExecutor);
+            joiningDriver["_sessionPool"] = [session];
+
+            const result = await joiningDriver.executeLambda(async () => {
+                await Promise.resolve();
+                return joiningDriver.executeLambda((innerExecutor: TransactionExecutor) => innerExecutor);
+            });
+
+            chai.assert.equal(result, outerExecutor);
+            chai.assert.equal(joiningDriver.getPoolStats().acquisitionCount, 1);
+            await joiningDriver.close();
+        });
+
+        it("should not treat a call to another driver from within a transaction lambda as nested", async () => {
+            const otherDriver: QldbDriver = new QldbDriver(testLedgerName, { qldbClientOptions: testLowLevelClientOptions });
+            const session: QldbSession = _createMockSession(Date.now(), 0);
+            session.executeLambda = async (lambda) => lambda(<TransactionExecutor><any> {});
+            const otherSession: QldbSession = _createMockSession(Date.now(), 0);
+            otherSession.executeLambda = async (lambda) => lambda(<TransactionExecutor><any> {});
+            qldbDriver["_sessionPool"] = [session];
+            otherDriver["_sessionPool"] = [otherSession];
+
+            const result = await qldbDriver.executeLambda(async () => {
+                return otherDriver.executeLambda(() => true);
+            });
+
+            chai.assert.isTrue(result);
+            await otherDriver.close();
+        });
+
+        it("should record the transaction and the wait for a session to the metrics sink", async () => {
+            const metricsSink: MetricsSink = {
+                incrementCounter: sandbox.spy(),
+                recordHistogram: sandbox.spy()
+            };
+            const metricsDriver: QldbDriver = new QldbDriver(testLedgerName, {
+                qldbClientOptions: testLowLevelClientOptions,
+                metricsSink: metricsSink
+            });
+            const session: QldbSession = _createMockSession(Date.now(), 0);
+            session.executeLambda = async () => true;
+            metricsDriver["_sessionPool"] = [session];
+
+            await metricsDriver.executeLambda(() => true);
+
+            const labels = { ledger: testLedgerName };
+            sinon.assert.calledWith(<sinon.SinonSpy> metricsSink.incrementCounter, "qldb_transactions_total", 1, {
+                ...labels,
+                outcome: "committed"
+            });
+            sinon.assert.calledWith(<sinon.SinonSpy> metricsSink.recordHistogram, "qldb_transaction_attempts", 1, labels);
+            sinon.assert.calledWith(<sinon.SinonSpy> metricsSink.recordHistogram, "qldb_session_wait_millis",
+                sinon.match.number, labels);
+            await metricsDriver.close();
+        });
+
         it("should start a session and return the delegated call to the session", async () => {
             qldbDriver["_sessionPool"] = [mockQldbSession];
-            const semaphoreStub = sandbox.stub(qldbDriver["_semaphore"], "tryAcquire");
-            semaphoreStub.returns(true);
+            const permitQueueStub = sandbox.stub(qldbDriver["_permitQueue"], "acquire");
+            permitQueueStub.resolves(true);
 
             const executeLambdaSpy = sandbox.spy(mockQldbSession, "executeLambda");
             const lambda = (transactionExecutor: TransactionExecutor) => {
@@ -166,7 +691,8 @@ describe("QldbDriver", () => {
 
             chai.assert.equal(result, mockResult);
             sinon.assert.calledOnce(executeLambdaSpy);
-            sinon.assert.calledWith(executeLambdaSpy, lambda, defaultRetryConfig, executionContext);
+            sinon.assert.calledWith(executeLambdaSpy, sinon.match.func, defaultRetryConfig, sinon.match.instanceOf(TransactionExecutionContext));
+            chai.assert.isTrue(executeLambdaSpy.firstCall.args[0](null));
         });
 
         /**
@@ -212,8 +738,8 @@ describe("QldbDriver", () => {
             }
 
             qldbDriver["_sessionPool"] = [mockSession2, mockSession1];
-            const semaphoreStub = sandbox.stub(qldbDriver["_semaphore"], "tryAcquire");
-            semaphoreStub.returns(true);
+            const permitQueueStub = sandbox.stub(qldbDriver["_permitQueue"], "acquire");
+            permitQueueStub.resolves(true);
 
             let initialPermits = qldbDriver["_availablePermits"];
             const result = await qldbDriver.executeLambda(lambda, defaultRetryConfig);
@@ -263,7 +789,7 @@ describe("QldbDriver", () => {
             chai.assert.equal(result.code, error.code);
 
             sinon.assert.calledOnce(executeLambdaSpy1);
-            sinon.assert.calledWith(executeLambdaSpy1, lambda, defaultRetryConfig, executionContext);
+            sinon.assert.calledWith(executeLambdaSpy1, sinon.match.func, defaultRetryConfig, sinon.match.instanceOf(TransactionExecutionContext));
 
             sinon.assert.notCalled(executeLambdaSpy2);
         });
@@ -303,6 +829,168 @@ describe("QldbDriver", () => {
             sinon.assert.callCount(executeLambdaSpy1, qldbDriver["_maxConcurrentTransactions"] + 3);
         });
 
+        it("should not release the permit of a returned session again when getting the next session fails", async () => {
+            const mockSession1: QldbSession = <QldbSession><any> sandbox.mock(QldbSession);
+            const error = new Error("InvalidSession") as AWSError;
+            error.code = "InvalidSessionException";
+            mockSession1.executeLambda = async () => {
+                throw error;
+            };
+            mockSession1.isSessionOpen = () => {
+                return false;
+            };
+            qldbDriver["_sessionPool"] = [mockSession1];
+            const permitQueueStub = sandbox.stub(qldbDriver["_permitQueue"], "acquire");
+            permitQueueStub.onFirstCall().resolves(true);
+            permitQueueStub.onSecondCall().resolves(false);
+            const releaseSpy = sandbox.spy(qldbDriver["_permitQueue"], "release");
+            const initialPermits: number = qldbDriver["_availablePermits"];
+            const lambda = (transactionExecutor: TransactionExecutor) => {
+                return true;
+            };
+
+            await chai.expect(qldbDriver.executeLambda(lambda)).to.be.rejectedWith(SessionPoolEmptyError);
+            sinon.assert.calledOnce(releaseSpy);
+            chai.assert.equal(qldbDriver["_availablePermits"], initialPermits);
+        });
+
+        it("should reject with a DeadlineExceededError when the deadline passes while waiting for a session", async () => {
+            qldbDriver = new QldbDriver(testLedgerName, {
+                qldbClientOptions: testLowLevelClientOptions,
+                maxConcurrentTransactions: 1,
+                acquisitionTimeoutMillis: 60000,
+                deadlineMillis: 5
+            });
+            qldbDriver["_permitQueue"].tryAcquire();
+            const lambda = (transactionExecutor: TransactionExecutor) => {
+                return true;
+            };
+
+            const error: DeadlineExceededError =
+                await chai.expect(qldbDriver.executeLambda(lambda)).to.be.rejectedWith(DeadlineExceededError);
+            chai.assert.equal(error.deadlineMillis, 5);
+            chai.assert.deepEqual(error.attempts, []);
+            chai.assert.equal(qldbDriver["_permitQueue"].getPendingWaiterCount(), 0);
+        });
+
+        it("should use the deadline passed to the call over the deadline of the driver", async () => {
+            qldbDriver = new QldbDriver(testLedgerName, {
+                qldbClientOptions: testLowLevelClientOptions,
+                maxConcurrentTransactions: 1,
+                acquisitionTimeoutMillis: 60000
+            });
+            qldbDriver["_permitQueue"].tryAcquire();
+            const lambda = (transactionExecutor: TransactionExecutor) => {
+                return true;
+            };
+
+            const error: DeadlineExceededError = await chai.expect(
+                qldbDriver.executeLambda(lambda, undefined, { deadlineMillis: 5 })
+            ).to.be.rejectedWith(DeadlineExceededError);
+            chai.assert.equal(error.deadlineMillis, 5);
+        });
+
+        it("should reject with a RangeError when a negative deadline is passed to the call", async () => {
+            const lambda = (transactionExecutor: TransactionExecutor) => {
+                return true;
+            };
+            await chai.expect(
+                qldbDriver.executeLambda(lambda, undefined, { deadlineMillis: -1 })
+            ).to.be.rejectedWith(RangeError);
+        });
+
+        it("should reject with an AbortError and release the permit when the signal is aborted while waiting", async () => {
+            qldbDriver = new QldbDriver(testLedgerName, {
+                qldbClientOptions: testLowLevelClientOptions,
+                maxConcurrentTransactions: 1,
+                acquisitionTimeoutMillis: 60000
+            });
+            qldbDriver["_permitQueue"].tryAcquire();
+            const abortController: TestAbortController = new TestAbortController();
+            const logErrorSpy = sandbox.spy(qldbDriver["_logger"], "error");
+            const lambda = (transactionExecutor: TransactionExecutor) => {
+                return true;
+            };
+
+            const executePromise: Promise<any> =
+                qldbDriver.executeLambda(lambda, undefined, { signal: abortController.signal });
+            abortController.abort();
+
+            await chai.expect(executePromise).to.be.rejectedWith(AbortError);
+            chai.assert.equal(qldbDriver["_permitQueue"].getPendingWaiterCount(), 0);
+            chai.assert.equal(qldbDriver["_availablePermits"], 1);
+            sinon.assert.notCalled(logErrorSpy);
+        });
+
+        it("should return the session to the pool when the session rejects with an AbortError", async () => {
+            const mockSession: QldbSession = <QldbSession><any> sandbox.mock(QldbSession);
+            mockSession.executeLambda = async () => {
+                throw new AbortError();
+            };
+            mockSession.isSessionOpen = () => {
+                return true;
+            };
+            qldbDriver["_sessionPool"] = [mockSession];
+            const initialPermits: number = qldbDriver["_availablePermits"];
+            const lambda = (transactionExecutor: TransactionExecutor) => {
+                return true;
+            };
+
+            await chai.expect(qldbDriver.executeLambda(lambda, undefined, {
+                signal: new TestAbortController().signal
+            })).to.be.rejectedWith(AbortError);
+            chai.assert.deepEqual(qldbDriver["_sessionPool"], [mockSession]);
+            chai.assert.equal(qldbDriver["_availablePermits"], initialPermits);
+        });
+
+        it("should reject with a TypeError when the signal is not an AbortSignal", async () => {
+            const lambda = (transactionExecutor: TransactionExecutor) => {
+                return true;
+            };
+            await chai.expect(
+                qldbDriver.executeLambda(lambda, undefined, { signal: <any> {} })
+            ).to.be.rejectedWith(TypeError);
+        });
+
+        it("should log an error when an error is surfaced to the caller", async () => {
+            const error: Error = new Error("foo");
+            const mockSession: QldbSession = <QldbSession><any> sandbox.mock(QldbSession);
+            mockSession.executeLambda = async () => {
+                throw error;
+            };
+            mockSession.isSessionOpen = () => {
+                return true;
+            };
+            qldbDriver["_sessionPool"] = [mockSession];
+            const logErrorSpy = sandbox.spy(qldbDriver["_logger"], "error");
+            const lambda = (transactionExecutor: TransactionExecutor) => {
+                return true;
+            };
+
+            await chai.expect(qldbDriver.executeLambda(lambda)).to.be.rejectedWith(error);
+            sinon.assert.calledOnce(logErrorSpy);
+        });
+
+        it("should not log an error when the caller aborts the lambda", async () => {
+            const mockSession: QldbSession = <QldbSession><any> sandbox.mock(QldbSession);
+            mockSession.executeLambda = async () => {
+                throw new LambdaAbortedError();
+            };
+            mockSession.isSessionOpen = () => {
+                return true;
+            };
+            qldbDriver["_sessionPool"] = [mockSession];
+            const logErrorSpy = sandbox.spy(qldbDriver["_logger"], "error");
+            const logDebugSpy = sandbox.spy(qldbDriver["_logger"], "debug");
+            const lambda = (transactionExecutor: TransactionExecutor) => {
+                return true;
+            };
+
+            await chai.expect(qldbDriver.executeLambda(lambda)).to.be.rejectedWith(LambdaAbortedError);
+            sinon.assert.notCalled(logErrorSpy);
+            sinon.assert.calledWith(logDebugSpy, "Transaction lambda aborted by the caller.");
+        });
+
         it("should throw DriverClosedError wrapped in a rejected promise when closed", async () => {
             const lambda = (transactionExecutor: TransactionExecutor) => {
                 return true;
@@ -313,8 +1001,8 @@ describe("QldbDriver", () => {
         });
 
         it("should return a SessionPoolEmptyError wrapped in a rejected promise when session pool empty", async () => {
-            const semaphoreStub = sandbox.stub(qldbDriver["_semaphore"], "tryAcquire");
-            semaphoreStub.returns(false);
+            const permitQueueStub = sandbox.stub(qldbDriver["_permitQueue"], "acquire");
+            permitQueueStub.resolves(false);
 
             const lambda = (transactionExecutor: TransactionExecutor) => {
                 return true;
@@ -323,24 +1011,67 @@ describe("QldbDriver", () => {
             const result = await chai.expect(qldbDriver.executeLambda(lambda)).to.be.rejected;
             chai.assert.equal(result.name, SessionPoolEmptyError.name);
         });
+
+        it("should wait for a session to be returned to the pool when timeoutMillis is set", async () => {
+            const waitingDriver: QldbDriver = new QldbDriver(testLedgerName, {
+                qldbClientOptions: testLowLevelClientOptions,
+                maxConcurrentTransactions: 1,
+                acquisitionTimeoutMillis: 60000
+            });
+            waitingDriver["_permitQueue"].tryAcquire();
+            waitingDriver["_availablePermits"]--;
+            waitingDriver["_inFlightCount"]++;
+            waitingDriver["_sessionPool"] = [mockQldbSession];
+            mockQldbSession.isSessionOpen = () => {
+                return true;
+            };
+
+            const lambda = (transactionExecutor: TransactionExecutor) => {
+                return true;
+            };
+            const pendingExecution: Promise<any> = waitingDriver.executeLambda(lambda);
+            chai.assert.equal(waitingDriver["_permitQueue"].getPendingWaiterCount(), 1);
+            waitingDriver["_returnSessionToPool"](mockQldbSession);
+
+            const result = await pendingExecution;
+            chai.assert.equal(result, mockResult);
+            chai.assert.equal(waitingDriver["_availablePermits"], 1);
+        });
+
+        it("should return a SessionPoolEmptyError with the wait time when no session becomes available in time", async () => {
+            const waitingDriver: QldbDriver = new QldbDriver(testLedgerName, {
+                qldbClientOptions: testLowLevelClientOptions,
+                maxConcurrentTransactions: 1,
+                acquisitionTimeoutMillis: 10
+            });
+            waitingDriver["_permitQueue"].tryAcquire();
+
+            const lambda = (transactionExecutor: TransactionExecutor) => {
+                return true;
+            };
+
+            const result = await chai.expect(waitingDriver.executeLambda(lambda)).to.be.rejectedWith(SessionPoolEmptyError);
+            chai.assert.isAtLeast(result.waitTimeMillis, 9);
+            chai.assert.equal(waitingDriver["_permitQueue"].getPendingWaiterCount(), 0);
+        });
     });
 
 
     describe("#releaseSession()", () => {
         it("should return a session back to the session pool when called", () => {
-            const logDebugSpy = sandbox.spy(LogUtil, "debug");
-            const semaphoreReleaseSpy = sandbox.spy(qldbDriver["_semaphore"], "release")
+            const logDebugSpy = sandbox.spy(qldbDriver["_logger"], "debug");
+            const permitQueueReleaseSpy = sandbox.spy(qldbDriver["_permitQueue"], "release");
             qldbDriver["_returnSessionToPool"](mockQldbSession);
 
             chai.assert.deepEqual(qldbDriver["_sessionPool"], [mockQldbSession])
             chai.assert.deepEqual(qldbDriver["_availablePermits"], testMaxSockets + 1)
 
             sinon.assert.calledOnce(logDebugSpy);
-            sinon.assert.calledOnce(semaphoreReleaseSpy);
+            sinon.assert.calledOnce(permitQueueReleaseSpy);
         });
 
         it("should NOT return a closed session back to the pool but should release the permit", () => {
-            const semaphoreReleaseSpy = sandbox.spy(qldbDriver["_semaphore"], "release");
+            const permitQueueReleaseSpy = sandbox.spy(qldbDriver["_permitQueue"], "release");
             let initalPermits = qldbDriver["_availablePermits"];
 
             mockQldbSession.isSessionOpen = () => {
@@ -352,7 +1083,512 @@ describe("QldbDriver", () => {
             chai.assert.deepEqual(qldbDriver["_sessionPool"], []);
             //The permit is released even if session is not returned to the pool
             chai.assert.deepEqual(qldbDriver["_availablePermits"], initalPermits + 1);
-            sinon.assert.calledOnce(semaphoreReleaseSpy);
+            sinon.assert.calledOnce(permitQueueReleaseSpy);
+        });
+
+        it("should start a replacement session in the background when a closed session drops the pool below minIdleSessions", async () => {
+            const mockSession: QldbSession = <QldbSession><any> sandbox.mock(QldbSession);
+            mockSession.isSessionOpen = () => true;
+            const createSessionStub = sandbox.stub(QldbDriver.prototype as any, "_createSession");
+            createSessionStub.resolves(mockSession);
+            const driver: QldbDriver = new QldbDriver(testLedgerName, {
+                qldbClientOptions: testLowLevelClientOptions,
+                minIdleSessions: 1
+            });
+            await new Promise(resolve => setImmediate(resolve));
+            const borrowedSession: QldbSession = await driver["getSession"]();
+            chai.assert.deepEqual(driver["_sessionPool"], []);
+            mockSession.isSessionOpen = () => false;
+
+            driver["_returnSessionToPool"](borrowedSession);
+            await new Promise(resolve => setImmediate(resolve));
+
+            sinon.assert.calledTwice(createSessionStub);
+            chai.assert.lengthOf(driver["_sessionPool"], 1);
+        });
+    });
+
+    describe("#evictStaleSessions()", () => {
+        let freshSession: QldbSession;
+        let idleSession: QldbSession;
+
+        beforeEach(() => {
+            freshSession = _createMockSession(Date.now(), 0);
+            idleSession = _createMockSession(Date.now() - 5000, 0);
+            qldbDriver["_sessionIdleTimeoutMillis"] = 1000;
+        });
+
+        it("should end the idle sessions in the pool and keep the others", () => {
+            qldbDriver["_sessionPool"] = [idleSession, freshSession];
+            qldbDriver["_evictStaleSessions"]();
+
+            chai.assert.deepEqual(qldbDriver["_sessionPool"], [freshSession]);
+            sinon.assert.calledOnce(<sinon.SinonSpy> idleSession.endSession);
+            sinon.assert.notCalled(<sinon.SinonSpy> freshSession.endSession);
+        });
+
+        it("should end the sessions in the pool which exceeded the maximum age", () => {
+            qldbDriver["_sessionIdleTimeoutMillis"] = 0;
+            qldbDriver["_maxSessionAgeMillis"] = 1000;
+            const oldSession: QldbSession = _createMockSession(Date.now(), 0);
+            oldSession.getCreationTime = () => Date.now() - 5000;
+            qldbDriver["_sessionPool"] = [oldSession, freshSession];
+            qldbDriver["_evictStaleSessions"]();
+
+            chai.assert.deepEqual(qldbDriver["_sessionPool"], [freshSession]);
+            sinon.assert.calledOnce(<sinon.SinonSpy> oldSession.endSession);
+        });
+
+        it("should start new sessions when eviction drops the pool below minIdleSessions", async () => {
+            const createSessionStub = sandbox.stub(qldbDriver as any, "_createSession");
+            createSessionStub.resolves(freshSession);
+            qldbDriver["_minIdleSessions"] = 1;
+            qldbDriver["_sessionPool"] = [idleSession];
+            qldbDriver["_evictStaleSessions"]();
+            await new Promise(resolve => setImmediate(resolve));
+
+            sinon.assert.calledOnce(createSessionStub);
+            chai.assert.deepEqual(qldbDriver["_sessionPool"], [freshSession]);
+        });
+
+        it("should skip stale sessions when getting a session", async () => {
+            qldbDriver["_sessionPool"] = [freshSession, idleSession];
+            const session: QldbSession = await qldbDriver["getSession"]();
+
+            chai.assert.equal(session, freshSession);
+            chai.assert.deepEqual(qldbDriver["_sessionPool"], []);
+            sinon.assert.calledOnce(<sinon.SinonSpy> idleSession.endSession);
+        });
+
+        it("should end a session returned to the pool after it reached the maximum number of transactions", () => {
+            qldbDriver["_maxTransactionsPerSession"] = 3;
+            const busySession: QldbSession = _createMockSession(Date.now(), 3);
+            qldbDriver["_returnSessionToPool"](busySession);
+
+            chai.assert.deepEqual(qldbDriver["_sessionPool"], []);
+            sinon.assert.calledOnce(<sinon.SinonSpy> busySession.endSession);
+        });
+    });
+
+    describe("#warmUp()", () => {
+        it("should start the given number of sessions concurrently and add them to the pool", async () => {
+            let resolveCreation: (session: QldbSession) => void;
+            const createSessionStub = sandbox.stub(qldbDriver as any, "_createSession");
+            createSessionStub.returns(new Promise(resolve => resolveCreation = resolve));
+
+            const warmUp: Promise<number> = qldbDriver.warmUp(3);
+            sinon.assert.calledThrice(createSessionStub);
+            resolveCreation(mockQldbSession);
+
+            chai.assert.equal(await warmUp, 3);
+            chai.assert.lengthOf(qldbDriver["_sessionPool"], 3);
+            chai.assert.equal(qldbDriver["_pendingSessionCount"], 0);
+        });
+
+        it("should not start more sessions than the pool can hold", async () => {
+            const createSessionStub = sandbox.stub(qldbDriver as any, "_createSession");
+            createSessionStub.resolves(mockQldbSession);
+            qldbDriver["_sessionPool"] = [mockQldbSession];
+            qldbDriver["_availablePermits"] = 3;
+
+            chai.assert.equal(await qldbDriver.warmUp(5), 2);
+            sinon.assert.calledTwice(createSessionStub);
+            chai.assert.lengthOf(qldbDriver["_sessionPool"], 3);
+            chai.assert.equal(await qldbDriver.warmUp(1), 0);
+        });
+
+        it("should add the started sessions to the pool and reject with the first error when a session fails to start", async () => {
+            const createSessionStub = sandbox.stub(qldbDriver as any, "_createSession");
+            createSessionStub.onFirstCall().resolves(mockQldbSession);
+            createSessionStub.onSecondCall().rejects(new Error("foo"));
+
+            await chai.expect(qldbDriver.warmUp(2)).to.be.rejectedWith(Error, "foo");
+            chai.assert.deepEqual(qldbDriver["_sessionPool"], [mockQldbSession]);
+            chai.assert.equal(qldbDriver["_pendingSessionCount"], 0);
+        });
+
+        it("should end the started sessions when the driver is closed while they start", async () => {
+            const mockSession: QldbSession = <QldbSession><any> sandbox.mock(QldbSession);
+            mockSession.endSession = async () => {};
+            const endSessionSpy = sandbox.spy(mockSession, "endSession");
+            sandbox.stub(qldbDriver as any, "_createSession").resolves(mockSession);
+
+            const warmUp: Promise<number> = qldbDriver.warmUp(1);
+            qldbDriver.close();
+            await warmUp;
+
+            sinon.assert.calledOnce(endSessionSpy);
+            chai.assert.deepEqual(qldbDriver["_sessionPool"], []);
+            chai.assert.lengthOf(qldbDriver["_closingSessionEndings"], 1);
+        });
+
+        it("should reject with a RangeError when count is negative", async () => {
+            await chai.expect(qldbDriver.warmUp(-1)).to.be.rejectedWith(RangeError);
+        });
+
+        it("should reject with a DriverClosedError when the driver is closed", async () => {
+            qldbDriver.close();
+            await chai.expect(qldbDriver.warmUp(1)).to.be.rejectedWith(DriverClosedError);
+        });
+    });
+
+    describe("#on()", () => {
+        it("should emit a sessionCreated event and share the event emitter with the session", async () => {
+            sandbox.stub(Communicator, "create").resolves(<Communicator><any> { getSessionToken: () => mockSessionToken });
+            const listener = sandbox.spy();
+            qldbDriver.on("sessionCreated", listener);
+            const session: QldbSession = await qldbDriver["_createSession"]();
+
+            sinon.assert.calledOnce(listener);
+            sinon.assert.calledWith(listener, { sessionTokenHash: sinon.match.string });
+            chai.assert.equal(session["_events"], qldbDriver["_events"]);
+
+            qldbDriver.off("sessionCreated", listener);
+            await qldbDriver["_createSession"]();
+            sinon.assert.calledOnce(listener);
+        });
+    });
+
+    describe("#beginTransaction()", () => {
+        let session: QldbSession;
+        let transaction: Transaction;
+
+        beforeEach(() => {
+            transaction = <Transaction><any> {
+                getTransactionId: () => "txnId",
+                commit: sandbox.stub().resolves(),
+                abort: sandbox.stub().resolves()
+            };
+            session = _createMockSession(Date.now(), 0);
+            session.startTransaction = sandbox.stub().resolves(transaction);
+            session.closeSession = sandbox.spy();
+            session.markUsed = sandbox.spy();
+            qldbDriver["_sessionPool"] = [session];
+        });
+
+        it("should pin a session to the transaction until it is committed", async () => {
+            const handle: TransactionHandle = await qldbDriver.beginTransaction();
+
+            chai.assert.equal(handle.getTransactionId(), "txnId");
+            chai.assert.equal(qldbDriver.getPoolStats().inUseSessionCount, 1);
+            chai.assert.equal(qldbDriver["_sessionPool"].length, 0);
+
+            await handle.commit();
+
+            chai.assert.equal(qldbDriver.getPoolStats().inUseSessionCount, 0);
+            chai.assert.equal(qldbDriver.getPoolStats().committedTransactionCount, 1);
+            chai.assert.deepEqual(qldbDriver["_sessionPool"], [session]);
+            sinon.assert.calledOnce(<sinon.SinonSpy> session.markUsed);
+        });
+
+        it("should return the session to the pool once the transaction is aborted", async () => {
+            const handle: TransactionHandle = await qldbDriver.beginTransaction();
+
+            await handle.abort();
+
+            chai.assert.equal(qldbDriver.getPoolStats().inUseSessionCount, 0);
+            chai.assert.equal(qldbDriver.getPoolStats().abortedTransactionCount, 1);
+            chai.assert.deepEqual(qldbDriver["_sessionPool"], [session]);
+        });
+
+        it("should close the session when aborting the transaction invalidates it", async () => {
+            const error: AWSError = <AWSError><any> new Error("foo");
+            error.code = "InvalidSessionException";
+            transaction.abort = sandbox.stub().rejects(error);
+            const handle: TransactionHandle = await qldbDriver.beginTransaction();
+
+            await chai.expect(handle.abort()).to.be.rejectedWith("foo");
+
+            sinon.assert.calledOnce(<sinon.SinonSpy> session.closeSession);
+            chai.assert.equal(qldbDriver.getPoolStats().invalidatedSessionCount, 1);
+        });
+
+        it("should close the session when starting the transaction invalidates it", async () => {
+            const error: AWSError = <AWSError><any> new Error("foo");
+            error.code = "InvalidSessionException";
+            session.startTransaction = sandbox.stub().rejects(error);
+            const listener = sandbox.spy();
+            qldbDriver.on("sessionDiscarded", listener);
+
+            await chai.expect(qldbDriver.beginTransaction()).to.be.rejectedWith("foo");
+
+            sinon.assert.calledOnce(<sinon.SinonSpy> session.closeSession);
+            chai.assert.equal(qldbDriver.getPoolStats().inUseSessionCount, 0);
+            chai.assert.equal(qldbDriver.getPoolStats().invalidatedSessionCount, 1);
+            sinon.assert.calledOnce(listener);
+            chai.assert.equal(listener.firstCall.args[0].error, error);
+        });
+
+        it("should throw a RangeError when autoAbortMillis is out of range", async () => {
+            await chai.expect(qldbDriver.beginTransaction({ autoAbortMillis: 0 })).to.be.rejectedWith(RangeError);
+            await chai.expect(qldbDriver.beginTransaction({ autoAbortMillis: 30001 })).to.be.rejectedWith(RangeError);
+            chai.assert.equal(qldbDriver.getPoolStats().inUseSessionCount, 0);
+        });
+
+        it("should return a DriverClosedError wrapped in a rejected promise when closed", async () => {
+            qldbDriver.close();
+
+            await chai.expect(qldbDriver.beginTransaction()).to.be.rejectedWith(DriverClosedError);
+        });
+    });
+
+    describe("#getCircuitState()", () => {
+        it("should be closed when the circuit breaker is disabled", () => {
+            chai.assert.equal(qldbDriver.getCircuitState(), "closed");
+        });
+
+        it("should open the circuit and emit the change once sessions fail to start", async () => {
+            const circuitDriver: QldbDriver = new QldbDriver(testLedgerName, {
+                qldbClientOptions: testLowLevelClientOptions,
+                circuitBreaker: { windowSize: 2, minimumOutcomes: 2 }
+            });
+            const listener = sandbox.spy();
+            circuitDriver.on("circuitStateChanged", listener);
+            sandbox.stub(Communicator, "create").rejects(new Error("foo"));
+
+            await chai.expect(circuitDriver["_createSession"]()).to.be.rejected;
+            chai.assert.equal(circuitDriver.getCircuitState(), "closed");
+            await chai.expect(circuitDriver["_createSession"]()).to.be.rejected;
+
+            chai.assert.equal(circuitDriver.getCircuitState(), "open");
+            sinon.assert.calledOnce(listener);
+            sinon.assert.calledWith(listener, { previousState: "closed", state: "open" });
+            await chai.expect(circuitDriver.executeLambda(() => true)).to.be.rejectedWith(CircuitOpenError);
+            await chai.expect(circuitDriver.beginTransaction()).to.be.rejectedWith(CircuitOpenError);
+            chai.assert.equal(circuitDriver.getPoolStats().acquisitionCount, 0);
+            await circuitDriver.close();
+        });
+
+        it("should release the probe of a half-open circuit once the transaction completes", async () => {
+            const circuitDriver: QldbDriver = new QldbDriver(testLedgerName, {
+                qldbClientOptions: testLowLevelClientOptions,
+                circuitBreaker: { windowSize: 1, minimumOutcomes: 1 }
+            });
+            circuitDriver["_circuitBreaker"].recordFailure();
+            circuitDriver["_circuitBreaker"]["_openedTime"] = 0;
+            const session: QldbSession = _createMockSession(Date.now(), 0);
+            session.executeLambda = async () => {
+                throw new Error("foo");
+            };
+            circuitDriver["_sessionPool"] = [session];
+
+            await chai.expect(circuitDriver.executeLambda(() => true)).to.be.rejectedWith("foo");
+
+            chai.assert.equal(circuitDriver.getCircuitState(), "half-open");
+            chai.assert.equal(circuitDriver["_circuitBreaker"]["_probeCount"], 0);
+            await circuitDriver.close();
+        });
+
+        it("should keep a half-open circuit half-open when only a session is started", async () => {
+            const circuitDriver: QldbDriver = new QldbDriver(testLedgerName, {
+                qldbClientOptions: testLowLevelClientOptions,
+                circuitBreaker: { windowSize: 1, minimumOutcomes: 1 }
+            });
+            circuitDriver["_circuitBreaker"].recordFailure();
+            circuitDriver["_circuitBreaker"]["_openedTime"] = 0;
+            sandbox.stub(Communicator, "create").resolves(<Communicator><any> { getSessionToken: () => mockSessionToken });
+
+            await circuitDriver["_createSession"]();
+
+            chai.assert.equal(circuitDriver.getCircuitState(), "half-open");
+            await circuitDriver.close();
+        });
+
+        it("should admit a transaction begun with beginTransaction as the probe of a half-open circuit", async () => {
+            const circuitDriver: QldbDriver = new QldbDriver(testLedgerName, {
+                qldbClientOptions: testLowLevelClientOptions,
+                circuitBreaker: { windowSize: 1, minimumOutcomes: 1 }
+            });
+            circuitDriver["_circuitBreaker"].recordFailure();
+            circuitDriver["_circuitBreaker"]["_openedTime"] = 0;
+            const transaction: Transaction = <Transaction><any> {
+                getTransactionId: () => "txnId",
+                abort: sandbox.stub().resolves()
+            };
+            const session: QldbSession = _createMockSession(Date.now(), 0);
+            session.startTransaction = sandbox.stub().resolves(transaction);
+            session.markUsed = sandbox.spy();
+            circuitDriver["_sessionPool"] = [session];
+
+            const handle: TransactionHandle = await circuitDriver.beginTransaction();
+            chai.assert.equal(circuitDriver["_circuitBreaker"]["_probeCount"], 1);
+            await chai.expect(circuitDriver.beginTransaction()).to.be.rejectedWith(CircuitOpenError);
+
+            await handle.abort();
+            chai.assert.equal(circuitDriver.getCircuitState(), "half-open");
+            chai.assert.equal(circuitDriver["_circuitBreaker"]["_probeCount"], 0);
+            await circuitDriver.close();
+        });
+
+        it("should release the probe of a half-open circuit when beginTransaction fails to start", async () => {
+            const circuitDriver: QldbDriver = new QldbDriver(testLedgerName, {
+                qldbClientOptions: testLowLevelClientOptions,
+                circuitBreaker: { windowSize: 1, minimumOutcomes: 1 }
+            });
+            circuitDriver["_circuitBreaker"].recordFailure();
+            circuitDriver["_circuitBreaker"]["_openedTime"] = 0;
+            const session: QldbSession = _createMockSession(Date.now(), 0);
+            session.startTransaction = sandbox.stub().rejects(new Error("foo"));
+            session.markUsed = sandbox.spy();
+            circuitDriver["_sessionPool"] = [session];
+
+            await chai.expect(circuitDriver.beginTransaction()).to.be.rejectedWith("foo");
+
+            chai.assert.equal(circuitDriver.getCircuitState(), "half-open");
+            chai.assert.equal(circuitDriver["_circuitBreaker"]["_probeCount"], 0);
+            await circuitDriver.close();
+        });
+
+        it("should record the outcomes of transactions begun with beginTransaction", async () => {
+            const circuitDriver: QldbDriver = new QldbDriver(testLedgerName, {
+                qldbClientOptions: testLowLevelClientOptions,
+                circuitBreaker: { windowSize: 1, minimumOutcomes: 1 }
+            });
+            const error: AWSError = <AWSError><any> new Error("foo");
+            error.statusCode = 503;
+            const transaction: Transaction = <Transaction><any> {
+                getTransactionId: () => "txnId",
+                commit: sandbox.stub().onFirstCall().rejects(error).onSecondCall().resolves(),
+                abort: sandbox.stub().resolves()
+            };
+            const session: QldbSession = _createMockSession(Date.now(), 0);
+            session.startTransaction = sandbox.stub().resolves(transaction);
+            session.markUsed = sandbox.spy();
+            circuitDriver["_sessionPool"] = [session];
+
+            const failedHandle: TransactionHandle = await circuitDriver.beginTransaction();
+            await chai.expect(failedHandle.commit()).to.be.rejectedWith("foo");
+            chai.assert.equal(circuitDriver.getCircuitState(), "open");
+
+            circuitDriver["_circuitBreaker"]["_openedTime"] = 0;
+            const committedHandle: TransactionHandle = await circuitDriver.beginTransaction();
+            chai.assert.equal(circuitDriver.getCircuitState(), "half-open");
+            await committedHandle.commit();
+            chai.assert.equal(circuitDriver.getCircuitState(), "closed");
+            await circuitDriver.close();
+        });
+    });
+
+    describe("#getPoolStats()", () => {
+        it("should return a snapshot of the pool and its lifetime counters", async () => {
+            qldbDriver["_sessionPool"] = [_createMockSession(Date.now(), 0), _createMockSession(Date.now(), 0)];
+            await qldbDriver["getSession"]();
+            qldbDriver["_counters"].committedTransactionCount = 3;
+
+            const stats: PoolStats = qldbDriver.getPoolStats();
+            chai.assert.equal(stats.idleSessionCount, 1);
+            chai.assert.equal(stats.inUseSessionCount, 1);
+            chai.assert.equal(stats.startingSessionCount, 0);
+            chai.assert.equal(stats.maxConcurrentTransactions, testMaxSockets);
+            chai.assert.equal(stats.pendingWaiterCount, 0);
+            chai.assert.equal(stats.createdSessionCount, 0);
+            chai.assert.equal(stats.committedTransactionCount, 3);
+            chai.assert.equal(stats.acquisitionCount, 1);
+            chai.assert.isAtLeast(stats.maxAcquisitionMillis, 0);
+            chai.assert.equal(stats.totalAcquisitionMillis, stats.maxAcquisitionMillis);
+        });
+
+        it("should count the sessions in use when the session pool is unbounded", async () => {
+            mockAgent.maxSockets = Infinity;
+            const unboundedDriver: QldbDriver = new QldbDriver(testLedgerName, {
+                qldbClientOptions: testLowLevelClientOptions
+            });
+            unboundedDriver["_sessionPool"] = [_createMockSession(Date.now(), 0), _createMockSession(Date.now(), 0)];
+            await unboundedDriver["getSession"]();
+
+            const stats: PoolStats = unboundedDriver.getPoolStats();
+            chai.assert.equal(stats.idleSessionCount, 1);
+            chai.assert.equal(stats.inUseSessionCount, 1);
+            chai.assert.equal(stats.maxConcurrentTransactions, Infinity);
+        });
+
+        it("should count the transactions not retried because the retry budget was exhausted", async () => {
+            const budgetDriver: QldbDriver = new QldbDriver(testLedgerName, {
+                qldbClientOptions: testLowLevelClientOptions,
+                retryBudget: { retryRatio: 0.5, maxTokens: 1 }
+            });
+            sandbox.stub(Communicator, "create").resolves(<Communicator><any> { getSessionToken: () => mockSessionToken });
+            const session: QldbSession = await budgetDriver["_createSession"]();
+            budgetDriver["_counters"].retryBudgetExhaustedCount = 2;
+
+            chai.assert.equal(session["_retryBudget"], budgetDriver["_retryBudget"]);
+            chai.assert.equal(budgetDriver.getPoolStats().retryBudgetExhaustedCount, 2);
+        });
+
+        it("should earn retries for the retry budget with every transaction executed", async () => {
+            const budgetDriver: QldbDriver = new QldbDriver(testLedgerName, {
+                qldbClientOptions: testLowLevelClientOptions,
+                retryBudget: { retryRatio: 0.5, maxTokens: 1 }
+            });
+            budgetDriver["_retryBudget"].tryWithdraw();
+            const session: QldbSession = _createMockSession(Date.now(), 0);
+            session.executeLambda = async () => true;
+            budgetDriver["_sessionPool"] = [session];
+
+            await budgetDriver.executeLambda(() => true);
+            chai.assert.isFalse(budgetDriver["_retryBudget"].tryWithdraw());
+            await budgetDriver.executeLambda(() => true);
+
+            chai.assert.isTrue(budgetDriver["_retryBudget"].tryWithdraw());
+            await budgetDriver.close();
+        });
+
+        it("should report the concurrency limit and share the limiter with the sessions", async () => {
+            const adaptiveDriver: QldbDriver = new QldbDriver(testLedgerName, {
+                qldbClientOptions: testLowLevelClientOptions,
+                adaptiveConcurrency: { decreaseIntervalMillis: 0 }
+            });
+            sandbox.stub(Communicator, "create").resolves(<Communicator><any> { getSessionToken: () => mockSessionToken });
+            const session: QldbSession = await adaptiveDriver["_createSession"]();
+
+            chai.assert.equal(adaptiveDriver.getPoolStats().concurrencyLimit, testMaxSockets);
+            adaptiveDriver["_concurrencyLimiter"].recordCongestion();
+
+            chai.assert.equal(session["_concurrencyLimiter"], adaptiveDriver["_concurrencyLimiter"]);
+            chai.assert.equal(adaptiveDriver.getPoolStats().concurrencyLimit, Math.floor(testMaxSockets / 2));
+        });
+
+        it("should make transactions beyond a lowered concurrency limit wait for a session", async () => {
+            const adaptiveDriver: QldbDriver = new QldbDriver(testLedgerName, {
+                qldbClientOptions: testLowLevelClientOptions,
+                maxConcurrentTransactions: 2,
+                adaptiveConcurrency: { decreaseIntervalMillis: 0 }
+            });
+            adaptiveDriver["_sessionPool"] = [_createMockSession(Date.now(), 0), _createMockSession(Date.now(), 0)];
+            await adaptiveDriver["getSession"]();
+            adaptiveDriver["_concurrencyLimiter"].recordCongestion();
+
+            await chai.expect(adaptiveDriver["getSession"]()).to.be.rejectedWith(SessionPoolEmptyError);
+            adaptiveDriver["_concurrencyLimiter"].recordSuccess();
+
+            await adaptiveDriver["getSession"]();
+            chai.assert.equal(adaptiveDriver.getPoolStats().inUseSessionCount, 2);
+        });
+
+        it("should count the sessions created and share the counters with them", async () => {
+            sandbox.stub(Communicator, "create").resolves(<Communicator><any> { getSessionToken: () => mockSessionToken });
+            const session: QldbSession = await qldbDriver["_createSession"]();
+
+            chai.assert.equal(qldbDriver.getPoolStats().createdSessionCount, 1);
+            chai.assert.equal(session["_counters"], qldbDriver["_counters"]);
+        });
+
+        it("should count the transactions waiting for a session", () => {
+            const waitingDriver: QldbDriver = new QldbDriver(testLedgerName, {
+                qldbClientOptions: testLowLevelClientOptions,
+                maxConcurrentTransactions: 1,
+                acquisitionTimeoutMillis: 60000
+            });
+            waitingDriver["_permitQueue"].tryAcquire();
+            waitingDriver["_availablePermits"]--;
+            waitingDriver["_inFlightCount"]++;
+            const pendingExecution: Promise<any> = waitingDriver.executeLambda(() => true);
+
+            const stats: PoolStats = waitingDriver.getPoolStats();
+            chai.assert.equal(stats.pendingWaiterCount, 1);
+            chai.assert.equal(stats.inUseSessionCount, 1);
+            waitingDriver.close();
+            return chai.expect(pendingExecution).to.be.rejectedWith(DriverClosedError);
         });
     });
 
@@ -371,3 +1607,14 @@ describe("QldbDriver", () => {
         });
     });
 });
+
+function _createMockSession(lastUsedTime: number, transactionCount: number): QldbSession {
+    const session: QldbSession = <QldbSession><any> sandbox.mock(QldbSession);
+    session.isSessionOpen = () => true;
+    session.getSessionToken = () => mockSessionToken;
+    session.getCreationTime = () => lastUsedTime;
+    session.getLastUsedTime = () => lastUsedTime;
+    session.getTransactionCount = () => transactionCount;
+    session.endSession = sandbox.spy(async () => {});
+    return session;
+}
@@ -14,6 +14,7 @@
 // Test environment imports
 import "mocha";
 
+import { InMemorySpanExporter, ReadableSpan } from "@opentelemetry/sdk-trace-base";
 import { QLDBSession } from "aws-sdk";
 import {
     AbortTransactionResult,
@@ -27,16 +28,25 @@ import * as chai from "chai";
 import * as chaiAsPromised from "chai-as-promised";
 import * as sinon from "sinon";
 
+import { CircuitBreaker } from "../CircuitBreaker";
 import { Communicator } from "../Communicator";
+import { ConcurrencyLimiter } from "../ConcurrencyLimiter";
+import { DriverEventEmitter } from "../DriverEvents";
+import { ContextLogger } from "../LogUtil";
 import * as Errors from "../errors/Errors";
-import * as LogUtil from "../LogUtil";
 import { QldbSession } from "../QldbSession";
 import { Result } from "../Result";
 import { ResultStream } from "../ResultStream";
 import { BackoffFunction } from "../retry/BackoffFunction";
 import { defaultRetryConfig } from "../retry/DefaultRetryConfig";
+import { RetryBudget } from "../retry/RetryBudget";
+import { RetryConfig } from "../retry/RetryConfig";
 import { Transaction } from "../Transaction";
 import { TransactionExecutionContext } from "../TransactionExecutionContext";
+import { QldbTransport } from "../transport/QldbTransport";
+import { SdkV2Transport } from "../transport/SdkV2Transport";
+import { TestAbortController } from "./TestAbortController";
+import { getFinishedSpan, resetTestSpanExporter } from "./TestTracing";
 import { AWSError } from "aws-sdk";
 
 chai.use(chaiAsPromised);
@@ -63,7 +73,7 @@ const testExecuteStatementResult: ExecuteStatementResult = {
 const mockLowLevelClientOptions: ClientConfiguration = {
     region: "fakeRegion"
 };
-const testQldbLowLevelClient: QLDBSession = new QLDBSession(mockLowLevelClientOptions);
+const testTransport: QldbTransport = new SdkV2Transport(new QLDBSession(mockLowLevelClientOptions));
 
 const mockCommunicator: Communicator = <Communicator><any> sandbox.mock(Communicator);
 const mockResult: Result = <Result><any> sandbox.mock(Result);
@@ -93,8 +103,8 @@ describe("QldbSession", () => {
         mockCommunicator.executeStatement = async () => {
             return testExecuteStatementResult;
         };
-        mockCommunicator.getQldbClient = () => {
-            return testQldbLowLevelClient;
+        mockCommunicator.getTransport = () => {
+            return testTransport;
         };
         executionContext = new TransactionExecutionContext();
     });
@@ -107,6 +117,8 @@ describe("QldbSession", () => {
         it("should have all attributes equal to mock values when constructor called", () => {
             chai.assert.equal(qldbSession["_communicator"], mockCommunicator);
             chai.assert.equal(qldbSession["_isClosed"], false);
+            chai.assert.equal(qldbSession.getLastUsedTime(), qldbSession.getCreationTime());
+            chai.assert.equal(qldbSession.getTransactionCount(), 0);
         });
     });
 
@@ -148,6 +160,19 @@ describe("QldbSession", () => {
             sinon.assert.calledOnce(startTransactionSpy);
             sinon.assert.calledOnce(commitSpy);
             chai.assert.equal(result, mockResult);
+            chai.assert.equal(qldbSession["_counters"].committedTransactionCount, 1);
+        });
+
+        it("should update the last used time when the execution completes", async () => {
+            qldbSession.startTransaction = async () => {
+                throw new Error(testMessage);
+            };
+            qldbSession["_lastUsedTime"] = 0;
+
+            await chai.expect(qldbSession.executeLambda(async (txn) => {
+                return true;
+            }, defaultRetryConfig, executionContext)).to.be.rejected;
+            chai.assert.isAtLeast(qldbSession.getLastUsedTime(), qldbSession.getCreationTime());
         });
 
         it("should return a Result object when called with executeAndStreamResults as the lambda", async () => {
@@ -231,7 +256,8 @@ describe("QldbSession", () => {
 
             const startTransactionSpy = sandbox.spy(qldbSession, "startTransaction");
             const noThrowAbortSpy = sandbox.spy(qldbSession as any, "_noThrowAbort");
-            const logSpy = sandbox.spy(LogUtil, "warn");
+            const logSpy = sandbox.spy(qldbSession["_logger"], "warn");
+            const recordOccConflictSpy = sandbox.spy(qldbSession["_metrics"], "recordOccConflict");
 
             await chai.expect(qldbSession.executeLambda(async (txn) => {
                 throw new Error(testMessage);
@@ -240,6 +266,9 @@ describe("QldbSession", () => {
             sinon.assert.callCount(startTransactionSpy, testRetryLimit + 1);
             sinon.assert.neverCalledWith(noThrowAbortSpy, testRetryLimit + 1);
             sinon.assert.callCount(logSpy, testRetryLimit);
+            sinon.assert.callCount(recordOccConflictSpy, testRetryLimit + 1);
+            chai.assert.equal(qldbSession["_counters"].occRetryCount, testRetryLimit);
+            chai.assert.equal(qldbSession["_counters"].committedTransactionCount, 0);
         });
 
         it("should retry when retriable exception occurs", async () => {
@@ -248,7 +277,7 @@ describe("QldbSession", () => {
 
             const startTransactionSpy = sandbox.spy(qldbSession, "startTransaction");
             const noThrowAbortSpy = sandbox.spy(qldbSession as any, "_noThrowAbort");
-            const logSpy = sandbox.spy(LogUtil, "warn");
+            const logSpy = sandbox.spy(qldbSession["_logger"], "warn");
 
             await chai.expect(qldbSession.executeLambda(async (txn) => {
                 throw new Error(testMessage);
@@ -259,6 +288,145 @@ describe("QldbSession", () => {
             sinon.assert.callCount(logSpy, testRetryLimit);
         });
 
+        it("should stop retrying with a CircuitOpenError once the circuit breaker opens", async () => {
+            const isRetriableStub = sandbox.stub(Errors, "isRetriableException");
+            isRetriableStub.returns(true);
+            const circuitBreaker: CircuitBreaker = new CircuitBreaker({ windowSize: 1, minimumOutcomes: 1 });
+            qldbSession["_circuitBreaker"] = circuitBreaker;
+            const startTransactionSpy = sandbox.spy(qldbSession, "startTransaction");
+            const error: Error = new Error(testMessage);
+
+            const result = await chai.expect(qldbSession.executeLambda(async (txn) => {
+                throw error;
+            }, defaultRetryConfig, executionContext)).to.be.rejectedWith(Errors.CircuitOpenError);
+
+            chai.assert.equal(result.cause, error);
+            chai.assert.equal(circuitBreaker.getState(), "open");
+            sinon.assert.calledOnce(startTransactionSpy);
+        });
+
+        it("should surface the original error once the retry budget is exhausted", async () => {
+            const isRetriableStub = sandbox.stub(Errors, "isRetriableException");
+            isRetriableStub.returns(true);
+            qldbSession["_retryBudget"] = new RetryBudget({ maxTokens: 1 });
+            const startTransactionSpy = sandbox.spy(qldbSession, "startTransaction");
+            const error: Error = new Error(testMessage);
+
+            const result = await chai.expect(qldbSession.executeLambda(async (txn) => {
+                throw error;
+            }, defaultRetryConfig, executionContext)).to.be.rejected;
+
+            chai.assert.equal(result, error);
+            sinon.assert.calledTwice(startTransactionSpy);
+            chai.assert.equal(qldbSession["_counters"].retryBudgetExhaustedCount, 1);
+        });
+
+        it("should lower the concurrency limit when a transaction conflicts or is throttled", async () => {
+            const concurrencyLimiter: ConcurrencyLimiter = new ConcurrencyLimiter(8, { decreaseIntervalMillis: 0 });
+            qldbSession["_concurrencyLimiter"] = concurrencyLimiter;
+            const occError = new Error(testMessage) as AWSError;
+            occError.code = "OccConflictException";
+            const throttlingError = new Error(testMessage) as AWSError;
+            throttlingError.code = "RateExceededException";
+            let attempt: number = 0;
+
+            await chai.expect(qldbSession.executeLambda(async (txn) => {
+                attempt++;
+                throw (attempt === 1) ? occError : throttlingError;
+            }, new RetryConfig(1, () => 0), executionContext)).to.be.rejectedWith(testMessage);
+
+            chai.assert.equal(concurrencyLimiter.getLimit(), 2);
+        });
+
+        it("should raise the concurrency limit when a transaction commits", async () => {
+            const concurrencyLimiter: ConcurrencyLimiter = new ConcurrencyLimiter(8, { decreaseIntervalMillis: 0 });
+            concurrencyLimiter.recordCongestion();
+            qldbSession["_concurrencyLimiter"] = concurrencyLimiter;
+            const recordSuccessSpy = sandbox.spy(concurrencyLimiter, "recordSuccess");
+            qldbSession.startTransaction = async () => mockTransaction;
+            mockTransaction.commit = async () => {};
+
+            await qldbSession.executeLambda(async (txn) => true, defaultRetryConfig, executionContext);
+
+            sinon.assert.calledOnce(recordSuccessSpy);
+        });
+
+        it("should retry errors with the error codes configured in the RetryConfig", async () => {
+            const error = new Error(testMessage) as AWSError;
+            error.code = "CustomException";
+            const startTransactionSpy = sandbox.spy(qldbSession, "startTransaction");
+
+            await chai.expect(qldbSession.executeLambda(async (txn) => {
+                throw error;
+            }, new RetryConfig(2, () => 0, ["CustomException"]), executionContext)).to.be.rejected;
+
+            sinon.assert.callCount(startTransactionSpy, 3);
+        });
+
+        it("should retry errors accepted by the shouldRetry function of the RetryConfig", async () => {
+            const shouldRetrySpy = sandbox.spy((error: Error, retryAttempt: number, transactionId: string) => {
+                return error.message === testMessage;
+            });
+            const startTransactionSpy = sandbox.spy(qldbSession, "startTransaction");
+
+            await chai.expect(qldbSession.executeLambda(async (txn) => {
+                throw new Error(testMessage);
+            }, new RetryConfig(2, () => 0, [], shouldRetrySpy), executionContext)).to.be.rejectedWith(testMessage);
+
+            sinon.assert.callCount(startTransactionSpy, 3);
+            sinon.assert.calledTwice(shouldRetrySpy);
+            sinon.assert.calledWith(shouldRetrySpy, sinon.match.instanceOf(Error), 1, testTransactionId);
+            sinon.assert.calledWith(shouldRetrySpy, sinon.match.instanceOf(Error), 2, testTransactionId);
+        });
+
+        it("should not retry an OccConflictException rejected by the shouldRetry function of the RetryConfig", async () => {
+            const error = new Error(testMessage) as AWSError;
+            error.code = "OccConflictException";
+            const startTransactionSpy = sandbox.spy(qldbSession, "startTransaction");
+
+            await chai.expect(qldbSession.executeLambda(async (txn) => {
+                throw error;
+            }, new RetryConfig(4, () => 0, [], () => false), executionContext)).to.be.rejectedWith(testMessage);
+
+            sinon.assert.calledOnce(startTransactionSpy);
+        });
+
+        it("should invoke the onRetry hook before each retry", async () => {
+            const isRetriableStub = sandbox.stub(Errors, "isRetriableException");
+            isRetriableStub.returns(true);
+            const onRetrySpy = sandbox.spy();
+            qldbSession = new QldbSession(mockCommunicator, undefined, { onRetry: onRetrySpy });
+            sandbox.stub(qldbSession as any, "_sleep").resolves();
+            const error: Error = new Error(testMessage);
+
+            await chai.expect(qldbSession.executeLambda(async (txn) => {
+                throw error;
+            }, defaultRetryConfig, executionContext)).to.be.rejected;
+
+            sinon.assert.callCount(onRetrySpy, testRetryLimit);
+            sinon.assert.calledWith(onRetrySpy.firstCall, 1, error, testTransactionId);
+            sinon.assert.calledWith(onRetrySpy.lastCall, testRetryLimit, error, testTransactionId);
+        });
+
+        it("should log and ignore errors thrown by the onRetry hook", async () => {
+            const isRetriableStub = sandbox.stub(Errors, "isRetriableException");
+            isRetriableStub.returns(true);
+            qldbSession = new QldbSession(mockCommunicator, undefined, {
+                onRetry: () => {
+                    throw new Error("hook");
+                }
+            });
+            sandbox.stub(qldbSession as any, "_sleep").resolves();
+            const logSpy = sandbox.spy(qldbSession["_logger"], "warn");
+
+            const result = await chai.expect(qldbSession.executeLambda(async (txn) => {
+                throw new Error(testMessage);
+            }, defaultRetryConfig, executionContext)).to.be.rejected;
+
+            chai.assert.equal(result.message, testMessage);
+            sinon.assert.callCount(logSpy, testRetryLimit * 2);
+        });
+
         it("should return a rejected promise with the exception when InvalidSessionException occurs", async () => {
             const isInvalidSessionStub = sandbox.stub(Errors, "isInvalidSessionException");
             isInvalidSessionStub.returns(true);
@@ -268,6 +436,7 @@ describe("QldbSession", () => {
             }, defaultRetryConfig, executionContext)).to.be.rejected;
 
            chai.assert.isFalse(qldbSession.isSessionOpen());
+           chai.assert.equal(qldbSession["_counters"].invalidatedSessionCount, 1);
         });
 
         it("should return a rejected promise when Transaction expires", async () => {
@@ -283,6 +452,147 @@ describe("QldbSession", () => {
             chai.assert.equal(result.message, error.message);
         });
 
+        it("should record the attempt number on a QldbDriverError", async () => {
+            const error = new Error("InvalidSession") as AWSError;
+            error.code = "InvalidSessionException";
+            const qldbDriverError: Errors.QldbDriverError = Errors.toQldbDriverError(error, {});
+            executionContext.incrementExecutionAttempt();
+
+            const result: Errors.QldbDriverError = await chai.expect(qldbSession.executeLambda(async (txn) => {
+                throw qldbDriverError;
+            }, defaultRetryConfig, executionContext)).to.be.rejectedWith(Errors.InvalidSessionError);
+            chai.assert.equal(result.attempt, 1);
+        });
+
+        it("should abort the transaction and end the session when the deadline passes during an attempt", async () => {
+            const communicatorAbortSpy = sandbox.spy(mockCommunicator, "abortTransaction");
+            const communicatorEndSessionSpy = sandbox.spy(mockCommunicator, "endSession");
+            executionContext = new TransactionExecutionContext(5);
+
+            const error: Errors.DeadlineExceededError = await chai.expect(qldbSession.executeLambda(async (txn) => {
+                await new Promise(resolve => setTimeout(resolve, 50));
+            }, defaultRetryConfig, executionContext)).to.be.rejectedWith(Errors.DeadlineExceededError);
+
+            chai.assert.equal(error.deadlineMillis, 5);
+            chai.assert.isFalse(qldbSession.isSessionOpen());
+            sinon.assert.calledOnce(communicatorAbortSpy);
+            sinon.assert.calledOnce(communicatorEndSessionSpy);
+        });
+
+        it("should reject statements executed after the deadline passes during an attempt", async () => {
+            const commitSpy = sandbox.spy(Transaction.prototype, "commit");
+            executionContext = new TransactionExecutionContext(5);
+            let lateExecution: Promise<Result>;
+
+            const executePromise: Promise<any> = qldbSession.executeLambda(async (txn) => {
+                await new Promise(resolve => setTimeout(resolve, 20));
+                lateExecution = txn.execute(testStatement);
+                await lateExecution.catch(() => {});
+            }, defaultRetryConfig, executionContext);
+
+            await chai.expect(executePromise).to.be.rejectedWith(Errors.DeadlineExceededError);
+            await new Promise(resolve => setTimeout(resolve, 30));
+            await chai.expect(lateExecution).to.be.rejectedWith(Errors.TransactionClosedError);
+            await chai.expect(commitSpy.firstCall.returnValue).to.be.rejectedWith(Errors.TransactionClosedError);
+        });
+
+        it("should stop retrying when the backoff would exceed the deadline", async () => {
+            const error = new Error(testMessage) as AWSError;
+            error.code = "OccConflictException";
+            const startTransactionSpy = sandbox.spy(qldbSession, "startTransaction");
+            executionContext = new TransactionExecutionContext(1000);
+
+            const deadlineError: Errors.DeadlineExceededError = await chai.expect(qldbSession.executeLambda(async (txn) => {
+                throw error;
+            }, new RetryConfig(4, () => 2000), executionContext)).to.be.rejectedWith(Errors.DeadlineExceededError);
+
+            sinon.assert.calledOnce(startTransactionSpy);
+            chai.assert.lengthOf(deadlineError.attempts, 1);
+            chai.assert.equal(deadlineError.attempts[0].attempt, 0);
+            chai.assert.equal(deadlineError.attempts[0].error, error);
+            chai.assert.isTrue(qldbSession.isSessionOpen());
+        });
+
+        it("should abort the transaction and end the session when the signal is aborted during an attempt", async () => {
+            const abortController: TestAbortController = new TestAbortController();
+            const communicatorAbortSpy = sandbox.spy(mockCommunicator, "abortTransaction");
+            const communicatorEndSessionSpy = sandbox.spy(mockCommunicator, "endSession");
+            executionContext = new TransactionExecutionContext(undefined, abortController.signal);
+
+            const executePromise: Promise<any> = qldbSession.executeLambda(async (txn) => {
+                abortController.abort();
+                await new Promise(resolve => setTimeout(resolve, 50));
+            }, defaultRetryConfig, executionContext);
+
+            await chai.expect(executePromise).to.be.rejectedWith(Errors.AbortError);
+            chai.assert.isFalse(qldbSession.isSessionOpen());
+            sinon.assert.calledOnce(communicatorAbortSpy);
+            sinon.assert.calledOnce(communicatorEndSessionSpy);
+            chai.assert.equal(abortController.getListenerCount(), 0);
+        });
+
+        it("should reject statements executed after the signal is aborted during an attempt", async () => {
+            const abortController: TestAbortController = new TestAbortController();
+            executionContext = new TransactionExecutionContext(undefined, abortController.signal);
+            let lateExecution: Promise<Result>;
+
+            const executePromise: Promise<any> = qldbSession.executeLambda(async (txn) => {
+                abortController.abort();
+                await new Promise(resolve => setTimeout(resolve, 10));
+                lateExecution = txn.execute(testStatement);
+                await lateExecution.catch(() => {});
+            }, defaultRetryConfig, executionContext);
+
+            await chai.expect(executePromise).to.be.rejectedWith(Errors.AbortError);
+            await new Promise(resolve => setTimeout(resolve, 20));
+            await chai.expect(lateExecution).to.be.rejectedWith(Errors.TransactionClosedError);
+        });
+
+        it("should not run the lambda when the signal is aborted while the transaction is starting", async () => {
+            const abortController: TestAbortController = new TestAbortController();
+            executionContext = new TransactionExecutionContext(undefined, abortController.signal);
+            mockCommunicator.startTransaction = async () => {
+                abortController.abort();
+                return testStartTransactionResult;
+            };
+            const lambda = sandbox.spy();
+
+            await chai.expect(qldbSession.executeLambda(lambda, defaultRetryConfig, executionContext))
+                .to.be.rejectedWith(Errors.AbortError);
+            await new Promise(resolve => setImmediate(resolve));
+            sinon.assert.notCalled(lambda);
+        });
+
+        it("should stop backing off when the signal is aborted", async () => {
+            const abortController: TestAbortController = new TestAbortController();
+            const error = new Error(testMessage) as AWSError;
+            error.code = "OccConflictException";
+            const startTransactionSpy = sandbox.spy(qldbSession, "startTransaction");
+            executionContext = new TransactionExecutionContext(undefined, abortController.signal);
+
+            const executePromise: Promise<any> = qldbSession.executeLambda(async (txn) => {
+                setTimeout(() => abortController.abort(), 5);
+                throw error;
+            }, new RetryConfig(4, () => 60000), executionContext);
+
+            await chai.expect(executePromise).to.be.rejectedWith(Errors.AbortError);
+            sinon.assert.calledOnce(startTransactionSpy);
+            chai.assert.isTrue(qldbSession.isSessionOpen());
+            chai.assert.equal(abortController.getListenerCount(), 0);
+        });
+
+        it("should not start a transaction when the signal is already aborted", async () => {
+            const abortController: TestAbortController = new TestAbortController();
+            abortController.abort();
+            const startTransactionSpy = sandbox.spy(qldbSession, "startTransaction");
+            executionContext = new TransactionExecutionContext(undefined, abortController.signal);
+
+            await chai.expect(qldbSession.executeLambda(async (txn) => {
+                return true;
+            }, defaultRetryConfig, executionContext)).to.be.rejectedWith(Errors.AbortError);
+            sinon.assert.notCalled(startTransactionSpy);
+        });
+
         it("should return a rejected promise when a LambdaAbortedError occurs", async () => {
             const lambdaAbortedError: Errors.LambdaAbortedError = new Errors.LambdaAbortedError();
             await chai.expect(qldbSession.executeLambda(async (txn) => {
@@ -290,6 +600,105 @@ describe("QldbSession", () => {
             }, defaultRetryConfig, executionContext)).to.be.rejected;
         });
 
+        it("should emit transactionStarted, retryScheduled and lambdaAborted events", async () => {
+            const isRetriableStub = sandbox.stub(Errors, "isRetriableException");
+            isRetriableStub.onFirstCall().returns(true);
+            const events: DriverEventEmitter = new DriverEventEmitter();
+            const startedListener = sandbox.spy();
+            const retryListener = sandbox.spy();
+            const abortedListener = sandbox.spy();
+            events.on("transactionStarted", startedListener);
+            events.on("retryScheduled", retryListener);
+            events.on("lambdaAborted", abortedListener);
+            qldbSession = new QldbSession(mockCommunicator, undefined, undefined, undefined, events);
+            sandbox.stub(qldbSession as any, "_sleep").resolves();
+            const error: Error = new Error(testMessage);
+            let attempt: number = 0;
+
+            await chai.expect(qldbSession.executeLambda(async (txn) => {
+                attempt++;
+                if (attempt === 1) {
+                    throw error;
+                }
+                throw new Errors.LambdaAbortedError();
+            }, defaultRetryConfig, executionContext)).to.be.rejectedWith(Errors.LambdaAbortedError);
+
+            sinon.assert.calledTwice(startedListener);
+            sinon.assert.calledWith(startedListener.firstCall, { transactionId: testTransactionId, attempt: 0 });
+            sinon.assert.calledWith(startedListener.secondCall, { transactionId: testTransactionId, attempt: 1 });
+            sinon.assert.calledOnce(retryListener);
+            sinon.assert.calledWith(retryListener, {
+                transactionId: testTransactionId,
+                retryAttempt: 1,
+                delayMillis: sinon.match.number,
+                error: error
+            });
+            sinon.assert.calledOnce(abortedListener);
+            sinon.assert.calledWith(abortedListener, { transactionId: testTransactionId });
+        });
+
+        it("should trace every attempt", async () => {
+            const exporter: InMemorySpanExporter = resetTestSpanExporter();
+            const isRetriableStub = sandbox.stub(Errors, "isRetriableException");
+            isRetriableStub.onFirstCall().returns(true);
+            qldbSession = new QldbSession(mockCommunicator, new ContextLogger(undefined, undefined, { ledgerName: "ledger" }));
+            sandbox.stub(qldbSession as any, "_sleep").resolves();
+            mockTransaction.commit = async () => {};
+            qldbSession.startTransaction = async () => {
+                return mockTransaction;
+            };
+            let attempt: number = 0;
+
+            await qldbSession.executeLambda(async (txn) => {
+                attempt++;
+                if (attempt === 1) {
+                    throw new Error(testMessage);
+                }
+            }, defaultRetryConfig, executionContext);
+
+            const attemptSpans: ReadableSpan[] = exporter.getFinishedSpans()
+                .filter((span: ReadableSpan) => span.name === "QLDB attempt");
+            chai.assert.lengthOf(attemptSpans, 2);
+            chai.assert.deepEqual(attemptSpans[1].attributes, {
+                "db.system": "qldb",
+                "db.name": "ledger",
+                "qldb.attempt": 1,
+                "qldb.transaction_id": "mockTransactionId"
+            });
+            chai.assert.isDefined(attemptSpans[0].status.message);
+        });
+
+        it("should trace the backoff before a retry", async () => {
+            resetTestSpanExporter();
+            sandbox.stub(qldbSession as any, "_sleep").resolves();
+            executionContext.incrementExecutionAttempt();
+
+            await qldbSession["_retrySleep"](executionContext, new RetryConfig(4, () => 10), mockTransaction);
+
+            chai.assert.deepEqual(getFinishedSpan("QLDB backoff").attributes, {
+                "qldb.transaction_id": "mockTransactionId",
+                "qldb.retry_attempt": 1,
+                "qldb.backoff_millis": 10
+            });
+        });
+
+        it("should emit a sessionDiscarded event when InvalidSessionException occurs", async () => {
+            const isInvalidSessionStub = sandbox.stub(Errors, "isInvalidSessionException");
+            isInvalidSessionStub.returns(true);
+            const events: DriverEventEmitter = new DriverEventEmitter();
+            const listener = sandbox.spy();
+            events.on("sessionDiscarded", listener);
+            qldbSession = new QldbSession(mockCommunicator, undefined, undefined, undefined, events);
+            const error: Error = new Error("ISE");
+
+            await chai.expect(qldbSession.executeLambda(async (txn) => {
+                throw error;
+            }, defaultRetryConfig, executionContext)).to.be.rejected;
+
+            sinon.assert.calledOnce(listener);
+            sinon.assert.calledWith(listener, { sessionTokenHash: sinon.match.string, error: error });
+        });
+
     });
 
     describe("#getSessionToken()", () => {
@@ -308,6 +717,7 @@ describe("QldbSession", () => {
             chai.expect(transaction).to.be.an.instanceOf(Transaction);
             chai.assert.equal(transaction["_txnId"], testTransactionId);
             sinon.assert.calledOnce(communicatorTransactionSpy);
+            chai.assert.equal(qldbSession.getTransactionCount(), 1);
         });
 
     });
@@ -320,13 +730,14 @@ describe("QldbSession", () => {
             await qldbSession["_noThrowAbort"](mockTransaction);
             sinon.assert.notCalled(communicatorAbortSpy);
             sinon.assert.calledOnce(transactionAbortSpy);
+            chai.assert.equal(qldbSession["_counters"].abortedTransactionCount, 1);
         });
 
         it("should log warning message when error is thrown", async () => {
             mockTransaction.abort = async () => {
                 throw new Error(testMessage);
             };
-            const logSpy = sandbox.spy(LogUtil, "warn");
+            const logSpy = sandbox.spy(qldbSession["_logger"], "warn");
             const communicatorAbortSpy = sandbox.spy(mockCommunicator, "abortTransaction");
             const transactionAbortSpy = sandbox.spy(mockTransaction, "abort");
             await qldbSession["_noThrowAbort"](mockTransaction);
@@ -0,0 +1,171 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+// Test environment imports
+import "mocha";
+
+import { SendCommandRequest, SendCommandResult } from "aws-sdk/clients/qldbsession";
+import * as chai from "chai";
+import * as chaiAsPromised from "chai-as-promised";
+import { mkdtempSync, readFileSync, rmdirSync, unlinkSync } from "fs";
+import { dumpBinary } from "ion-js";
+import { tmpdir } from "os";
+import { join } from "path";
+import * as sinon from "sinon";
+
+import { QldbTransport } from "../transport/QldbTransport";
+import { RecordingTransport } from "../transport/RecordingTransport";
+import { TransportFixture } from "../transport/TransportFixture";
+
+chai.use(chaiAsPromised);
+const sandbox = sinon.createSandbox();
+
+const testSessionToken: string = "realSessionToken";
+const testDigest: Uint8Array = new Uint8Array(32).fill(1);
+
+let sendCommandStub: sinon.SinonStub;
+let recordingTransport: RecordingTransport;
+
+describe("RecordingTransport", () => {
+
+    beforeEach(() => {
+        sendCommandStub = sandbox.stub();
+        const transport: QldbTransport = { sendCommand: sendCommandStub };
+        recordingTransport = new RecordingTransport(transport);
+        sendCommandStub.withArgs(sinon.match.has("StartSession")).resolves({
+            StartSession: { SessionToken: testSessionToken }
+        });
+    });
+
+    afterEach(() => {
+        sandbox.restore();
+    });
+
+    describe("#sendCommand()", () => {
+        it("should return the result of the wrapped transport", async () => {
+            const request: SendCommandRequest = { StartSession: { LedgerName: "testLedger" } };
+
+            const result: SendCommandResult = await recordingTransport.sendCommand(request);
+
+            chai.assert.equal(result.StartSession.SessionToken, testSessionToken);
+            sinon.assert.calledOnce(sendCommandStub);
+            chai.assert.equal(sendCommandStub.firstCall.args[0], request);
+        });
+
+        it("should replace session tokens with placeholders", async () => {
+            sendCommandStub.withArgs(sinon.match.has("StartTransaction")).resolves({
+                StartTransaction: { TransactionId: "txnId" }
+            });
+            await recordingTransport.sendCommand({ StartSession: { LedgerName: "testLedger" } });
+            await recordingTransport.sendCommand({ SessionToken: testSessionToken, StartTransaction: {} });
+
+            chai.assert.deepEqual(recordingTransport.getFixture(), {
+                exchanges: [{
+                    request: { StartSession: { LedgerName: "testLedger" } },
+                    result: { StartSession: { SessionToken: "session-1" } }
+                }, {
+                    request: { SessionToken: "session-1", StartTransaction: {} },
+                    result: { StartTransaction: { TransactionId: "txnId" } }
+                }]
+            });
+        });
+
+        it("should record Ion values as Ion text and commit digests as base64", async () => {
+            sendCommandStub.withArgs(sinon.match.has("ExecuteStatement")).resolves({
+                ExecuteStatement: { FirstPage: { Values: [{ IonBinary: dumpBinary({ a: 1 }) }] } }
+            });
+            sendCommandStub.withArgs(sinon.match.has("CommitTransaction")).resolves({
+                CommitTransaction: { TransactionId: "txnId", CommitDigest: Buffer.from(testDigest) }
+            });
+            await recordingTransport.sendCommand({
+                SessionToken: "unknownSessionToken",
+                ExecuteStatement: {
+                    TransactionId: "txnId",
+                    Statement: "SELECT * FROM t WHERE a = ?",
+                    Parameters: [{ IonBinary: dumpBinary(1) }]
+                }
+            });
+            await recordingTransport.sendCommand({
+                SessionToken: "unknownSessionToken",
+                CommitTransaction: { TransactionId: "txnId", CommitDigest: testDigest }
+            });
+
+            const fixture: TransportFixture = recordingTransport.getFixture();
+            chai.assert.deepEqual(fixture.exchanges[0].request.ExecuteStatement.Parameters, [{ IonText: "1" }]);
+            chai.assert.deepEqual(
+                fixture.exchanges[0].result.ExecuteStatement.FirstPage.Values,
+                [{ IonText: "{a:1}" }]
+            );
+            const digest: string = Buffer.from(testDigest).toString("base64");
+            chai.assert.equal(fixture.exchanges[1].request.CommitTransaction.CommitDigest, digest);
+            chai.assert.equal(fixture.exchanges[1].result.CommitTransaction.CommitDigest, digest);
+            chai.assert.equal(fixture.exchanges[1].request.SessionToken, "unknownSessionToken");
+        });
+
+        it("should record errors and reject with them", async () => {
+            const error = new Error("OCC");
+            (<any> error).code = "OccConflictException";
+            (<any> error).statusCode = 400;
+            (<any> error).retryable = false;
+            sendCommandStub.withArgs(sinon.match.has("CommitTransaction")).rejects(error);
+            const request: SendCommandRequest = {
+                SessionToken: testSessionToken,
+                CommitTransaction: { TransactionId: "txnId", CommitDigest: testDigest }
+            };
+
+            await chai.expect(recordingTransport.sendCommand(request)).to.be.rejectedWith(error);
+
+            chai.assert.deepEqual(recordingTransport.getFixture().exchanges[0].error, {
+                code: "OccConflictException",
+                message: "OCC",
+                statusCode: 400,
+                retryable: false
+            });
+        });
+
+        it("should not modify the requests and results passed through", async () => {
+            const parameter: Uint8Array = dumpBinary(1);
+            const request: SendCommandRequest = {
+                SessionToken: testSessionToken,
+                ExecuteStatement: {
+                    TransactionId: "txnId",
+                    Statement: "SELECT ?",
+                    Parameters: [{ IonBinary: parameter }]
+                }
+            };
+            sendCommandStub.withArgs(request).resolves({ ExecuteStatement: { FirstPage: { Values: [] } } });
+
+            await recordingTransport.sendCommand(request);
+
+            chai.assert.equal(request.SessionToken, testSessionToken);
+            chai.assert.equal(request.ExecuteStatement.Parameters[0].IonBinary, parameter);
+        });
+    });
+
+    describe("#saveFixture()", () => {
+        it("should write the fixture to a JSON file", async () => {
+            await recordingTransport.sendCommand({ StartSession: { LedgerName: "testLedger" } });
+            const directory: string = mkdtempSync(join(tmpdir(), "recording-"));
+            const filePath: string = join(directory, "fixture.json");
+
+            recordingTransport.saveFixture(filePath);
+
+            try {
+                chai.assert.deepEqual(JSON.parse(readFileSync(filePath, "utf8")), recordingTransport.getFixture());
+            } finally {
+                unlinkSync(filePath);
+                rmdirSync(directory);
+            }
+        });
+    });
+});
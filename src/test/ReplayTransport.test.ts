@@ -0,0 +1,169 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+// Test environment imports
+import "mocha";
+
+import { SendCommandResult } from "aws-sdk/clients/qldbsession";
+import * as chai from "chai";
+import * as chaiAsPromised from "chai-as-promised";
+import { dom, load } from "ion-js";
+
+import { isOccConflictException } from "../errors/Errors";
+import { QldbDriver } from "../QldbDriver";
+import { Result } from "../Result";
+import { InMemoryQldbTransport } from "../simulator/InMemoryQldbTransport";
+import { TransactionExecutor } from "../TransactionExecutor";
+import { TransactionHandle } from "../TransactionHandle";
+import { RecordingTransport } from "../transport/RecordingTransport";
+import { ReplayTransport } from "../transport/ReplayTransport";
+import { TransportFixture } from "../transport/TransportFixture";
+
+chai.use(chaiAsPromised);
+
+const testLedgerName: string = "testLedger";
+const testFixture: TransportFixture = {
+    exchanges: [{
+        request: { StartSession: { LedgerName: testLedgerName } },
+        result: { StartSession: { SessionToken: "session-1" } }
+    }, {
+        request: { SessionToken: "session-1", StartTransaction: {} },
+        result: { StartTransaction: { TransactionId: "txnId" } }
+    }, {
+        request: {
+            SessionToken: "session-1",
+            ExecuteStatement: { TransactionId: "txnId", Statement: "SELECT ?", Parameters: [{ IonText: "1" }] }
+        },
+        result: { ExecuteStatement: { FirstPage: { Values: [{ IonText: "{a:1}" }] } } }
+    }, {
+        request: {
+            SessionToken: "session-1",
+            CommitTransaction: { TransactionId: "txnId", CommitDigest: "AQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQE=" }
+        },
+        error: { code: "OccConflictException", message: "OCC", statusCode: 400, retryable: false }
+    }]
+};
+
+/**
+ * Run the same transactions against a driver, updating a document and reading it back across two sessions.
+ */
+async function runScenario(driver: QldbDriver): Promise<string[]> {
+    await driver.executeLambda(async (txn: TransactionExecutor) => {
+        await txn.execute("CREATE TABLE Person");
+    });
+    await driver.executeLambda(async (txn: TransactionExecutor) => {
+        await txn.execute("INSERT INTO Person ?", [{ Name: "Alice", Age: 30 }, { Name: "Bob", Age: 40 }]);
+    });
+    const first: TransactionHandle = await driver.beginTransaction();
+    const second: TransactionHandle = await driver.beginTransaction();
+    await first.execute("UPDATE Person SET Age = 31 WHERE Name = ?", "Alice");
+    await second.execute("UPDATE Person SET Age = 32 WHERE Name = ?", "Alice");
+    await first.commit();
+    const error = await chai.expect(second.commit()).to.be.rejected;
+    chai.assert.isTrue(isOccConflictException(error));
+
+    const result: Result = await driver.executeLambda(async (txn: TransactionExecutor) => {
+        return txn.execute("SELECT Name, Age FROM Person");
+    });
+    return result.getResultList().map((value: dom.Value) => JSON.stringify(value));
+}
+
+describe("ReplayTransport", () => {
+
+    describe("#sendCommand()", () => {
+        it("should return the recorded results", async () => {
+            const transport: ReplayTransport = new ReplayTransport(testFixture);
+            await transport.sendCommand({ StartSession: { LedgerName: testLedgerName } });
+            await transport.sendCommand({ SessionToken: "session-1", StartTransaction: {} });
+
+            const result: SendCommandResult = await transport.sendCommand({
+                SessionToken: "session-1",
+                ExecuteStatement: { TransactionId: "txnId", Statement: "SELECT ?", Parameters: [{ IonText: "1" }] }
+            });
+
+            const value: dom.Value = load(<Uint8Array> result.ExecuteStatement.FirstPage.Values[0].IonBinary);
+            chai.assert.equal(value.get("a").numberValue(), 1);
+            chai.assert.equal(transport.getPendingExchangeCount(), 1);
+        });
+
+        it("should reject with the recorded errors", async () => {
+            const transport: ReplayTransport = new ReplayTransport({ exchanges: testFixture.exchanges.slice(3) });
+
+            const error = await chai.expect(transport.sendCommand({
+                SessionToken: "session-1",
+                CommitTransaction: { TransactionId: "txnId", CommitDigest: new Uint8Array(32).fill(1) }
+            })).to.be.rejectedWith("OCC");
+            chai.assert.equal(error.code, "OccConflictException");
+            chai.assert.equal(error.statusCode, 400);
+            chai.assert.isTrue(isOccConflictException(error));
+        });
+
+        it("should reject requests not matching the next recorded request of their session", async () => {
+            const transport: ReplayTransport = new ReplayTransport(testFixture);
+            await transport.sendCommand({ StartSession: { LedgerName: testLedgerName } });
+
+            await chai.expect(transport.sendCommand({ SessionToken: "session-1", EndSession: {} }))
+                .to.be.rejectedWith("Unexpected request");
+            chai.assert.equal(transport.getPendingExchangeCount(), 3);
+        });
+
+        it("should reject requests of sessions with no more recorded requests", async () => {
+            const transport: ReplayTransport = new ReplayTransport(testFixture);
+
+            await chai.expect(transport.sendCommand({ SessionToken: "session-2", StartTransaction: {} }))
+                .to.be.rejectedWith("no more requests were recorded");
+        });
+    });
+
+    describe("#assertAllReplayed()", () => {
+        it("should throw while recorded requests have not been replayed", async () => {
+            const transport: ReplayTransport = new ReplayTransport(testFixture);
+            chai.expect(() => transport.assertAllReplayed()).to.throw("4 recorded requests were not replayed");
+
+            const emptyTransport: ReplayTransport = new ReplayTransport({ exchanges: [] });
+            emptyTransport.assertAllReplayed();
+        });
+    });
+
+    describe("with RecordingTransport", () => {
+        it("should replay the recorded commands of a driver", async () => {
+            const recordingTransport: RecordingTransport = new RecordingTransport(new InMemoryQldbTransport());
+            const recordingDriver: QldbDriver = new QldbDriver(testLedgerName, { transport: recordingTransport });
+            const recordedValues: string[] = await runScenario(recordingDriver);
+            await recordingDriver.close();
+
+            const fixture: TransportFixture = JSON.parse(JSON.stringify(recordingTransport.getFixture()));
+            const replayTransport: ReplayTransport = new ReplayTransport(fixture);
+            const replayDriver: QldbDriver = new QldbDriver(testLedgerName, { transport: replayTransport });
+            const replayedValues: string[] = await runScenario(replayDriver);
+            await replayDriver.close();
+
+            chai.assert.deepEqual(replayedValues, recordedValues);
+            chai.assert.deepEqual(replayedValues, ["{\"Name\":\"Alice\",\"Age\":31}", "{\"Name\":\"Bob\",\"Age\":40}"]);
+            replayTransport.assertAllReplayed();
+        });
+
+        it("should fail when the driver sends different statements than recorded", async () => {
+            const recordingTransport: RecordingTransport = new RecordingTransport(new InMemoryQldbTransport());
+            const recordingDriver: QldbDriver = new QldbDriver(testLedgerName, { transport: recordingTransport });
+            await recordingDriver.executeLambda((txn: TransactionExecutor) => txn.execute("CREATE TABLE Person"));
+            await recordingDriver.close();
+
+            const replayTransport: ReplayTransport = new ReplayTransport(recordingTransport.getFixture());
+            const replayDriver: QldbDriver = new QldbDriver(testLedgerName, { transport: replayTransport });
+            await chai.expect(replayDriver.executeLambda((txn: TransactionExecutor) => txn.execute("CREATE TABLE Car")))
+                .to.be.rejectedWith("Unexpected request");
+            await replayDriver.close();
+        });
+    });
+});
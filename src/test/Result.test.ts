@@ -29,6 +29,7 @@ import * as sinon from "sinon";
 
 import { Communicator } from "../Communicator";
 import { ClientException } from "../errors/Errors";
+import { DriverMetrics } from "../metrics/DriverMetrics";
 import { Result } from "../Result";
 import { ResultStream } from "../ResultStream";
 import { IOUsage } from "../stats/IOUsage";
@@ -84,6 +85,23 @@ describe("Result", () => {
             };
             await chai.expect(Result.create(testTransactionId, testExecuteResultWithNextPage, mockCommunicator)).to.be.rejected;
         });
+
+        it("should record the metrics of the statement once all pages are fetched", async () => {
+            mockCommunicator.fetchPage = async () => {
+                return {
+                    Page: testPage,
+                    ConsumedIOs: { ReadIOs: 2 },
+                    TimingInformation: { ProcessingTimeMilliseconds: 10 }
+                };
+            };
+            const metrics: DriverMetrics = new DriverMetrics();
+            const recordStatementSpy = sandbox.spy(metrics, "recordStatement");
+
+            await Result.create(testTransactionId, testExecuteResultWithNextPage, mockCommunicator, undefined, metrics);
+
+            sinon.assert.calledOnce(recordStatementSpy);
+            sinon.assert.calledWith(recordStatementSpy, 7, 30, 2);
+        });
     });
 
     describe("#bufferResultStream()", () => {
@@ -98,6 +116,25 @@ describe("Result", () => {
         });
     });
 
+    describe("#map()", () => {
+        it("should return a Result of mapped rows with the same IO usage and timing information", async () => {
+            const values: ValueHolder[] = [{IonBinary: "1"}, {IonBinary: "2"}];
+            const testExecuteResultWithValues: ExecuteStatementResult = {
+                FirstPage: {Values: values},
+                TimingInformation: timingInformation,
+                ConsumedIOs: consumedIOs
+            };
+            const result: Result = await Result.create(testTransactionId, testExecuteResultWithValues, mockCommunicator);
+
+            const mappedResult: Result<number> = result.map((value: dom.Value) => value.numberValue() * 10);
+
+            chai.assert.deepEqual(mappedResult.getResultList(), [10, 20]);
+            chai.assert.equal(mappedResult.getConsumedIOs(), result.getConsumedIOs());
+            chai.assert.equal(mappedResult.getTimingInformation(), result.getTimingInformation());
+            chai.assert.lengthOf(result.getResultList(), 2);
+        });
+    });
+
     describe("#getResultList()", () => {
         it("should return a list of Ion values when called", async () => {
             const value1: ValueHolder = {IonBinary: "a"};
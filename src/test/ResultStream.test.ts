@@ -27,10 +27,13 @@ import { dom } from "ion-js";
 import * as sinon from "sinon";
 
 import { Communicator } from "../Communicator";
+import { AbortError } from "../errors/Errors";
+import { DriverMetrics } from "../metrics/DriverMetrics";
 import { Result } from "../Result";
 import { ResultStream } from "../ResultStream";
 import { IOUsage } from "../stats/IOUsage";
 import { TimingInformation } from "../stats/TimingInformation";
+import { TestAbortController } from "./TestAbortController";
 
 chai.use(chaiAsPromised);
 const sandbox = sinon.createSandbox();
@@ -93,6 +96,27 @@ describe("ResultStream", () => {
             chai.assert.equal(testIOUsage.getReadIOs(), resultStream["_readIOs"]);
             chai.assert.equal(testTimingInfo.getProcessingTimeMilliseconds(), resultStream["_processingTime"]);
         });
+
+        it("should record the metrics of the statement once the stream ends", async () => {
+            sandbox.stub(mockCommunicator, "fetchPage").resolves({
+                Page: { Values: [] },
+                ConsumedIOs: { ReadIOs: 2 }
+            });
+            const metrics: DriverMetrics = new DriverMetrics();
+            const recordStatementSpy = sandbox.spy(metrics, "recordStatement");
+            resultStream = new ResultStream(
+                testTransactionId,
+                { ...testExecuteStatementResult, FirstPage: { Values: [], NextPageToken: "nextPageToken" } },
+                mockCommunicator,
+                undefined,
+                metrics
+            );
+
+            await Result.bufferResultStream(resultStream);
+
+            sinon.assert.calledOnce(recordStatementSpy);
+            sinon.assert.calledWith(recordStatementSpy, 7, 20, 2);
+        });
     });
 
     describe("#_read()", () => {
@@ -298,6 +322,46 @@ describe("ResultStream", () => {
         });
     });
 
+    describe("#signal", () => {
+        it("should destroy the stream with an AbortError when the signal is aborted", async () => {
+            const abortController: TestAbortController = new TestAbortController();
+            resultStream = new ResultStream(
+                testTransactionId,
+                testExecuteStatementResult,
+                mockCommunicator,
+                abortController.signal
+            );
+            const errorPromise: Promise<Error> = new Promise(resolve => resultStream.once("error", resolve));
+
+            abortController.abort(testMessage);
+
+            const error: Error = await errorPromise;
+            chai.expect(error).to.be.instanceOf(AbortError);
+            chai.assert.equal((<AbortError> error).cause, testMessage);
+            chai.assert.equal(abortController.getListenerCount(), 0);
+        });
+
+        it("should not fetch the next page once the signal is aborted", async () => {
+            const abortController: TestAbortController = new TestAbortController();
+            resultStream = new ResultStream(
+                testTransactionId,
+                testExecuteStatementResult,
+                mockCommunicator,
+                abortController.signal
+            );
+            resultStream["_shouldPushCachedPage"] = false;
+            const fetchPageSpy = sandbox.spy(mockCommunicator, "fetchPage");
+            const destroySpy = sandbox.stub(resultStream, "destroy");
+            abortController["_signal"].aborted = true;
+
+            await resultStream["_pushPageValues"]();
+
+            sinon.assert.notCalled(fetchPageSpy);
+            sinon.assert.calledOnce(destroySpy);
+            sinon.assert.calledWith(destroySpy, sinon.match.instanceOf(AbortError));
+        });
+    });
+
     describe("#getConsumedIOs", () => {
         it("should return an IOUsage object with correct value without IO on next page in result", async () => {
             mockCommunicator.fetchPage = async () => {
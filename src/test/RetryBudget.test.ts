@@ -0,0 +1,64 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+// Test environment imports
+import "mocha";
+
+import * as chai from "chai";
+
+import { RetryBudget } from "../retry/RetryBudget";
+
+describe("RetryBudget", () => {
+
+    describe("#tryWithdraw()", () => {
+        it("should allow as many retries as the capacity before any deposit", () => {
+            const retryBudget: RetryBudget = new RetryBudget({ maxTokens: 2 });
+
+            chai.assert.isTrue(retryBudget.tryWithdraw());
+            chai.assert.isTrue(retryBudget.tryWithdraw());
+            chai.assert.isFalse(retryBudget.tryWithdraw());
+        });
+
+        it("should allow a retry for every share of transactions deposited", () => {
+            const retryBudget: RetryBudget = new RetryBudget({ retryRatio: 0.1, maxTokens: 1 });
+            retryBudget.tryWithdraw();
+
+            for (let i = 0; i < 9; i++) {
+                retryBudget.deposit();
+            }
+            chai.assert.isFalse(retryBudget.tryWithdraw());
+
+            retryBudget.deposit();
+            chai.assert.isTrue(retryBudget.tryWithdraw());
+            chai.assert.isFalse(retryBudget.tryWithdraw());
+        });
+
+        it("should not save up more retries than the capacity", () => {
+            const retryBudget: RetryBudget = new RetryBudget({ retryRatio: 1, maxTokens: 1 });
+
+            retryBudget.deposit();
+            retryBudget.deposit();
+
+            chai.assert.isTrue(retryBudget.tryWithdraw());
+            chai.assert.isFalse(retryBudget.tryWithdraw());
+        });
+
+        it("should always allow retries when the budget is unlimited", () => {
+            const retryBudget: RetryBudget = new RetryBudget();
+
+            for (let i = 0; i < 100; i++) {
+                chai.assert.isTrue(retryBudget.tryWithdraw());
+            }
+        });
+    });
+});
@@ -0,0 +1,78 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+// Test environment imports
+import "mocha";
+
+import { QLDBSession } from "aws-sdk";
+import { SendCommandRequest, SendCommandResult } from "aws-sdk/clients/qldbsession";
+import * as chai from "chai";
+import * as chaiAsPromised from "chai-as-promised";
+import * as sinon from "sinon";
+
+import { SdkV2Transport } from "../transport/SdkV2Transport";
+
+chai.use(chaiAsPromised);
+const sandbox = sinon.createSandbox();
+
+const testMessage: string = "foo";
+const testRequest: SendCommandRequest = {
+    SessionToken: "sessionToken",
+    StartTransaction: {}
+};
+const testResult: SendCommandResult = {
+    StartTransaction: {
+        TransactionId: "txnId"
+    }
+};
+
+let sendCommandStub: sinon.SinonStub;
+let testClient: QLDBSession;
+let transport: SdkV2Transport;
+
+describe("SdkV2Transport", () => {
+
+    beforeEach(() => {
+        testClient = new QLDBSession({ region: "fakeRegion" });
+        sendCommandStub = sandbox.stub(testClient, "sendCommand");
+        transport = new SdkV2Transport(testClient);
+    });
+
+    afterEach(() => {
+        sandbox.restore();
+    });
+
+    describe("#sendCommand()", () => {
+        it("should send the request with the client", async () => {
+            sendCommandStub.returns({ promise: async () => testResult });
+
+            const result: SendCommandResult = await transport.sendCommand(testRequest);
+
+            chai.assert.equal(result, testResult);
+            sinon.assert.calledOnce(sendCommandStub);
+            sinon.assert.calledWith(sendCommandStub, testRequest);
+        });
+
+        it("should reject with the error returned by the client", async () => {
+            sendCommandStub.returns({ promise: async () => { throw new Error(testMessage); } });
+
+            await chai.expect(transport.sendCommand(testRequest)).to.be.rejectedWith(testMessage);
+        });
+    });
+
+    describe("#getClient()", () => {
+        it("should return the client", () => {
+            chai.assert.equal(transport.getClient(), testClient);
+        });
+    });
+});
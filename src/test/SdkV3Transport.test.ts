@@ -0,0 +1,124 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+// Test environment imports
+import "mocha";
+
+import { SendCommandRequest, SendCommandResult } from "aws-sdk/clients/qldbsession";
+import * as chai from "chai";
+import * as chaiAsPromised from "chai-as-promised";
+import * as sinon from "sinon";
+
+import { isOccConflictException, isRetriableException } from "../errors/Errors";
+import { QldbSessionClientV3, SdkV3Transport } from "../transport/SdkV3Transport";
+
+chai.use(chaiAsPromised);
+const sandbox = sinon.createSandbox();
+
+const testMessage: string = "foo";
+const testRequest: SendCommandRequest = {
+    SessionToken: "sessionToken",
+    StartTransaction: {}
+};
+
+/**
+ * Stands in for the `SendCommandCommand` class of `@aws-sdk/client-qldb-session`.
+ */
+class TestSendCommandCommand {
+    readonly input: SendCommandRequest;
+
+    constructor(input: SendCommandRequest) {
+        this.input = input;
+    }
+}
+
+let sendStub: sinon.SinonStub;
+let testClient: QldbSessionClientV3;
+let transport: SdkV3Transport;
+
+describe("SdkV3Transport", () => {
+
+    beforeEach(() => {
+        sendStub = sandbox.stub();
+        testClient = { send: sendStub };
+        transport = new SdkV3Transport(testClient, TestSendCommandCommand);
+    });
+
+    afterEach(() => {
+        sandbox.restore();
+    });
+
+    describe("#constructor()", () => {
+        it("should throw an Error when @aws-sdk/client-qldb-session is not installed", () => {
+            chai.assert.throws(() => new SdkV3Transport(testClient), "@aws-sdk/client-qldb-session");
+        });
+    });
+
+    describe("#sendCommand()", () => {
+        it("should send the request as a SendCommandCommand and strip the response metadata", async () => {
+            sendStub.resolves({
+                $metadata: { httpStatusCode: 200 },
+                StartTransaction: { TransactionId: "txnId" }
+            });
+
+            const result: SendCommandResult = await transport.sendCommand(testRequest);
+
+            chai.assert.deepEqual(result, { StartTransaction: { TransactionId: "txnId" } });
+            sinon.assert.calledOnce(sendStub);
+            chai.assert.instanceOf(sendStub.firstCall.args[0], TestSendCommandCommand);
+            chai.assert.equal(sendStub.firstCall.args[0].input, testRequest);
+        });
+
+        it("should give errors returned by QLDB the code and statusCode of the AWS SDK v2", async () => {
+            const error: any = new Error(testMessage);
+            error.name = "OccConflictException";
+            error.$metadata = { httpStatusCode: 400 };
+            sendStub.rejects(error);
+
+            const result: any = await chai.expect(transport.sendCommand(testRequest)).to.be.rejectedWith(testMessage);
+
+            chai.assert.equal(result, error);
+            chai.assert.equal(result.code, "OccConflictException");
+            chai.assert.equal(result.statusCode, 400);
+            chai.assert.isTrue(isOccConflictException(result));
+        });
+
+        it("should let the driver retry server errors returned by QLDB", async () => {
+            const error: any = new Error(testMessage);
+            error.name = "InternalFailure";
+            error.$metadata = { httpStatusCode: 503 };
+            sendStub.rejects(error);
+
+            const result: any = await chai.expect(transport.sendCommand(testRequest)).to.be.rejected;
+
+            chai.assert.isTrue(isRetriableException(result));
+        });
+
+        it("should leave other errors unchanged", async () => {
+            const error: any = new Error(testMessage);
+            error.code = "ECONNRESET";
+            sendStub.rejects(error);
+
+            const result: any = await chai.expect(transport.sendCommand(testRequest)).to.be.rejected;
+
+            chai.assert.equal(result.code, "ECONNRESET");
+            chai.assert.isUndefined(result.statusCode);
+        });
+    });
+
+    describe("#getClient()", () => {
+        it("should return the client", () => {
+            chai.assert.equal(transport.getClient(), testClient);
+        });
+    });
+});
@@ -0,0 +1,43 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+import { EventEmitter } from "events";
+
+import { AbortSignalLike } from "../Cancellation";
+
+/**
+ * A minimal AbortController for tests, as the global one is not available in all supported versions of Node.js.
+ */
+export class TestAbortController {
+    private _emitter: EventEmitter = new EventEmitter();
+    private _signal = {
+        aborted: false,
+        reason: <any> undefined,
+        addEventListener: (type: "abort", listener: () => void) => this._emitter.on(type, listener),
+        removeEventListener: (type: "abort", listener: () => void) => this._emitter.removeListener(type, listener)
+    };
+
+    get signal(): AbortSignalLike {
+        return this._signal;
+    }
+
+    abort(reason?: any): void {
+        this._signal.aborted = true;
+        this._signal.reason = reason;
+        this._emitter.emit("abort");
+    }
+
+    getListenerCount(): number {
+        return this._emitter.listenerCount("abort");
+    }
+}
@@ -0,0 +1,42 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+import { AsyncHooksContextManager } from "@opentelemetry/context-async-hooks";
+import { BasicTracerProvider, InMemorySpanExporter, ReadableSpan, SimpleSpanProcessor } from "@opentelemetry/sdk-trace-base";
+
+let exporter: InMemorySpanExporter = null;
+
+/**
+ * Register a tracer provider exporting spans to memory, shared by all tests, and clear the spans exported so far.
+ * @returns The exporter holding the spans.
+ */
+export function resetTestSpanExporter(): InMemorySpanExporter {
+    if (exporter == null) {
+        exporter = new InMemorySpanExporter();
+        const provider: BasicTracerProvider = new BasicTracerProvider();
+        provider.addSpanProcessor(new SimpleSpanProcessor(exporter));
+        provider.register({ contextManager: new AsyncHooksContextManager().enable() });
+    }
+    exporter.reset();
+    return exporter;
+}
+
+/**
+ * Get the exported span of the given name.
+ * @param name The name of the span.
+ * @returns The last exported span of the given name, or undefined if there is none.
+ */
+export function getFinishedSpan(name: string): ReadableSpan {
+    const spans: ReadableSpan[] = exporter.getFinishedSpans().filter((span: ReadableSpan) => span.name === name);
+    return spans[spans.length - 1];
+}
@@ -0,0 +1,84 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+// Test environment imports
+import "mocha";
+
+import { SpanKind, SpanStatusCode } from "@opentelemetry/api";
+import { InMemorySpanExporter, ReadableSpan } from "@opentelemetry/sdk-trace-base";
+import * as chai from "chai";
+import * as chaiAsPromised from "chai-as-promised";
+
+import { fingerprintStatement, traceAsync, TraceSpan } from "../tracing/Tracing";
+import { getFinishedSpan, resetTestSpanExporter } from "./TestTracing";
+
+chai.use(chaiAsPromised);
+
+const testMessage: string = "foo";
+const testStatement: string = "SELECT * FROM foo WHERE a = ?";
+
+let exporter: InMemorySpanExporter;
+
+describe("Tracing", () => {
+
+    beforeEach(() => {
+        exporter = resetTestSpanExporter();
+    });
+
+    describe("#traceAsync()", () => {
+        it("should end a span with the given attributes once the function fulfills", async () => {
+            const result: number = await traceAsync("test", "client", { a: "b", c: undefined }, async (span: TraceSpan) => {
+                span.setAttribute("d", 1);
+                span.setAttribute("e", undefined);
+                return 5;
+            });
+
+            chai.assert.equal(result, 5);
+            const span: ReadableSpan = getFinishedSpan("test");
+            chai.assert.equal(span.kind, SpanKind.CLIENT);
+            chai.assert.deepEqual(span.attributes, { a: "b", d: 1 });
+            chai.assert.equal(span.status.code, SpanStatusCode.UNSET);
+        });
+
+        it("should record the error on the span when the function rejects", async () => {
+            await chai.expect(traceAsync("test", "internal", {}, async () => {
+                throw new Error(testMessage);
+            })).to.be.rejectedWith(Error, testMessage);
+
+            const span: ReadableSpan = getFinishedSpan("test");
+            chai.assert.equal(span.kind, SpanKind.INTERNAL);
+            chai.assert.equal(span.status.code, SpanStatusCode.ERROR);
+            chai.assert.equal(span.status.message, testMessage);
+            chai.assert.equal(span.events[0].name, "exception");
+        });
+
+        it("should make the span the parent of spans started while the function runs", async () => {
+            await traceAsync("parent", "internal", {}, async () => {
+                await new Promise(resolve => setImmediate(resolve));
+                await traceAsync("child", "internal", {}, async () => {});
+            });
+
+            chai.assert.equal(getFinishedSpan("child").parentSpanId, getFinishedSpan("parent").spanContext().spanId);
+        });
+    });
+
+    describe("#fingerprintStatement()", () => {
+        it("should return the same fingerprint for statements which only differ in whitespace", () => {
+            const fingerprint: string = fingerprintStatement(testStatement);
+            chai.assert.lengthOf(fingerprint, 16);
+            chai.assert.equal(fingerprintStatement(`  SELECT *\n  FROM foo\tWHERE a = ? `), fingerprint);
+            chai.assert.notEqual(fingerprintStatement("SELECT * FROM bar WHERE a = ?"), fingerprint);
+            chai.assert.isUndefined(fingerprintStatement(null));
+        });
+    });
+});
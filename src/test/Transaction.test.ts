@@ -28,12 +28,13 @@ import * as sinon from "sinon";
 import { Readable } from "stream";
 
 import { Communicator } from "../Communicator";
+import { DriverEventEmitter } from "../DriverEvents";
 import * as Errors from "../errors/Errors";
-import * as LogUtil from "../LogUtil";
 import { QldbHash } from "../QldbHash";
 import { Result } from "../Result";
 import { ResultStream } from "../ResultStream";
 import { Transaction } from "../Transaction";
+import { TestAbortController } from "./TestAbortController";
 import { expect } from "chai";
 
 chai.use(chaiAsPromised);
@@ -126,6 +127,33 @@ describe("Transaction", () => {
             sinon.assert.calledOnce(transactionInternalCloseSpy);
         });
 
+        it("should emit a transactionCommitted event with the commit digest when the commit succeeds", async () => {
+            const events: DriverEventEmitter = new DriverEventEmitter();
+            const listener = sandbox.spy();
+            events.on("transactionCommitted", listener);
+            transaction = new Transaction(mockCommunicator, testTransactionId, undefined, undefined, events);
+
+            await transaction.commit();
+            sinon.assert.calledOnce(listener);
+            sinon.assert.calledWith(listener, {
+                transactionId: testTransactionId,
+                commitDigest: testCommitTransactionResult.CommitDigest
+            });
+        });
+
+        it("should not emit a transactionCommitted event when the commit digests do not match", async () => {
+            const events: DriverEventEmitter = new DriverEventEmitter();
+            const listener = sandbox.spy();
+            events.on("transactionCommitted", listener);
+            transaction = new Transaction(mockCommunicator, testTransactionId, undefined, undefined, events);
+            mockCommunicator.commit = async () => {
+                return { TransactionId: testTransactionId, CommitDigest: testHash };
+            };
+
+            await chai.expect(transaction.commit()).to.be.rejected;
+            sinon.assert.notCalled(listener);
+        });
+
         it("should return a rejected promise when commit() was already called", async () => {
             const commitSpy = sandbox.spy(mockCommunicator, "commit");
             await transaction.commit();
@@ -193,7 +221,7 @@ describe("Transaction", () => {
                 throw new Error("foo2");
             };
             const isOccStub = sandbox.stub(Errors, "isOccConflictException");
-            const logSpy = sandbox.spy(LogUtil, "warn");
+            const logSpy = sandbox.spy(transaction["_logger"], "warn");
             isOccStub.returns(false);
             const commitSpy = sandbox.spy(mockCommunicator, "commit");
             const abortSpy = sandbox.spy(mockCommunicator, "abortTransaction");
@@ -217,6 +245,16 @@ describe("Transaction", () => {
             chai.assert.equal(result, mockResult);
         });
 
+        it("should reject with an AbortError without executing the statement when the signal is aborted", async () => {
+            const abortController: TestAbortController = new TestAbortController();
+            transaction = new Transaction(mockCommunicator, testTransactionId, undefined, abortController.signal);
+            abortController.abort();
+            const executeSpy = sandbox.spy(mockCommunicator, "executeStatement");
+
+            await chai.expect(transaction.execute(testStatement)).to.be.rejectedWith(Errors.AbortError);
+            sinon.assert.notCalled(executeSpy);
+        });
+
         it("should return a Result object when provided with a statement and parameters", async () => {
             Result.create = async () => {
                 return mockResult
@@ -265,6 +303,38 @@ describe("Transaction", () => {
         });
     });
 
+    describe("#executeAndMap()", () => {
+        it("should execute the statement with the parameters and map every row of the Result", async () => {
+            const mappedResult: Result<string> = <Result<string>><any> sandbox.mock(Result);
+            const mapper = (value: ionJs.dom.Value) => value.stringValue();
+            mockResult.map = () => {
+                return <any> mappedResult;
+            };
+            Result.create = async () => {
+                return mockResult;
+            };
+            const executeSpy = sandbox.spy(mockCommunicator, "executeStatement");
+            const mapSpy = sandbox.spy(mockResult, "map");
+            const result: Result<string> = await transaction.executeAndMap(testStatement, [5], { mapper: mapper });
+            sinon.assert.calledOnce(executeSpy);
+            sinon.assert.calledWith(executeSpy, testTransactionId, testStatement, sinon.match.array);
+            chai.assert.lengthOf(executeSpy.firstCall.args[2], 1);
+            sinon.assert.calledOnce(mapSpy);
+            sinon.assert.calledWith(mapSpy, mapper);
+            chai.assert.equal(result, mappedResult);
+        });
+
+        it("should reject with a TypeError when the mapper is not a function", async () => {
+            await chai.expect(transaction.executeAndMap(testStatement, [], { mapper: null })).to.be.rejectedWith(TypeError);
+        });
+
+        it("should reject with a TypeError when the parameters are not an array", async () => {
+            await chai.expect(
+                transaction.executeAndMap(testStatement, <any> 5, { mapper: (value: ionJs.dom.Value) => value })
+            ).to.be.rejectedWith(TypeError);
+        });
+    });
+
     describe("#executeAndStreamResults()", () => {
         it("should return a Stream object when provided with a statement", async () => {
             const sampleResultStreamObject: ResultStream = new ResultStream(
@@ -306,6 +376,30 @@ describe("Transaction", () => {
             sinon.assert.calledWith(executeSpy, testTransactionId, testStatement, []);
         });
 
+        it("should stop the unread stream listening to the signal when the transaction commits", async () => {
+            const abortController: TestAbortController = new TestAbortController();
+            transaction = new Transaction(mockCommunicator, testTransactionId, undefined, abortController.signal);
+
+            await transaction.executeAndStreamResults(testStatement);
+            chai.assert.equal(abortController.getListenerCount(), 1);
+            mockCommunicator.commit = async () => {
+                return { TransactionId: testTransactionId, CommitDigest: transaction["_txnHash"].getQldbHash() };
+            };
+            await transaction.commit();
+
+            chai.assert.equal(abortController.getListenerCount(), 0);
+        });
+
+        it("should stop the unread stream listening to the signal when the transaction aborts", async () => {
+            const abortController: TestAbortController = new TestAbortController();
+            transaction = new Transaction(mockCommunicator, testTransactionId, undefined, abortController.signal);
+
+            await transaction.executeAndStreamResults(testStatement);
+            await transaction.abort();
+
+            chai.assert.equal(abortController.getListenerCount(), 0);
+        });
+
         it("should call Communicator's executeStatement() twice when called twice", async () => {
             const executeSpy = sandbox.spy(mockCommunicator, "executeStatement");
             await transaction.executeAndStreamResults(testStatement);
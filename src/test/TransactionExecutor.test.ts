@@ -97,6 +97,20 @@ describe("TransactionExecutor", () => {
         });
     });
 
+    describe("#executeAndMap()", () => {
+        it("should return the Result of typed rows returned by the transaction", async () => {
+            const mapper = (value: any) => String(value);
+            mockTransaction.executeAndMap = async () => {
+                return <any> mockResult;
+            };
+            const transactionExecuteAndMapSpy = sandbox.spy(mockTransaction, "executeAndMap");
+            const result = await transactionExecutor.executeAndMap(testStatement, [1], { mapper: mapper });
+            chai.assert.equal(<any> result, mockResult);
+            sinon.assert.calledOnce(transactionExecuteAndMapSpy);
+            sinon.assert.calledWith(transactionExecuteAndMapSpy, testStatement, [1], { mapper: mapper });
+        });
+    });
+
     describe("#executeAndStreamResults()", () => {
         it("should return a Result object when provided with a statement", async () => {
             mockTransaction.executeAndStreamResults = async () => {
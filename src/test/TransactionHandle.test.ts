@@ -0,0 +1,195 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+// Test environment imports
+import "mocha";
+
+import * as chai from "chai";
+import * as chaiAsPromised from "chai-as-promised";
+import * as sinon from "sinon";
+
+import { TransactionClosedError } from "../errors/Errors";
+import { ContextLogger } from "../LogUtil";
+import { Result } from "../Result";
+import { Transaction } from "../Transaction";
+import { TransactionHandle } from "../TransactionHandle";
+
+chai.use(chaiAsPromised);
+const sandbox = sinon.createSandbox();
+
+const testAutoAbortMillis: number = 60000;
+const testMessage: string = "foo";
+const testStatement: string = "SELECT * FROM foo";
+const testTransactionId: string = "txnId";
+
+const mockResult: Result = <Result><any> sandbox.mock(Result);
+
+let handle: TransactionHandle;
+let mockTransaction: Transaction;
+let onClose: sinon.SinonSpy;
+
+describe("TransactionHandle", () => {
+
+    beforeEach(() => {
+        mockTransaction = <Transaction><any> {
+            abort: sandbox.stub().resolves(),
+            commit: sandbox.stub().resolves(),
+            execute: sandbox.stub().resolves(mockResult),
+            executeAndMap: sandbox.stub().resolves(mockResult),
+            executeAndStreamResults: sandbox.stub().resolves(),
+            getTransactionId: () => testTransactionId
+        };
+        onClose = sandbox.spy();
+        handle = new TransactionHandle(mockTransaction, testAutoAbortMillis, new ContextLogger(), onClose);
+    });
+
+    afterEach(async () => {
+        await handle.abort();
+        sandbox.restore();
+    });
+
+    describe("#commit()", () => {
+        it("should commit the transaction and then release its session", async () => {
+            await handle.commit();
+
+            sinon.assert.calledOnce(<sinon.SinonStub> mockTransaction.commit);
+            sinon.assert.calledOnce(onClose);
+            sinon.assert.calledWith(onClose, true, null);
+            chai.assert.isTrue(handle.isClosed());
+        });
+
+        it("should release the session with the error when the commit fails", async () => {
+            const error: Error = new Error(testMessage);
+            (<sinon.SinonStub> mockTransaction.commit).rejects(error);
+
+            await chai.expect(handle.commit()).to.be.rejectedWith(testMessage);
+
+            sinon.assert.calledOnce(onClose);
+            sinon.assert.calledWith(onClose, false, error);
+        });
+
+        it("should reject with a TransactionClosedError when already closed", async () => {
+            await handle.abort();
+
+            await chai.expect(handle.commit()).to.be.rejectedWith(TransactionClosedError);
+            sinon.assert.notCalled(<sinon.SinonStub> mockTransaction.commit);
+            sinon.assert.calledOnce(onClose);
+        });
+    });
+
+    describe("#abort()", () => {
+        it("should abort the transaction and then release its session once", async () => {
+            await handle.abort();
+            await handle.abort();
+
+            sinon.assert.calledOnce(<sinon.SinonStub> mockTransaction.abort);
+            sinon.assert.calledOnce(onClose);
+            sinon.assert.calledWith(onClose, false, null);
+        });
+
+        it("should release the session when aborting fails", async () => {
+            (<sinon.SinonStub> mockTransaction.abort).rejects(new Error(testMessage));
+
+            await chai.expect(handle.abort()).to.be.rejectedWith(testMessage);
+
+            sinon.assert.calledOnce(onClose);
+        });
+
+        it("should release the session with the error when aborting invalidates it", async () => {
+            const error: Error = new Error(testMessage);
+            (<any> error).code = "InvalidSessionException";
+            (<sinon.SinonStub> mockTransaction.abort).rejects(error);
+
+            await chai.expect(handle.abort()).to.be.rejectedWith(testMessage);
+
+            sinon.assert.calledOnce(onClose);
+            sinon.assert.calledWith(onClose, false, error);
+        });
+    });
+
+    describe("#execute()", () => {
+        it("should execute the statement in the transaction", async () => {
+            const result: Result = await handle.execute(testStatement, 1, 2);
+
+            chai.assert.equal(result, mockResult);
+            sinon.assert.calledWith(<sinon.SinonStub> mockTransaction.execute, testStatement, 1, 2);
+            sinon.assert.notCalled(onClose);
+        });
+
+        it("should keep the transaction open when a statement fails", async () => {
+            (<sinon.SinonStub> mockTransaction.execute).rejects(new Error(testMessage));
+
+            await chai.expect(handle.execute(testStatement)).to.be.rejectedWith(testMessage);
+
+            chai.assert.isFalse(handle.isClosed());
+            sinon.assert.notCalled(onClose);
+        });
+
+        it("should release the session when it was invalidated", async () => {
+            const error: Error = new Error(testMessage);
+            (<any> error).code = "InvalidSessionException";
+            (<sinon.SinonStub> mockTransaction.execute).rejects(error);
+
+            await chai.expect(handle.execute(testStatement)).to.be.rejectedWith(testMessage);
+
+            chai.assert.isTrue(handle.isClosed());
+            sinon.assert.calledOnce(onClose);
+            sinon.assert.calledWith(onClose, false, error);
+        });
+
+        it("should reject with a TransactionClosedError when already closed", async () => {
+            await handle.commit();
+
+            await chai.expect(handle.execute(testStatement)).to.be.rejectedWith(TransactionClosedError);
+            sinon.assert.notCalled(<sinon.SinonStub> mockTransaction.execute);
+        });
+    });
+
+    describe("#executeAndStreamResults()", () => {
+        it("should execute the statement in the transaction", async () => {
+            await handle.executeAndStreamResults(testStatement, 1);
+
+            sinon.assert.calledWith(<sinon.SinonStub> mockTransaction.executeAndStreamResults, testStatement, 1);
+        });
+    });
+
+    describe("#getTransactionId()", () => {
+        it("should return the ID of the transaction", () => {
+            chai.assert.equal(handle.getTransactionId(), testTransactionId);
+        });
+    });
+
+    describe("#autoAbort", () => {
+        it("should abort the transaction once autoAbortMillis have passed", async () => {
+            const autoAbortingHandle: TransactionHandle =
+                new TransactionHandle(mockTransaction, 5, new ContextLogger(), onClose);
+
+            await new Promise((resolve) => setTimeout(resolve, 20));
+
+            chai.assert.isTrue(autoAbortingHandle.isClosed());
+            sinon.assert.calledOnce(<sinon.SinonStub> mockTransaction.abort);
+            sinon.assert.calledWith(onClose, false, null);
+        });
+
+        it("should not abort a committed transaction", async () => {
+            const autoAbortingHandle: TransactionHandle =
+                new TransactionHandle(mockTransaction, 5, new ContextLogger(), onClose);
+            await autoAbortingHandle.commit();
+
+            await new Promise((resolve) => setTimeout(resolve, 20));
+
+            sinon.assert.notCalled(<sinon.SinonStub> mockTransaction.abort);
+            sinon.assert.calledOnce(onClose);
+        });
+    });
+});
@@ -0,0 +1,65 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+// Test environment imports
+import "mocha";
+
+import * as chai from "chai";
+
+import { TransactionExecutor } from "../TransactionExecutor";
+import { findTransactionScope, runInTransactionScope } from "../TransactionScope";
+
+const driver: object = {};
+const otherDriver: object = {};
+const executor: TransactionExecutor = <TransactionExecutor><any> {};
+const otherExecutor: TransactionExecutor = <TransactionExecutor><any> {};
+
+describe("TransactionScope", () => {
+
+    describe("#findTransactionScope()", () => {
+        it("should return null outside of a transaction lambda", () => {
+            chai.assert.isNull(findTransactionScope(driver));
+        });
+
+        it("should return the scope across asynchronous calls of the lambda", async () => {
+            const executorFound: TransactionExecutor = await runInTransactionScope(driver, executor, async () => {
+                await new Promise((resolve) => setTimeout(resolve, 1));
+                return findTransactionScope(driver).executor;
+            });
+
+            chai.assert.equal(executorFound, executor);
+            chai.assert.isNull(findTransactionScope(driver));
+        });
+
+        it("should return null within a lambda of another driver", () => {
+            runInTransactionScope(otherDriver, otherExecutor, () => {
+                chai.assert.isNull(findTransactionScope(driver));
+            });
+        });
+
+        it("should return the scope of the driver through a lambda of another driver", () => {
+            runInTransactionScope(driver, executor, () => {
+                runInTransactionScope(otherDriver, otherExecutor, () => {
+                    chai.assert.equal(findTransactionScope(driver).executor, executor);
+                    chai.assert.equal(findTransactionScope(otherDriver).executor, otherExecutor);
+                });
+            });
+        });
+    });
+
+    describe("#runInTransactionScope()", () => {
+        it("should return the value returned by the lambda", () => {
+            chai.assert.equal(runInTransactionScope(driver, executor, () => 42), 42);
+        });
+    });
+});
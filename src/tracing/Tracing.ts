@@ -0,0 +1,147 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+import { createHash } from "crypto";
+
+import { version } from "../../package.json";
+
+/**
+ * The values of the attributes of a span. Undefined values are omitted.
+ */
+export interface SpanAttributes {
+    [key: string]: string | number | boolean;
+}
+
+/**
+ * The subset of an OpenTelemetry span used by the driver.
+ */
+export interface TraceSpan {
+    setAttribute(key: string, value: string | number | boolean): void;
+}
+
+/**
+ * The kind of a span: "client" for requests sent to QLDB, "internal" for everything else.
+ */
+export type TraceSpanKind = "client" | "internal";
+
+const tracerName: string = "amazon-qldb-driver-nodejs";
+
+const noopSpan: TraceSpan = {
+    setAttribute: () => {}
+};
+
+/**
+ * The module of the OpenTelemetry API and the types of its spans. Only the types are imported statically, so that the
+ * package stays optional.
+ */
+type OpenTelemetryApi = typeof import("@opentelemetry/api");
+type OpenTelemetrySpan = import("@opentelemetry/api").Span;
+type OpenTelemetrySpanOptions = import("@opentelemetry/api").SpanOptions;
+type OpenTelemetryTracer = import("@opentelemetry/api").Tracer;
+
+/**
+ * The OpenTelemetry API, or null if the optional `@opentelemetry/api` package is not installed.
+ */
+const openTelemetryApi: OpenTelemetryApi = _loadOpenTelemetryApi();
+
+/**
+ * Run a function within a new span, which becomes the parent of spans started while the function runs. The span ends
+ * once the promise returned by the function settles, and records the error if it rejects. If the OpenTelemetry API is
+ * not installed, the function runs without a span. If no tracer provider is registered, the OpenTelemetry API passes
+ * a non-recording span, which discards whatever is recorded on it.
+ * @param name The name of the span.
+ * @param kind The kind of the span.
+ * @param attributes The attributes of the span.
+ * @param fn The function to run, passed the span so that it can add attributes known only once it has run.
+ * @returns Promise which fulfills or rejects as the promise returned by the function.
+ */
+export function traceAsync<T>(
+    name: string,
+    kind: TraceSpanKind,
+    attributes: SpanAttributes,
+    fn: (span: TraceSpan) => Promise<T>
+): Promise<T> {
+    if (openTelemetryApi == null) {
+        return fn(noopSpan);
+    }
+    const spanOptions: OpenTelemetrySpanOptions = {
+        kind: (kind === "client") ? openTelemetryApi.SpanKind.CLIENT : openTelemetryApi.SpanKind.INTERNAL,
+        attributes: _omitUndefined(attributes)
+    };
+    const tracer: OpenTelemetryTracer = openTelemetryApi.trace.getTracer(tracerName, version);
+    return tracer.startActiveSpan(name, spanOptions, (span: OpenTelemetrySpan) => {
+        const tracedSpan: TraceSpan = {
+            setAttribute: (key: string, value: string | number | boolean) => {
+                if (value !== undefined) {
+                    span.setAttribute(key, value);
+                }
+            }
+        };
+        let promise: Promise<T>;
+        try {
+            promise = Promise.resolve(fn(tracedSpan));
+        } catch (e) {
+            promise = Promise.reject(e);
+        }
+        return promise.then((result: T) => {
+            span.end();
+            return result;
+        }, (e: Error) => {
+            span.recordException(e);
+            span.setStatus({ code: openTelemetryApi.SpanStatusCode.ERROR, message: e.message });
+            span.end();
+            throw e;
+        });
+    });
+}
+
+/**
+ * Compute a fingerprint of a statement, identifying statements which only differ in whitespace without exposing
+ * their text. Parameters are passed separately from the statement, so their values do not affect the fingerprint.
+ * @param statement The statement.
+ * @returns The first 16 hexadecimal characters of the SHA-256 hash of the normalized statement.
+ */
+export function fingerprintStatement(statement: string): string {
+    if (statement == null) {
+        return undefined;
+    }
+    const normalizedStatement: string = statement.trim().replace(/\s+/g, " ");
+    return createHash("sha256").update(normalizedStatement).digest("hex").substring(0, 16);
+}
+
+/**
+ * Load the optional OpenTelemetry API.
+ * @returns The OpenTelemetry API, or null if it is not installed.
+ */
+function _loadOpenTelemetryApi(): OpenTelemetryApi {
+    try {
+        return require("@opentelemetry/api");
+    } catch (e) {
+        return null;
+    }
+}
+
+/**
+ * Remove the attributes with undefined values, which OpenTelemetry does not accept.
+ * @param attributes The attributes.
+ * @returns The attributes with a defined value.
+ */
+function _omitUndefined(attributes: SpanAttributes): SpanAttributes {
+    const definedAttributes: SpanAttributes = {};
+    Object.keys(attributes).forEach((key: string) => {
+        if (attributes[key] !== undefined) {
+            definedAttributes[key] = attributes[key];
+        }
+    });
+    return definedAttributes;
+}
@@ -0,0 +1,37 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+import { SendCommandRequest, SendCommandResult } from "aws-sdk/clients/qldbsession";
+
+/**
+ * Sends the commands of the QLDB session protocol on behalf of a {@linkcode QldbDriver}. The driver uses an
+ * {@linkcode SdkV2Transport} by default. A client of the AWS SDK for JavaScript v3 can be used with an
+ * {@linkcode SdkV3Transport}, and any other implementation can be passed as the `transport` option of the driver:
+ *
+ * ```
+ * const transport: QldbTransport = {
+ *     sendCommand: (request: SendCommandRequest) => myHttpClient.post("/SendCommand", request)
+ * };
+ * const qldbDriver: QldbDriver = new QldbDriver("your-ledger-name", { transport: transport });
+ * ```
+ */
+export interface QldbTransport {
+    /**
+     * Send a command to QLDB. The driver retries failed commands itself, so implementations should not retry them.
+     * @param request The command.
+     * @returns Promise which fulfills with the result of the command. Rejects with an error carrying the error code
+     *          returned by QLDB, e.g. "OccConflictException", as its `code`, and the HTTP status code of the response,
+     *          if any, as its `statusCode`, so that the driver can tell which errors to retry.
+     */
+    sendCommand(request: SendCommandRequest): Promise<SendCommandResult>;
+}
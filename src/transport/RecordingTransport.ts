@@ -0,0 +1,98 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+import { SendCommandRequest, SendCommandResult } from "aws-sdk/clients/qldbsession";
+import { writeFileSync } from "fs";
+
+import { QldbTransport } from "./QldbTransport";
+import { normalizeRequest, normalizeResult, TransportExchange, TransportFixture } from "./TransportFixture";
+
+/**
+ * A {@linkcode QldbTransport} recording the commands sent through another transport, and their results, into a
+ * {@linkcode TransportFixture} which a {@linkcode ReplayTransport} can serve back:
+ *
+ * ```
+ * const transport: RecordingTransport = new RecordingTransport(new SdkV2Transport(new QLDBSession()));
+ * const qldbDriver: QldbDriver = new QldbDriver("your-ledger-name", { transport: transport });
+ * await qldbDriver.executeLambda((txn: TransactionExecutor) => txn.execute("SELECT * FROM Person"));
+ * transport.saveFixture("test/fixtures/selectPerson.json");
+ * ```
+ *
+ * Commands are recorded in the order they are sent.
+ */
+export class RecordingTransport implements QldbTransport {
+    private _transport: QldbTransport;
+    private _exchanges: TransportExchange[];
+    private _sessionTokens: Map<string, string>;
+
+    /**
+     * Creates a RecordingTransport.
+     * @param transport The transport the commands are sent through.
+     */
+    constructor(transport: QldbTransport) {
+        this._transport = transport;
+        this._exchanges = [];
+        this._sessionTokens = new Map();
+    }
+
+    /**
+     * @returns The commands recorded so far, with their results.
+     */
+    getFixture(): TransportFixture {
+        return { exchanges: this._exchanges.slice() };
+    }
+
+    /**
+     * Write the commands recorded so far to a JSON file, to be loaded by {@linkcode ReplayTransport.fromFile}.
+     * @param filePath The path of the file.
+     */
+    saveFixture(filePath: string): void {
+        writeFileSync(filePath, JSON.stringify(this.getFixture(), null, 2) + "\n");
+    }
+
+    /**
+     * Send a command through the wrapped transport, recording it with its result or error.
+     * @param request The command.
+     * @returns Promise which fulfills with the result of the command.
+     */
+    async sendCommand(request: SendCommandRequest): Promise<SendCommandResult> {
+        const exchange: TransportExchange = {
+            request: normalizeRequest(request, (sessionToken: string) => this._mapSessionToken(sessionToken))
+        };
+        this._exchanges.push(exchange);
+        try {
+            const result: SendCommandResult = await this._transport.sendCommand(request);
+            exchange.result = normalizeResult(result, (sessionToken: string) => {
+                const placeholder: string = `session-${this._sessionTokens.size + 1}`;
+                this._sessionTokens.set(sessionToken, placeholder);
+                return placeholder;
+            });
+            return result;
+        } catch (e) {
+            exchange.error = {
+                code: e.code,
+                message: e.message,
+                statusCode: e.statusCode,
+                retryable: e.retryable
+            };
+            throw e;
+        }
+    }
+
+    /**
+     * @returns The placeholder of a session token, or the token itself if it was not returned by a recorded command.
+     */
+    private _mapSessionToken(sessionToken: string): string {
+        return this._sessionTokens.has(sessionToken) ? this._sessionTokens.get(sessionToken) : sessionToken;
+    }
+}
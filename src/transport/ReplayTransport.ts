@@ -0,0 +1,128 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+import { AWSError } from "aws-sdk";
+import { SendCommandRequest, SendCommandResult } from "aws-sdk/clients/qldbsession";
+import { readFileSync } from "fs";
+
+import { createServiceError } from "../simulator/ServiceError";
+import { QldbTransport } from "./QldbTransport";
+import {
+    normalizeRequest,
+    restoreResult,
+    toCanonicalJson,
+    TransportExchange,
+    TransportFixture
+} from "./TransportFixture";
+
+/**
+ * The key of the commands starting sessions, which carry no session token.
+ */
+const START_SESSION_KEY: string = "";
+
+/**
+ * A {@linkcode QldbTransport} serving back the results recorded in a {@linkcode TransportFixture} by a
+ * {@linkcode RecordingTransport}, so that code using the driver can be tested offline and deterministically:
+ *
+ * ```
+ * const transport: ReplayTransport = ReplayTransport.fromFile("test/fixtures/selectPerson.json");
+ * const qldbDriver: QldbDriver = new QldbDriver("your-ledger-name", { transport: transport });
+ * await qldbDriver.executeLambda((txn: TransactionExecutor) => txn.execute("SELECT * FROM Person"));
+ * transport.assertAllReplayed();
+ * ```
+ *
+ * The commands of each session must be sent in the order they were recorded, while the commands of different sessions
+ * may interleave differently. A command which does not match the next command recorded for its session is rejected
+ * with an Error describing both, and is not recorded as replayed.
+ */
+export class ReplayTransport implements QldbTransport {
+    private _pendingExchanges: Map<string, TransportExchange[]>;
+
+    /**
+     * Creates a ReplayTransport.
+     * @param fixture The recorded commands.
+     */
+    constructor(fixture: TransportFixture) {
+        this._pendingExchanges = new Map();
+        fixture.exchanges.forEach((exchange: TransportExchange) => {
+            const key: string = _getSessionKey(exchange.request);
+            if (!this._pendingExchanges.has(key)) {
+                this._pendingExchanges.set(key, []);
+            }
+            this._pendingExchanges.get(key).push(exchange);
+        });
+    }
+
+    /**
+     * Create a ReplayTransport serving the commands of a file written by {@linkcode RecordingTransport.saveFixture}.
+     * @param filePath The path of the file.
+     * @returns The transport.
+     */
+    static fromFile(filePath: string): ReplayTransport {
+        return new ReplayTransport(JSON.parse(readFileSync(filePath, "utf8")));
+    }
+
+    /**
+     * @returns The number of recorded commands which have not been replayed yet.
+     */
+    getPendingExchangeCount(): number {
+        let count: number = 0;
+        this._pendingExchanges.forEach((exchanges: TransportExchange[]) => count += exchanges.length);
+        return count;
+    }
+
+    /**
+     * Check that every recorded command has been replayed.
+     * @throws Error listing the commands which have not been replayed.
+     */
+    assertAllReplayed(): void {
+        const pending: SendCommandRequest[] = [];
+        this._pendingExchanges.forEach((exchanges: TransportExchange[]) => {
+            exchanges.forEach((exchange: TransportExchange) => pending.push(exchange.request));
+        });
+        if (pending.length > 0) {
+            throw new Error(`${pending.length} recorded requests were not replayed: ${toCanonicalJson(pending)}`);
+        }
+    }
+
+    /**
+     * Serve the recorded result of a command.
+     * @param request The command.
+     * @returns Promise which fulfills with the recorded result, or rejects with the recorded error.
+     * @throws Error when the command does not match the next command recorded for its session.
+     */
+    async sendCommand(request: SendCommandRequest): Promise<SendCommandResult> {
+        const actual: string = toCanonicalJson(normalizeRequest(request, (sessionToken: string) => sessionToken));
+        const key: string = _getSessionKey(request);
+        const exchanges: TransportExchange[] = this._pendingExchanges.get(key);
+        if (exchanges == undefined || exchanges.length === 0) {
+            throw new Error(`Unexpected request ${actual}: no more requests were recorded for this session.`);
+        }
+        const expected: string = toCanonicalJson(exchanges[0].request);
+        if (actual !== expected) {
+            throw new Error(`Unexpected request ${actual}: expected ${expected}.`);
+        }
+        const exchange: TransportExchange = exchanges.shift();
+        if (exchange.error != null) {
+            const error: AWSError = createServiceError(exchange.error.code, exchange.error.message);
+            error.statusCode = exchange.error.statusCode;
+            error.retryable = exchange.error.retryable;
+            throw error;
+        }
+        return restoreResult(exchange.result);
+    }
+}
+
+function _getSessionKey(request: SendCommandRequest): string {
+    return (request.StartSession != null) ? START_SESSION_KEY : request.SessionToken;
+}
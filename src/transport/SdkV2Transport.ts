@@ -0,0 +1,49 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+import { QLDBSession } from "aws-sdk";
+import { SendCommandRequest, SendCommandResult } from "aws-sdk/clients/qldbsession";
+
+import { QldbTransport } from "./QldbTransport";
+
+/**
+ * A {@linkcode QldbTransport} sending commands with a `QLDBSession` client of the AWS SDK for JavaScript v2.
+ */
+export class SdkV2Transport implements QldbTransport {
+    private _client: QLDBSession;
+
+    /**
+     * Creates an SdkV2Transport.
+     * @param client The client. The driver retries failed commands itself, so the `maxRetries` of the client should be
+     *               0.
+     */
+    constructor(client: QLDBSession) {
+        this._client = client;
+    }
+
+    /**
+     * @returns The client commands are sent with.
+     */
+    getClient(): QLDBSession {
+        return this._client;
+    }
+
+    /**
+     * Send a command to QLDB.
+     * @param request The command.
+     * @returns Promise which fulfills with the result of the command.
+     */
+    sendCommand(request: SendCommandRequest): Promise<SendCommandResult> {
+        return this._client.sendCommand(request).promise();
+    }
+}
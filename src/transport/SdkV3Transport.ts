@@ -0,0 +1,120 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+import { SendCommandRequest, SendCommandResult } from "aws-sdk/clients/qldbsession";
+
+import { QldbTransport } from "./QldbTransport";
+
+/**
+ * The subset of a `QLDBSessionClient` of the AWS SDK for JavaScript v3 used by {@linkcode SdkV3Transport}.
+ */
+export interface QldbSessionClientV3 {
+    send(command: any): Promise<any>;
+}
+
+/**
+ * A {@linkcode QldbTransport} sending commands with a `QLDBSessionClient` of the AWS SDK for JavaScript v3, from the
+ * optional `@aws-sdk/client-qldb-session` package:
+ *
+ * ```
+ * import { QLDBSessionClient } from "@aws-sdk/client-qldb-session";
+ *
+ * const client: QLDBSessionClient = new QLDBSessionClient({ region: "us-east-1", maxAttempts: 1 });
+ * const qldbDriver: QldbDriver = new QldbDriver("your-ledger-name", {
+ *     transport: new SdkV3Transport(client),
+ *     maxConcurrentTransactions: 10
+ * });
+ * ```
+ *
+ * Errors returned by the client carry their error code as `name` and their HTTP status code in `$metadata`. They are
+ * given the `code` and `statusCode` of the errors of the AWS SDK for JavaScript v2, which the driver relies on to tell
+ * which errors to retry.
+ */
+export class SdkV3Transport implements QldbTransport {
+    private _client: QldbSessionClientV3;
+    private _sendCommandCommand: new (input: SendCommandRequest) => any;
+
+    /**
+     * Creates an SdkV3Transport.
+     * @param client The client. The driver retries failed commands itself, so the `maxAttempts` of the client should
+     *               be 1.
+     * @param sendCommandCommand The `SendCommandCommand` class of `@aws-sdk/client-qldb-session`. Defaults to the class
+     *                           of the installed package, and only needs to be passed if the package cannot be
+     *                           resolved from the driver, e.g. when bundled.
+     * @throws Error if `sendCommandCommand` is not passed and the package is not installed.
+     */
+    constructor(client: QldbSessionClientV3, sendCommandCommand?: new (input: SendCommandRequest) => any) {
+        this._client = client;
+        this._sendCommandCommand = (sendCommandCommand == null) ? _loadSendCommandCommand() : sendCommandCommand;
+    }
+
+    /**
+     * @returns The client commands are sent with.
+     */
+    getClient(): QldbSessionClientV3 {
+        return this._client;
+    }
+
+    /**
+     * Send a command to QLDB.
+     * @param request The command.
+     * @returns Promise which fulfills with the result of the command, without the response metadata added by the
+     *          client.
+     */
+    async sendCommand(request: SendCommandRequest): Promise<SendCommandResult> {
+        let output: any;
+        try {
+            output = await this._client.send(new this._sendCommandCommand(request));
+        } catch (e) {
+            throw _toSdkV2Error(e);
+        }
+        const result: any = { ...output };
+        delete result.$metadata;
+        return result;
+    }
+}
+
+/**
+ * Give an error returned by QLDB through a client of the AWS SDK for JavaScript v3 the `code` and `statusCode` fields
+ * of the errors of the AWS SDK for JavaScript v2. Other errors, e.g. socket errors, are returned as they are.
+ * @param e The error.
+ * @returns The same error.
+ */
+function _toSdkV2Error(e: any): any {
+    if (e == null || typeof e !== "object" || e.$metadata == null) {
+        return e;
+    }
+    if (e.code == null) {
+        e.code = e.name;
+    }
+    if (e.statusCode == null) {
+        e.statusCode = e.$metadata.httpStatusCode;
+    }
+    return e;
+}
+
+/**
+ * Load the `SendCommandCommand` class of the optional `@aws-sdk/client-qldb-session` package.
+ * @returns The class.
+ * @throws Error if the package is not installed.
+ */
+function _loadSendCommandCommand(): new (input: SendCommandRequest) => any {
+    try {
+        return require("@aws-sdk/client-qldb-session").SendCommandCommand;
+    } catch (e) {
+        throw new Error(
+            "The @aws-sdk/client-qldb-session package is required to use SdkV3Transport. Please install it, or pass " +
+            "its SendCommandCommand class to the constructor, and retry."
+        );
+    }
+}
@@ -0,0 +1,186 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+import { CommitDigest, Page, SendCommandRequest, SendCommandResult, ValueHolder } from "aws-sdk/clients/qldbsession";
+import { dumpBinary, dumpText, load } from "ion-js";
+
+/**
+ * An error returned by QLDB, as recorded in a {@linkcode TransportFixture}.
+ */
+export interface RecordedError {
+    code: string;
+    message: string;
+    statusCode?: number;
+    retryable?: boolean;
+}
+
+/**
+ * A command sent to QLDB, with either its result or the error returned for it.
+ */
+export interface TransportExchange {
+    request: SendCommandRequest;
+    result?: SendCommandResult;
+    error?: RecordedError;
+}
+
+/**
+ * The commands sent by a driver through a {@linkcode RecordingTransport}, to be served back by a
+ * {@linkcode ReplayTransport}. The fixture is normalised to be stored as JSON and to compare equal across recordings:
+ *
+ * - Ion values of parameters and results are written as Ion text.
+ * - Commit digests are written as base64 strings.
+ * - Session tokens are replaced by "session-1", "session-2", etc., in the order the sessions were started.
+ */
+export interface TransportFixture {
+    exchanges: TransportExchange[];
+}
+
+/**
+ * Normalise a command to be recorded in, or compared to, a {@linkcode TransportFixture}.
+ * @param request The command.
+ * @param mapSessionToken The function replacing the session token of the command.
+ * @returns A normalised copy of the command.
+ */
+export function normalizeRequest(
+    request: SendCommandRequest,
+    mapSessionToken: (sessionToken: string) => string
+): SendCommandRequest {
+    const normalized: SendCommandRequest = _copy(request);
+    if (normalized.SessionToken != null) {
+        normalized.SessionToken = mapSessionToken(normalized.SessionToken);
+    }
+    if (normalized.ExecuteStatement != null && normalized.ExecuteStatement.Parameters != null) {
+        normalized.ExecuteStatement.Parameters = request.ExecuteStatement.Parameters.map(_toIonText);
+    }
+    if (normalized.CommitTransaction != null) {
+        normalized.CommitTransaction.CommitDigest = _toBase64(request.CommitTransaction.CommitDigest);
+    }
+    return normalized;
+}
+
+/**
+ * Normalise the result of a command to be recorded in a {@linkcode TransportFixture}.
+ * @param result The result.
+ * @param mapSessionToken The function replacing the session token of a started session.
+ * @returns A normalised copy of the result.
+ */
+export function normalizeResult(
+    result: SendCommandResult,
+    mapSessionToken: (sessionToken: string) => string
+): SendCommandResult {
+    const normalized: SendCommandResult = _copy(result);
+    if (normalized.StartSession != null && normalized.StartSession.SessionToken != null) {
+        normalized.StartSession.SessionToken = mapSessionToken(normalized.StartSession.SessionToken);
+    }
+    if (normalized.ExecuteStatement != null && normalized.ExecuteStatement.FirstPage != null) {
+        normalized.ExecuteStatement.FirstPage = _mapPage(result.ExecuteStatement.FirstPage, _toIonText);
+    }
+    if (normalized.FetchPage != null && normalized.FetchPage.Page != null) {
+        normalized.FetchPage.Page = _mapPage(result.FetchPage.Page, _toIonText);
+    }
+    if (normalized.CommitTransaction != null && normalized.CommitTransaction.CommitDigest != null) {
+        normalized.CommitTransaction.CommitDigest = _toBase64(result.CommitTransaction.CommitDigest);
+    }
+    return normalized;
+}
+
+/**
+ * Restore a result recorded in a {@linkcode TransportFixture} to the shape returned by QLDB, with Ion values and commit
+ * digests as Ion binary.
+ * @param result The recorded result.
+ * @returns A restored copy of the result.
+ */
+export function restoreResult(result: SendCommandResult): SendCommandResult {
+    const restored: SendCommandResult = _copy(result);
+    if (restored.ExecuteStatement != null && restored.ExecuteStatement.FirstPage != null) {
+        restored.ExecuteStatement.FirstPage = _mapPage(result.ExecuteStatement.FirstPage, _toIonBinary);
+    }
+    if (restored.FetchPage != null && restored.FetchPage.Page != null) {
+        restored.FetchPage.Page = _mapPage(result.FetchPage.Page, _toIonBinary);
+    }
+    if (restored.CommitTransaction != null && restored.CommitTransaction.CommitDigest != null) {
+        restored.CommitTransaction.CommitDigest = Buffer.from(<string> result.CommitTransaction.CommitDigest, "base64");
+    }
+    return restored;
+}
+
+/**
+ * Serialise a value to JSON with the fields of objects sorted, so that normalised commands built in different orders
+ * compare equal.
+ * @param value The value.
+ * @returns The JSON text.
+ */
+export function toCanonicalJson(value: any): string {
+    return JSON.stringify(value, (key: string, fieldValue: unknown) => {
+        if (fieldValue == null || typeof fieldValue !== "object" || Array.isArray(fieldValue)) {
+            return fieldValue;
+        }
+        const fields: { [key: string]: unknown } = <{ [key: string]: unknown }> fieldValue;
+        const sorted: { [key: string]: unknown } = {};
+        Object.keys(fields).sort().forEach((fieldName: string) => sorted[fieldName] = fields[fieldName]);
+        return sorted;
+    });
+}
+
+/**
+ * Deep copy the plain objects and arrays of a command or result, keeping binary values as they are.
+ */
+function _copy<T>(value: T): T {
+    return <T> _copyValue(value);
+}
+
+function _copyValue(value: unknown): unknown {
+    if (value == null || typeof value !== "object" || value instanceof Uint8Array) {
+        return value;
+    }
+    if (Array.isArray(value)) {
+        return value.map(_copyValue);
+    }
+    const fields: { [key: string]: unknown } = <{ [key: string]: unknown }> value;
+    const copy: { [key: string]: unknown } = {};
+    Object.keys(fields).forEach((key: string) => copy[key] = _copyValue(fields[key]));
+    return copy;
+}
+
+function _mapPage(page: Page, mapValue: (valueHolder: ValueHolder) => ValueHolder): Page {
+    const mapped: Page = _copy(page);
+    if (page.Values != null) {
+        mapped.Values = page.Values.map(mapValue);
+    }
+    return mapped;
+}
+
+function _toIonText(valueHolder: ValueHolder): ValueHolder {
+    if (valueHolder.IonBinary == null) {
+        return { IonText: valueHolder.IonText };
+    }
+    return { IonText: dumpText(load(_toBytes(valueHolder.IonBinary))) };
+}
+
+function _toIonBinary(valueHolder: ValueHolder): ValueHolder {
+    if (valueHolder.IonText == null) {
+        return { IonBinary: valueHolder.IonBinary };
+    }
+    return { IonBinary: Buffer.from(dumpBinary(load(valueHolder.IonText))) };
+}
+
+function _toBase64(blob: CommitDigest): string {
+    return (typeof blob === "string") ? blob : Buffer.from(_toBytes(blob)).toString("base64");
+}
+
+function _toBytes(blob: CommitDigest): Uint8Array {
+    if (typeof blob === "string") {
+        return Buffer.from(blob, "base64");
+    }
+    return <Uint8Array> blob;
+}